@@ -76,6 +76,10 @@ CREATE INDEX IF NOT EXISTS idx_rag_documents_index_name ON rag_documents(index_n
 -- RAG Chunks
 CREATE INDEX IF NOT EXISTS idx_rag_chunks_document_id ON rag_chunks(document_id);
 CREATE INDEX IF NOT EXISTS idx_rag_chunks_chunk_index ON rag_chunks(chunk_index);
+CREATE INDEX IF NOT EXISTS idx_rag_chunks_search_chunk_id ON rag_chunks(search_chunk_id);
+CREATE INDEX IF NOT EXISTS idx_rag_chunks_content_hash ON rag_chunks(document_id, content_hash);
+-- pgvector store: full-text (keyword) search; the store creates its embedding table and ANN index itself
+CREATE INDEX IF NOT EXISTS idx_rag_chunks_content_fts ON rag_chunks USING gin (to_tsvector('english', content));
 
 -- Standards
 CREATE INDEX IF NOT EXISTS idx_standards_category ON standards(category);
@@ -88,12 +92,17 @@ CREATE INDEX IF NOT EXISTS idx_standards_is_active ON standards(is_active);
 -- Chat Sessions
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_project_id ON chat_sessions(project_id);
 CREATE INDEX IF NOT EXISTS idx_chat_sessions_created_at ON chat_sessions(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_updated ON chat_sessions(user_id, updated_at DESC) WHERE project_id IS NULL;
 
 -- Chat Messages
 CREATE INDEX IF NOT EXISTS idx_chat_messages_session_id ON chat_messages(session_id);
 CREATE INDEX IF NOT EXISTS idx_chat_messages_role ON chat_messages(role);
 CREATE INDEX IF NOT EXISTS idx_chat_messages_created_at ON chat_messages(created_at);
 
+-- Chat Message Feedback
+CREATE INDEX IF NOT EXISTS idx_chat_message_feedback_session_id ON chat_message_feedback(session_id);
+CREATE INDEX IF NOT EXISTS idx_chat_message_feedback_rating ON chat_message_feedback(rating, created_at DESC);
+
 -- ====================================================
 -- SYSTEM INDEXES
 -- ====================================================
@@ -108,6 +117,16 @@ CREATE INDEX IF NOT EXISTS idx_mcp_connectors_is_active ON mcp_connectors(is_act
 CREATE INDEX IF NOT EXISTS idx_rft_templates_category ON rft_templates(category);
 CREATE INDEX IF NOT EXISTS idx_rft_templates_is_active ON rft_templates(is_active);
 
+-- Jobs (worker claim query, per-resource de-duplication, jobs list)
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_jobs_type_resource ON jobs(type, resource_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_unique_key ON jobs(type, unique_key) WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at DESC);
+
+-- Evaluation runs (runs per project, run of a job)
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_project ON evaluation_runs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_job ON evaluation_runs(job_id);
+
 -- ====================================================
 -- COMPOSITE INDEXES (for complex queries)
 -- ====================================================
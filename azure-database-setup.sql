@@ -6,11 +6,15 @@
 CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
 -- Drop existing tables in reverse dependency order
+DROP TABLE IF EXISTS evaluation_agent_runs CASCADE;
+DROP TABLE IF EXISTS evaluation_runs CASCADE;
+DROP TABLE IF EXISTS jobs CASCADE;
 DROP TABLE IF EXISTS agent_metrics CASCADE;
 DROP TABLE IF EXISTS followup_questions CASCADE;
 DROP TABLE IF EXISTS executive_briefings CASCADE;
 DROP TABLE IF EXISTS comparison_snapshots CASCADE;
 DROP TABLE IF EXISTS compliance_gaps CASCADE;
+DROP TABLE IF EXISTS chat_message_feedback CASCADE;
 DROP TABLE IF EXISTS chat_messages CASCADE;
 DROP TABLE IF EXISTS chat_sessions CASCADE;
 DROP TABLE IF EXISTS rag_chunks CASCADE;
@@ -20,7 +24,11 @@ DROP TABLE IF EXISTS vendor_shortlisting_stages CASCADE;
 DROP TABLE IF EXISTS evaluations CASCADE;
 DROP TABLE IF EXISTS proposals CASCADE;
 DROP TABLE IF EXISTS requirements CASCADE;
+DROP TABLE IF EXISTS draft_section_comments CASCADE;
 DROP TABLE IF EXISTS rft_generation_drafts CASCADE;
+DROP TABLE IF EXISTS rft_addenda CASCADE;
+DROP TABLE IF EXISTS rft_clarifications CASCADE;
+DROP TABLE IF EXISTS generated_rft_revisions CASCADE;
 DROP TABLE IF EXISTS generated_rfts CASCADE;
 DROP TABLE IF EXISTS organization_templates CASCADE;
 DROP TABLE IF EXISTS rft_templates CASCADE;
@@ -30,11 +38,33 @@ DROP TABLE IF EXISTS system_config CASCADE;
 DROP TABLE IF EXISTS mcp_connectors CASCADE;
 DROP TABLE IF EXISTS standards CASCADE;
 DROP TABLE IF EXISTS portfolios CASCADE;
+DROP TABLE IF EXISTS user_sessions CASCADE;
+DROP TABLE IF EXISTS users CASCADE;
 
 -- ============================================
 -- Core Tables
 -- ============================================
 
+-- Users: Accounts for sign-in; role is 'admin' or a stakeholder role id (technical_pm, solution_architect, ...)
+CREATE TABLE users (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  username TEXT NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL, -- scrypt hash.salt
+  display_name TEXT NOT NULL,
+  role TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_login_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- User Sessions: express-session store (connect-pg-simple also creates this on startup if missing)
+CREATE TABLE user_sessions (
+  sid VARCHAR NOT NULL PRIMARY KEY,
+  sess JSON NOT NULL,
+  expire TIMESTAMP(6) NOT NULL
+);
+CREATE INDEX idx_user_sessions_expire ON user_sessions (expire);
+
 -- Portfolios: Top-level project grouping
 CREATE TABLE portfolios (
   id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -67,6 +97,8 @@ CREATE TABLE mcp_connectors (
   api_key TEXT,
   connector_type TEXT NOT NULL DEFAULT 'rest', -- 'rest', 'graphql', 'websocket'
   auth_type TEXT NOT NULL DEFAULT 'bearer', -- 'bearer', 'basic', 'apikey', 'oauth2'
+  oauth_client_secret TEXT, -- Encrypted; token URL, client ID and scope are in config.oauth
+  oauth_refresh_token TEXT, -- Encrypted; replaced when the token endpoint rotates it
   role_mapping TEXT[], -- Which agent roles can use this connector
   config JSONB,
   is_active TEXT NOT NULL DEFAULT 'true',
@@ -95,6 +127,7 @@ CREATE TABLE projects (
   business_case_id VARCHAR, -- Link to business case document
   generated_rft_id VARCHAR, -- Link to generated RFT
   status TEXT NOT NULL DEFAULT 'analyzing',
+  scoring_config JSONB, -- Per-project scoring weights and consensus rules (NULL = defaults)
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -146,6 +179,8 @@ CREATE TABLE evaluations (
   detailed_scores JSONB,
   section_compliance JSONB,
   agent_diagnostics JSONB, -- Multi-agent execution diagnostics
+  agent_results JSONB, -- Raw per-agent outputs for re-aggregation without LLM calls
+  citations JSONB, -- Proposal evidence citations backing agent insights and scores
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
@@ -200,6 +235,27 @@ CREATE TABLE evaluation_criteria (
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Score Overrides: Audit trail of human overrides on evaluation criteria scores
+CREATE TABLE score_overrides (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id VARCHAR NOT NULL,
+  evaluation_id VARCHAR NOT NULL,
+  criterion_id VARCHAR NOT NULL,
+  role TEXT NOT NULL,
+  section TEXT NOT NULL,
+  question TEXT NOT NULL,
+  previous_score INTEGER NOT NULL,
+  new_score INTEGER NOT NULL,
+  previous_score_label TEXT NOT NULL,
+  new_score_label TEXT NOT NULL,
+  previous_overall_score INTEGER,
+  new_overall_score INTEGER,
+  reviewer_name TEXT NOT NULL,
+  reviewer_id VARCHAR, -- Optional link to an authenticated user
+  justification TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- ============================================
 -- RAG & Knowledge Base
 -- ============================================
@@ -216,7 +272,12 @@ CREATE TABLE rag_documents (
   search_doc_id TEXT, -- Azure AI Search document ID
   index_name TEXT NOT NULL DEFAULT 'intellibid-rag',
   total_chunks INTEGER NOT NULL DEFAULT 0,
-  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'indexed', 'failed'
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'indexed', 'stale', 'reindexing', 'failed'
+  content_hash TEXT, -- SHA-256 of the source file when last indexed
+  chunker_version INTEGER, -- Chunker version the chunks were produced with
+  embedding_version TEXT, -- '<vector store>/<embedding provider>[/<dimensions>]' holding the chunk vectors
+  progress JSONB, -- Last (re-)index run: total/processed/reused/embedded/removed chunk counts
+  last_indexed_at TIMESTAMP,
   metadata JSONB,
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
@@ -229,7 +290,8 @@ CREATE TABLE rag_chunks (
   chunk_index INTEGER NOT NULL,
   content TEXT NOT NULL,
   token_count INTEGER NOT NULL,
-  search_chunk_id TEXT, -- Azure AI Search chunk ID
+  content_hash TEXT, -- SHA-256 of content; unchanged chunks keep their embedding on re-index
+  search_chunk_id TEXT, -- Vector store chunk ID
   metadata JSONB,
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -241,7 +303,8 @@ CREATE TABLE rag_chunks (
 -- Chat Sessions: User chat sessions with AI assistant
 CREATE TABLE chat_sessions (
   id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
-  project_id VARCHAR NOT NULL,
+  project_id VARCHAR, -- NULL for knowledge base chatbot sessions
+  user_id VARCHAR,
   title TEXT,
   metadata JSONB,
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
@@ -259,6 +322,20 @@ CREATE TABLE chat_messages (
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Chat Message Feedback: Thumbs up/down on assistant answers for retrieval-quality analysis
+CREATE TABLE chat_message_feedback (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id VARCHAR NOT NULL,
+  session_id VARCHAR NOT NULL,
+  user_id VARCHAR NOT NULL,
+  rating TEXT NOT NULL, -- 'up' or 'down'
+  reason TEXT,
+  comment TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (message_id, user_id)
+);
+
 -- ============================================
 -- Advanced AI Features
 -- ============================================
@@ -428,9 +505,139 @@ CREATE TABLE rft_generation_drafts (
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Generated RFT Revisions: Immutable version history of generated RFTs
+CREATE TABLE generated_rft_revisions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  rft_id VARCHAR NOT NULL,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  sections JSONB NOT NULL,
+  change_type TEXT NOT NULL, -- 'initial', 'edited', 'section_regenerated', 'restored'
+  changed_section_ids JSONB,
+  restored_from_version INTEGER,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (rft_id, version)
+);
+
+-- RFT Clarifications: Vendor questions raised after publication
+CREATE TABLE rft_clarifications (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  rft_id VARCHAR NOT NULL,
+  project_id VARCHAR NOT NULL,
+  vendor_name TEXT NOT NULL,
+  question TEXT NOT NULL,
+  section_id TEXT,
+  answer TEXT,
+  answer_source TEXT, -- 'manual' or 'ai_assisted'
+  answer_references JSONB,
+  status TEXT NOT NULL DEFAULT 'open', -- 'open', 'answered', 'published', 'withdrawn'
+  addendum_id VARCHAR,
+  answered_by TEXT,
+  answered_at TIMESTAMP,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- RFT Addenda: Numbered addenda issued to all vendors
+CREATE TABLE rft_addenda (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  rft_id VARCHAR NOT NULL,
+  project_id VARCHAR NOT NULL,
+  number INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  notes TEXT,
+  content TEXT NOT NULL,
+  clarification_ids JSONB NOT NULL,
+  published_by TEXT NOT NULL,
+  published_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (rft_id, number)
+);
+
+-- Draft Section Comments: Threaded review comments and suggested edits on draft sections
+CREATE TABLE draft_section_comments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  draft_id VARCHAR NOT NULL,
+  section_id TEXT NOT NULL,
+  parent_id VARCHAR, -- Thread root ID for replies
+  kind TEXT NOT NULL DEFAULT 'comment', -- 'comment' or 'suggestion'
+  body TEXT NOT NULL,
+  anchor_start INTEGER,
+  anchor_end INTEGER,
+  anchor_text TEXT,
+  suggested_text TEXT,
+  suggestion_status TEXT, -- 'open', 'accepted', 'rejected'
+  resolved BOOLEAN NOT NULL DEFAULT false,
+  resolved_by TEXT,
+  resolved_at TIMESTAMP,
+  author_id VARCHAR NOT NULL,
+  author_name TEXT NOT NULL,
+  author_role TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Background job queue (evaluations, RFT packs, mock data, RAG ingestion)
+CREATE TABLE jobs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued', -- 'queued', 'running', 'completed', 'failed', 'cancelled'
+  payload JSONB NOT NULL,
+  result JSONB,
+  progress JSONB,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(), -- Retry backoff: not claimed before this time
+  resource_id VARCHAR, -- Project, draft or standard the job works on
+  unique_key VARCHAR, -- resource_id of jobs queued as unique (one queued or running job per type and key)
+  created_by VARCHAR,
+  locked_by TEXT, -- Worker holding the job
+  locked_at TIMESTAMP, -- Worker heartbeat
+  cancel_requested_at TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Resumable evaluation runs with per-vendor/per-agent checkpoints
+CREATE TABLE evaluation_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id VARCHAR NOT NULL,
+  job_id VARCHAR, -- Job that started the run; its retries resume the run
+  trigger TEXT NOT NULL, -- 'analysis' or 'evaluation'
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'completed', 'partial', 'failed', 'cancelled'
+  total_vendors INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_by VARCHAR,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE evaluation_agent_runs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id VARCHAR NOT NULL,
+  proposal_id VARCHAR NOT NULL,
+  vendor_name TEXT NOT NULL,
+  agent_role TEXT NOT NULL,
+  status TEXT NOT NULL, -- 'succeeded' or 'failed'
+  attempts INTEGER NOT NULL DEFAULT 1,
+  result JSONB NOT NULL, -- AgentResult reused when the run resumes
+  diagnostics JSONB,
+  error TEXT,
+  completed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (run_id, proposal_id, agent_role)
+);
+
 -- Create indexes (defined in azure-database-indexes.sql)
 -- See azure-database-indexes.sql for index creation statements
 
+COMMENT ON TABLE users IS 'User accounts with admin or stakeholder roles';
 COMMENT ON TABLE portfolios IS 'Top-level project grouping';
 COMMENT ON TABLE standards IS 'Organizational standards and compliance documents';
 COMMENT ON TABLE projects IS 'Individual RFT evaluation projects';
@@ -438,9 +645,19 @@ COMMENT ON TABLE proposals IS 'Vendor proposal documents with atomic duplicate p
 COMMENT ON TABLE evaluations IS 'Multi-agent vendor proposal evaluations with 1:1 proposal mapping';
 COMMENT ON TABLE agent_metrics IS 'Performance tracking for AI agents';
 COMMENT ON TABLE rag_documents IS 'Document registry for knowledge base';
+COMMENT ON TABLE rag_chunks IS 'Knowledge base chunks (the pgvector store keeps their embeddings in rag_chunk_embeddings)';
+COMMENT ON TABLE chat_sessions IS 'Project assistant and per-user knowledge base chatbot conversations';
+COMMENT ON TABLE chat_message_feedback IS 'User ratings of chatbot answers for retrieval-quality analysis';
 COMMENT ON TABLE business_cases IS 'Project business case documents';
 COMMENT ON TABLE generated_rfts IS 'AI-generated RFT documents with questionnaires';
+COMMENT ON TABLE generated_rft_revisions IS 'Immutable snapshots of generated RFTs for version history and diffs';
+COMMENT ON TABLE rft_clarifications IS 'Vendor clarification questions and answers after RFT publication';
+COMMENT ON TABLE rft_addenda IS 'Numbered addenda issued to all vendors';
 COMMENT ON TABLE rft_generation_drafts IS 'Collaborative RFT editing with stakeholder approvals';
+COMMENT ON TABLE draft_section_comments IS 'Threaded comments and suggested edits on RFT draft sections';
+COMMENT ON TABLE jobs IS 'Postgres-backed background job queue with retries and cancellation';
+COMMENT ON TABLE evaluation_runs IS 'Project evaluation runs that can be resumed after failures';
+COMMENT ON TABLE evaluation_agent_runs IS 'Per-vendor, per-agent checkpoints of evaluation runs';
 
 -- Success message
 DO $$
@@ -28,8 +28,9 @@ BEGIN
     RAISE NOTICE '  • AI Features: compliance_gaps, followup_questions, comparison_snapshots';
     RAISE NOTICE '  •              executive_briefings';
     RAISE NOTICE '  • Knowledge Base: standards, rag_documents, rag_chunks';
-    RAISE NOTICE '  • Chat: chat_sessions, chat_messages';
+    RAISE NOTICE '  • Chat: chat_sessions, chat_messages, chat_message_feedback';
     RAISE NOTICE '  • Integration: mcp_connectors';
+    RAISE NOTICE '  • Background jobs: jobs, evaluation_runs, evaluation_agent_runs';
     RAISE NOTICE '';
 END $$;
 
@@ -73,8 +74,14 @@ TRUNCATE TABLE rag_chunks CASCADE;
 -- Chatbot & integrations
 TRUNCATE TABLE chat_sessions CASCADE;
 TRUNCATE TABLE chat_messages CASCADE;
+TRUNCATE TABLE chat_message_feedback CASCADE;
 TRUNCATE TABLE mcp_connectors CASCADE;
 
+-- Background job queue
+TRUNCATE TABLE jobs CASCADE;
+TRUNCATE TABLE evaluation_runs CASCADE;
+TRUNCATE TABLE evaluation_agent_runs CASCADE;
+
 -- ====================================================
 -- RESET SEQUENCES (for tables using SERIAL/IDENTITY)
 -- ====================================================
@@ -22,18 +22,47 @@ import GenerateMockDataPage from "@/pages/GenerateMockDataPage";
 import ExecutiveSummaryPage from "@/pages/ExecutiveSummaryPage";
 import TemplateManagementPage from "@/pages/TemplateManagementPage";
 import RftDraftReviewPage from "@/pages/RftDraftReviewPage";
+import ReviewInboxPage from "@/pages/ReviewInboxPage";
+import JobsPage from "@/pages/JobsPage";
+import AuthPage from "@/pages/AuthPage";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
 
 // Check if running in development mode
 const isDevelopment = import.meta.env.MODE === 'development' || import.meta.env.DEV;
 
+// Shown in place of admin-only pages for stakeholder accounts
+function AdminOnly({ component: Component }: { component: React.ComponentType }) {
+  const { isAdmin } = useAuth();
+  if (isAdmin) {
+    return <Component />;
+  }
+  return (
+    <div className="flex items-center justify-center h-full p-6">
+      <Card className="w-full max-w-md">
+        <CardContent className="pt-6 space-y-2">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-6 w-6 text-destructive" />
+            <h1 className="text-xl font-semibold" data-testid="text-admin-required">Administrator access required</h1>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            This page manages platform configuration. Ask an administrator if you need changes made.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 function Router() {
   return (
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/executive-summary" component={ExecutiveSummaryPage} />
-      <Route path="/admin-config" component={AdminConfigPage} />
+      <Route path="/admin-config">{() => <AdminOnly component={AdminConfigPage} />}</Route>
       <Route path="/agent-metrics" component={AgentMetricsPage} />
       <Route path="/standards" component={StandardsPage} />
       <Route path="/knowledge-base" component={StandardsPage} />
@@ -47,6 +76,8 @@ function Router() {
       <Route path="/smart-rft-builder" component={SmartRftBuilderPage} />
       <Route path="/template-management" component={TemplateManagementPage} />
       <Route path="/rft-draft-review" component={RftDraftReviewPage} />
+      <Route path="/review-inbox" component={ReviewInboxPage} />
+      <Route path="/jobs" component={JobsPage} />
       <Route path="/kb-chatbot" component={KnowledgeBaseChatbotPage} />
       <Route path="/generate-mock-data" component={GenerateMockDataPage} />
       {/* Development-only routes - none currently */}
@@ -55,33 +86,54 @@ function Router() {
   );
 }
 
-function App() {
+function AppShell() {
+  const { user, isLoading } = useAuth();
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
   };
 
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-screen text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthPage />;
+  }
+
+  return (
+    <SidebarProvider style={style as React.CSSProperties}>
+      <div className="flex h-screen w-full">
+        <AppSidebar />
+        <div className="flex flex-col flex-1 overflow-hidden">
+          <header className="sticky top-0 z-40 flex items-center justify-between px-4 py-3 border-b border-border/50 backdrop-blur-sm relative overflow-hidden">
+            <div className="absolute inset-0 gradient-primary-soft opacity-60"></div>
+            <SidebarTrigger data-testid="button-sidebar-toggle" className="relative z-10" />
+            <div className="relative z-10">
+              <ThemeToggle />
+            </div>
+          </header>
+          <main className="flex-1 overflow-auto">
+            <Router />
+          </main>
+        </div>
+      </div>
+    </SidebarProvider>
+  );
+}
+
+function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider defaultTheme="dark">
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <div className="flex flex-col flex-1 overflow-hidden">
-                <header className="sticky top-0 z-40 flex items-center justify-between px-4 py-3 border-b border-border/50 backdrop-blur-sm relative overflow-hidden">
-                  <div className="absolute inset-0 gradient-primary-soft opacity-60"></div>
-                  <SidebarTrigger data-testid="button-sidebar-toggle" className="relative z-10" />
-                  <div className="relative z-10">
-                    <ThemeToggle />
-                  </div>
-                </header>
-                <main className="flex-1 overflow-auto">
-                  <Router />
-                </main>
-              </div>
-            </div>
-          </SidebarProvider>
+          <AuthProvider>
+            <AppShell />
+          </AuthProvider>
           <Toaster />
         </TooltipProvider>
       </ThemeProvider>
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import type { chatFeedbackReasons } from "@shared/schema";
+
+type FeedbackReason = typeof chatFeedbackReasons[number];
+
+export interface ChatFeedback {
+  rating: "up" | "down";
+  reason?: string | null;
+  comment?: string | null;
+}
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  wrong_source: "Cited the wrong documents",
+  incomplete: "Incomplete answer",
+  incorrect: "Incorrect answer",
+  not_in_kb: "Said it wasn't in the knowledge base, but it is",
+  other: "Other",
+};
+
+interface ChatFeedbackButtonsProps {
+  sessionId: string;
+  messageId: string;
+  feedback?: ChatFeedback | null;
+  onSaved: (feedback: ChatFeedback) => void;
+}
+
+/**
+ * Thumbs up/down on a chatbot answer; thumbs down asks what was wrong
+ */
+export function ChatFeedbackButtons({ sessionId, messageId, feedback, onSaved }: ChatFeedbackButtonsProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason | "">("");
+  const [comment, setComment] = useState("");
+
+  const feedbackMutation = useMutation({
+    mutationFn: async (payload: { rating: "up" | "down"; reason?: FeedbackReason; comment?: string }) => {
+      return await apiRequest("PUT", `/api/kb-chatbot/sessions/${sessionId}/messages/${messageId}/feedback`, payload);
+    },
+    onSuccess: (_data, payload) => {
+      onSaved(payload);
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to save feedback", description: error.message });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        size="icon"
+        variant="ghost"
+        className={`h-6 w-6 ${feedback?.rating === "up" ? "text-primary" : "text-muted-foreground"}`}
+        onClick={() => feedbackMutation.mutate({ rating: "up" })}
+        disabled={feedbackMutation.isPending}
+        title="Helpful"
+        data-testid={`button-feedback-up-${messageId}`}
+      >
+        <ThumbsUp className="h-3 w-3" />
+      </Button>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={`h-6 w-6 ${feedback?.rating === "down" ? "text-destructive" : "text-muted-foreground"}`}
+            title="Not helpful"
+            data-testid={`button-feedback-down-${messageId}`}
+          >
+            <ThumbsDown className="h-3 w-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2" align="start">
+          <div className="text-sm font-medium">What was wrong?</div>
+          <Select value={reason} onValueChange={(value) => setReason(value as FeedbackReason)}>
+            <SelectTrigger data-testid={`select-feedback-reason-${messageId}`}>
+              <SelectValue placeholder="Choose a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REASON_LABELS) as FeedbackReason[]).map((value) => (
+                <SelectItem key={value} value={value}>{REASON_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Optional details"
+            rows={3}
+            data-testid={`input-feedback-comment-${messageId}`}
+          />
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={() => feedbackMutation.mutate({
+              rating: "down",
+              reason: reason || undefined,
+              comment: comment.trim() || undefined,
+            })}
+            disabled={feedbackMutation.isPending}
+            data-testid={`button-submit-feedback-${messageId}`}
+          >
+            Send feedback
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useQuery } from "@tanstack/react-query";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ExternalLink, FileText, Loader2, Plug } from "lucide-react";
+
+export interface ChatSource {
+  index: number;
+  type: "rag" | "mcp";
+  name: string;
+  content?: string;
+  documentId?: string;
+  chunkIndex?: number;
+  sectionTitle?: string;
+  pageNumber?: number;
+  excerpt?: string;
+}
+
+interface SourceContext {
+  document: {
+    id: string;
+    fileName: string;
+    sourceType: string;
+    category: string;
+    totalChunks: number;
+  };
+  chunks: Array<{
+    chunkIndex: number;
+    content: string;
+    sectionTitle: string | null;
+    pageNumber: number | null;
+    cited: boolean;
+  }>;
+  documentUrl: string | null;
+}
+
+interface ChatSourcePanelProps {
+  source: ChatSource | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Side panel showing a cited knowledge base chunk between its neighbouring chunks
+ */
+export function ChatSourcePanel({ source, onOpenChange }: ChatSourcePanelProps) {
+  const canLoadContext = source?.type === "rag" && !!source.documentId && source.chunkIndex !== undefined;
+
+  const { data: context, isLoading, error } = useQuery<SourceContext>({
+    queryKey: ["/api/kb-chatbot/sources", source?.documentId, "chunks", String(source?.chunkIndex)],
+    enabled: canLoadContext,
+  });
+
+  return (
+    <Sheet open={!!source} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl flex flex-col" data-testid="panel-chat-source">
+        {source && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2 pr-6">
+                <Badge variant="secondary">[{source.index}]</Badge>
+                {source.type === "rag" ? <FileText className="h-4 w-4 flex-shrink-0" /> : <Plug className="h-4 w-4 flex-shrink-0" />}
+                <span className="truncate">{source.name}</span>
+              </SheetTitle>
+              <SheetDescription>
+                {[
+                  source.sectionTitle && `Section: ${source.sectionTitle}`,
+                  source.pageNumber !== undefined && `Page ${source.pageNumber}`,
+                  source.chunkIndex !== undefined && `Chunk ${source.chunkIndex + 1}${context ? ` of ${context.document.totalChunks}` : ""}`,
+                ].filter(Boolean).join(" • ") || (source.type === "mcp" ? "External data from an MCP connector" : "Knowledge base document")}
+              </SheetDescription>
+            </SheetHeader>
+
+            {context?.documentUrl && (
+              <Button variant="outline" size="sm" className="self-start mt-4" asChild>
+                <a href={context.documentUrl} target="_blank" rel="noopener noreferrer" data-testid="link-source-document">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open document
+                </a>
+              </Button>
+            )}
+
+            <ScrollArea className="flex-1 mt-4 pr-3">
+              {!canLoadContext ? (
+                source.excerpt ? (
+                  <p className="text-sm whitespace-pre-wrap">{source.excerpt}…</p>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {source.type === "mcp"
+                      ? "Connector data is fetched live for each question and is not stored."
+                      : "This source is not linked to a stored document."}
+                  </p>
+                )
+              ) : isLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading source...
+                </div>
+              ) : error || !context ? (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">The source document could not be loaded.</p>
+                  {source.excerpt && <p className="text-sm whitespace-pre-wrap">{source.excerpt}…</p>}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {context.chunks.map((chunk) => (
+                    <div
+                      key={chunk.chunkIndex}
+                      className={`rounded-md p-3 text-sm whitespace-pre-wrap ${
+                        chunk.cited ? "border-2 border-primary bg-primary/5" : "text-muted-foreground"
+                      }`}
+                      data-testid={`source-chunk-${chunk.chunkIndex}`}
+                    >
+                      {(chunk.sectionTitle || chunk.pageNumber !== null) && (
+                        <div className="text-xs font-medium mb-1">
+                          {[chunk.sectionTitle, chunk.pageNumber !== null && `Page ${chunk.pageNumber}`].filter(Boolean).join(" • ")}
+                        </div>
+                      )}
+                      {chunk.content}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,141 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface OAuthSettings {
+  grantType?: "client_credentials" | "refresh_token";
+  tokenUrl?: string;
+  clientId?: string;
+  scope?: string;
+  audience?: string;
+  clientAuth?: "basic" | "body";
+}
+
+interface ConnectorOAuthFieldsProps {
+  config: Record<string, any>;
+  onConfigChange: (config: Record<string, any>) => void;
+  clientSecret: string;
+  refreshToken: string;
+  onSecretChange: (field: "oauthClientSecret" | "oauthRefreshToken", value: string) => void;
+  // Editing a saved connector: blank secrets keep the stored ones
+  editing: boolean;
+}
+
+/**
+ * OAuth2 settings of a connector: token endpoint and client in connector.config.oauth, client secret
+ * and refresh token as separate (encrypted) fields
+ */
+export function ConnectorOAuthFields({
+  config,
+  onConfigChange,
+  clientSecret,
+  refreshToken,
+  onSecretChange,
+  editing,
+}: ConnectorOAuthFieldsProps) {
+  const oauth: OAuthSettings = config.oauth || {};
+  const grantType = oauth.grantType || "client_credentials";
+
+  const update = (changes: Partial<OAuthSettings>) =>
+    onConfigChange({ ...config, oauth: { grantType, ...oauth, ...changes } });
+
+  return (
+    <div className="space-y-4 border rounded-md p-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Grant Type</label>
+          <Select value={grantType} onValueChange={(value) => update({ grantType: value as OAuthSettings["grantType"] })}>
+            <SelectTrigger data-testid="select-oauth-grant-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="client_credentials">Client Credentials</SelectItem>
+              <SelectItem value="refresh_token">Refresh Token</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Client Authentication</label>
+          <Select value={oauth.clientAuth || "basic"} onValueChange={(value) => update({ clientAuth: value as OAuthSettings["clientAuth"] })}>
+            <SelectTrigger data-testid="select-oauth-client-auth">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="basic">HTTP Basic header</SelectItem>
+              <SelectItem value="body">Form fields</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Token URL</label>
+        <Input
+          placeholder="https://login.example.com/oauth2/token"
+          value={oauth.tokenUrl || ""}
+          onChange={(e) => update({ tokenUrl: e.target.value })}
+          data-testid="input-oauth-token-url"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Client ID</label>
+          <Input
+            value={oauth.clientId || ""}
+            onChange={(e) => update({ clientId: e.target.value })}
+            data-testid="input-oauth-client-id"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Client Secret {editing ? "(Leave blank to keep existing)" : grantType === "refresh_token" ? "(Optional)" : ""}
+          </label>
+          <Input
+            type="password"
+            value={clientSecret}
+            onChange={(e) => onSecretChange("oauthClientSecret", e.target.value)}
+            data-testid="input-oauth-client-secret"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Scope (Optional)</label>
+          <Input
+            placeholder="e.g., api.read"
+            value={oauth.scope || ""}
+            onChange={(e) => update({ scope: e.target.value || undefined })}
+            data-testid="input-oauth-scope"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Audience (Optional)</label>
+          <Input
+            placeholder="e.g., https://api.example.com"
+            value={oauth.audience || ""}
+            onChange={(e) => update({ audience: e.target.value || undefined })}
+            data-testid="input-oauth-audience"
+          />
+        </div>
+      </div>
+
+      {grantType === "refresh_token" && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Refresh Token {editing ? "(Leave blank to keep existing)" : ""}
+          </label>
+          <Input
+            type="password"
+            value={refreshToken}
+            onChange={(e) => onSecretChange("oauthRefreshToken", e.target.value)}
+            data-testid="input-oauth-refresh-token"
+          />
+          <p className="text-xs text-muted-foreground">
+            Rotated refresh tokens returned by the token endpoint are saved automatically.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
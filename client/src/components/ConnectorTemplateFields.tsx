@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+type ConnectorConfig = Record<string, any>;
+
+export const PLACEHOLDER_HINT = "Placeholders: {{query}}, {{projectName}}, {{vendorName}}, {{proposalSummary}}, {{requirements}}";
+
+interface JsonTemplateFieldProps {
+  label: string;
+  value: unknown;
+  placeholder: string;
+  onChange: (value: unknown) => void;
+  testId: string;
+}
+
+// JSON textarea that only reports values that parse; keeps the text as typed while it is invalid
+export function JsonTemplateField({ label, value, placeholder, onChange, testId }: JsonTemplateFieldProps) {
+  const [text, setText] = useState(value === undefined ? "" : JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+      <Textarea
+        className="font-mono text-xs"
+        rows={4}
+        placeholder={placeholder}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (!e.target.value.trim()) {
+            setInvalid(false);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setInvalid(false);
+          } catch {
+            setInvalid(true);
+          }
+        }}
+        data-testid={testId}
+      />
+      {invalid && <p className="text-xs text-destructive">Not valid JSON yet; the last valid value will be saved.</p>}
+    </div>
+  );
+}
+
+interface ConnectorTemplateFieldsProps {
+  connectorType: string;
+  config: ConnectorConfig;
+  onChange: (config: ConnectorConfig) => void;
+}
+
+/**
+ * GraphQL query and WebSocket subscription/message templates stored in connector.config
+ */
+export function ConnectorTemplateFields({ connectorType, config, onChange }: ConnectorTemplateFieldsProps) {
+  const update = (key: string, value: unknown) => {
+    const next = { ...config };
+    if (value === undefined || value === "") {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  if (connectorType !== "graphql" && connectorType !== "websocket") {
+    return null;
+  }
+
+  const protocol = config.protocol || "graphql-transport-ws";
+  const usesGraphQL = connectorType === "graphql" || protocol === "graphql-transport-ws";
+
+  return (
+    <div className="space-y-4 border rounded-md p-3">
+      {connectorType === "websocket" && (
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Protocol</label>
+            <Select value={protocol} onValueChange={(value) => update("protocol", value)}>
+              <SelectTrigger data-testid="select-connector-protocol">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="graphql-transport-ws">GraphQL subscription</SelectItem>
+                <SelectItem value="json">JSON messages</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Listen (seconds)</label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="5"
+              value={config.listenMs ? config.listenMs / 1000 : ""}
+              onChange={(e) => update("listenMs", e.target.value ? Math.round(Number(e.target.value) * 1000) : undefined)}
+              data-testid="input-connector-listen"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Max Messages</label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="20"
+              value={config.maxMessages ?? ""}
+              onChange={(e) => update("maxMessages", e.target.value ? Number(e.target.value) : undefined)}
+              data-testid="input-connector-max-messages"
+            />
+          </div>
+        </div>
+      )}
+
+      {usesGraphQL ? (
+        <>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              {connectorType === "graphql" ? "GraphQL Query" : "Subscription"}
+            </label>
+            <Textarea
+              className="font-mono text-xs"
+              rows={6}
+              placeholder={connectorType === "graphql"
+                ? "query VendorRisk($vendor: String!) {\n  vendor(name: $vendor) { assessments { title summary } }\n}"
+                : "subscription ArchitectureChanges($search: String!) {\n  architectureChanged(search: $search) { system change }\n}"}
+              value={config.query || ""}
+              onChange={(e) => update("query", e.target.value)}
+              data-testid="input-connector-query"
+            />
+          </div>
+          <JsonTemplateField
+            label="Variables (JSON)"
+            value={config.variables}
+            placeholder={'{ "vendor": "{{vendorName}}", "search": "{{query}}" }'}
+            onChange={(value) => update("variables", value)}
+            testId="input-connector-variables"
+          />
+        </>
+      ) : (
+        <JsonTemplateField
+          label="Message (JSON)"
+          value={config.message}
+          placeholder={'{ "action": "subscribe", "topic": "vendors", "filter": "{{vendorName}}" }'}
+          onChange={(value) => update("message", value)}
+          testId="input-connector-message"
+        />
+      )}
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Result Path (Optional)</label>
+        <Input
+          placeholder={connectorType === "graphql" ? "e.g., vendor.assessments" : "e.g., architectureChanged"}
+          value={config.resultPath || ""}
+          onChange={(e) => update("resultPath", e.target.value)}
+          data-testid="input-connector-result-path"
+        />
+        <p className="text-xs text-muted-foreground">{PLACEHOLDER_HINT}</p>
+      </div>
+    </div>
+  );
+}
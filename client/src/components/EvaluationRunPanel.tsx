@@ -0,0 +1,161 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isAbortError, waitForJob } from "@/lib/jobs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useUnmountSignal } from "@/hooks/use-unmount-signal";
+import { AlertTriangle, Loader2, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import type { EvaluationRun } from "@shared/schema";
+
+type AgentRunState = "succeeded" | "failed" | "pending";
+
+interface EvaluationRunSummary {
+  run: EvaluationRun;
+  vendors: Array<{
+    proposalId: string;
+    vendorName: string;
+    documentType: string | null;
+    agents: Array<{ role: string; status: AgentRunState; attempts: number; error: string | null }>;
+  }>;
+  counts: Record<AgentRunState, number>;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  delivery: "Delivery",
+  product: "Product",
+  architecture: "Architecture",
+  engineering: "Engineering",
+  procurement: "Procurement",
+  security: "Security",
+};
+
+interface EvaluationRunPanelProps {
+  projectId: string;
+}
+
+/**
+ * Latest evaluation run of a project when some agents failed or never ran, with retry per agent,
+ * per vendor or for the whole run. Hidden once every agent of the run has succeeded.
+ */
+export function EvaluationRunPanel({ projectId }: EvaluationRunPanelProps) {
+  const { toast } = useToast();
+  const unmountSignal = useUnmountSignal();
+
+  const { data: runs = [] } = useQuery<EvaluationRun[]>({
+    queryKey: [`/api/projects/${projectId}/evaluation-runs`],
+  });
+  const latestRun = runs[0];
+
+  const { data: summary } = useQuery<EvaluationRunSummary>({
+    queryKey: [`/api/evaluation-runs/${latestRun?.id}`],
+    enabled: !!latestRun,
+    refetchInterval: (q) => (q.state.data?.run.status === "running" ? 5000 : false),
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (target: { proposalId?: string; agentRole?: string }) => {
+      const { jobId } = await apiRequest("POST", `/api/evaluation-runs/${latestRun!.id}/resume`, target);
+      queryClient.invalidateQueries({ queryKey: [`/api/evaluation-runs/${latestRun!.id}`] });
+      return await waitForJob(jobId, { signal: unmountSignal.current });
+    },
+    onSuccess: () => {
+      toast({ title: "Evaluation resumed", description: "Retried agents have been re-scored." });
+    },
+    onError: (error: any) => {
+      if (isAbortError(error)) return;
+      toast({ variant: "destructive", title: "Failed to resume evaluation", description: error.message });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/evaluation-runs`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/evaluation-runs/${latestRun?.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "evaluations"] });
+    },
+  });
+
+  if (!summary) {
+    return null;
+  }
+
+  const { run, vendors, counts } = summary;
+  const incomplete = counts.failed + counts.pending;
+  if (incomplete === 0 && run.status !== "failed" && run.status !== "cancelled") {
+    return null;
+  }
+
+  const running = run.status === "running" || resumeMutation.isPending;
+  const affectedVendors = vendors.filter((vendor) => vendor.agents.some((agent) => agent.status !== "succeeded"));
+
+  return (
+    <Card data-testid="card-evaluation-run">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Incomplete Evaluation Run
+            <Badge variant={run.status === "failed" ? "destructive" : "outline"} className="capitalize" data-testid="badge-evaluation-run-status">
+              {run.status}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Started {format(new Date(run.startedAt), "PPp")} · {counts.succeeded} agent evaluations succeeded,{" "}
+            {counts.failed} failed, {counts.pending} not run. Resuming re-runs only the failed and missing agents.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={() => resumeMutation.mutate({})}
+          disabled={running}
+          className="gap-2 flex-shrink-0"
+          data-testid="button-resume-evaluation-run"
+        >
+          {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+          Resume Run
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {affectedVendors.map((vendor) => (
+          <div key={vendor.proposalId} className="border rounded-lg p-3 space-y-2" data-testid={`run-vendor-${vendor.proposalId}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-sm font-medium">
+                {vendor.vendorName}
+                {vendor.documentType && <span className="text-muted-foreground font-normal"> · {vendor.documentType}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => resumeMutation.mutate({ proposalId: vendor.proposalId })}
+                disabled={running}
+                data-testid={`button-retry-vendor-${vendor.proposalId}`}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry Vendor
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {vendor.agents.map((agent) => (
+                <Badge
+                  key={agent.role}
+                  variant={agent.status === "succeeded" ? "secondary" : agent.status === "failed" ? "destructive" : "outline"}
+                  className={agent.status === "succeeded" ? "" : "cursor-pointer"}
+                  title={agent.status === "succeeded"
+                    ? `Succeeded after ${agent.attempts} attempt(s)`
+                    : `${agent.error || "Not run yet"} — click to retry this agent`}
+                  onClick={() => {
+                    if (agent.status !== "succeeded" && !running) {
+                      resumeMutation.mutate({ proposalId: vendor.proposalId, agentRole: agent.role });
+                    }
+                  }}
+                  data-testid={`badge-agent-${vendor.proposalId}-${agent.role}`}
+                >
+                  {ROLE_LABELS[agent.role] || agent.role}: {agent.status}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CheckCircle2, AlertCircle, ExternalLink, Loader2 } from "lucide-react";
+import type { EvaluationCitation } from "@shared/schema";
+
+interface EvidenceResponse {
+  proposalId: string;
+  vendorName: string;
+  fileName: string;
+  blobUrl?: string | null;
+  section: {
+    id: string;
+    title: string;
+    anchor?: string;
+    content: string;
+  };
+}
+
+interface EvidenceViewerDialogProps {
+  citation: EvaluationCitation | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Split section text around the quoted span (whitespace/case-insensitive) so it can be highlighted
+function splitOnQuote(content: string, quote: string): [string, string, string] | null {
+  const words = quote.trim().split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  if (words.length === 0 || !words[0]) return null;
+  const match = new RegExp(words.join("\\s+"), "i").exec(content);
+  if (!match) return null;
+  return [
+    content.slice(0, match.index),
+    match[0],
+    content.slice(match.index + match[0].length),
+  ];
+}
+
+export function EvidenceViewerDialog({ citation, onOpenChange }: EvidenceViewerDialogProps) {
+  const { data, isLoading, error } = useQuery<EvidenceResponse>({
+    queryKey: ["/api/proposals", citation?.proposalId, "evidence", citation?.sectionId],
+    enabled: !!citation,
+  });
+
+  const highlighted = data && citation ? splitOnQuote(data.section.content, citation.quote) : null;
+
+  return (
+    <Dialog open={!!citation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-evidence-viewer">
+        <DialogHeader>
+          <DialogTitle>Proposal Evidence</DialogTitle>
+          <DialogDescription>
+            {data
+              ? `${data.fileName} · ${data.section.title}${data.section.anchor ? ` (${data.section.anchor})` : ""}`
+              : "Source text cited by the evaluation agent"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {citation && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="capitalize">{citation.role}</Badge>
+              {citation.verified ? (
+                <Badge variant="default" className="gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Verified quote
+                </Badge>
+              ) : (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  Quote not found in source
+                </Badge>
+              )}
+            </div>
+            {citation.supports && (
+              <p className="text-sm text-muted-foreground">Supports: {citation.supports}</p>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !data ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            The cited proposal section is no longer available.
+          </div>
+        ) : (
+          <ScrollArea className="h-[50vh] rounded-md border p-4">
+            <pre className="whitespace-pre-wrap font-sans text-sm" data-testid="text-evidence-section">
+              {highlighted ? (
+                <>
+                  {highlighted[0]}
+                  <mark className="bg-yellow-200 dark:bg-yellow-800 rounded px-0.5">{highlighted[1]}</mark>
+                  {highlighted[2]}
+                </>
+              ) : (
+                data.section.content
+              )}
+            </pre>
+          </ScrollArea>
+        )}
+
+        {data?.blobUrl && (
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" asChild>
+              <a href={data.blobUrl} target="_blank" rel="noopener noreferrer" data-testid="link-evidence-source">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open Source Document
+              </a>
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Download, MessageSquare, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { ChatSession } from "@shared/schema";
+
+interface KbChatSessionListProps {
+  activeSessionId: string | null;
+  onSelect: (sessionId: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The signed-in user's knowledge base chat sessions with rename, export and delete
+ */
+export function KbChatSessionList({ activeSessionId, onSelect, disabled }: KbChatSessionListProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatSession | null>(null);
+
+  const { data: sessions = [], isLoading } = useQuery<ChatSession[]>({
+    queryKey: ["/api/kb-chatbot/sessions"],
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, title }: { id: string; title: string }) => {
+      return await apiRequest("PATCH", `/api/kb-chatbot/sessions/${id}`, { title });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kb-chatbot/sessions"] });
+      setEditingId(null);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to rename conversation", description: error.message });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/kb-chatbot/sessions/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kb-chatbot/sessions"] });
+      if (id === activeSessionId) onSelect(null);
+      setPendingDelete(null);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to delete conversation", description: error.message });
+    },
+  });
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditTitle(session.title || "");
+  };
+
+  const submitRename = (id: string) => {
+    if (!editTitle.trim()) return;
+    renameMutation.mutate({ id, title: editTitle.trim() });
+  };
+
+  return (
+    <Card className="h-[600px] flex flex-col">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Conversations</CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onSelect(null)}
+            disabled={disabled}
+            data-testid="button-new-kb-chat"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="flex-1 min-h-0 p-2">
+        <ScrollArea className="h-full">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground p-2">Loading...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-2">
+              No saved conversations yet. Your questions are saved automatically.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className={`group rounded-md px-2 py-2 text-sm ${
+                    session.id === activeSessionId ? "bg-muted" : "hover-elevate"
+                  }`}
+                  data-testid={`kb-chat-session-${session.id}`}
+                >
+                  {editingId === session.id ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={editTitle}
+                        onChange={(e) => setEditTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitRename(session.id);
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                        className="h-7 text-sm"
+                        autoFocus
+                        data-testid={`input-rename-kb-chat-${session.id}`}
+                      />
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => submitRename(session.id)} disabled={renameMutation.isPending}>
+                        <Check className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        className="flex-1 min-w-0 flex items-center gap-2 text-left disabled:opacity-50"
+                        onClick={() => onSelect(session.id)}
+                        disabled={disabled}
+                      >
+                        <MessageSquare className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                        <span className="truncate">{session.title || "New Conversation"}</span>
+                      </button>
+                      <div className="flex items-center opacity-0 group-hover:opacity-100">
+                        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => startRename(session)} title="Rename" data-testid={`button-rename-kb-chat-${session.id}`}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-6 w-6" asChild title="Export as Markdown">
+                          <a href={`/api/kb-chatbot/sessions/${session.id}/export`} download data-testid={`link-export-kb-chat-${session.id}`}>
+                            <Download className="h-3 w-3" />
+                          </a>
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => setPendingDelete(session)} title="Delete" data-testid={`button-delete-kb-chat-${session.id}`}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || "New Conversation"}" and its feedback will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-kb-chat"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Cpu, RotateCcw, Save } from "lucide-react";
+import type { llmProviderIds, llmTasks } from "@shared/schema";
+
+type LlmProviderId = typeof llmProviderIds[number];
+type LlmTask = typeof llmTasks[number];
+
+interface LlmRoute {
+  provider: LlmProviderId;
+  model: string;
+}
+
+interface LlmRouting {
+  providers: { id: LlmProviderId; label: string; configured: boolean; defaultModel: string | null }[];
+  defaultRoute: LlmRoute | null;
+  tasks: { task: LlmTask; description: string; route: LlmRoute | null; effective: LlmRoute | null }[];
+}
+
+const TASK_LABELS: Record<LlmTask, string> = {
+  evaluation: "Evaluation",
+  analysis: "Analysis",
+  generation: "Generation",
+  chat: "Chat",
+  summarization: "Summarization",
+  research: "Research",
+  mock_data: "Mock Data",
+  retrieval: "Retrieval",
+};
+
+export function LlmRoutingPanel() {
+  const { toast } = useToast();
+  const [edits, setEdits] = useState<Partial<Record<LlmTask, Partial<LlmRoute>>>>({});
+
+  const { data: routing, isLoading } = useQuery<LlmRouting>({
+    queryKey: ["/api/llm/routing"],
+  });
+
+  const clearEdit = (task: LlmTask) => {
+    setEdits(prev => {
+      const { [task]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const saveRouteMutation = useMutation({
+    mutationFn: async ({ task, route }: { task: LlmTask; route: LlmRoute }) => {
+      return await apiRequest("PUT", `/api/llm/routing/${task}`, route);
+    },
+    onSuccess: (_data, { task, route }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/llm/routing"] });
+      clearEdit(task);
+      toast({ title: "Model routing saved", description: `${TASK_LABELS[task]} now runs on ${route.provider} / ${route.model}.` });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to save routing", description: error.message });
+    },
+  });
+
+  const resetRouteMutation = useMutation({
+    mutationFn: async (task: LlmTask) => {
+      return await apiRequest("DELETE", `/api/llm/routing/${task}`);
+    },
+    onSuccess: (_data, task) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/llm/routing"] });
+      clearEdit(task);
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to reset routing", description: error.message });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="w-5 h-5" />
+          Model Routing
+        </CardTitle>
+        <CardDescription>
+          Choose the provider and model for each kind of AI task, e.g. a cheaper or local model for summaries and the strongest model for evaluation. Tasks without a route use the default provider.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !routing ? (
+          <div className="text-sm text-muted-foreground">Loading model routing...</div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2" data-testid="llm-provider-status">
+              {routing.providers.map((provider) => (
+                <Badge key={provider.id} variant={provider.configured ? "default" : "outline"}>
+                  {provider.label}: {provider.configured ? provider.defaultModel || "configured" : "not configured"}
+                </Badge>
+              ))}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Default: {routing.defaultRoute ? `${routing.defaultRoute.provider} / ${routing.defaultRoute.model}` : "no provider configured"}.
+              Local models need <code className="bg-muted px-1 rounded">LOCAL_LLM_BASE_URL</code> (e.g. http://localhost:11434/v1 for Ollama).
+            </div>
+
+            <div className="space-y-2">
+              {routing.tasks.map(({ task, description, route, effective }) => {
+                const edit = edits[task] || {};
+                const provider = edit.provider ?? route?.provider ?? "";
+                const model = edit.model ?? route?.model ?? "";
+                const isDirty = !!edits[task];
+                const canSave = isDirty && !!provider && model.trim().length > 0;
+
+                return (
+                  <div key={task} className="border rounded-lg p-3 space-y-2" data-testid={`llm-route-${task}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium">{TASK_LABELS[task]}</div>
+                        <div className="text-xs text-muted-foreground">{description}</div>
+                      </div>
+                      <Badge variant={route ? "secondary" : "outline"} className="flex-shrink-0">
+                        {effective ? `${effective.provider} / ${effective.model}` : "unavailable"}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={provider}
+                        onValueChange={(value) => setEdits(prev => ({ ...prev, [task]: { ...prev[task], provider: value as LlmProviderId } }))}
+                      >
+                        <SelectTrigger className="w-56" data-testid={`select-llm-provider-${task}`}>
+                          <SelectValue placeholder="Default provider" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {routing.providers.map((option) => (
+                            <SelectItem key={option.id} value={option.id} disabled={!option.configured}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        value={model}
+                        onChange={(e) => setEdits(prev => ({ ...prev, [task]: { ...prev[task], model: e.target.value } }))}
+                        placeholder={provider === "azure-openai" ? "Deployment name" : "Model name"}
+                        data-testid={`input-llm-model-${task}`}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => saveRouteMutation.mutate({ task, route: { provider: provider as LlmProviderId, model: model.trim() } })}
+                        disabled={!canSave || saveRouteMutation.isPending}
+                        data-testid={`button-save-llm-route-${task}`}
+                      >
+                        <Save className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => (route ? resetRouteMutation.mutate(task) : clearEdit(task))}
+                        disabled={(!route && !isDirty) || resetRouteMutation.isPending}
+                        title="Use the default provider"
+                        data-testid={`button-reset-llm-route-${task}`}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,265 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Search } from "lucide-react";
+import { JsonTemplateField, PLACEHOLDER_HINT } from "@/components/ConnectorTemplateFields";
+
+interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: { properties?: Record<string, { type?: string }>; required?: string[] };
+}
+
+interface McpResource {
+  uri: string;
+  name?: string;
+  description?: string;
+}
+
+interface McpDiscovery {
+  server: { protocolVersion: string; serverInfo?: { name: string; version?: string } };
+  tools: McpTool[];
+  resources: McpResource[];
+}
+
+interface ToolSelection {
+  name: string;
+  arguments?: Record<string, unknown>;
+  roles?: string[];
+  onDemand?: boolean;
+}
+
+interface ResourceSelection {
+  uri: string;
+  roles?: string[];
+}
+
+// Search-style starting point: the first (preferably required) string argument gets the evaluation query
+function defaultArguments(tool: McpTool): Record<string, unknown> {
+  const properties = tool.inputSchema?.properties || {};
+  const stringProperties = Object.keys(properties).filter((name) => properties[name]?.type === "string");
+  const required = tool.inputSchema?.required || [];
+  const target = stringProperties.find((name) => required.includes(name)) || stringProperties[0];
+  return target ? { [target]: "{{query}}" } : {};
+}
+
+interface RoleTogglesProps {
+  roleMapping: string[];
+  roles?: string[];
+  onChange: (roles: string[] | undefined) => void;
+  testId: string;
+}
+
+function RoleToggles({ roleMapping, roles, onChange, testId }: RoleTogglesProps) {
+  if (roleMapping.length === 0) {
+    return null;
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-xs text-muted-foreground mr-1">
+        {roles?.length ? "Roles:" : "All mapped roles:"}
+      </span>
+      {roleMapping.map((role) => {
+        const selected = roles?.includes(role);
+        return (
+          <Badge
+            key={role}
+            variant={selected ? "default" : "outline"}
+            className="cursor-pointer capitalize text-xs"
+            onClick={() => {
+              const next = selected ? (roles || []).filter((r) => r !== role) : [...(roles || []), role];
+              onChange(next.length ? next : undefined);
+            }}
+            data-testid={`${testId}-${role}`}
+          >
+            {role}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+interface McpToolSelectorProps {
+  connectorId?: string;
+  config: Record<string, any>;
+  roleMapping: string[];
+  onChange: (config: Record<string, any>) => void;
+}
+
+/**
+ * Tool and resource selection for an MCP server connector: discovers what the server offers and
+ * stores the chosen tools (with argument templates) and resources, each optionally limited to some roles
+ */
+export function McpToolSelector({ connectorId, config, roleMapping, onChange }: McpToolSelectorProps) {
+  const { toast } = useToast();
+  const tools: ToolSelection[] = config.tools || [];
+  const resources: ResourceSelection[] = config.resources || [];
+
+  const discoverMutation = useMutation({
+    mutationFn: async (): Promise<McpDiscovery> => {
+      return await apiRequest("POST", `/api/mcp-connectors/${connectorId}/discover`);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to discover MCP tools", description: error.message, variant: "destructive" });
+    },
+  });
+  const discovery = discoverMutation.data;
+
+  const setTools = (next: ToolSelection[]) => onChange({ ...config, tools: next.length ? next : undefined });
+  const setResources = (next: ResourceSelection[]) => onChange({ ...config, resources: next.length ? next : undefined });
+  const updateTool = (name: string, changes: Partial<ToolSelection>) =>
+    setTools(tools.map((tool) => (tool.name === name ? { ...tool, ...changes } : tool)));
+
+  // Discovered tools, plus selected ones the server no longer lists
+  const toolList: McpTool[] = [
+    ...(discovery?.tools || []),
+    ...tools.filter((tool) => !discovery?.tools.some((t) => t.name === tool.name)).map((tool) => ({ name: tool.name })),
+  ];
+  const resourceList: McpResource[] = [
+    ...(discovery?.resources || []),
+    ...resources.filter((resource) => !discovery?.resources.some((r) => r.uri === resource.uri)).map((resource) => ({ uri: resource.uri })),
+  ];
+
+  return (
+    <div className="space-y-4 border rounded-md p-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium">MCP Tools & Resources</p>
+          <p className="text-xs text-muted-foreground">
+            {discovery
+              ? `${discovery.server.serverInfo?.name || "Server"} (protocol ${discovery.server.protocolVersion}): ${discovery.tools.length} tools, ${discovery.resources.length} resources`
+              : connectorId
+                ? "Discover the server's tools to choose what the agents receive."
+                : "Save the connector first, then edit it to discover its tools."}
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => discoverMutation.mutate()}
+          disabled={!connectorId || discoverMutation.isPending}
+          className="gap-2 flex-shrink-0"
+          data-testid="button-discover-tools"
+        >
+          {discoverMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+          Discover Tools
+        </Button>
+      </div>
+
+      {tools.length === 0 && resources.length === 0 && (
+        <p className="text-xs text-muted-foreground" data-testid="text-default-tool">
+          No tools selected: the Zapier Confluence search (confluence_cloud_search_for_page_or_blog_post) is called.
+        </p>
+      )}
+
+      {toolList.map((tool) => {
+        const selection = tools.find((t) => t.name === tool.name);
+        return (
+          <div key={tool.name} className="space-y-2 border-t pt-3" data-testid={`mcp-tool-${tool.name}`}>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!selection}
+                onChange={(e) =>
+                  setTools(e.target.checked
+                    ? [...tools, { name: tool.name, arguments: defaultArguments(tool) }]
+                    : tools.filter((t) => t.name !== tool.name))
+                }
+                className="h-4 w-4 mt-0.5"
+                data-testid={`checkbox-tool-${tool.name}`}
+              />
+              <span>
+                <span className="text-sm font-mono">{tool.name}</span>
+                {tool.description && <span className="block text-xs text-muted-foreground">{tool.description}</span>}
+              </span>
+            </label>
+            {selection && (
+              <div className="pl-6 space-y-2">
+                <RoleToggles
+                  roleMapping={roleMapping}
+                  roles={selection.roles}
+                  onChange={(roles) => updateTool(tool.name, { roles })}
+                  testId={`badge-tool-role-${tool.name}`}
+                />
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!selection.onDemand}
+                    onChange={(e) =>
+                      // Agents choose the arguments of on-demand tools, so the prefetch defaults are dropped
+                      updateTool(tool.name, e.target.checked
+                        ? { onDemand: true, arguments: undefined }
+                        : { onDemand: undefined, arguments: defaultArguments(tool) })
+                    }
+                    className="h-4 w-4 mt-0.5"
+                    data-testid={`checkbox-tool-on-demand-${tool.name}`}
+                  />
+                  <span className="text-xs">
+                    <span className="font-medium">Called by agents on demand</span>
+                    <span className="block text-muted-foreground">
+                      {selection.onDemand
+                        ? "Agents decide when to call this tool and with which arguments while they evaluate."
+                        : "Called once before the agents run; its result is added to their context."}
+                    </span>
+                  </span>
+                </label>
+                <JsonTemplateField
+                  key={selection.onDemand ? "fixed" : "template"}
+                  label={selection.onDemand ? "Fixed Arguments (JSON, Optional)" : "Arguments (JSON)"}
+                  value={selection.arguments}
+                  placeholder={selection.onDemand ? '{ "vendor": "{{vendorName}}" }' : '{ "query": "{{query}}" }'}
+                  onChange={(value) => updateTool(tool.name, { arguments: value as Record<string, unknown> | undefined })}
+                  testId={`input-tool-arguments-${tool.name}`}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {resourceList.map((resource) => {
+        const selection = resources.find((r) => r.uri === resource.uri);
+        return (
+          <div key={resource.uri} className="space-y-2 border-t pt-3" data-testid={`mcp-resource-${resource.uri}`}>
+            <label className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!selection}
+                onChange={(e) =>
+                  setResources(e.target.checked
+                    ? [...resources, { uri: resource.uri }]
+                    : resources.filter((r) => r.uri !== resource.uri))
+                }
+                className="h-4 w-4 mt-0.5"
+                data-testid={`checkbox-resource-${resource.uri}`}
+              />
+              <span>
+                <span className="text-sm">{resource.name || resource.uri}</span>
+                <span className="block text-xs text-muted-foreground font-mono">{resource.uri}</span>
+                {resource.description && <span className="block text-xs text-muted-foreground">{resource.description}</span>}
+              </span>
+            </label>
+            {selection && (
+              <div className="pl-6">
+                <RoleToggles
+                  roleMapping={roleMapping}
+                  roles={selection.roles}
+                  onChange={(roles) => setResources(resources.map((r) => (r.uri === resource.uri ? { ...r, roles } : r)))}
+                  testId={`badge-resource-role-${resource.uri}`}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {(tools.length > 0 || resources.length > 0) && (
+        <p className="text-xs text-muted-foreground">{PLACEHOLDER_HINT}</p>
+      )}
+    </div>
+  );
+}
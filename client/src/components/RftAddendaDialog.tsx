@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Sparkles, Send, HelpCircle, FileText, Plus } from "lucide-react";
+import { format } from "date-fns";
+import type { RftAddendum, RftClarification } from "@shared/schema";
+
+interface RftAddendaDialogProps {
+  rftId: string;
+  rftName: string;
+  sections: { sectionId: string; title: string }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "outline",
+  answered: "secondary",
+  published: "default",
+  withdrawn: "destructive",
+};
+
+export function RftAddendaDialog({ rftId, rftName, sections, open, onOpenChange }: RftAddendaDialogProps) {
+  const { toast } = useToast();
+  const [vendorName, setVendorName] = useState("");
+  const [question, setQuestion] = useState("");
+  const [sectionId, setSectionId] = useState<string>("none");
+  const [answerDrafts, setAnswerDrafts] = useState<Record<string, string>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [addendumTitle, setAddendumTitle] = useState("");
+  const [addendumNotes, setAddendumNotes] = useState("");
+
+  const clarificationsKey = [`/api/generated-rfts/${rftId}/clarifications`];
+  const addendaKey = [`/api/generated-rfts/${rftId}/addenda`];
+
+  const { data: clarifications = [], isLoading } = useQuery<RftClarification[]>({
+    queryKey: clarificationsKey,
+    enabled: open,
+  });
+
+  const { data: addenda = [] } = useQuery<RftAddendum[]>({
+    queryKey: addendaKey,
+    enabled: open,
+  });
+
+  const sectionTitle = (id: string | null) => sections.find(s => s.sectionId === id)?.title;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/generated-rfts/${rftId}/clarifications`, {
+        vendorName: vendorName.trim(),
+        question: question.trim(),
+        sectionId: sectionId === "none" ? undefined : sectionId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: clarificationsKey });
+      setQuestion("");
+      setSectionId("none");
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to record question", description: error.message });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; answer?: string; status?: "open" | "withdrawn" }) => {
+      return await apiRequest("PATCH", `/api/clarifications/${id}`, updates);
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: clarificationsKey });
+      setAnswerDrafts(prev => {
+        const { [id]: _saved, ...rest } = prev;
+        return rest;
+      });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to update clarification", description: error.message });
+    },
+  });
+
+  const draftAnswerMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/clarifications/${id}/draft-answer`, {});
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: clarificationsKey });
+      setAnswerDrafts(prev => {
+        const { [id]: _discarded, ...rest } = prev;
+        return rest;
+      });
+      toast({ title: "Answer drafted", description: "Review the AI draft before issuing it in an addendum." });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to draft answer", description: error.message });
+    },
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/generated-rfts/${rftId}/addenda`, {
+        title: addendumTitle.trim(),
+        notes: addendumNotes.trim() || undefined,
+        clarificationIds: selectedIds,
+      });
+    },
+    onSuccess: (addendum: RftAddendum) => {
+      queryClient.invalidateQueries({ queryKey: clarificationsKey });
+      queryClient.invalidateQueries({ queryKey: addendaKey });
+      setSelectedIds([]);
+      setAddendumTitle("");
+      setAddendumNotes("");
+      toast({ title: `Addendum ${addendum.number} issued`, description: "It is now included in the Download All pack." });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Failed to issue addendum", description: error.message });
+    },
+  });
+
+  const answered = clarifications.filter(c => c.status === "answered");
+  const canPublish = addendumTitle.trim().length > 0 && (selectedIds.length > 0 || addendumNotes.trim().length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Clarifications & Addenda</DialogTitle>
+          <DialogDescription>
+            Record vendor questions for "{rftName}", answer them, and issue numbered addenda to all vendors.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="clarifications" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="clarifications" data-testid="tab-clarifications">
+              <HelpCircle className="w-4 h-4 mr-1" />
+              Questions ({clarifications.filter(c => c.status === "open").length} open)
+            </TabsTrigger>
+            <TabsTrigger value="addenda" data-testid="tab-addenda">
+              <FileText className="w-4 h-4 mr-1" />
+              Addenda ({addenda.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="clarifications" className="space-y-4">
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="clarification-vendor">Vendor</Label>
+                  <Input
+                    id="clarification-vendor"
+                    value={vendorName}
+                    onChange={(e) => setVendorName(e.target.value)}
+                    data-testid="input-clarification-vendor"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>RFT Section</Label>
+                  <Select value={sectionId} onValueChange={setSectionId}>
+                    <SelectTrigger data-testid="select-clarification-section">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">General / not section-specific</SelectItem>
+                      {sections.map((section) => (
+                        <SelectItem key={section.sectionId} value={section.sectionId}>{section.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Textarea
+                value={question}
+                onChange={(e) => setQuestion(e.target.value)}
+                placeholder="Vendor's question..."
+                data-testid="textarea-clarification-question"
+              />
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  onClick={() => createMutation.mutate()}
+                  disabled={!vendorName.trim() || question.trim().length < 5 || createMutation.isPending}
+                  data-testid="button-add-clarification"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Record Question
+                </Button>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading questions...</div>
+            ) : clarifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-clarifications">No clarification questions yet.</p>
+            ) : (
+              clarifications.map((clarification) => {
+                const isFrozen = clarification.status === "published" || clarification.status === "withdrawn";
+                const draft = answerDrafts[clarification.id] ?? clarification.answer ?? "";
+                const references = (clarification.answerReferences as { label: string }[] | null) || [];
+                return (
+                  <div key={clarification.id} className="border rounded-lg p-3 space-y-2 text-sm" data-testid={`clarification-${clarification.id}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="space-y-1">
+                        <div className="font-medium">{clarification.question}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {clarification.vendorName}
+                          {sectionTitle(clarification.sectionId) && ` · ${sectionTitle(clarification.sectionId)}`}
+                          {` · ${format(new Date(clarification.createdAt), "PP")}`}
+                        </div>
+                      </div>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {clarification.answerSource === "ai_assisted" && <Badge variant="outline">AI-assisted</Badge>}
+                        <Badge variant={STATUS_VARIANTS[clarification.status] || "outline"} className="capitalize">
+                          {clarification.status}
+                        </Badge>
+                      </div>
+                    </div>
+
+                    {isFrozen ? (
+                      clarification.answer && <div className="whitespace-pre-wrap rounded-md bg-muted p-2">{clarification.answer}</div>
+                    ) : (
+                      <>
+                        <Textarea
+                          value={draft}
+                          onChange={(e) => setAnswerDrafts(prev => ({ ...prev, [clarification.id]: e.target.value }))}
+                          placeholder="Answer to issue to all vendors..."
+                          className="min-h-24"
+                          data-testid={`textarea-answer-${clarification.id}`}
+                        />
+                        {references.length > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Based on: {references.map(ref => ref.label).join("; ")}
+                          </div>
+                        )}
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => updateMutation.mutate({ id: clarification.id, status: "withdrawn" })}
+                            disabled={updateMutation.isPending}
+                            data-testid={`button-withdraw-${clarification.id}`}
+                          >
+                            Withdraw
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => draftAnswerMutation.mutate(clarification.id)}
+                            disabled={draftAnswerMutation.isPending}
+                            data-testid={`button-draft-answer-${clarification.id}`}
+                          >
+                            {draftAnswerMutation.isPending && draftAnswerMutation.variables === clarification.id
+                              ? <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              : <Sparkles className="w-4 h-4 mr-1" />}
+                            Draft with AI
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => updateMutation.mutate({ id: clarification.id, answer: draft.trim() })}
+                            disabled={!draft.trim() || draft === clarification.answer || updateMutation.isPending}
+                            data-testid={`button-save-answer-${clarification.id}`}
+                          >
+                            Save Answer
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="addenda" className="space-y-4">
+            <div className="border rounded-lg p-3 space-y-3">
+              <div className="font-medium text-sm">Issue Addendum {addenda.length + 1}</div>
+              <Input
+                value={addendumTitle}
+                onChange={(e) => setAddendumTitle(e.target.value)}
+                placeholder="Title, e.g. Responses to vendor questions (round 1)"
+                data-testid="input-addendum-title"
+              />
+              <Textarea
+                value={addendumNotes}
+                onChange={(e) => setAddendumNotes(e.target.value)}
+                placeholder="Optional changes or instructions (e.g. deadline extension)"
+                data-testid="textarea-addendum-notes"
+              />
+              {answered.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No answered questions waiting to be issued.</p>
+              ) : (
+                <div className="space-y-2">
+                  {answered.map((clarification) => (
+                    <div key={clarification.id} className="flex items-start gap-2">
+                      <Checkbox
+                        id={`include-${clarification.id}`}
+                        checked={selectedIds.includes(clarification.id)}
+                        onCheckedChange={(checked) =>
+                          setSelectedIds(prev => checked === true
+                            ? [...prev, clarification.id]
+                            : prev.filter(id => id !== clarification.id))
+                        }
+                        data-testid={`checkbox-include-${clarification.id}`}
+                      />
+                      <Label htmlFor={`include-${clarification.id}`} className="text-sm font-normal leading-snug">
+                        {clarification.question}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => publishMutation.mutate()}
+                  disabled={!canPublish || publishMutation.isPending}
+                  data-testid="button-issue-addendum"
+                >
+                  {publishMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                  Issue Addendum
+                </Button>
+              </div>
+            </div>
+
+            {addenda.map((addendum) => (
+              <div key={addendum.id} className="border rounded-lg p-3 space-y-1 text-sm" data-testid={`addendum-${addendum.number}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">Addendum {addendum.number}: {addendum.title}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {addendum.publishedBy} · {format(new Date(addendum.publishedAt), "PPp")}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {(addendum.clarificationIds as string[]).length} clarification(s)
+                  {addendum.notes ? " · includes changes/instructions" : ""}
+                </div>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { History, RotateCcw, GitCompare, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import type { GeneratedRftRevision } from "@shared/schema";
+
+type RevisionSummary = Omit<GeneratedRftRevision, "sections">;
+
+interface RevisionList {
+  currentVersion: number;
+  publishedVersion: number | null;
+  revisions: RevisionSummary[];
+}
+
+interface SectionDiff {
+  sectionId: string;
+  title: string;
+  status: "added" | "removed" | "modified" | "unchanged";
+  previousTitle?: string;
+  lines: { type: "added" | "removed" | "unchanged"; text: string }[];
+}
+
+interface RevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  nameChanged: { from: string; to: string } | null;
+  summary: { added: number; removed: number; modified: number; unchanged: number };
+  sections: SectionDiff[];
+}
+
+const CHANGE_TYPE_LABELS: Record<string, string> = {
+  initial: "Generated",
+  edited: "Edited",
+  section_regenerated: "Section regenerated",
+  restored: "Restored",
+};
+
+interface RftRevisionHistoryProps {
+  rftId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: (rft: any) => void;
+}
+
+export function RftRevisionHistory({ rftId, open, onOpenChange, onRestored }: RftRevisionHistoryProps) {
+  const { toast } = useToast();
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  const { data: history, isLoading } = useQuery<RevisionList>({
+    queryKey: [`/api/generated-rfts/${rftId}/revisions`],
+    enabled: open && !!rftId,
+  });
+
+  // Default comparison: what was published (or the previous version) against the current version
+  useEffect(() => {
+    if (!history) return;
+    const current = history.currentVersion;
+    const baseline = history.publishedVersion && history.publishedVersion !== current
+      ? history.publishedVersion
+      : Math.max(1, current - 1);
+    setFromVersion(String(baseline));
+    setToVersion(String(current));
+  }, [history?.currentVersion, history?.publishedVersion]);
+
+  const canCompare = !!fromVersion && !!toVersion && fromVersion !== toVersion;
+  const { data: diff, isFetching: isDiffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`/api/generated-rfts/${rftId}/diff?from=${fromVersion}&to=${toVersion}`],
+    enabled: open && canCompare,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      return await apiRequest("POST", `/api/generated-rfts/${rftId}/revisions/${version}/restore`, {});
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/generated-rfts/${rftId}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/generated-rfts/${rftId}`] });
+      onRestored?.(data.rft);
+      toast({ title: "Version restored", description: data.message });
+    },
+    onError: (error: any) => {
+      toast({ variant: "destructive", title: "Restore failed", description: error.message });
+    },
+  });
+
+  const versions = history
+    ? Array.from(new Set([history.currentVersion, ...history.revisions.map(r => r.version)])).sort((a, b) => b - a)
+    : [];
+
+  const versionLabel = (version: number) => {
+    const tags = [
+      version === history?.currentVersion ? "current" : null,
+      version === history?.publishedVersion ? "published" : null,
+    ].filter(Boolean);
+    return tags.length ? `v${version} (${tags.join(", ")})` : `v${version}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Version History
+          </DialogTitle>
+          <DialogDescription>
+            Every edit, regeneration and restore is kept as a separate version. Compare any two versions or restore an earlier one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-muted-foreground">Loading history...</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 min-h-0 flex-1">
+            <ScrollArea className="md:col-span-1 border rounded-lg h-[60vh]">
+              <div className="p-3 space-y-2">
+                {history?.revisions.length === 0 && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-revisions">
+                    v{history.currentVersion} has not been changed since it was generated.
+                  </p>
+                )}
+                {history?.revisions.map((revision) => {
+                  const isCurrent = revision.version === history.currentVersion;
+                  const changedCount = (revision.changedSectionIds as string[] | null)?.length ?? 0;
+                  return (
+                    <div key={revision.id} className="border rounded-md p-2 space-y-1 text-sm" data-testid={`revision-${revision.version}`}>
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">v{revision.version}</span>
+                        <div className="flex gap-1">
+                          {isCurrent && <Badge variant="default">Current</Badge>}
+                          {revision.version === history.publishedVersion && <Badge variant="secondary">Published</Badge>}
+                        </div>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {CHANGE_TYPE_LABELS[revision.changeType] || revision.changeType}
+                        {revision.restoredFromVersion ? ` from v${revision.restoredFromVersion}` : ""}
+                        {changedCount > 0 ? ` · ${changedCount} section${changedCount === 1 ? "" : "s"}` : ""}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {revision.createdBy} · {format(new Date(revision.createdAt), "PPp")}
+                      </div>
+                      {!isCurrent && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 w-full"
+                          onClick={() => restoreMutation.mutate(revision.version)}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-${revision.version}`}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+
+            <div className="md:col-span-2 flex flex-col min-h-0 space-y-3">
+              <div className="flex items-center gap-2">
+                <GitCompare className="w-4 h-4 text-muted-foreground" />
+                <Select value={fromVersion} onValueChange={setFromVersion}>
+                  <SelectTrigger className="w-48" data-testid="select-diff-from">
+                    <SelectValue placeholder="From" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version} value={String(version)}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">→</span>
+                <Select value={toVersion} onValueChange={setToVersion}>
+                  <SelectTrigger className="w-48" data-testid="select-diff-to">
+                    <SelectValue placeholder="To" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version} value={String(version)}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <ScrollArea className="border rounded-lg h-[55vh]">
+                <div className="p-3 space-y-4">
+                  {!canCompare ? (
+                    <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+                  ) : isDiffLoading || !diff ? (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Comparing...
+                    </div>
+                  ) : (
+                    <>
+                      <div className="flex flex-wrap gap-2 text-xs" data-testid="text-diff-summary">
+                        <Badge variant="outline">{diff.summary.modified} modified</Badge>
+                        <Badge variant="outline">{diff.summary.added} added</Badge>
+                        <Badge variant="outline">{diff.summary.removed} removed</Badge>
+                        <Badge variant="outline">{diff.summary.unchanged} unchanged</Badge>
+                      </div>
+                      {diff.nameChanged && (
+                        <div className="text-sm">
+                          Name: <span className="line-through text-red-600">{diff.nameChanged.from}</span>{" "}
+                          <span className="text-green-700">{diff.nameChanged.to}</span>
+                        </div>
+                      )}
+                      {diff.sections.filter(section => section.status !== "unchanged").map((section) => (
+                        <div key={section.sectionId} className="space-y-1" data-testid={`diff-section-${section.sectionId}`}>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-sm">{section.title}</span>
+                            <Badge variant={section.status === "removed" ? "destructive" : "secondary"} className="capitalize">
+                              {section.status}
+                            </Badge>
+                            {section.previousTitle && (
+                              <span className="text-xs text-muted-foreground">was "{section.previousTitle}"</span>
+                            )}
+                          </div>
+                          <pre className="text-xs font-mono whitespace-pre-wrap border rounded-md overflow-hidden">
+                            {section.lines.map((line, index) => (
+                              <div
+                                key={index}
+                                className={
+                                  line.type === "added"
+                                    ? "bg-green-500/10 text-green-800 dark:text-green-300 px-2"
+                                    : line.type === "removed"
+                                      ? "bg-red-500/10 text-red-800 dark:text-red-300 line-through px-2"
+                                      : "text-muted-foreground px-2"
+                                }
+                              >
+                                {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                                {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        </div>
+                      ))}
+                      {diff.summary.added + diff.summary.removed + diff.summary.modified === 0 && !diff.nameChanged && (
+                        <p className="text-sm text-muted-foreground">These versions have identical content.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,7 +4,9 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { VendorDocumentsDialog } from "./VendorDocumentsDialog";
 import { CharacteristicScoringMatrix } from "./CharacteristicScoringMatrix";
+import { EvidenceViewerDialog } from "./EvidenceViewerDialog";
 import { useState } from "react";
+import type { EvaluationCitation } from "@shared/schema";
 import {
   Briefcase,
   Package,
@@ -16,6 +18,7 @@ import {
   AlertCircle,
   TrendingUp,
   FileText,
+  Quote,
 } from "lucide-react";
 
 interface VendorDocument {
@@ -56,6 +59,7 @@ interface VendorEvaluation {
     score: number;
     findings: string;
   }[];
+  citations?: EvaluationCitation[] | null;
   excelScores?: {
     characteristicScores?: {
       compatibility: number;
@@ -77,6 +81,7 @@ export function RoleBasedEvaluationReport({ evaluations }: RoleBasedEvaluationRe
   const [selectedVendor, setSelectedVendor] = useState<VendorEvaluation | null>(null);
   const [documentsDialogOpen, setDocumentsDialogOpen] = useState(false);
   const [currentRole, setCurrentRole] = useState<'delivery' | 'product' | 'architecture' | 'engineering' | 'security' | 'procurement'>('delivery');
+  const [selectedCitation, setSelectedCitation] = useState<EvaluationCitation | null>(null);
 
   const handleViewDocuments = (evaluation: VendorEvaluation, role: typeof currentRole) => {
     setSelectedVendor(evaluation);
@@ -185,6 +190,41 @@ export function RoleBasedEvaluationReport({ evaluations }: RoleBasedEvaluationRe
     }
   };
 
+  // Proposal evidence cited by this role's agent (clickable to view the source section)
+  const renderEvidence = (evaluation: VendorEvaluation, role: typeof currentRole) => {
+    const citations = (evaluation.citations || []).filter(c => c.role === role);
+    if (citations.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Evidence:</p>
+        <ul className="space-y-2">
+          {citations.map((citation, index) => (
+            <li key={index}>
+              <button
+                type="button"
+                onClick={() => setSelectedCitation(citation)}
+                className="w-full text-left rounded-md border p-2 text-xs hover-elevate"
+                data-testid={`button-citation-${evaluation.vendorName}-${role}-${index}`}
+              >
+                <div className="flex items-start gap-2">
+                  <Quote className="h-3 w-3 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                  <span className="line-clamp-2 italic">{citation.quote}</span>
+                </div>
+                <div className="flex items-center justify-between gap-2 mt-1 text-muted-foreground">
+                  <span className="truncate">{citation.anchor || citation.sectionTitle || citation.sectionId}</span>
+                  {!citation.verified && (
+                    <Badge variant="destructive" className="text-[10px] px-1 py-0">Unverified</Badge>
+                  )}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
   const renderVendorCard = (evaluation: VendorEvaluation, relevantInsights: string[], role: typeof currentRole, metrics?: { label: string; value: number | string; inverse?: boolean }[]) => (
     <Card key={evaluation.vendorName} className="hover-elevate">
       <CardHeader>
@@ -227,6 +267,7 @@ export function RoleBasedEvaluationReport({ evaluations }: RoleBasedEvaluationRe
             )}
           </ul>
         </div>
+        {renderEvidence(evaluation, role)}
         {evaluation.documents && evaluation.documents.length > 0 && (
           <div className="pt-3 border-t">
             <Button
@@ -577,6 +618,7 @@ export function RoleBasedEvaluationReport({ evaluations }: RoleBasedEvaluationRe
                       )}
                     </ul>
                   </div>
+                  {renderEvidence(evaluation, 'security')}
                   {evaluation.documents && evaluation.documents.length > 0 && (
                     <div className="pt-3 border-t">
                       <Button
@@ -635,6 +677,12 @@ export function RoleBasedEvaluationReport({ evaluations }: RoleBasedEvaluationRe
           roleFilter={currentRole}
         />
       )}
+
+      {/* Citation Evidence Dialog */}
+      <EvidenceViewerDialog
+        citation={selectedCitation}
+        onOpenChange={(open) => !open && setSelectedCitation(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { History } from "lucide-react";
+import { format } from "date-fns";
+import type { ScoreOverride } from "@shared/schema";
+
+interface ScoreOverrideHistoryProps {
+  evaluationId: string;
+}
+
+export function ScoreOverrideHistory({ evaluationId }: ScoreOverrideHistoryProps) {
+  const { data: overrides, isLoading } = useQuery<ScoreOverride[]>({
+    queryKey: [`/api/evaluations/${evaluationId}/overrides`],
+    enabled: !!evaluationId,
+  });
+
+  return (
+    <Card data-testid="card-override-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Score Override History
+        </CardTitle>
+        <CardDescription>
+          Every manual score change with reviewer, justification and its effect on the overall score.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading override history...</div>
+        ) : !overrides || overrides.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No scores have been overridden for this evaluation.</div>
+        ) : (
+          <div className="space-y-3">
+            {overrides.map((override) => (
+              <div
+                key={override.id}
+                className="border rounded-lg p-3 space-y-1"
+                data-testid={`override-${override.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-sm font-medium">{override.question}</div>
+                  <Badge variant="outline" className="flex-shrink-0">
+                    {override.previousScore}% → {override.newScore}%
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {override.section} · {override.reviewerName} · {format(new Date(override.createdAt), "PPp")}
+                  {override.previousOverallScore !== null && override.newOverallScore !== null && (
+                    <> · Overall {override.previousOverallScore}% → {override.newOverallScore}%</>
+                  )}
+                </div>
+                <div className="text-sm">{override.justification}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
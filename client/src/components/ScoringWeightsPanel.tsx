@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Scale, RotateCcw, RefreshCw, Save } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { agentRoles, type AgentRoleName, type ScoringConfig } from "@shared/schema";
+
+const ROLE_LABELS: Record<AgentRoleName, string> = {
+  delivery: "Delivery Manager",
+  product: "Product Manager",
+  architecture: "Solution Architect",
+  engineering: "Engineering Lead",
+  procurement: "Procurement",
+  security: "Cybersecurity",
+};
+
+const DIMENSION_LABELS: Record<keyof ScoringConfig["dimensionWeights"], string> = {
+  agentOverall: "Agents' overall score",
+  functionalFit: "Functional fit",
+  technicalFit: "Technical fit",
+  deliveryRisk: "Delivery risk (inverted)",
+  compliance: "Compliance",
+};
+
+interface ScoringConfigResponse {
+  config: ScoringConfig;
+  isDefault: boolean;
+}
+
+interface ScoringWeightsPanelProps {
+  projectId: string;
+}
+
+export function ScoringWeightsPanel({ projectId }: ScoringWeightsPanelProps) {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [draft, setDraft] = useState<ScoringConfig | null>(null);
+
+  const { data, isLoading } = useQuery<ScoringConfigResponse>({
+    queryKey: ["/api/projects", projectId, "scoring-config"],
+    enabled: !!projectId && isAdmin,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setDraft(data.config);
+    }
+  }, [data]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "scoring-config"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "evaluations"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ config, recompute }: { config: ScoringConfig; recompute: boolean }) => {
+      await apiRequest("PUT", `/api/projects/${projectId}/scoring-config`, config);
+      return recompute ? await apiRequest("POST", `/api/projects/${projectId}/recompute`) : null;
+    },
+    onSuccess: (result: any) => {
+      invalidate();
+      toast({
+        title: result ? "Evaluations re-aggregated" : "Scoring weights saved",
+        description: result
+          ? `${result.recomputed} evaluations recomputed${result.skipped ? `, ${result.skipped} skipped (no stored agent outputs)` : ""}.`
+          : "New weights apply to future evaluations and re-aggregation.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Update Failed",
+        description: error.message || "Failed to save scoring weights",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/projects/${projectId}/scoring-config`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Scoring weights reset",
+        description: "The project now uses the default equal-weight model.",
+      });
+    },
+  });
+
+  if (!isAdmin || isLoading || !draft) {
+    return null;
+  }
+
+  const setRoleWeight = (role: AgentRoleName, value: number) =>
+    setDraft({ ...draft, roleWeights: { ...draft.roleWeights, [role]: value } });
+
+  const setDimensionWeight = (dimension: keyof ScoringConfig["dimensionWeights"], value: number) =>
+    setDraft({ ...draft, dimensionWeights: { ...draft.dimensionWeights, [dimension]: value } });
+
+  const toggleVetoRole = (role: AgentRoleName, checked: boolean) =>
+    setDraft({
+      ...draft,
+      consensus: {
+        ...draft.consensus,
+        vetoRoles: checked
+          ? [...draft.consensus.vetoRoles, role]
+          : draft.consensus.vetoRoles.filter(r => r !== role),
+      },
+    });
+
+  const parseWeight = (value: string) => Math.min(10, Math.max(0, parseFloat(value) || 0));
+  const isSaving = saveMutation.isPending || resetMutation.isPending;
+
+  return (
+    <Card data-testid="card-scoring-weights">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Scoring Weights
+            </CardTitle>
+            <CardDescription>
+              Weight each agent and score dimension for this project, then re-aggregate stored agent results without re-running the AI.
+            </CardDescription>
+          </div>
+          <Badge variant={data?.isDefault ? "secondary" : "default"}>
+            {data?.isDefault ? "Default" : "Custom"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <div className="text-sm font-medium mb-3">Agent role weights</div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {agentRoles.map((role) => (
+              <div key={role} className="space-y-1">
+                <Label htmlFor={`weight-${role}`}>{ROLE_LABELS[role]}</Label>
+                <Input
+                  id={`weight-${role}`}
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={draft.roleWeights[role]}
+                  onChange={(e) => setRoleWeight(role, parseWeight(e.target.value))}
+                  data-testid={`input-role-weight-${role}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-3">Overall score blend</div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {(Object.keys(DIMENSION_LABELS) as Array<keyof ScoringConfig["dimensionWeights"]>).map((dimension) => (
+              <div key={dimension} className="space-y-1">
+                <Label htmlFor={`dimension-${dimension}`}>{DIMENSION_LABELS[dimension]}</Label>
+                <Input
+                  id={`dimension-${dimension}`}
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={draft.dimensionWeights[dimension]}
+                  onChange={(e) => setDimensionWeight(dimension, parseWeight(e.target.value))}
+                  data-testid={`input-dimension-weight-${dimension}`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-1">Consensus rules</div>
+          <p className="text-xs text-muted-foreground mb-3">
+            Agents cast weighted votes on a 6-vote scale. Risk-flagging is checked before recommendation.
+          </p>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="space-y-1">
+              <Label htmlFor="risk-flagged-votes">Risk-flagged at (votes)</Label>
+              <Input
+                id="risk-flagged-votes"
+                type="number"
+                min={1}
+                max={6}
+                step={0.5}
+                value={draft.consensus.riskFlaggedMinVotes}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  consensus: { ...draft.consensus, riskFlaggedMinVotes: Math.min(6, Math.max(1, parseFloat(e.target.value) || 1)) },
+                })}
+                data-testid="input-risk-flagged-votes"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recommended-votes">Recommended at (votes)</Label>
+              <Input
+                id="recommended-votes"
+                type="number"
+                min={1}
+                max={6}
+                step={0.5}
+                value={draft.consensus.recommendedMinVotes}
+                onChange={(e) => setDraft({
+                  ...draft,
+                  consensus: { ...draft.consensus, recommendedMinVotes: Math.min(6, Math.max(1, parseFloat(e.target.value) || 1)) },
+                })}
+                data-testid="input-recommended-votes"
+              />
+            </div>
+          </div>
+          <div className="text-sm mb-2">Veto roles (a risk flag from these agents flags the vendor)</div>
+          <div className="flex flex-wrap gap-4">
+            {agentRoles.map((role) => (
+              <div key={role} className="flex items-center gap-2">
+                <Checkbox
+                  id={`veto-${role}`}
+                  checked={draft.consensus.vetoRoles.includes(role)}
+                  onCheckedChange={(checked) => toggleVetoRole(role, checked === true)}
+                  data-testid={`checkbox-veto-${role}`}
+                />
+                <Label htmlFor={`veto-${role}`}>{ROLE_LABELS[role]}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={() => resetMutation.mutate()}
+            disabled={isSaving || data?.isDefault}
+            data-testid="button-reset-weights"
+          >
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reset to Defaults
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => saveMutation.mutate({ config: draft, recompute: false })}
+            disabled={isSaving}
+            data-testid="button-save-weights"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate({ config: draft, recompute: true })}
+            disabled={isSaving}
+            data-testid="button-recompute"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${saveMutation.isPending ? "animate-spin" : ""}`} />
+            Save & Re-aggregate
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { MessageSquare, Check, X, CheckCircle2, RotateCcw, TextSelect, Reply } from "lucide-react";
+import { format } from "date-fns";
+import { userRoleLabels, type DraftSectionComment, type UserRole } from "@shared/schema";
+
+interface CommentThread extends DraftSectionComment {
+  replies: DraftSectionComment[];
+  currentAnchor: { start: number; end: number } | null;
+}
+
+interface SectionCommentsPanelProps {
+  draftId: string;
+  sectionId: string;
+  sectionContent: string;
+  // Rendered section content; text selected inside it becomes the comment anchor
+  getContentElement: () => HTMLElement | null;
+  // Whether the signed-in user owns the section (may accept/reject suggestions)
+  isSectionOwner: boolean;
+}
+
+interface Anchor {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export function SectionCommentsPanel({ draftId, sectionId, sectionContent, getContentElement, isSectionOwner }: SectionCommentsPanelProps) {
+  const { toast } = useToast();
+  const { user, isAdmin } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [body, setBody] = useState("");
+  const [anchor, setAnchor] = useState<Anchor | null>(null);
+  const [isSuggestion, setIsSuggestion] = useState(false);
+  const [suggestedText, setSuggestedText] = useState("");
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+
+  const commentsQueryKey = [`/api/rft/drafts/${draftId}/comments`];
+  const { data: allThreads = [] } = useQuery<CommentThread[]>({
+    queryKey: commentsQueryKey,
+  });
+
+  const threads = allThreads.filter(thread => thread.sectionId === sectionId);
+  const openCount = threads.filter(thread => !thread.resolved).length;
+  const visibleThreads = showResolved ? threads : threads.filter(thread => !thread.resolved);
+
+  const refreshComments = () => {
+    queryClient.invalidateQueries({ queryKey: commentsQueryKey });
+  };
+
+  const resetComposer = () => {
+    setBody("");
+    setAnchor(null);
+    setIsSuggestion(false);
+    setSuggestedText("");
+  };
+
+  const createThreadMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/rft/drafts/${draftId}/sections/${sectionId}/comments`, {
+        body: body.trim(),
+        anchor: anchor || undefined,
+        suggestedText: isSuggestion ? suggestedText : undefined,
+      });
+    },
+    onSuccess: () => {
+      refreshComments();
+      resetComposer();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to add comment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ threadId, text }: { threadId: string; text: string }) => {
+      return await apiRequest("POST", `/api/draft-comments/${threadId}/replies`, { body: text });
+    },
+    onSuccess: (_data, { threadId }) => {
+      refreshComments();
+      setReplyDrafts(prev => ({ ...prev, [threadId]: "" }));
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to add reply", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ threadId, resolved }: { threadId: string; resolved: boolean }) => {
+      return await apiRequest("PATCH", `/api/draft-comments/${threadId}/resolve`, { resolved });
+    },
+    onSuccess: refreshComments,
+    onError: (error: any) => {
+      toast({ title: "Failed to update thread", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Accepting a suggestion edits the section, so the draft itself needs refetching too
+  const decideSuggestionMutation = useMutation({
+    mutationFn: async ({ threadId, decision }: { threadId: string; decision: "accept" | "reject" }) => {
+      return await apiRequest("POST", `/api/draft-comments/${threadId}/suggestion`, { decision });
+    },
+    onSuccess: (data: any) => {
+      refreshComments();
+      queryClient.invalidateQueries({ queryKey: [`/api/rft/drafts/${draftId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rft/drafts"] });
+      toast({ title: data.message });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update suggestion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Map the browser selection in the rendered section back to the raw markdown
+  const captureSelection = () => {
+    const selection = window.getSelection();
+    const selectedText = selection?.toString().trim() || "";
+    if (!selection || !selectedText || !getContentElement()?.contains(selection.anchorNode)) {
+      toast({ title: "Select text in this section first" });
+      return;
+    }
+
+    const start = sectionContent.indexOf(selectedText);
+    if (start === -1) {
+      toast({
+        title: "Selection spans formatting",
+        description: "Select plain text within a single paragraph, list item or table cell.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setAnchor({ start, end: start + selectedText.length, text: selectedText });
+    setSuggestedText(selectedText);
+  };
+
+  const roleLabel = (role: string) => userRoleLabels[role as UserRole] || role;
+
+  const canResolve = (thread: CommentThread) =>
+    isAdmin || isSectionOwner || thread.authorId === user?.id;
+
+  const canSubmit = body.trim().length > 0 && (!isSuggestion || !!anchor) && !createThreadMutation.isPending;
+
+  return (
+    <div className="mt-4 border-t pt-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setIsOpen(!isOpen)}
+          data-testid={`button-toggle-comments-${sectionId}`}
+        >
+          <MessageSquare className="h-4 w-4 mr-1" />
+          Comments
+          {openCount > 0 && <Badge variant="secondary" className="ml-2">{openCount}</Badge>}
+        </Button>
+        {isOpen && threads.some(thread => thread.resolved) && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`show-resolved-${sectionId}`}
+              checked={showResolved}
+              onCheckedChange={(checked) => setShowResolved(checked === true)}
+              data-testid={`checkbox-show-resolved-${sectionId}`}
+            />
+            <Label htmlFor={`show-resolved-${sectionId}`} className="text-xs font-normal">
+              Show resolved
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {isOpen && (
+        <>
+          {visibleThreads.length === 0 && (
+            <p className="text-sm text-muted-foreground">No open comments on this section.</p>
+          )}
+
+          {visibleThreads.map((thread) => (
+            <div
+              key={thread.id}
+              className={`border rounded-lg p-3 space-y-2 text-sm ${thread.resolved ? "opacity-60" : ""}`}
+              data-testid={`comment-thread-${thread.id}`}
+            >
+              {thread.anchorText && (
+                <blockquote
+                  className={`border-l-2 pl-2 text-xs text-muted-foreground ${thread.currentAnchor ? "" : "line-through"}`}
+                  title={thread.currentAnchor ? undefined : "This text is no longer in the section, or now occurs more than once"}
+                >
+                  {thread.anchorText}
+                </blockquote>
+              )}
+
+              {thread.kind === "suggestion" && (
+                <div className="rounded-md bg-muted p-2 text-xs" data-testid={`suggestion-${thread.id}`}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-medium">Suggested change</span>
+                    <Badge variant={thread.suggestionStatus === "rejected" ? "destructive" : "outline"} className="capitalize">
+                      {thread.suggestionStatus}
+                    </Badge>
+                  </div>
+                  <div className="whitespace-pre-wrap">{thread.suggestedText || <em>Delete the quoted text</em>}</div>
+                </div>
+              )}
+
+              <CommentBody comment={thread} roleLabel={roleLabel} />
+              {thread.replies.map((reply) => (
+                <div key={reply.id} className="ml-4 border-l pl-3">
+                  <CommentBody comment={reply} roleLabel={roleLabel} />
+                </div>
+              ))}
+
+              <div className="flex items-center justify-end gap-2 flex-wrap">
+                {thread.kind === "suggestion" && thread.suggestionStatus === "open" && isSectionOwner && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => decideSuggestionMutation.mutate({ threadId: thread.id, decision: "reject" })}
+                      disabled={decideSuggestionMutation.isPending}
+                      data-testid={`button-reject-suggestion-${thread.id}`}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => decideSuggestionMutation.mutate({ threadId: thread.id, decision: "accept" })}
+                      disabled={decideSuggestionMutation.isPending || !thread.currentAnchor}
+                      data-testid={`button-accept-suggestion-${thread.id}`}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Accept
+                    </Button>
+                  </>
+                )}
+                {canResolve(thread) && !(thread.kind === "suggestion" && thread.suggestionStatus !== "open") && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => resolveMutation.mutate({ threadId: thread.id, resolved: !thread.resolved })}
+                    disabled={resolveMutation.isPending}
+                    data-testid={`button-resolve-${thread.id}`}
+                  >
+                    {thread.resolved ? <RotateCcw className="h-3 w-3 mr-1" /> : <CheckCircle2 className="h-3 w-3 mr-1" />}
+                    {thread.resolved ? "Reopen" : "Resolve"}
+                  </Button>
+                )}
+              </div>
+
+              {!thread.resolved && (
+                <div className="flex items-start gap-2">
+                  <Textarea
+                    value={replyDrafts[thread.id] || ""}
+                    onChange={(e) => setReplyDrafts(prev => ({ ...prev, [thread.id]: e.target.value }))}
+                    placeholder="Reply..."
+                    className="min-h-[36px] text-sm"
+                    data-testid={`textarea-reply-${thread.id}`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => replyMutation.mutate({ threadId: thread.id, text: (replyDrafts[thread.id] || "").trim() })}
+                    disabled={!(replyDrafts[thread.id] || "").trim() || replyMutation.isPending}
+                    data-testid={`button-reply-${thread.id}`}
+                  >
+                    <Reply className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="border rounded-lg p-3 space-y-2" data-testid={`comment-composer-${sectionId}`}>
+            <div className="flex items-center justify-between gap-2">
+              {anchor ? (
+                <div className="flex items-center gap-2 min-w-0 text-xs text-muted-foreground">
+                  <span className="truncate">On: "{anchor.text}"</span>
+                  <Button size="sm" variant="ghost" className="h-6 px-1" onClick={() => { setAnchor(null); setIsSuggestion(false); }}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-xs text-muted-foreground">Comment on the whole section, or select text above</span>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={captureSelection}
+                data-testid={`button-use-selection-${sectionId}`}
+              >
+                <TextSelect className="h-3 w-3 mr-1" />
+                Use Selection
+              </Button>
+            </div>
+            <Textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder={isSuggestion ? "Why this change?" : "Add a comment..."}
+              className="text-sm"
+              data-testid={`textarea-comment-${sectionId}`}
+            />
+            {anchor && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id={`suggest-${sectionId}`}
+                  checked={isSuggestion}
+                  onCheckedChange={(checked) => setIsSuggestion(checked === true)}
+                  data-testid={`checkbox-suggest-${sectionId}`}
+                />
+                <Label htmlFor={`suggest-${sectionId}`} className="text-xs font-normal">
+                  Suggest replacement text
+                </Label>
+              </div>
+            )}
+            {isSuggestion && (
+              <Textarea
+                value={suggestedText}
+                onChange={(e) => setSuggestedText(e.target.value)}
+                className="text-sm font-mono"
+                data-testid={`textarea-suggested-text-${sectionId}`}
+              />
+            )}
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={() => createThreadMutation.mutate()}
+                disabled={!canSubmit}
+                data-testid={`button-add-comment-${sectionId}`}
+              >
+                {createThreadMutation.isPending ? "Posting..." : isSuggestion ? "Suggest Change" : "Comment"}
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function CommentBody({ comment, roleLabel }: { comment: DraftSectionComment; roleLabel: (role: string) => string }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.authorName}</span>
+        <span>{roleLabel(comment.authorRole)}</span>
+        <span>· {format(new Date(comment.createdAt), "PPp")}</span>
+      </div>
+      <div className="whitespace-pre-wrap">{comment.body}</div>
+    </div>
+  );
+}
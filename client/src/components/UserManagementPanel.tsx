@@ -0,0 +1,192 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Users, UserPlus } from "lucide-react";
+import { format } from "date-fns";
+import { userRoles, userRoleLabels, type PublicUser, type UserRole } from "@shared/schema";
+
+export function UserManagementPanel() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("technical_pm");
+
+  const { data: users, isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/users", {
+        username: username.trim(),
+        displayName: displayName.trim(),
+        password,
+        role,
+      });
+    },
+    onSuccess: (created: PublicUser) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUsername("");
+      setDisplayName("");
+      setPassword("");
+      toast({ title: "User created", description: `${created.displayName} can now sign in as ${created.username}.` });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to create user",
+        description: error.message,
+      });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string; role?: UserRole; isActive?: boolean }) => {
+      return await apiRequest("PATCH", `/api/users/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Failed to update user",
+        description: error.message,
+      });
+    },
+  });
+
+  const canCreate = username.trim().length >= 3 && displayName.trim().length > 0 && password.length >= 8;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Users & Roles
+        </CardTitle>
+        <CardDescription>
+          Stakeholder roles decide which RFT sections a user can approve; administrators manage configuration and data.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="new-user-username">Username</Label>
+            <Input
+              id="new-user-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              data-testid="input-new-user-username"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-user-display-name">Display Name</Label>
+            <Input
+              id="new-user-display-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              data-testid="input-new-user-display-name"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="new-user-password">Initial Password</Label>
+            <Input
+              id="new-user-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              placeholder="At least 8 characters"
+              data-testid="input-new-user-password"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+              <SelectTrigger data-testid="select-new-user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {userRoles.map((roleId) => (
+                  <SelectItem key={roleId} value={roleId}>{userRoleLabels[roleId]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          onClick={() => createUserMutation.mutate()}
+          disabled={!canCreate || createUserMutation.isPending}
+          data-testid="button-create-user"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          {createUserMutation.isPending ? "Creating..." : "Create User"}
+        </Button>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading users...</div>
+        ) : (
+          <div className="space-y-2">
+            {users?.map((account) => {
+              const isSelf = account.id === currentUser?.id;
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between gap-4 border rounded-lg p-3"
+                  data-testid={`user-row-${account.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{account.displayName}</span>
+                      {isSelf && <Badge variant="outline">You</Badge>}
+                      {!account.isActive && <Badge variant="secondary">Deactivated</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {account.username}
+                      {account.lastLoginAt && ` · Last sign-in ${format(new Date(account.lastLoginAt), "PPp")}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3 flex-shrink-0">
+                    <Select
+                      value={account.role}
+                      onValueChange={(value) => updateUserMutation.mutate({ id: account.id, role: value as UserRole })}
+                      disabled={isSelf}
+                    >
+                      <SelectTrigger className="w-52" data-testid={`select-user-role-${account.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userRoles.map((roleId) => (
+                          <SelectItem key={roleId} value={roleId}>{userRoleLabels[roleId]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      checked={account.isActive}
+                      onCheckedChange={(checked) => updateUserMutation.mutate({ id: account.id, isActive: checked })}
+                      disabled={isSelf}
+                      title={account.isActive ? "Deactivate account" : "Reactivate account"}
+                      data-testid={`switch-user-active-${account.id}`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { Home, FolderKanban, BookOpen, Settings, Database, Trash2, Wand2, Bot, Sparkles as SparklesIcon, BarChart3, Activity, FileText, FileCheck2, LucideIcon } from "lucide-react";
+import { Home, FolderKanban, BookOpen, Settings, Database, Trash2, Wand2, Bot, Sparkles as SparklesIcon, BarChart3, Activity, FileText, FileCheck2, Inbox, ListTodo, LogOut, LucideIcon } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -19,6 +19,8 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { userRoleLabels, type UserRole } from "@shared/schema";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 
 interface NavigationItem {
@@ -26,6 +28,7 @@ interface NavigationItem {
   url: string;
   icon: LucideIcon;
   devOnly?: boolean;
+  adminOnly?: boolean;
 }
 
 // Navigation items - filter out dev-only items in production
@@ -55,6 +58,11 @@ const allNavigationItems: NavigationItem[] = [
     url: "/rft-draft-review",
     icon: FileCheck2,
   },
+  {
+    title: "Review Inbox",
+    url: "/review-inbox",
+    icon: Inbox,
+  },
   {
     title: "Knowledge Base",
     url: "/standards",
@@ -74,12 +82,18 @@ const allNavigationItems: NavigationItem[] = [
     title: "Admin Config",
     url: "/admin-config",
     icon: Settings,
+    adminOnly: true,
   },
   {
     title: "Agent Metrics",
     url: "/agent-metrics",
     icon: Activity,
   },
+  {
+    title: "Background Jobs",
+    url: "/jobs",
+    icon: ListTodo,
+  },
 ];
 
 // Check if running in development mode
@@ -95,6 +109,7 @@ export function AppSidebar() {
   const { toast } = useToast();
   const [isWipeDialogOpen, setIsWipeDialogOpen] = useState(false);
   const { state } = useSidebar();
+  const { user, isAdmin, logoutMutation } = useAuth();
 
   const wipeDataMutation = useMutation({
     mutationFn: async () => {
@@ -133,7 +148,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {navigationItems.map((item) => (
+              {navigationItems.filter(item => !item.adminOnly || isAdmin).map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton asChild isActive={location === item.url}>
                     <Link href={item.url}>
@@ -147,8 +162,8 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
-        {/* Data Management section - only show in development mode */}
-        {isDevelopment && (
+        {/* Data Management section - only show in development mode, to admins */}
+        {isDevelopment && isAdmin && (
           <SidebarGroup>
             <SidebarGroupLabel>Data Management</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -191,6 +206,26 @@ export function AppSidebar() {
       </SidebarContent>
 
       <SidebarFooter className="border-t border-sidebar-border">
+        {user && (
+          <div className="flex items-center justify-between gap-2 px-2">
+            {state === "expanded" && (
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm font-medium truncate" data-testid="text-current-user">{user.displayName}</span>
+                <span className="text-xs text-muted-foreground truncate">{userRoleLabels[user.role as UserRole] || user.role}</span>
+              </div>
+            )}
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              title="Sign out"
+              data-testid="button-logout"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
         {state === "expanded" && (
           <div className="px-4 py-2">
             <p className="text-xs text-muted-foreground">Version 1.0.0</p>
@@ -0,0 +1,110 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import type { PublicUser } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type LoginData = { username: string; password: string };
+type RegisterData = LoginData & { displayName: string };
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isAdmin: boolean;
+  isLoading: boolean;
+  setupRequired: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<unknown, Error, void>;
+  registerMutation: UseMutationResult<PublicUser, Error, RegisterData>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading: isLoadingUser } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Only relevant before the first account exists (offers initial admin setup on the login page)
+  const { data: authStatus, isLoading: isLoadingStatus } = useQuery<{ setupRequired: boolean }>({
+    queryKey: ["/api/auth/status"],
+    enabled: !isLoadingUser && !user,
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      return await apiRequest("POST", "/api/login", credentials) as PublicUser;
+    },
+    onSuccess: (signedIn: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], signedIn);
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Sign in failed",
+        description: "Invalid username or password",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (data: RegisterData) => {
+      return await apiRequest("POST", "/api/register", data) as PublicUser;
+    },
+    onSuccess: (created: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], created);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Account setup failed",
+        description: error.message,
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached response so the next user never sees the previous user's data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Sign out failed",
+        description: error.message,
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isAdmin: user?.role === "admin",
+        isLoading: isLoadingUser || (!user && isLoadingStatus),
+        setupRequired: authStatus?.setupRequired ?? false,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,17 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * AbortSignal aborted when the component unmounts, e.g. to stop polling a background job once the
+ * user has left the page (the job itself keeps running). Read `.current` in handlers, not during render.
+ */
+export function useUnmountSignal() {
+  const signal = useRef<AbortSignal>();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    signal.current = controller.signal;
+    return () => controller.abort();
+  }, []);
+
+  return signal;
+}
@@ -0,0 +1,52 @@
+import { apiRequest } from "./queryClient";
+import type { Job } from "@shared/schema";
+
+// Evaluations of large projects can run for a long time; the job keeps running after this
+const DEFAULT_WAIT_TIMEOUT_MS = 60 * 60 * 1000;
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Whether an error comes from aborting waitForJob (e.g. on unmount) rather than from the job
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/**
+ * Poll a background job until it finishes. Resolves with the completed job and rejects with the
+ * job's error when it fails or is cancelled. Polling stops with an AbortError when `signal` is
+ * aborted and with a timeout error after `timeoutMs` (default one hour); neither stops the job.
+ */
+export async function waitForJob(
+  jobId: string,
+  options: { intervalMs?: number; timeoutMs?: number; signal?: AbortSignal; onProgress?: (job: Job) => void } = {},
+): Promise<Job> {
+  const { intervalMs = 3000, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS, signal, onProgress } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    signal?.throwIfAborted();
+    const job: Job = await apiRequest("GET", `/api/jobs/${jobId}`);
+    if (job.status === "completed") {
+      return job;
+    }
+    if (job.status === "failed" || job.status === "cancelled") {
+      throw new Error(job.error || `Job ${job.status}`);
+    }
+    onProgress?.(job);
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new Error(`Still ${job.status} after ${Math.round(timeoutMs / 60000)} minutes; the job continues in the background`);
+    }
+    await delay(intervalMs, signal);
+  }
+}
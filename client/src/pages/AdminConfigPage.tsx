@@ -8,6 +8,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Settings, AlertCircle, CheckCircle2, XCircle, Trash2, Info, Play, RotateCcw, Zap, FileText } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useState } from "react";
+import { UserManagementPanel } from "@/components/UserManagementPanel";
+import { LlmRoutingPanel } from "@/components/LlmRoutingPanel";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -202,6 +204,15 @@ export default function AdminConfigPage() {
             <li><code className="text-xs bg-muted px-1 py-0.5 rounded">AZURE_SEARCH_KEY</code></li>
             <li><code className="text-xs bg-muted px-1 py-0.5 rounded">AZURE_STORAGE_CONNECTION_STRING</code></li>
           </ul>
+          <p className="mt-2 text-sm">
+            On-premises and offline deployments can run the knowledge base without Azure AI Search or Azure OpenAI embeddings:
+            set <code className="text-xs bg-muted px-1 py-0.5 rounded">RAG_VECTOR_STORE</code> to <code className="text-xs bg-muted px-1 py-0.5 rounded">pgvector</code> or <code className="text-xs bg-muted px-1 py-0.5 rounded">memory</code> and
+            {" "}<code className="text-xs bg-muted px-1 py-0.5 rounded">RAG_EMBEDDING_PROVIDER</code> to <code className="text-xs bg-muted px-1 py-0.5 rounded">local</code>, then re-index existing documents.
+          </p>
+          <p className="mt-2 text-sm">
+            Retrieval quality: set <code className="text-xs bg-muted px-1 py-0.5 rounded">RAG_RERANKER</code> to <code className="text-xs bg-muted px-1 py-0.5 rounded">llm</code> (uses the Retrieval model route) or
+            {" "}<code className="text-xs bg-muted px-1 py-0.5 rounded">cross-encoder</code> with <code className="text-xs bg-muted px-1 py-0.5 rounded">RAG_RERANKER_URL</code> to rerank search results before they reach the agents.
+          </p>
           <p className="mt-2 text-sm">
             To access Replit Secrets: Click <strong>Tools</strong> → <strong>Secrets</strong> in the left sidebar, or use the search bar and type "Secrets".
           </p>
@@ -393,6 +404,10 @@ export default function AdminConfigPage() {
           </CardContent>
         </Card>
 
+        <UserManagementPanel />
+
+        <LlmRoutingPanel />
+
         <Card>
           <CardHeader>
             <CardTitle className="text-destructive">Danger Zone</CardTitle>
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Sparkles, LogIn, UserPlus } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+export default function AuthPage() {
+  const { setupRequired, loginMutation, registerMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+  const canSubmit = setupRequired
+    ? username.trim().length >= 3 && password.length >= 8 && displayName.trim().length > 0
+    : username.trim().length > 0 && password.length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    if (setupRequired) {
+      registerMutation.mutate({ username: username.trim(), password, displayName: displayName.trim() });
+    } else {
+      loginMutation.mutate({ username: username.trim(), password });
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-3">
+          <div className="flex items-center gap-2">
+            <div className="flex items-center justify-center h-8 w-8 rounded-md gradient-accent shadow-lg">
+              <Sparkles className="h-5 w-5 text-white" />
+            </div>
+            <span className="text-lg font-semibold">IntelliBid</span>
+          </div>
+          <CardTitle data-testid="text-auth-title">
+            {setupRequired ? "Create Administrator Account" : "Sign In"}
+          </CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? "No accounts exist yet. The first account is the platform administrator, who then creates accounts for stakeholders."
+              : "Sign in with the account your administrator created for you."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {setupRequired && (
+              <div className="space-y-1">
+                <Label htmlFor="auth-display-name">Display Name</Label>
+                <Input
+                  id="auth-display-name"
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  placeholder="e.g. Jordan Lee"
+                  data-testid="input-display-name"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="auth-username">Username</Label>
+              <Input
+                id="auth-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                autoComplete="username"
+                data-testid="input-username"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete={setupRequired ? "new-password" : "current-password"}
+                data-testid="input-password"
+              />
+              {setupRequired && (
+                <p className="text-xs text-muted-foreground">At least 8 characters.</p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={!canSubmit || isPending} data-testid="button-auth-submit">
+              {setupRequired ? <UserPlus className="h-4 w-4 mr-2" /> : <LogIn className="h-4 w-4 mr-2" />}
+              {isPending ? "Please wait..." : setupRequired ? "Create Account" : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
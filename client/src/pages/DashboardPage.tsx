@@ -8,6 +8,7 @@ import { RiskValueMatrix } from "@/components/RiskValueMatrix";
 import { CostBenefitChart } from "@/components/CostBenefitChart";
 import { StructuredAIRecommendation } from "@/components/StructuredAIRecommendation";
 import { EvaluationProgress } from "@/components/EvaluationProgress";
+import { EvaluationRunPanel } from "@/components/EvaluationRunPanel";
 import { VendorShortlistingProgress } from "@/components/VendorShortlistingProgress";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -479,6 +480,9 @@ export default function DashboardPage() {
 
       <div className="container mx-auto px-4 py-8">
         <div className="space-y-8">
+          {/* Failed or unfinished agents of the latest evaluation run */}
+          {projectId && !isReEvaluating && <EvaluationRunPanel projectId={projectId} />}
+
           {/* Vendor Shortlisting Progress Dashboard */}
           <VendorShortlistingProgress 
             vendorStages={vendorStageData}
@@ -1,12 +1,18 @@
+import { useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { ArrowLeft, CheckCircle2 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { ScoringWeightsPanel } from "@/components/ScoringWeightsPanel";
+import { ScoreOverrideHistory } from "@/components/ScoreOverrideHistory";
 import type { EvaluationCriteria } from "@shared/schema";
 
 const SCORE_OPTIONS = [
@@ -27,6 +33,10 @@ export default function DeepDivePage() {
   const vendorName = searchParams.get("vendor") || "";
   const projectId = searchParams.get("project") || "";
 
+  // Pending override awaiting reviewer justification
+  const [pendingOverride, setPendingOverride] = useState<{ criterion: EvaluationCriteria; score: number; scoreLabel: string } | null>(null);
+  const [justification, setJustification] = useState("");
+
   // Fetch evaluation criteria
   const { data: criteria, isLoading } = useQuery<EvaluationCriteria[]>({
     queryKey: [`/api/evaluations/${id}/criteria?role=${role}`],
@@ -35,21 +45,31 @@ export default function DeepDivePage() {
 
   // Update criteria mutation
   const updateCriteria = useMutation({
-    mutationFn: async ({ criteriaId, score, scoreLabel }: { criteriaId: string; score: number; scoreLabel: string }) => {
-      return await apiRequest("PATCH", `/api/evaluation-criteria/${criteriaId}`, { score, scoreLabel });
+    mutationFn: async ({ criteriaId, ...override }: { criteriaId: string; score: number; scoreLabel: string; justification: string }) => {
+      return await apiRequest("PATCH", `/api/evaluation-criteria/${criteriaId}`, override);
     },
     onSuccess: () => {
-      // Invalidate the criteria query for this evaluation
+      // Invalidate the criteria query and audit trail for this evaluation
       queryClient.invalidateQueries({ queryKey: [`/api/evaluations/${id}/criteria?role=${role}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/evaluations/${id}/overrides`] });
       
       // Invalidate the evaluations list query so Dashboard cards update
       if (projectId) {
         queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "evaluations"] });
       }
       
+      setPendingOverride(null);
+      setJustification("");
       toast({
         title: "Criteria updated",
-        description: "The evaluation criteria has been updated successfully.",
+        description: "The score override has been recorded in the audit trail.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Override Failed",
+        description: error.message || "Failed to update evaluation criteria",
       });
     },
   });
@@ -68,18 +88,25 @@ export default function DeepDivePage() {
     ? Math.round(criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length)
     : 0;
 
-  const handleScoreChange = (criteriaId: string, scoreValue: string) => {
+  // Score changes are overrides of the AI score and require a justification before saving
+  const handleScoreChange = (criterion: EvaluationCriteria, scoreValue: string) => {
     const score = parseInt(scoreValue);
     const option = SCORE_OPTIONS.find(opt => opt.value === score);
-    if (option) {
-      updateCriteria.mutate({
-        criteriaId,
-        score,
-        scoreLabel: option.label,
-      });
+    if (option && score !== criterion.score) {
+      setPendingOverride({ criterion, score, scoreLabel: option.label });
     }
   };
 
+  const handleConfirmOverride = () => {
+    if (!pendingOverride) return;
+    updateCriteria.mutate({
+      criteriaId: pendingOverride.criterion.id,
+      score: pendingOverride.score,
+      scoreLabel: pendingOverride.scoreLabel,
+      justification: justification.trim(),
+    });
+  };
+
   if (isLoading) {
     return (
       <div className="container mx-auto p-6">
@@ -160,7 +187,7 @@ export default function DeepDivePage() {
                       <div className="font-medium mb-2">{criterion.question}</div>
                       <Select
                         value={criterion.score.toString()}
-                        onValueChange={(value) => handleScoreChange(criterion.id, value)}
+                        onValueChange={(value) => handleScoreChange(criterion, value)}
                       >
                         <SelectTrigger
                           className={`w-full ${scoreOption?.color || ""}`}
@@ -201,7 +228,49 @@ export default function DeepDivePage() {
             </CardContent>
           </Card>
         )}
+
+        {id && <ScoreOverrideHistory evaluationId={id} />}
+
+        {projectId && <ScoringWeightsPanel projectId={projectId} />}
       </div>
+
+      <Dialog open={!!pendingOverride} onOpenChange={(open) => !open && setPendingOverride(null)}>
+        <DialogContent data-testid="dialog-score-override">
+          <DialogHeader>
+            <DialogTitle>Justify Score Override</DialogTitle>
+            <DialogDescription>
+              {pendingOverride && (
+                <>Changing "{pendingOverride.criterion.question}" from {pendingOverride.criterion.score}% to {pendingOverride.score}%. This change is recorded under your name in the evaluation audit trail.</>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="override-justification">Justification</Label>
+              <Textarea
+                id="override-justification"
+                value={justification}
+                onChange={(e) => setJustification(e.target.value)}
+                placeholder="Why does this criterion deserve a different score? (e.g. evidence from the product demonstration)"
+                rows={4}
+                data-testid="input-override-justification"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingOverride(null)} data-testid="button-cancel-override">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirmOverride}
+              disabled={justification.trim().length < 10 || updateCriteria.isPending}
+              data-testid="button-confirm-override"
+            >
+              Save Override
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ListTodo, RotateCcw, XCircle } from "lucide-react";
+import { format, formatDistanceStrict } from "date-fns";
+import { jobStatuses, type Job, type JobStatus } from "@shared/schema";
+
+const JOB_TYPE_LABELS: Record<string, string> = {
+  project_analysis: "Project analysis",
+  project_evaluation: "Vendor evaluation",
+  evaluation_run_resume: "Evaluation run resume",
+  rft_pack: "RFT pack generation",
+  mock_data: "Mock data generation",
+  document_ingestion: "Knowledge base ingestion",
+  rag_reindex: "Stale re-index",
+};
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "default",
+  completed: "secondary",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+// One-line summary of the progress a handler reported (evaluated vendors, re-indexed documents)
+function describeProgress(job: Job): string | null {
+  const progress = (job.progress || null) as Record<string, any> | null;
+  if (!progress) return null;
+  if (typeof progress.total === "number") {
+    const done = progress.evaluated ?? progress.checked ?? 0;
+    const current = progress.currentVendor || progress.currentDocument;
+    return `${done}/${progress.total}${current ? ` • ${current}` : ""}`;
+  }
+  return null;
+}
+
+export default function JobsPage() {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const params = new URLSearchParams();
+  if (typeFilter !== "all") params.set("type", typeFilter);
+  if (statusFilter !== "all") params.set("status", statusFilter);
+  const query = params.toString();
+
+  const { data: jobs = [], isLoading } = useQuery<Job[]>({
+    queryKey: [query ? `/api/jobs?${query}` : "/api/jobs"],
+    refetchInterval: (q) =>
+      q.state.data?.some((job) => job.status === "queued" || job.status === "running") ? 3000 : false,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "cancel" | "retry" }) => {
+      return await apiRequest("POST", `/api/jobs/${id}/${action}`);
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ predicate: (q) => String(q.queryKey[0]).startsWith("/api/jobs") });
+      toast({ title: action === "cancel" ? "Cancellation requested" : "Job queued again" });
+    },
+    onError: (error: any, { action }) => {
+      toast({ variant: "destructive", title: `Failed to ${action} job`, description: error.message });
+    },
+  });
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+            Background Jobs
+          </h1>
+          <p className="text-muted-foreground">
+            {isAdmin
+              ? "Long-running AI work across all users: evaluations, RFT packs, mock data and knowledge base indexing"
+              : "Long-running AI work you started: evaluations, RFT packs, mock data and knowledge base indexing"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-56" data-testid="select-job-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Job Types</SelectItem>
+              {Object.entries(JOB_TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40" data-testid="select-job-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {jobStatuses.map((status) => (
+                <SelectItem key={status} value={status} className="capitalize">{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>
+            Failed attempts are retried automatically with increasing delays. Jobs interrupted by a restart resume on the next start.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12 text-muted-foreground">Loading jobs...</div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12">
+              <ListTodo className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground" data-testid="text-jobs-empty">No jobs match these filters.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map((job) => {
+                  const status = job.status as JobStatus;
+                  const progress = describeProgress(job);
+                  const cancelRequested = status === "running" && !!job.cancelRequestedAt;
+                  return (
+                    <TableRow key={job.id} data-testid={`row-job-${job.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{JOB_TYPE_LABELS[job.type] || job.type}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{job.id.slice(0, 8)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[status] || "outline"} className="capitalize" data-testid={`badge-job-status-${job.id}`}>
+                          {cancelRequested ? "cancelling" : status}
+                        </Badge>
+                        {job.error && status !== "completed" && (
+                          <div className="text-xs text-destructive mt-1 max-w-xs truncate" title={job.error}>
+                            {status === "queued" ? `Retrying after: ${job.error}` : job.error}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{progress || "—"}</TableCell>
+                      <TableCell className="text-sm">{job.attempts}/{job.maxAttempts}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{format(new Date(job.createdAt), "PPp")}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {job.startedAt
+                          ? formatDistanceStrict(new Date(job.completedAt || Date.now()), new Date(job.startedAt))
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(status === "queued" || status === "running") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: job.id, action: "cancel" })}
+                            disabled={actionMutation.isPending || cancelRequested}
+                            data-testid={`button-cancel-job-${job.id}`}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                        {(status === "failed" || status === "cancelled") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => actionMutation.mutate({ id: job.id, action: "retry" })}
+                            disabled={actionMutation.isPending}
+                            data-testid={`button-retry-job-${job.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
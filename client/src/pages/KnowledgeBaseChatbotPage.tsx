@@ -1,22 +1,40 @@
 import { useState, useRef, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Send, Bot, User, Database, Plug, FileText, Loader2 } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Send, Bot, User, Database, Plug, FileText, Loader2, SearchX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { ChatSourcePanel, type ChatSource } from "@/components/ChatSourcePanel";
+import { KbChatSessionList } from "@/components/KbChatSessionList";
+import { ChatFeedbackButtons, type ChatFeedback } from "@/components/ChatFeedbackButtons";
 import { marked } from "marked";
 
 interface ChatMessage {
+  id?: string; // Set once the message is stored in the session
   role: "user" | "assistant";
   content: string;
   timestamp: number;
-  sources?: Array<{ type: "rag" | "mcp"; name: string; content?: string }>;
+  sources?: ChatSource[];
   ragChunksUsed?: number;
   mcpConnectorsUsed?: number;
+  noAnswer?: boolean;
+  confidence?: number;
+  feedback?: ChatFeedback | null;
+}
+
+interface StoredChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  sourceReferences: ChatSource[] | null;
+  metadata: { ragChunksUsed?: number; mcpConnectorsUsed?: number; noAnswer?: boolean; confidence?: number } | null;
+  feedback: ChatFeedback | null;
+  createdAt: string;
 }
 
 interface ChatbotStatus {
@@ -27,60 +45,154 @@ interface ChatbotStatus {
   missingConfiguration: string[];
 }
 
-interface ChatbotResponse {
-  answer: string;
-  sources: Array<{ type: "rag" | "mcp"; name: string; content?: string }>;
-  ragChunksUsed: number;
-  mcpConnectorsUsed: number;
+type ChatbotStreamEvent =
+  | { type: "sources"; sources: ChatSource[]; ragChunksUsed: number; mcpConnectorsUsed: number; noAnswer: boolean; confidence: number }
+  | { type: "chunk"; content: string }
+  | { type: "saved"; sessionId: string; messageId: string; sessionTitle: string }
+  | { type: "done" }
+  | { type: "error"; error: string };
+
+/**
+ * Render markdown and turn [n] markers that match a source into clickable citations
+ */
+function renderAnswer(content: string, sources: ChatSource[] = []): string {
+  const html = marked(content) as string;
+  return html.replace(/\[(\d+)\]/g, (marker, n) => {
+    const source = sources.find((s) => s.index === Number(n));
+    if (!source) return marker;
+    const title = source.name.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+    return `<button type="button" data-citation="${n}" title="${title}" class="inline-flex items-center justify-center align-super text-[10px] font-semibold leading-none min-w-[1.1rem] h-[1.1rem] px-1 mx-0.5 rounded bg-primary/15 text-primary hover:bg-primary/25 no-underline">${n}</button>`;
+  });
 }
 
 export default function KnowledgeBaseChatbotPage() {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState("");
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [selectedSource, setSelectedSource] = useState<ChatSource | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isLoadingSession, setIsLoadingSession] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
 
   // Check chatbot status
   const { data: status } = useQuery<ChatbotStatus>({
     queryKey: ["/api/kb-chatbot/status"],
   });
 
-  // Query mutation
-  const queryMutation = useMutation({
-    mutationFn: async (query: string) => {
-      const response = await apiRequest(
-        "POST",
-        "/api/kb-chatbot/query",
-        {
-          query,
-          conversationHistory: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-            timestamp: m.timestamp,
-          })),
+  const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) => {
+    setMessages((prev) => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+  };
+
+  const selectSession = async (sessionId: string | null) => {
+    setActiveSessionId(sessionId);
+    setMessages([]);
+    if (!sessionId) return;
+
+    setIsLoadingSession(true);
+    try {
+      const stored = await apiRequest("GET", `/api/kb-chatbot/sessions/${sessionId}/messages`) as StoredChatMessage[];
+      setMessages(stored.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.createdAt).getTime(),
+        sources: m.sourceReferences || undefined,
+        ragChunksUsed: m.metadata?.ragChunksUsed,
+        mcpConnectorsUsed: m.metadata?.mcpConnectorsUsed,
+        noAnswer: m.metadata?.noAnswer,
+        confidence: m.metadata?.confidence,
+        feedback: m.feedback,
+      })));
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Failed to load conversation", description: error.message });
+    } finally {
+      setIsLoadingSession(false);
+    }
+  };
+
+  // Stream the answer over SSE; sources arrive first so citations link as the text streams in.
+  // Every question is asked within a stored session (created on the first question).
+  const sendQuery = async (query: string) => {
+    setIsStreaming(true);
+    setInputValue("");
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: query, timestamp: Date.now() },
+      { role: "assistant", content: "", timestamp: Date.now() },
+    ]);
+
+    try {
+      let sessionId = activeSessionId;
+      if (!sessionId) {
+        const session = await apiRequest("POST", "/api/kb-chatbot/sessions", {});
+        sessionId = session.id as string;
+        setActiveSessionId(sessionId);
+      }
+
+      const response = await fetch("/api/kb-chatbot/query/stream", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, sessionId }),
+        credentials: "include",
+      });
+
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({ error: response.statusText }));
+        throw new Error(error.error || "Failed to query chatbot");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const event of events) {
+          if (!event.startsWith("data: ")) continue;
+          const data = JSON.parse(event.slice(6)) as ChatbotStreamEvent;
+
+          if (data.type === "sources") {
+            updateLastMessage((message) => ({
+              ...message,
+              sources: data.sources,
+              ragChunksUsed: data.ragChunksUsed,
+              mcpConnectorsUsed: data.mcpConnectorsUsed,
+              noAnswer: data.noAnswer,
+              confidence: data.confidence,
+            }));
+          } else if (data.type === "chunk") {
+            updateLastMessage((message) => ({ ...message, content: message.content + data.content }));
+          } else if (data.type === "saved") {
+            updateLastMessage((message) => ({ ...message, id: data.messageId }));
+            queryClient.invalidateQueries({ queryKey: ["/api/kb-chatbot/sessions"] });
+          } else if (data.type === "error") {
+            throw new Error(data.error);
+          }
         }
-      ) as ChatbotResponse;
-      return response;
-    },
-    onSuccess: (data, query) => {
-      setMessages((prev) => [
-        ...prev,
-        {
-          role: "user",
-          content: query,
-          timestamp: Date.now(),
-        },
-        {
-          role: "assistant",
-          content: data.answer,
-          timestamp: Date.now(),
-          sources: data.sources,
-          ragChunksUsed: data.ragChunksUsed,
-          mcpConnectorsUsed: data.mcpConnectorsUsed,
-        },
-      ]);
-      setInputValue("");
-    },
-  });
+      }
+    } catch (error: any) {
+      // Drop the unanswered exchange so the question can be retried
+      setMessages((prev) => prev.slice(0, -2));
+      setInputValue(query);
+      toast({ variant: "destructive", title: "Chatbot error", description: error.message });
+    } finally {
+      setIsStreaming(false);
+    }
+  };
+
+  const handleCitationClick = (e: React.MouseEvent<HTMLDivElement>, sources: ChatSource[] = []) => {
+    const target = (e.target as HTMLElement).closest<HTMLElement>("[data-citation]");
+    if (!target) return;
+    const source = sources.find((s) => s.index === Number(target.dataset.citation));
+    if (source) setSelectedSource(source);
+  };
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -91,8 +203,8 @@ export default function KnowledgeBaseChatbotPage() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputValue.trim() || queryMutation.isPending) return;
-    queryMutation.mutate(inputValue.trim());
+    if (!inputValue.trim() || isStreaming) return;
+    sendQuery(inputValue.trim());
   };
 
   return (
@@ -157,6 +269,12 @@ export default function KnowledgeBaseChatbotPage() {
       </div>
 
       {/* Chat Interface */}
+      <div className="grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-4">
+      <KbChatSessionList
+        activeSessionId={activeSessionId}
+        onSelect={selectSession}
+        disabled={isStreaming}
+      />
       <Card className="h-[600px] flex flex-col">
         <CardHeader>
           <CardTitle>Chat with Your Knowledge Base</CardTitle>
@@ -167,7 +285,12 @@ export default function KnowledgeBaseChatbotPage() {
         <CardContent className="flex-1 flex flex-col min-h-0">
           {/* Messages */}
           <ScrollArea className="flex-1 pr-4 mb-4" ref={scrollRef}>
-            {messages.length === 0 ? (
+            {isLoadingSession ? (
+              <div className="flex items-center justify-center h-full gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading conversation...
+              </div>
+            ) : messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground">
                 <Bot className="h-16 w-16 mb-4 opacity-20" />
                 <p className="text-lg font-medium mb-2">Start a conversation</p>
@@ -192,51 +315,90 @@ export default function KnowledgeBaseChatbotPage() {
                         msg.role === "user" ? "items-end" : "items-start"
                       }`}
                     >
-                      <div
-                        className={`rounded-lg px-4 py-3 overflow-hidden ${
-                          msg.role === "user"
-                            ? "bg-primary text-primary-foreground"
-                            : "bg-muted"
-                        }`}
-                      >
-                        {msg.role === "user" ? (
-                          <p className="text-sm whitespace-pre-wrap break-words">{msg.content}</p>
-                        ) : (
-                          <div 
-                            className="text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-headings:my-2 break-words overflow-wrap-anywhere"
-                            dangerouslySetInnerHTML={{ __html: marked(msg.content) as string }}
-                          />
-                        )}
-                      </div>
+                      {msg.role === "assistant" && !msg.content ? (
+                        <div className="flex items-center gap-2 bg-muted rounded-lg px-4 py-3">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          <span className="text-sm text-muted-foreground">
+                            Searching knowledge base...
+                          </span>
+                        </div>
+                      ) : (
+                        <div
+                          className={`rounded-lg px-4 py-3 overflow-hidden ${
+                            msg.role === "user"
+                              ? "bg-primary text-primary-foreground"
+                              : msg.noAnswer
+                                ? "bg-muted border border-dashed"
+                                : "bg-muted"
+                          }`}
+                          data-testid={msg.noAnswer ? "message-no-answer" : undefined}
+                        >
+                          {msg.role === "user" ? (
+                            <p className="text-sm whitespace-pre-wrap break-words">{msg.content}</p>
+                          ) : (
+                            <>
+                              {msg.noAnswer && (
+                                <div className="flex items-center gap-1 text-xs font-medium text-muted-foreground mb-1">
+                                  <SearchX className="h-3 w-3" />
+                                  No answer found
+                                </div>
+                              )}
+                              <div
+                                className="text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-2 prose-ul:my-2 prose-ol:my-2 prose-li:my-0 prose-headings:my-2 break-words overflow-wrap-anywhere"
+                                onClick={(e) => handleCitationClick(e, msg.sources)}
+                                dangerouslySetInnerHTML={{ __html: renderAnswer(msg.content, msg.sources) }}
+                              />
+                            </>
+                          )}
+                        </div>
+                      )}
 
                       {/* Sources */}
-                      {msg.sources && msg.sources.length > 0 && (
+                      {msg.sources && msg.sources.length > 0 && !msg.noAnswer && (
                         <div className="mt-2 flex flex-wrap gap-2">
                           <div className="text-xs text-muted-foreground flex items-center gap-1">
                             <FileText className="h-3 w-3" />
                             Sources:
                           </div>
-                          {msg.sources.map((source, i) => (
+                          {msg.sources.map((source) => (
                             <Badge
-                              key={i}
+                              key={source.index}
                               variant={source.type === "rag" ? "secondary" : "outline"}
-                              className="text-xs"
+                              className="text-xs cursor-pointer"
+                              onClick={() => setSelectedSource(source)}
+                              title={source.excerpt}
+                              data-testid={`badge-source-${index}-${source.index}`}
                             >
+                              <span className="font-semibold mr-1">[{source.index}]</span>
                               {source.type === "rag" ? (
                                 <Database className="h-3 w-3 mr-1" />
                               ) : (
                                 <Plug className="h-3 w-3 mr-1" />
                               )}
                               {source.name}
+                              {source.pageNumber !== undefined && ` p.${source.pageNumber}`}
                             </Badge>
                           ))}
                         </div>
                       )}
 
-                      {/* Stats */}
+                      {/* Stats and feedback */}
                       {msg.ragChunksUsed !== undefined && msg.mcpConnectorsUsed !== undefined && (
-                        <div className="mt-1 text-xs text-muted-foreground">
-                          {msg.ragChunksUsed} docs • {msg.mcpConnectorsUsed} connectors
+                        <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                          <span>
+                            {msg.ragChunksUsed} docs • {msg.mcpConnectorsUsed} connectors
+                            {msg.confidence !== undefined && ` • ${Math.round(msg.confidence * 100)}% retrieval confidence`}
+                          </span>
+                          {msg.id && activeSessionId && (
+                            <ChatFeedbackButtons
+                              sessionId={activeSessionId}
+                              messageId={msg.id}
+                              feedback={msg.feedback}
+                              onSaved={(feedback) => setMessages((prev) =>
+                                prev.map((m) => (m.id === msg.id ? { ...m, feedback } : m))
+                              )}
+                            />
+                          )}
                         </div>
                       )}
                     </div>
@@ -247,19 +409,6 @@ export default function KnowledgeBaseChatbotPage() {
                     )}
                   </div>
                 ))}
-                {queryMutation.isPending && (
-                  <div className="flex gap-3 justify-start">
-                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary flex items-center justify-center">
-                      <Bot className="h-4 w-4 text-primary-foreground" />
-                    </div>
-                    <div className="flex items-center gap-2 bg-muted rounded-lg px-4 py-3">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm text-muted-foreground">
-                        Searching knowledge base...
-                      </span>
-                    </div>
-                  </div>
-                )}
               </div>
             )}
           </ScrollArea>
@@ -273,16 +422,16 @@ export default function KnowledgeBaseChatbotPage() {
               placeholder="Ask about your knowledge base, RFT/RFI processes, or compliance standards..."
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
-              disabled={queryMutation.isPending || !status?.ready}
+              disabled={isStreaming || !status?.ready}
               className="flex-1"
             />
             <Button
               data-testid="button-send-query"
               type="submit"
-              disabled={!inputValue.trim() || queryMutation.isPending || !status?.ready}
+              disabled={!inputValue.trim() || isStreaming || !status?.ready}
               size="icon"
             >
-              {queryMutation.isPending ? (
+              {isStreaming ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : (
                 <Send className="h-4 w-4" />
@@ -297,6 +446,12 @@ export default function KnowledgeBaseChatbotPage() {
           )}
         </CardContent>
       </Card>
+      </div>
+
+      <ChatSourcePanel
+        source={selectedSource}
+        onOpenChange={(open) => !open && setSelectedSource(null)}
+      />
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, ArrowLeft, FileText, Calendar, Download, FileDown, Upload } from "lucide-react";
+import { Plus, ArrowLeft, FileText, Calendar, Download, FileDown, Upload, HelpCircle } from "lucide-react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link, useParams, useLocation } from "wouter";
 import { Loader2 } from "lucide-react";
@@ -11,6 +11,7 @@ import { format } from "date-fns";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { RftAddendaDialog } from "@/components/RftAddendaDialog";
 
 interface Portfolio {
   id: string;
@@ -46,6 +47,7 @@ export default function PortfolioPage() {
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [selectedRftId, setSelectedRftId] = useState<string | null>(null);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [addendaRft, setAddendaRft] = useState<GeneratedRft | null>(null);
 
   const { data: portfolio, isLoading: portfolioLoading } = useQuery<Portfolio>({
     queryKey: ["/api/portfolios", portfolioId],
@@ -324,6 +326,16 @@ export default function PortfolioPage() {
                             <Upload className="w-3 h-3 mr-1" />
                             Upload Vendor Responses
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setAddendaRft(rft)}
+                            data-testid={`button-addenda-${rft.id}`}
+                            className="w-full"
+                          >
+                            <HelpCircle className="w-3 h-3 mr-1" />
+                            Clarifications & Addenda
+                          </Button>
                         </>
                       )}
                     </CardContent>
@@ -459,6 +471,17 @@ export default function PortfolioPage() {
         </Tabs>
       </div>
 
+      {/* Vendor Clarifications & Addenda Dialog */}
+      {addendaRft && (
+        <RftAddendaDialog
+          rftId={addendaRft.id}
+          rftName={addendaRft.name}
+          sections={addendaRft.sections?.sections || []}
+          open={addendaRft !== null}
+          onOpenChange={(open) => !open && setAddendaRft(null)}
+        />
+      )}
+
       {/* Upload Vendor Responses Dialog */}
       <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
         <DialogContent>
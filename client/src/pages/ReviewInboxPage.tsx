@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Inbox, ArrowRight, MessageSquare } from "lucide-react";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { stakeholderRoleIds, userRoleLabels, type UserRole } from "@shared/schema";
+
+interface ReviewInboxItem {
+  draftId: string;
+  projectId: string;
+  projectName: string | null;
+  draftStatus: string;
+  sectionId: string;
+  sectionTitle: string;
+  reviewStatus: "pending" | "in_review" | "approved" | "rejected";
+  approverRole: string;
+  comments: string | null;
+  updatedAt: string;
+}
+
+export default function ReviewInboxPage() {
+  const { isAdmin, user } = useAuth();
+  const [, setLocation] = useLocation();
+  // Admins can look at any stakeholder's inbox; stakeholders always get their own
+  const [roleFilter, setRoleFilter] = useState<string>("all");
+
+  const { data: items = [], isLoading } = useQuery<ReviewInboxItem[]>({
+    queryKey: [isAdmin ? `/api/rft/review-inbox?role=${roleFilter}` : "/api/rft/review-inbox"],
+  });
+
+  // Group by draft so a reviewer can work through one RFT at a time
+  const itemsByDraft = items.reduce((groups, item) => {
+    if (!groups[item.draftId]) groups[item.draftId] = [];
+    groups[item.draftId].push(item);
+    return groups;
+  }, {} as Record<string, ReviewInboxItem[]>);
+
+  const roleLabel = (role: string) => userRoleLabels[role as UserRole] || role;
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold tracking-tight" data-testid="text-page-title">
+            Review Inbox
+          </h1>
+          <p className="text-muted-foreground">
+            {isAdmin
+              ? "RFT draft sections waiting on stakeholder review"
+              : `RFT draft sections waiting on your review as ${user ? roleLabel(user.role) : "a stakeholder"}`}
+          </p>
+        </div>
+        {isAdmin && (
+          <Select value={roleFilter} onValueChange={setRoleFilter}>
+            <SelectTrigger className="w-56" data-testid="select-inbox-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stakeholders</SelectItem>
+              {stakeholderRoleIds.map((roleId) => (
+                <SelectItem key={roleId} value={roleId}>{userRoleLabels[roleId]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-muted-foreground">Loading inbox...</div>
+      ) : items.length === 0 ? (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <Inbox className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground" data-testid="text-inbox-empty">
+              Nothing to review. Sections assigned to you will appear here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        Object.entries(itemsByDraft).map(([draftId, draftItems]) => (
+          <Card key={draftId} data-testid={`card-inbox-draft-${draftId}`}>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <CardTitle>{draftItems[0].projectName || `Draft ${draftId.slice(0, 8)}`}</CardTitle>
+                  <CardDescription>
+                    {draftItems.length} section{draftItems.length === 1 ? "" : "s"} awaiting review · updated {format(new Date(draftItems[0].updatedAt), "PPp")}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setLocation(`/rft-draft-review?draft=${draftId}`)}
+                  data-testid={`button-open-draft-${draftId}`}
+                >
+                  Open Draft
+                  <ArrowRight className="h-4 w-4 ml-2" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {draftItems.map((item) => (
+                <div
+                  key={item.sectionId}
+                  className="flex items-start justify-between gap-4 border rounded-lg p-3"
+                  data-testid={`inbox-item-${draftId}-${item.sectionId}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="font-medium">{item.sectionTitle}</div>
+                    {item.comments && (
+                      <div className="flex items-start gap-1 text-sm text-muted-foreground">
+                        <MessageSquare className="h-3 w-3 mt-1 flex-shrink-0" />
+                        <span>{item.comments}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {isAdmin && <Badge variant="outline">{roleLabel(item.approverRole)}</Badge>}
+                    <Badge variant={item.reviewStatus === "rejected" ? "destructive" : "secondary"} className="capitalize">
+                      {item.reviewStatus.replace("_", " ")}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
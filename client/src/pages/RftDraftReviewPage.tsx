@@ -7,12 +7,16 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Check, Edit, X, FileText, Users, FileCheck, Download, Archive, Upload, Image } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Check, Edit, X, FileText, Users, FileCheck, Download, Archive, Upload, Image, MessageSquare } from "lucide-react";
 import { useLocation } from "wouter";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
 import { marked } from "marked";
+import { SectionCommentsPanel } from "@/components/SectionCommentsPanel";
 
 interface DraftSection {
   sectionId: string;
@@ -23,7 +27,8 @@ interface DraftSection {
   reviewStatus: "pending" | "in_review" | "approved" | "rejected";
   approvedBy: string | null;
   approvedAt: string | null;
-  comments?: string;
+  comments?: string | null;
+  rejectedBy?: string | null;
 }
 
 interface RftDraft {
@@ -57,13 +62,24 @@ const STAKEHOLDER_ROLES = [
 
 export default function RftDraftReviewPage() {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [, setLocation] = useLocation();
-  const [selectedDraftId, setSelectedDraftId] = useState<string>("");
-  const [selectedStakeholder, setSelectedStakeholder] = useState<string>("all");
+  // Deep links from the review inbox select a draft via ?draft=
+  const [selectedDraftId, setSelectedDraftId] = useState<string>(() =>
+    new URLSearchParams(window.location.search).get("draft") || ""
+  );
+  // Stakeholders start on their own sections; admins see everything
+  const [selectedStakeholder, setSelectedStakeholder] = useState<string>(() =>
+    user && STAKEHOLDER_ROLES.some(r => r.id === user.role) ? user.role : "all"
+  );
   const [editingSectionId, setEditingSectionId] = useState<string | null>(null);
   const [editedContent, setEditedContent] = useState<string>("");
+  const [rejectingSection, setRejectingSection] = useState<DraftSection | null>(null);
+  const [rejectionComments, setRejectionComments] = useState("");
+  const [regenerateOnReject, setRegenerateOnReject] = useState(true);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastPackStatusRef = useRef<string | null>(null);
+  const sectionContentRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
   // Fetch all drafts
   const { data: drafts = [], isLoading: isLoadingDrafts } = useQuery<RftDraft[]>({
@@ -168,6 +184,52 @@ export default function RftDraftReviewPage() {
     }
   });
 
+  // Approve section mutation (server only accepts approvals from the assigned stakeholder role)
+  const approveSectionMutation = useMutation({
+    mutationFn: async (sectionId: string) => {
+      return await apiRequest("POST", `/api/rft/drafts/${selectedDraftId}/sections/${sectionId}/approve`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/rft/drafts/${selectedDraftId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rft/drafts"] });
+      toast({ title: "Section approved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to approve section",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Reject section mutation (optionally redrafts the section with AI from the comments)
+  const rejectSectionMutation = useMutation({
+    mutationFn: async ({ sectionId, comments, regenerate }: { sectionId: string; comments: string; regenerate: boolean }) => {
+      return await apiRequest("POST", `/api/rft/drafts/${selectedDraftId}/sections/${sectionId}/reject`, { comments, regenerate });
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/rft/drafts/${selectedDraftId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rft/drafts"] });
+      setRejectingSection(null);
+      setRejectionComments("");
+      toast({
+        title: data.regenerated ? "Section rejected and redrafted" : "Section rejected",
+        description: data.regenerationError
+          ? `Automatic redraft failed (${data.regenerationError}). Edit the section manually.`
+          : data.regenerated ? "The revised section is back in the review queue." : undefined,
+        variant: data.regenerationError ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to reject section",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
   // Publish draft to portfolio mutation
   const publishMutation = useMutation({
     mutationFn: async () => {
@@ -219,6 +281,12 @@ export default function RftDraftReviewPage() {
     return role?.name || assignedTo;
   };
 
+  // Sections store the role ID, or the role name on older drafts
+  const isAssignedToCurrentUser = (section: DraftSection) => {
+    if (!user || !section.assignedTo) return false;
+    return section.assignedTo === user.role || section.assignedTo === getRoleName(user.role);
+  };
+
   if (isLoadingDrafts) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -540,6 +608,33 @@ export default function RftDraftReviewPage() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
+                        {section.reviewStatus === "approved" ? (
+                          <Badge variant="default" data-testid={`badge-approved-${section.sectionId}`}>
+                            <Check className="h-3 w-3 mr-1" />
+                            Approved{section.approvedBy ? ` by ${section.approvedBy}` : ""}
+                          </Badge>
+                        ) : isAssignedToCurrentUser(section) && (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setRejectingSection(section)}
+                              data-testid={`button-reject-${section.sectionId}`}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => approveSectionMutation.mutate(section.sectionId)}
+                              disabled={approveSectionMutation.isPending}
+                              data-testid={`button-approve-${section.sectionId}`}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                          </>
+                        )}
                         <Button
                           size="sm"
                           variant="outline"
@@ -552,10 +647,33 @@ export default function RftDraftReviewPage() {
                     </div>
                   </CardHeader>
                   <CardContent>
+                    {section.comments && section.reviewStatus !== "approved" && (
+                      <div
+                        className="flex items-start gap-2 mb-4 p-3 rounded-md border border-destructive/40 bg-destructive/5 text-sm"
+                        data-testid={`text-rejection-${section.sectionId}`}
+                      >
+                        <MessageSquare className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+                        <div>
+                          <span className="font-medium">
+                            {section.reviewStatus === "rejected" ? "Rejected" : "Redrafted after rejection"}
+                            {section.rejectedBy ? ` by ${section.rejectedBy}` : ""}:
+                          </span>{" "}
+                          {section.comments}
+                        </div>
+                      </div>
+                    )}
                     <div 
+                      ref={(el) => { sectionContentRefs.current[section.sectionId] = el; }}
                       className="prose dark:prose-invert max-w-none text-sm prose-table:border-collapse prose-table:w-full prose-th:border prose-th:border-border prose-th:bg-muted prose-th:p-2 prose-th:text-left prose-th:font-semibold prose-td:border prose-td:border-border prose-td:p-2"
                       dangerouslySetInnerHTML={{ __html: marked(section.content || '') }}
                     />
+                    <SectionCommentsPanel
+                      draftId={selectedDraftId}
+                      sectionId={section.sectionId}
+                      sectionContent={section.content || ""}
+                      getContentElement={() => sectionContentRefs.current[section.sectionId] ?? null}
+                      isSectionOwner={isAssignedToCurrentUser(section)}
+                    />
                   </CardContent>
                 </Card>
               ))}
@@ -603,6 +721,59 @@ export default function RftDraftReviewPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Reject Section Dialog */}
+      <Dialog open={rejectingSection !== null} onOpenChange={(open) => !open && setRejectingSection(null)}>
+        <DialogContent data-testid="dialog-reject-section">
+          <DialogHeader>
+            <DialogTitle>Reject Section</DialogTitle>
+            <DialogDescription>
+              {rejectingSection && (
+                <>Explain what needs to change in "{rejectingSection.sectionTitle}". Your comments stay with the section until it is approved.</>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Textarea
+              value={rejectionComments}
+              onChange={(e) => setRejectionComments(e.target.value)}
+              placeholder="e.g. Availability target must be 99.95% and include RPO/RTO for the booking engine"
+              rows={5}
+              data-testid="textarea-rejection-comments"
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="regenerate-on-reject"
+                checked={regenerateOnReject}
+                onCheckedChange={(checked) => setRegenerateOnReject(checked === true)}
+                data-testid="checkbox-regenerate-on-reject"
+              />
+              <Label htmlFor="regenerate-on-reject" className="text-sm font-normal">
+                Redraft the section with AI using these comments
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingSection(null)} data-testid="button-cancel-reject">
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectingSection && rejectSectionMutation.mutate({
+                sectionId: rejectingSection.sectionId,
+                comments: rejectionComments.trim(),
+                regenerate: regenerateOnReject,
+              })}
+              disabled={rejectionComments.trim().length < 5 || rejectSectionMutation.isPending}
+              data-testid="button-confirm-reject"
+            >
+              {rejectSectionMutation.isPending
+                ? (regenerateOnReject ? "Redrafting..." : "Rejecting...")
+                : "Reject Section"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
     </div>
   );
 }
@@ -12,9 +12,10 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
-import { FileText, Upload, Wand2, CheckCircle2, Loader2, Download, Lightbulb, Edit, FileDown, FileCheck2, Building2, MapPin, TrendingUp, Search } from "lucide-react";
+import { FileText, Upload, Wand2, CheckCircle2, Loader2, Download, Lightbulb, Edit, FileDown, FileCheck2, Building2, MapPin, TrendingUp, Search, History } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { RftRevisionHistory } from "@/components/RftRevisionHistory";
 
 type Step = 1 | 2 | 3 | 4;
 type BusinessCaseMethod = "generate" | "upload";
@@ -68,6 +69,7 @@ export default function SmartRftBuilderPage() {
   
   // RFT Document Edit Dialog
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [editedSections, setEditedSections] = useState<any[]>([]);
   
   // Validate business case exists when on Step 2 or 3
@@ -376,6 +378,7 @@ export default function SmartRftBuilderPage() {
     onSuccess: (data: any) => {
       setGeneratedRft(data);
       setIsEditDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/generated-rfts/${generatedRftId}/revisions`] });
       toast({
         title: "RFT Updated!",
         description: "Your changes have been saved successfully.",
@@ -1604,6 +1607,14 @@ export default function SmartRftBuilderPage() {
                   <Edit className="w-4 h-4 mr-2" />
                   Edit Document
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsHistoryOpen(true)}
+                  data-testid="button-rft-history"
+                >
+                  <History className="w-4 h-4 mr-2" />
+                  Version History
+                </Button>
                 <Button
                   variant="outline"
                   onClick={() => {
@@ -1815,6 +1826,16 @@ export default function SmartRftBuilderPage() {
         </Card>
       )}
 
+      {/* RFT Version History Dialog */}
+      {generatedRftId && (
+        <RftRevisionHistory
+          rftId={generatedRftId}
+          open={isHistoryOpen}
+          onOpenChange={setIsHistoryOpen}
+          onRestored={(rft) => setGeneratedRft(rft)}
+        />
+      )}
+
       {/* Edit RFT Document Dialog */}
       <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -13,6 +13,10 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ConnectorTemplateFields } from "@/components/ConnectorTemplateFields";
+import { McpToolSelector } from "@/components/McpToolSelector";
+import { ConnectorOAuthFields } from "@/components/ConnectorOAuthFields";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { Standard, McpConnector, RagDocument, DocumentCategory } from "@shared/schema";
 import { documentCategories } from "@shared/schema";
@@ -116,8 +120,34 @@ const groupStandardsByStakeholder = (standards: Standard[]) => {
   return grouped;
 };
 
+// Chunk counts of a document's latest (re-)index run (rag_documents.progress)
+interface IndexProgress {
+  totalChunks: number;
+  processedChunks: number;
+  reusedChunks: number;
+  embeddedChunks: number;
+  removedChunks: number;
+}
+
+interface StaleReindexStatus {
+  // Latest "rag_reindex" job; counts are missing until the job starts
+  run: {
+    jobId: string;
+    status: "queued" | "running" | "completed" | "failed" | "cancelled";
+    running: boolean;
+    total?: number;
+    checked?: number;
+    updated?: number;
+    unchanged?: number;
+    failed?: number;
+    currentDocument?: string;
+  } | null;
+  staleDocuments: number;
+}
+
 export default function StandardsPage() {
   const { toast } = useToast();
+  const { isAdmin } = useAuth();
   const [activeTab, setActiveTab] = useState("documents");
   
   // Standards state
@@ -152,10 +182,12 @@ export default function StandardsPage() {
     description: "",
     serverUrl: "",
     apiKey: "",
-    connectorType: "rest" as "rest" | "graphql" | "webhook",
-    authType: "bearer" as "bearer" | "basic" | "apikey" | "oauth",
+    connectorType: "rest" as "rest" | "graphql" | "websocket",
+    authType: "bearer" as "bearer" | "basic" | "apikey" | "oauth2",
     roleMapping: [] as string[],
     config: {} as any,
+    oauthClientSecret: "",
+    oauthRefreshToken: "",
   });
 
   // Standards queries
@@ -269,8 +301,8 @@ export default function StandardsPage() {
       resetConnectorForm();
       setIsConnectorDialogOpen(false);
     },
-    onError: () => {
-      toast({ title: "Failed to create MCP connector", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Failed to create MCP connector", description: error.message, variant: "destructive" });
     },
   });
 
@@ -284,8 +316,8 @@ export default function StandardsPage() {
       resetConnectorForm();
       setIsConnectorDialogOpen(false);
     },
-    onError: () => {
-      toast({ title: "Failed to update MCP connector", variant: "destructive" });
+    onError: (error: any) => {
+      toast({ title: "Failed to update MCP connector", description: error.message, variant: "destructive" });
     },
   });
 
@@ -337,9 +369,16 @@ export default function StandardsPage() {
     },
   });
 
-  // RAG Documents queries
+  // RAG Documents queries (polled while any document is being indexed)
   const { data: ragDocuments = [], isLoading: ragDocumentsLoading } = useQuery<RagDocument[]>({
     queryKey: ["/api/rag/documents"],
+    refetchInterval: (query) =>
+      query.state.data?.some((doc) => doc.status === "processing" || doc.status === "reindexing") ? 3000 : false,
+  });
+
+  const { data: staleReindex } = useQuery<StaleReindexStatus>({
+    queryKey: ["/api/rag/reindex-stale"],
+    refetchInterval: (query) => (query.state.data?.run?.running ? 3000 : false),
   });
 
   // RAG Documents mutations
@@ -361,15 +400,36 @@ export default function StandardsPage() {
     mutationFn: async (id: string) => {
       return await apiRequest("POST", `/api/rag/documents/${id}/reindex`);
     },
-    onSuccess: () => {
+    onSuccess: (data: { reindex: { status: string; progress: IndexProgress } }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/rag/documents"] });
-      toast({ title: "RAG document re-indexed successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/rag/reindex-stale"] });
+      const { status, progress } = data.reindex;
+      toast({
+        title: status === "unchanged" ? "Document is already up to date" : "RAG document re-indexed successfully",
+        description: status === "unchanged"
+          ? undefined
+          : `${progress.reusedChunks} chunks unchanged, ${progress.embeddedChunks} re-embedded, ${progress.removedChunks} removed`,
+      });
     },
     onError: () => {
       toast({ title: "Failed to re-index RAG document", variant: "destructive" });
     },
   });
 
+  const reindexStaleMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/rag/reindex-stale");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rag/reindex-stale"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rag/documents"] });
+      toast({ title: "Re-indexing stale documents", description: "Only changed chunks are re-embedded." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to start re-indexing", description: error.message, variant: "destructive" });
+    },
+  });
+
   // Standards handlers
   const resetStandardForm = () => {
     setStandardFormData({ name: "", description: "", category: "shared", sections: [], tags: [], files: [], url: "" });
@@ -527,10 +587,12 @@ export default function StandardsPage() {
       description: "", 
       serverUrl: "", 
       apiKey: "",
-      connectorType: "rest" as "rest" | "graphql" | "webhook",
-      authType: "bearer" as "bearer" | "basic" | "apikey" | "oauth",
+      connectorType: "rest" as "rest" | "graphql" | "websocket",
+      authType: "bearer" as "bearer" | "basic" | "apikey" | "oauth2",
       roleMapping: [] as string[],
       config: {} as any,
+      oauthClientSecret: "",
+      oauthRefreshToken: "",
     });
     setEditingConnector(null);
   };
@@ -542,10 +604,13 @@ export default function StandardsPage() {
       description: connector.description || "",
       serverUrl: connector.serverUrl,
       apiKey: "", // Don't populate redacted API key, let user enter new one if needed
-      connectorType: (connector.connectorType || "rest") as "rest" | "graphql" | "webhook",
-      authType: (connector.authType || "bearer") as "bearer" | "basic" | "apikey" | "oauth",
+      connectorType: (connector.connectorType || "rest") as "rest" | "graphql" | "websocket",
+      // Connectors saved by the old form used "oauth"
+      authType: (connector.authType === "oauth" ? "oauth2" : connector.authType || "bearer") as "bearer" | "basic" | "apikey" | "oauth2",
       roleMapping: connector.roleMapping || [],
       config: connector.config || {},
+      oauthClientSecret: "",
+      oauthRefreshToken: "",
     });
     setIsConnectorDialogOpen(true);
   };
@@ -574,6 +639,8 @@ export default function StandardsPage() {
         roleMapping: connectorFormData.roleMapping,
         config: connectorFormData.config,
         ...(connectorFormData.apiKey && { apiKey: connectorFormData.apiKey }),
+        ...(connectorFormData.oauthClientSecret && { oauthClientSecret: connectorFormData.oauthClientSecret }),
+        ...(connectorFormData.oauthRefreshToken && { oauthRefreshToken: connectorFormData.oauthRefreshToken }),
       };
       updateConnectorMutation.mutate({
         id: editingConnector.id,
@@ -1117,6 +1184,34 @@ export default function StandardsPage() {
               <p className="text-sm text-muted-foreground">
                 Manage indexed documents in the RAG (Retrieval Augmented Generation) system
               </p>
+              {isAdmin && (
+                <div className="flex items-center gap-3">
+                  {staleReindex?.run?.running ? (
+                    <span className="text-sm text-muted-foreground" data-testid="text-reindex-stale-progress">
+                      {staleReindex.run.total === undefined ? (
+                        "Re-index queued"
+                      ) : (
+                        <>
+                          Re-indexing {staleReindex.run.checked}/{staleReindex.run.total}
+                          {staleReindex.run.currentDocument && ` • ${staleReindex.run.currentDocument}`}
+                        </>
+                      )}
+                    </span>
+                  ) : staleReindex?.staleDocuments ? (
+                    <span className="text-sm text-muted-foreground">{staleReindex.staleDocuments} stale</span>
+                  ) : null}
+                  <Button
+                    variant="outline"
+                    className="gap-2"
+                    onClick={() => reindexStaleMutation.mutate()}
+                    disabled={reindexStaleMutation.isPending || !!staleReindex?.run?.running}
+                    data-testid="button-reindex-stale"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${staleReindex?.run?.running ? 'animate-spin' : ''}`} />
+                    Re-index Stale
+                  </Button>
+                </div>
+              )}
             </div>
 
             {ragDocumentsLoading ? (
@@ -1140,11 +1235,14 @@ export default function StandardsPage() {
                   const statusColors = {
                     indexed: "bg-primary/10 text-primary",
                     processing: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-500",
+                    reindexing: "bg-yellow-500/10 text-yellow-600 dark:text-yellow-500",
+                    stale: "bg-orange-500/10 text-orange-600 dark:text-orange-500",
                     failed: "bg-destructive/10 text-destructive",
                     pending: "bg-muted text-muted-foreground",
                   };
 
                   const statusColor = statusColors[doc.status as keyof typeof statusColors] || statusColors.pending;
+                  const progress = doc.progress as IndexProgress | null;
 
                   return (
                     <Card key={doc.id} className="p-6" data-testid={`card-rag-document-${doc.id}`}>
@@ -1158,6 +1256,11 @@ export default function StandardsPage() {
                             <div className={`flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-medium ${statusColor}`}>
                               <Database className="h-3 w-3" />
                               <span>{doc.status}</span>
+                              {doc.status === 'reindexing' && progress && progress.totalChunks > 0 && (
+                                <span data-testid={`text-reindex-progress-${doc.id}`}>
+                                  ({progress.processedChunks}/{progress.totalChunks})
+                                </span>
+                              )}
                             </div>
                           </div>
                           
@@ -1168,6 +1271,12 @@ export default function StandardsPage() {
                               <span>{doc.totalChunks} chunks</span>
                               <span>•</span>
                               <span>Created {new Date(doc.createdAt).toLocaleDateString()}</span>
+                              {doc.lastIndexedAt && (
+                                <>
+                                  <span>•</span>
+                                  <span>Indexed {new Date(doc.lastIndexedAt).toLocaleDateString()}</span>
+                                </>
+                              )}
                             </div>
                             
                             {renderMetadataBadges(doc.metadata)}
@@ -1175,7 +1284,7 @@ export default function StandardsPage() {
                         </div>
 
                         <div className="flex items-center gap-2">
-                          {doc.status === 'indexed' && (
+                          {(doc.status === 'indexed' || doc.status === 'stale' || doc.status === 'failed') && doc.blobName && (
                             <Button
                               variant="ghost"
                               size="icon"
@@ -1225,7 +1334,7 @@ export default function StandardsPage() {
                     New Connector
                   </Button>
                 </DialogTrigger>
-                <DialogContent className="max-w-2xl">
+                <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>
                       {editingConnector ? "Edit MCP Connector" : "Create New MCP Connector"}
@@ -1263,52 +1372,56 @@ export default function StandardsPage() {
                       />
                     </div>
 
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">
-                        API Key {editingConnector ? "(Leave blank to keep existing)" : "(Optional)"}
-                      </label>
-                      <Input
-                        type="password"
-                        placeholder={editingConnector ? "Enter new API key to update" : "Enter API key if required"}
-                        value={connectorFormData.apiKey}
-                        onChange={(e) => setConnectorFormData(prev => ({ ...prev, apiKey: e.target.value }))}
-                        data-testid="input-connector-apikey"
-                      />
-                    </div>
+                    {connectorFormData.authType !== "oauth2" && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">
+                          API Key {editingConnector ? "(Leave blank to keep existing)" : "(Optional)"}
+                        </label>
+                        <Input
+                          type="password"
+                          placeholder={editingConnector ? "Enter new API key to update" : "Enter API key if required"}
+                          value={connectorFormData.apiKey}
+                          onChange={(e) => setConnectorFormData(prev => ({ ...prev, apiKey: e.target.value }))}
+                          data-testid="input-connector-apikey"
+                        />
+                      </div>
+                    )}
 
-                    <div className="space-y-2">
-                      <label className="text-sm font-medium">
-                        Confluence Cloud ID (Required for Confluence connectors)
-                      </label>
-                      <Input
-                        type="text"
-                        placeholder="e.g., 12345678-abcd-1234-abcd-1234567890ab"
-                        value={(connectorFormData.config as any)?.cloudId || ""}
-                        onChange={(e) => setConnectorFormData(prev => ({ 
-                          ...prev, 
-                          config: { ...(prev.config || {}), cloudId: e.target.value } 
-                        }))}
-                        data-testid="input-connector-cloudid"
-                      />
-                      <p className="text-xs text-muted-foreground">
-                        Find this in your Confluence URL: https://your-domain.atlassian.net/wiki → Your Cloud ID
-                      </p>
-                    </div>
+                    {connectorFormData.connectorType === "rest" && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">
+                          Confluence Cloud ID (Required for Confluence connectors)
+                        </label>
+                        <Input
+                          type="text"
+                          placeholder="e.g., 12345678-abcd-1234-abcd-1234567890ab"
+                          value={(connectorFormData.config as any)?.cloudId || ""}
+                          onChange={(e) => setConnectorFormData(prev => ({ 
+                            ...prev, 
+                            config: { ...(prev.config || {}), cloudId: e.target.value } 
+                          }))}
+                          data-testid="input-connector-cloudid"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Find this in your Confluence URL: https://your-domain.atlassian.net/wiki → Your Cloud ID
+                        </p>
+                      </div>
+                    )}
 
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
                         <label className="text-sm font-medium">Connector Type</label>
                         <Select
                           value={connectorFormData.connectorType}
-                          onValueChange={(value) => setConnectorFormData(prev => ({ ...prev, connectorType: value as "rest" | "graphql" | "webhook" }))}
+                          onValueChange={(value) => setConnectorFormData(prev => ({ ...prev, connectorType: value as "rest" | "graphql" | "websocket" }))}
                         >
                           <SelectTrigger data-testid="select-connector-type">
                             <SelectValue placeholder="Select type" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="rest">REST API</SelectItem>
+                            <SelectItem value="rest">MCP Server (HTTP)</SelectItem>
                             <SelectItem value="graphql">GraphQL</SelectItem>
-                            <SelectItem value="webhook">Webhook</SelectItem>
+                            <SelectItem value="websocket">WebSocket</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -1317,7 +1430,7 @@ export default function StandardsPage() {
                         <label className="text-sm font-medium">Auth Type</label>
                         <Select
                           value={connectorFormData.authType}
-                          onValueChange={(value) => setConnectorFormData(prev => ({ ...prev, authType: value as "bearer" | "basic" | "apikey" | "oauth" }))}
+                          onValueChange={(value) => setConnectorFormData(prev => ({ ...prev, authType: value as "bearer" | "basic" | "apikey" | "oauth2" }))}
                         >
                           <SelectTrigger data-testid="select-auth-type">
                             <SelectValue placeholder="Select auth type" />
@@ -1326,12 +1439,38 @@ export default function StandardsPage() {
                             <SelectItem value="bearer">Bearer Token</SelectItem>
                             <SelectItem value="basic">Basic Auth</SelectItem>
                             <SelectItem value="apikey">API Key</SelectItem>
-                            <SelectItem value="oauth">OAuth 2.0</SelectItem>
+                            <SelectItem value="oauth2">OAuth 2.0</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
                     </div>
 
+                    {connectorFormData.authType === "oauth2" && (
+                      <ConnectorOAuthFields
+                        config={connectorFormData.config || {}}
+                        onConfigChange={(config) => setConnectorFormData(prev => ({ ...prev, config }))}
+                        clientSecret={connectorFormData.oauthClientSecret}
+                        refreshToken={connectorFormData.oauthRefreshToken}
+                        onSecretChange={(field, value) => setConnectorFormData(prev => ({ ...prev, [field]: value }))}
+                        editing={!!editingConnector}
+                      />
+                    )}
+
+                    {connectorFormData.connectorType === "rest" ? (
+                      <McpToolSelector
+                        connectorId={editingConnector?.id}
+                        config={connectorFormData.config || {}}
+                        roleMapping={connectorFormData.roleMapping}
+                        onChange={(config) => setConnectorFormData(prev => ({ ...prev, config }))}
+                      />
+                    ) : (
+                      <ConnectorTemplateFields
+                        connectorType={connectorFormData.connectorType}
+                        config={connectorFormData.config || {}}
+                        onChange={(config) => setConnectorFormData(prev => ({ ...prev, config }))}
+                      />
+                    )}
+
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Agent Role Mapping</label>
                       <div className="grid grid-cols-2 gap-2 border rounded-md p-3">
@@ -1460,8 +1599,8 @@ export default function StandardsPage() {
                             <div>
                               <p className="text-xs text-muted-foreground">Type</p>
                               <Badge variant="outline" className="text-xs">
-                                {connector.connectorType === "rest" ? "REST API" : 
-                                 connector.connectorType === "graphql" ? "GraphQL" : "Webhook"}
+                                {connector.connectorType === "rest" ? "MCP Server" : 
+                                 connector.connectorType === "graphql" ? "GraphQL" : "WebSocket"}
                               </Badge>
                             </div>
                             <div>
@@ -7,7 +7,9 @@ import { ArrowRight, Loader2, ArrowLeft, Sparkles, Shield } from "lucide-react";
 import { useLocation, useParams } from "wouter";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { isAbortError, waitForJob } from "@/lib/jobs";
 import { useToast } from "@/hooks/use-toast";
+import { useUnmountSignal } from "@/hooks/use-unmount-signal";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -32,6 +34,7 @@ export default function UploadPage() {
   const portfolioId = params.id;
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const unmountSignal = useUnmountSignal();
   const [rftFiles, setRftFiles] = useState<File[]>([]);
   const [vendorDocuments, setVendorDocuments] = useState<Record<string, VendorDocuments>>({});
   const [projectData, setProjectData] = useState<any>(null);
@@ -251,10 +254,9 @@ export default function UploadPage() {
         }
       }
 
-      // Trigger analysis
-      await fetch(`/api/projects/${projectId}/analyze`, {
-        method: "POST",
-      });
+      // Trigger analysis (runs as a background job) and wait for the evaluations
+      const { jobId } = await apiRequest("POST", `/api/projects/${projectId}/analyze`);
+      await waitForJob(jobId, { signal: unmountSignal.current });
 
       return projectId;
     },
@@ -267,6 +269,7 @@ export default function UploadPage() {
       setLocation(`/dashboard/${projectId}`);
     },
     onError: (error) => {
+      if (isAbortError(error)) return;
       toast({
         title: "Analysis Failed",
         description: error instanceof Error ? error.message : "Failed to analyze documents",
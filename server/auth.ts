@@ -0,0 +1,295 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { storage } from "./storage";
+import { pool } from "./db";
+import type { User as SelectUser, PublicUser, UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// API paths reachable without a session (login flow and first-admin bootstrap)
+const PUBLIC_API_PATHS = new Set([
+  "/login",
+  "/logout",
+  "/register",
+  "/user",
+  "/auth/status",
+]);
+
+// Signed, expiring download URLs of the local file storage provider carry their own credential
+const PUBLIC_API_PREFIXES = ["/files/"];
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) {
+    return false;
+  }
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user record leaves the server
+ */
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Reject requests without an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Allow only users holding one of the given roles (admins are not implicitly included)
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      console.warn(`🚫 ${req.user.username} (${req.user.role}) denied ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ error: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+export const requireAdmin = requireRole("admin");
+
+/**
+ * Configure sessions (stored in PostgreSQL) and passport-local authentication.
+ * Must run before any /api routes are registered: every /api route other than
+ * PUBLIC_API_PATHS and PUBLIC_API_PREFIXES requires a signed-in user from here on.
+ */
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET not configured - required for user sessions");
+  }
+
+  const PgSessionStore = connectPgSimple(session);
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: new PgSessionStore({
+      pool,
+      tableName: "user_sessions",
+      createTableIfMissing: true,
+    }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 8 * 60 * 60 * 1000, // One working day
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.toLowerCase());
+        if (!user || !user.isActive || !(await comparePasswords(password, user.passwordHash))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deactivated accounts lose their existing sessions too
+      done(null, user && user.isActive ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use("/api", (req, res, next) => {
+    if (PUBLIC_API_PATHS.has(req.path) || PUBLIC_API_PREFIXES.some(prefix => req.path.startsWith(prefix))) {
+      return next();
+    }
+    requireAuth(req, res, next);
+  });
+
+  // First-run check so the login page can offer to create the initial admin account
+  app.get("/api/auth/status", async (req, res) => {
+    try {
+      const userCount = await storage.countUsers();
+      res.json({ setupRequired: userCount === 0 });
+    } catch (error) {
+      console.error("Error checking auth status:", error);
+      res.status(500).json({ error: "Failed to check authentication status" });
+    }
+  });
+
+  // Self-registration is only open while no accounts exist; the first account is always an admin.
+  // Afterwards admins create accounts through /api/users.
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { registerUserSchema } = await import("@shared/schema");
+      const body = registerUserSchema.parse({ ...req.body, role: "admin" });
+
+      // Cheap refusal before hashing; createFirstUser re-checks atomically
+      if ((await storage.countUsers()) > 0) {
+        return res.status(403).json({ error: "Registration is closed. Ask an administrator for an account." });
+      }
+
+      const user = await storage.createFirstUser({
+        username: body.username,
+        passwordHash: await hashPassword(body.password),
+        displayName: body.displayName,
+        role: "admin",
+        isActive: true,
+      });
+      if (!user) {
+        return res.status(403).json({ error: "Registration is closed. Ask an administrator for an account." });
+      }
+      console.log(`👤 Initial admin account created: ${user.username}`);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ error: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        } catch (error) {
+          // Bookkeeping only; the sign-in itself succeeded
+          console.warn(`⚠️  Failed to record last login for ${user.username}:`, error);
+        }
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => res.json({ message: "Signed out" }));
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not signed in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Account management (admin only)
+  app.get("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const allUsers = await storage.getAllUsers();
+      res.json(allUsers.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const { registerUserSchema } = await import("@shared/schema");
+      const body = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(body.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: body.username,
+        passwordHash: await hashPassword(body.password),
+        displayName: body.displayName,
+        role: body.role,
+        isActive: true,
+      });
+      console.log(`👤 ${req.user!.username} created user ${user.username} (${user.role})`);
+      res.status(201).json(toPublicUser(user));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating user:", error);
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireAdmin, async (req, res) => {
+    try {
+      const { updateUserSchema } = await import("@shared/schema");
+      const { password, ...updates } = updateUserSchema.parse(req.body);
+
+      // Keep at least one way back in: admins cannot demote or deactivate themselves
+      if (req.params.id === req.user!.id && ((updates.role && updates.role !== "admin") || updates.isActive === false)) {
+        return res.status(400).json({ error: "You cannot remove your own admin access" });
+      }
+
+      const user = await storage.updateUser(req.params.id, {
+        ...updates,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      console.log(`👤 ${req.user!.username} updated user ${user.username}`);
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { jobQueue } from "./services/core/jobQueue";
 import fs from "fs";
 import path from "path";
 
@@ -110,12 +111,27 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Run queued background jobs (and pick up jobs interrupted by the previous shutdown)
+    jobQueue.start();
+
+    // Knowledge base documents left mid-indexing by a crashed run become re-runnable
+    import("./services/knowledgebase/documentIngestion")
+      .then(({ documentIngestionService }) => documentIngestionService.failInterruptedRuns())
+      .catch((error) => {
+        log(`Failed to recover interrupted indexing runs: ${error instanceof Error ? error.message : String(error)}`);
+      });
   });
 
   // Graceful shutdown handlers for container environments (Azure App Service)
   const shutdown = (signal: string) => {
     log(`Received ${signal}, starting graceful shutdown...`);
-    server.close(() => {
+    // Running jobs are handed back to the queue so the next instance resumes them
+    const jobsStopped = jobQueue.stop().catch((error) => {
+      log(`Failed to stop job worker: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    server.close(async () => {
+      await jobsStopped;
       log(`Server closed successfully after ${signal}`);
       process.exit(0);
     });
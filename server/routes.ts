@@ -1,21 +1,41 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAdmin } from "./auth";
 import multer from "multer";
 import { parseDocument } from "./services/knowledgebase/documentParser";
-import { analyzeRequirements, analyzeProposal, evaluateProposal, getOpenAIClient } from "./services/ai/aiAnalysis";
+import { analyzeRequirements, analyzeProposal, evaluateProposal } from "./services/ai/aiAnalysis";
+import {
+  getLlmClient,
+  resolveLlmRoute,
+  getConfiguredLlmRoutes,
+  getDefaultLlmRoute,
+  getLlmProviderStatuses,
+  invalidateLlmRoutingCache,
+  isLlmTask,
+  llmRouteConfigKey,
+  LLM_ROUTE_CONFIG_CATEGORY,
+  LLM_TASK_DESCRIPTIONS,
+  type LlmRoute,
+} from "./services/ai/llmProvider";
 import { seedSampleData, seedPortfolios, seedAllMockData, wipeAllData, wipeAzureOnly, seedRftTemplates } from "./services/core/sampleData";
 import { generateRftFromBusinessCase, regenerateRftSection, generateProfessionalRftSections, extractBusinessCaseInfo } from "./services/rft/smartRftService";
 import { generateAllQuestionnaires } from "./services/rft/excelGenerator";
 import { generateRft, generateRftPack, generateVendorResponses, generateEvaluation, generateVendorStages } from "./services/rft/rftMockDataGenerator";
 import { templateService } from "./services/rft/templateService";
 import { templateMergeService } from "./services/rft/templateMergeService";
-import { getStakeholderRole } from "./services/rft/stakeholderConfig";
+import { getStakeholderRole, getSectionApproverRole } from "./services/rft/stakeholderConfig";
 import { azureEmbeddingService } from "./services/azure/azureEmbedding";
 import { azureAISearchService } from "./services/azure/azureAISearch";
-import { azureBlobStorageService } from "./services/azure/azureBlobStorage";
+import { getFileStorage, blobNameFromUrl, getDownloadUrl } from "./services/core/fileStorage";
 import { azureSearchSkillsetService } from "./services/azure/azureSearchSkillset";
 import { evaluationProgressService } from "./services/core/evaluationProgress";
+import { jobQueue, type JobContext } from "./services/core/jobQueue";
+import type { Job, JobStatus, McpConnector } from "@shared/schema";
+import type { AgentRole } from "./services/ai/multiAgentEvaluator";
+import type { ChatbotSourcesEvent } from "./services/knowledgebase/knowledgeBaseChatbotService";
+import { resolveScoringConfig } from "./services/ai/scoringModel";
+import { attachProposalId } from "./services/ai/proposalEvidence";
 import { lookup as dnsLookup } from "dns";
 import { promisify } from "util";
 import fs from "fs";
@@ -392,9 +412,9 @@ Generate the enhanced section content now using ONLY plain text formatting (no M
   }
 
   try {
-    const client = await getOpenAIClient();
+    const { client, model } = await getLlmClient("generation");
     const response = await client.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
@@ -581,6 +601,133 @@ async function validateUrlSecurity(url: string): Promise<{ valid: boolean; error
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, login and account management; every /api route below requires a signed-in user
+  setupAuth(app);
+
+  // Background job handlers (the worker is started in server/index.ts once the server listens)
+  // Close the evaluation run of a job that will not run again; retrying the run resumes it
+  const failJobEvaluationRun = async (job: Job, error: string) => {
+    const run = await storage.getEvaluationRunByJob(job.id);
+    if (run) {
+      const { failEvaluationRun } = await import("./services/features/evaluationRunService");
+      await failEvaluationRun(storage, run.id, job.status === "cancelled" ? "cancelled" : "failed", error);
+    }
+  };
+
+  jobQueue.register<{ projectId: string }>("project_analysis", async (context) => {
+    return analyzeProject(context.payload.projectId, context);
+  }, { concurrency: 2, onFailure: failJobEvaluationRun });
+
+  jobQueue.register<{ projectId: string; rftId: string }>("project_evaluation", async (context) => {
+    const { projectId, rftId } = context.payload;
+    const rft = await storage.getGeneratedRft(rftId);
+    if (!rft) {
+      throw new Error(`RFT not found: ${rftId}`);
+    }
+
+    // Placeholders left "in_progress" by an interrupted attempt would otherwise be skipped as duplicates
+    if (context.job.attempts > 1) {
+      const stuck = (await storage.getEvaluationsByProject(projectId))
+        .filter(evaluation => evaluation.status === "in_progress" && evaluation.aiRationale == null);
+      for (const evaluation of stuck) {
+        await storage.deleteEvaluation(evaluation.id);
+      }
+    }
+
+    await storage.updateProjectStatus(projectId, "eval_in_progress");
+    await triggerProjectEvaluation(projectId, rft, context);
+    return { projectId };
+  }, {
+    concurrency: 2,
+    onFailure: async (job, error) => {
+      // Revert status back to responses_received so the user can retry
+      await storage.updateProjectStatus((job.payload as { projectId: string }).projectId, "responses_received");
+      console.log(`✓ Reverted project status to responses_received after evaluation failure`);
+      await failJobEvaluationRun(job, error);
+    },
+  });
+
+  jobQueue.register<{ runId: string; proposalId?: string; agentRole?: AgentRole }>("evaluation_run_resume", async (context) => {
+    const { resumeEvaluationRun } = await import("./services/features/evaluationRunService");
+    const { runId, proposalId, agentRole } = context.payload;
+    return resumeEvaluationRun(storage, runId, { proposalId, agentRole }, context);
+  }, {
+    onFailure: async (job, error) => {
+      const { failEvaluationRun } = await import("./services/features/evaluationRunService");
+      const status = job.status === "cancelled" ? "cancelled" : "failed";
+      await failEvaluationRun(storage, (job.payload as { runId: string }).runId, status, error);
+    },
+  });
+
+  jobQueue.register<{ draftId: string }>("rft_pack", async ({ payload }) => {
+    const { generateRftPackFromDraft } = await import("./services/rft/draftPackGenerator");
+    return generateRftPackFromDraft(payload.draftId);
+  }, { concurrency: 2 });
+
+  // Seeding is not idempotent, so a failed run is not retried automatically
+  jobQueue.register("mock_data", async () => seedAllMockData(), { maxAttempts: 1 });
+
+  jobQueue.register<{
+    standardId: string;
+    name: string;
+    category: "delivery" | "product" | "architecture" | "engineering" | "procurement" | "security" | "shared";
+    fileName: string;
+    tags: string[];
+    blob: { blobName: string; blobUrl: string };
+  }>("document_ingestion", async ({ payload, throwIfCancelled }) => {
+    const standard = await storage.getStandard(payload.standardId);
+    if (!standard) {
+      // Standard deleted while queued: nothing references the uploaded file any more
+      await getFileStorage().deleteDocument(payload.blob.blobName);
+      return { skipped: "Standard was deleted" };
+    }
+    if (standard.ragDocumentId) {
+      return { documentId: standard.ragDocumentId };
+    }
+
+    // An earlier attempt leaves a "failed" record for the same file, or a "processing" one (possibly
+    // with indexed chunks) when its worker died. This job is the only writer for the standard's
+    // document, so the new attempt replaces them; the blob is kept for the retry.
+    const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
+    const previousAttempts = (await storage.getRagDocumentsBySourceType("standard"))
+      .filter(doc => doc.sourceId === standard.id && (doc.status === "failed" || doc.status === "processing"));
+    for (const doc of previousAttempts) {
+      await documentIngestionService.clearDocumentChunksAndIndex(doc.id);
+      await storage.deleteRagDocument(doc.id);
+    }
+
+    const content = await getFileStorage().downloadDocument(payload.blob.blobName);
+    const parsedDocument = await parseDocument(content, payload.fileName);
+    throwIfCancelled();
+
+    const ragResult = await documentIngestionService.ingestDocument({
+      sourceType: "standard",
+      sourceId: standard.id,
+      category: payload.category,
+      fileName: payload.fileName,
+      content,
+      textContent: parsedDocument.text,
+      sections: parsedDocument.sections,
+      metadata: {
+        tags: payload.tags,
+        sectionTitle: payload.name,
+      },
+      blob: payload.blob,
+    });
+    if (ragResult.status !== "success") {
+      throw new Error(ragResult.error || "RAG ingestion failed");
+    }
+
+    await storage.updateStandard(standard.id, { ragDocumentId: ragResult.documentId });
+    console.log(`[RAG] Standard "${payload.name}" linked to RAG document: ${ragResult.documentId}`);
+    return { documentId: ragResult.documentId, chunksIndexed: ragResult.chunksIndexed };
+  }, { concurrency: 2 });
+
+  jobQueue.register<{ documentIds: string[] }>("rag_reindex", async ({ payload, reportProgress, throwIfCancelled }) => {
+    const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
+    return documentIngestionService.runStaleReindex(payload.documentIds, { reportProgress, throwIfCancelled });
+  });
+
   // Seed portfolios endpoint
   app.post("/api/seed-portfolios", async (req, res) => {
     try {
@@ -603,19 +750,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate all mock data endpoint
+  // Generate all mock data endpoint (runs as a background job; poll GET /api/jobs/:jobId)
   app.post("/api/generate-mock-data", async (req, res) => {
     try {
-      const result = await seedAllMockData();
-      res.json(result);
+      const job = await jobQueue.enqueue("mock_data", {}, {
+        resourceId: "all",
+        createdBy: req.user!.id,
+        unique: true,
+      });
+      res.status(202).json({ jobId: job.id, job });
     } catch (error) {
       console.error("Error generating mock data:", error);
       res.status(500).json({ error: "Failed to generate mock data" });
     }
   });
 
-  // Wipe all data endpoint (development only - DESTRUCTIVE)
-  app.post("/api/wipe-data", requireDevelopment, async (req, res) => {
+  // Wipe all data endpoint (development only, admins only - DESTRUCTIVE)
+  app.post("/api/wipe-data", requireDevelopment, requireAdmin, async (req, res) => {
     try {
       const result = await wipeAllData();
       res.json(result);
@@ -625,8 +776,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Wipe Azure resources endpoint (development only - DESTRUCTIVE)
-  app.post("/api/wipe-azure", requireDevelopment, async (req, res) => {
+  // Wipe Azure resources endpoint (development only, admins only - DESTRUCTIVE)
+  app.post("/api/wipe-azure", requireDevelopment, requireAdmin, async (req, res) => {
     try {
       const result = await wipeAzureOnly();
       res.json(result);
@@ -736,13 +887,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const folder = { prefix: `project-${projectId}/RFT_Responses`, name: 'Vendor Responses' };
 
       try {
-        const blobNames = await azureBlobStorageService.listDocuments(folder.prefix);
+        const blobNames = await getFileStorage().listDocuments(folder.prefix);
         
         console.log(`📦 Packaging ${blobNames.length} vendor response files into ZIP...`);
         
         for (const blobName of blobNames) {
           try {
-            const buffer = await azureBlobStorageService.downloadDocument(blobName);
+            const buffer = await getFileStorage().downloadDocument(blobName);
             
             // Extract the path relative to the folder prefix to preserve vendor folder structure
             // For example: "project-123/RFT_Responses/VendorA/file.xlsx" -> "VendorA/file.xlsx"
@@ -809,11 +960,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Add files from each folder
       for (const folder of folders) {
         try {
-          const blobNames = await azureBlobStorageService.listDocuments(folder.prefix);
+          const blobNames = await getFileStorage().listDocuments(folder.prefix);
           
           for (const blobName of blobNames) {
             try {
-              const buffer = await azureBlobStorageService.downloadDocument(blobName);
+              const buffer = await getFileStorage().downloadDocument(blobName);
               
               // Extract the path relative to the folder prefix to preserve vendor folder structure
               // For example: "project-123/RFT_Responses/VendorA/file.xlsx" -> "VendorA/file.xlsx"
@@ -990,9 +1141,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     name: string;
     description?: string;
     category?: string;
-    tags?: any[];
+    tags?: string[];
+    userId?: string;
   }) {
-    const { file, url: docUrl, name, description, category, tags } = params;
+    const { file, url: docUrl, name, description, category, tags, userId } = params;
     let fileName = file?.originalname || 'document';
     let documentBuffer: Buffer | null = null;
 
@@ -1105,7 +1257,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isActive: "true",
       });
 
-      // PHASE 3: Ingest document into RAG system (Azure Blob + AI Search)
+      // PHASE 3: Queue ingestion into the RAG system. The file goes to blob storage first so the
+      // "document_ingestion" job can chunk and embed it even after a restart.
       try {
         const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
         
@@ -1113,32 +1266,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw new Error("No document buffer available for RAG ingestion");
         }
 
-        // Ingest into RAG system with category-based folder organization
-        const ragResult = await documentIngestionService.ingestDocument({
+        const blob = await documentIngestionService.uploadSourceFile({
           sourceType: "standard",
           sourceId: standard.id,
-          category: (category as "delivery" | "product" | "architecture" | "engineering" | "procurement" | "security" | "shared") || "shared",
-          fileName: fileName,
+          category: validCategory,
+          fileName,
           content: documentBuffer,
-          textContent: parsedDocument.text,
-          metadata: {
-            tags: tags || [],
-            sectionTitle: name,
-          },
         });
-
-        // Update standard with RAG document ID
-        if (ragResult.status === "success") {
-          await storage.updateStandard(standard.id, {
-            ragDocumentId: ragResult.documentId,
-          });
-          console.log(`[RAG] Standard "${name}" linked to RAG document: ${ragResult.documentId}`);
-        } else {
-          console.warn(`[RAG] Failed to ingest standard "${name}" into RAG system:`, ragResult.error);
-        }
+        const job = await jobQueue.enqueue("document_ingestion", {
+          standardId: standard.id,
+          name,
+          category: validCategory,
+          fileName,
+          tags: tags || [],
+          blob,
+        }, {
+          resourceId: standard.id,
+          createdBy: userId,
+        });
+        console.log(`[RAG] Standard "${name}" queued for RAG ingestion (job ${job.id})`);
       } catch (ragError) {
         // Log RAG ingestion failure but don't fail the standard creation
-        console.error(`[RAG] RAG ingestion failed for standard "${name}":`, ragError);
+        console.error(`[RAG] RAG ingestion could not be queued for standard "${name}":`, ragError);
       }
 
       // Return the final standard
@@ -1171,7 +1320,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Parse tags from JSON string once
-      const parsedTags = tags ? JSON.parse(tags) : [];
+      const parsedTags: string[] = tags ? JSON.parse(tags) : [];
 
       // Build list of documents to process
       const documentsToProcess: Array<{
@@ -1180,7 +1329,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name: string;
         description?: string;
         category?: string;
-        tags?: any[];
+        tags?: string[];
       }> = [];
 
       if (url) {
@@ -1214,7 +1363,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Process all documents in parallel using Promise.allSettled
       console.log(`Processing ${documentsToProcess.length} document(s) in parallel...`);
       const results = await Promise.allSettled(
-        documentsToProcess.map(doc => processDocument(doc))
+        documentsToProcess.map(doc => processDocument({ ...doc, userId: req.user!.id }))
       );
 
       // Transform results into response format
@@ -1277,15 +1426,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // MCP Connectors
+  // Secrets never leave the server; the UI only learns whether one is set
+  const redactMcpConnector = (connector: McpConnector) => ({
+    ...connector,
+    apiKey: connector.apiKey ? "••••••••" : null,
+    oauthClientSecret: connector.oauthClientSecret ? "••••••••" : null,
+    oauthRefreshToken: connector.oauthRefreshToken ? "••••••••" : null,
+  });
+
   app.get("/api/mcp-connectors", async (req, res) => {
     try {
       const connectors = await storage.getAllMcpConnectors();
-      // Redact API keys for security
-      const redactedConnectors = connectors.map(c => ({
-        ...c,
-        apiKey: c.apiKey ? "••••••••" : null,
-      }));
-      res.json(redactedConnectors);
+      res.json(connectors.map(redactMcpConnector));
     } catch (error) {
       console.error("Error fetching MCP connectors:", error);
       res.status(500).json({ error: "Failed to fetch MCP connectors" });
@@ -1295,12 +1447,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/mcp-connectors/active", async (req, res) => {
     try {
       const connectors = await storage.getActiveMcpConnectors();
-      // Redact API keys for security
-      const redactedConnectors = connectors.map(c => ({
-        ...c,
-        apiKey: c.apiKey ? "••••••••" : null,
-      }));
-      res.json(redactedConnectors);
+      res.json(connectors.map(redactMcpConnector));
     } catch (error) {
       console.error("Error fetching active MCP connectors:", error);
       res.status(500).json({ error: "Failed to fetch active MCP connectors" });
@@ -1313,20 +1460,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!connector) {
         return res.status(404).json({ error: "MCP connector not found" });
       }
-      // Redact API key for security
-      res.json({
-        ...connector,
-        apiKey: connector.apiKey ? "••••••••" : null,
-      });
+      res.json(redactMcpConnector(connector));
     } catch (error) {
       console.error("Error fetching MCP connector:", error);
       res.status(500).json({ error: "Failed to fetch MCP connector" });
     }
   });
 
-  app.post("/api/mcp-connectors", async (req, res) => {
+  app.post("/api/mcp-connectors", requireAdmin, async (req, res) => {
     try {
-      const { name, description, serverUrl, apiKey, connectorType, authType, roleMapping, config } = req.body;
+      const { name, description, serverUrl, apiKey, connectorType, authType, roleMapping, config, oauthClientSecret, oauthRefreshToken } = req.body;
+      const { validateConnectorConfig } = await import("./services/knowledgebase/mcpConnectorService");
+      const configError = validateConnectorConfig(connectorType || "rest", config, authType);
+      if (configError) {
+        return res.status(400).json({ error: configError });
+      }
       const connector = await storage.createMcpConnector({
         name,
         description,
@@ -1336,22 +1484,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         authType,
         roleMapping,
         config,
+        oauthClientSecret,
+        oauthRefreshToken,
         isActive: "true",
       });
-      // Redact API key in response for security
-      res.json({
-        ...connector,
-        apiKey: connector.apiKey ? "••••••••" : null,
-      });
+      res.json(redactMcpConnector(connector));
     } catch (error) {
       console.error("Error creating MCP connector:", error);
       res.status(500).json({ error: "Failed to create MCP connector" });
     }
   });
 
-  app.patch("/api/mcp-connectors/:id", async (req, res) => {
+  app.patch("/api/mcp-connectors/:id", requireAdmin, async (req, res) => {
     try {
-      const { name, description, serverUrl, apiKey, connectorType, authType, roleMapping, config, isActive } = req.body;
+      const { name, description, serverUrl, apiKey, connectorType, authType, roleMapping, config, isActive, oauthClientSecret, oauthRefreshToken } = req.body;
+      if (connectorType !== undefined || config !== undefined || authType !== undefined) {
+        const existing = await storage.getMcpConnector(req.params.id);
+        if (!existing) {
+          return res.status(404).json({ error: "MCP connector not found" });
+        }
+        const { validateConnectorConfig } = await import("./services/knowledgebase/mcpConnectorService");
+        const configError = validateConnectorConfig(connectorType ?? existing.connectorType, config ?? existing.config, authType ?? existing.authType);
+        if (configError) {
+          return res.status(400).json({ error: configError });
+        }
+      }
       await storage.updateMcpConnector(req.params.id, {
         name,
         description,
@@ -1362,23 +1519,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         roleMapping,
         config,
         isActive,
+        oauthClientSecret,
+        oauthRefreshToken,
       });
       const updated = await storage.getMcpConnector(req.params.id);
       if (!updated) {
         return res.status(404).json({ error: "MCP connector not found" });
       }
-      // Redact API key in response for security
-      res.json({
-        ...updated,
-        apiKey: updated.apiKey ? "••••••••" : null,
-      });
+      res.json(redactMcpConnector(updated));
     } catch (error) {
       console.error("Error updating MCP connector:", error);
       res.status(500).json({ error: "Failed to update MCP connector" });
     }
   });
 
-  app.delete("/api/mcp-connectors/:id", async (req, res) => {
+  app.delete("/api/mcp-connectors/:id", requireAdmin, async (req, res) => {
     try {
       await storage.deleteMcpConnector(req.params.id);
       res.json({ message: "MCP connector deleted successfully" });
@@ -1388,8 +1543,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Discover the tools and resources of an MCP server connector
+  app.post("/api/mcp-connectors/:id/discover", requireAdmin, async (req, res) => {
+    try {
+      const connector = await storage.getMcpConnector(req.params.id);
+      if (!connector) {
+        return res.status(404).json({ error: "MCP connector not found" });
+      }
+      if (connector.connectorType !== "rest") {
+        return res.status(400).json({ error: "Tool discovery is only available for MCP server connectors" });
+      }
+
+      const { mcpConnectorService } = await import("./services/knowledgebase/mcpConnectorService");
+      const discovery = await mcpConnectorService.discoverCapabilities(connector);
+      res.json(discovery);
+    } catch (error: any) {
+      console.error("Error discovering MCP connector tools:", error);
+      res.status(500).json({
+        error: "Failed to discover MCP connector tools",
+        details: error.message || String(error),
+      });
+    }
+  });
+
   // Test MCP connector
-  app.post("/api/mcp-connectors/:id/test", async (req, res) => {
+  app.post("/api/mcp-connectors/:id/test", requireAdmin, async (req, res) => {
     try {
       const { mcpConnectorService } = await import("./services/knowledgebase/mcpConnectorService");
       const { query } = req.body;
@@ -1432,7 +1610,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // System Configuration endpoints
-  app.get("/api/system-config", async (req, res) => {
+  app.get("/api/system-config", requireAdmin, async (req, res) => {
     try {
       const configs = await storage.getAllSystemConfig();
       // Redact encrypted values
@@ -1447,7 +1625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/system-config/category/:category", async (req, res) => {
+  app.get("/api/system-config/category/:category", requireAdmin, async (req, res) => {
     try {
       const configs = await storage.getSystemConfigByCategory(req.params.category);
       const sanitized = configs.map(c => ({
@@ -1461,7 +1639,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/system-config", async (req, res) => {
+  app.post("/api/system-config", requireAdmin, async (req, res) => {
     try {
       const { category, key, value, isEncrypted, description } = req.body;
       const config = await storage.upsertSystemConfig({
@@ -1471,6 +1649,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         isEncrypted: isEncrypted || "false",
         description,
       });
+      invalidateLlmRoutingCache();
       // Redact encrypted values in response
       res.json({
         ...config,
@@ -1482,9 +1661,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/system-config/:key", async (req, res) => {
+  app.delete("/api/system-config/:key", requireAdmin, async (req, res) => {
     try {
       await storage.deleteSystemConfig(req.params.key);
+      invalidateLlmRoutingCache();
       res.json({ message: "Configuration deleted successfully" });
     } catch (error) {
       console.error("Error deleting system config:", error);
@@ -1492,8 +1672,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM model routing: which provider/model serves each task
+  app.get("/api/llm/routing", requireAdmin, async (req, res) => {
+    try {
+      const { llmTasks } = await import("@shared/schema");
+      const configured = await getConfiguredLlmRoutes();
+      let defaultRoute: LlmRoute | null = null;
+      try {
+        defaultRoute = getDefaultLlmRoute();
+      } catch {
+        // No provider configured; the page shows every task as unavailable
+      }
+
+      const tasks = await Promise.all(llmTasks.map(async (task) => ({
+        task,
+        description: LLM_TASK_DESCRIPTIONS[task],
+        route: configured[task] || null,
+        effective: await resolveLlmRoute(task).catch(() => null),
+      })));
+
+      res.json({ providers: getLlmProviderStatuses(), defaultRoute, tasks });
+    } catch (error) {
+      console.error("Error fetching LLM routing:", error);
+      res.status(500).json({ error: "Failed to fetch model routing" });
+    }
+  });
+
+  app.put("/api/llm/routing/:task", requireAdmin, async (req, res) => {
+    try {
+      const task = req.params.task;
+      if (!isLlmTask(task)) {
+        return res.status(404).json({ error: "Unknown task" });
+      }
+
+      const { updateLlmRouteSchema } = await import("@shared/schema");
+      const route = updateLlmRouteSchema.parse(req.body);
+
+      await storage.upsertSystemConfig({
+        category: LLM_ROUTE_CONFIG_CATEGORY,
+        key: llmRouteConfigKey(task),
+        value: JSON.stringify(route),
+        isEncrypted: "false",
+        description: `Provider and model for ${LLM_TASK_DESCRIPTIONS[task].toLowerCase()}`,
+      });
+      invalidateLlmRoutingCache();
+
+      console.log(`[LLM] ${task} routed to ${route.provider}/${route.model} by ${req.user!.displayName}`);
+      res.json({ task, route });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating LLM route:", error);
+      res.status(500).json({ error: "Failed to update model routing" });
+    }
+  });
+
+  app.delete("/api/llm/routing/:task", requireAdmin, async (req, res) => {
+    try {
+      const task = req.params.task;
+      if (!isLlmTask(task)) {
+        return res.status(404).json({ error: "Unknown task" });
+      }
+
+      await storage.deleteSystemConfig(llmRouteConfigKey(task));
+      invalidateLlmRoutingCache();
+      res.json({ message: "Task now uses the default provider" });
+    } catch (error) {
+      console.error("Error resetting LLM route:", error);
+      res.status(500).json({ error: "Failed to reset model routing" });
+    }
+  });
+
   // Test Azure connectivity
-  app.post("/api/test-azure-connectivity", async (req, res) => {
+  app.post("/api/test-azure-connectivity", requireAdmin, async (req, res) => {
     const results: any = {
       timestamp: new Date().toISOString(),
       azureOpenAI: { configured: false, working: false, error: null, details: null },
@@ -1556,15 +1808,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Test Azure Blob Storage
     try {
       console.log("[Test] Initializing Azure Blob Storage service...");
-      await azureBlobStorageService.initialize();
+      await getFileStorage().initialize();
       results.azureStorage.configured = true;
 
       console.log("[Test] Listing documents in storage...");
-      const documents = await azureBlobStorageService.listDocuments();
+      const documents = await getFileStorage().listDocuments();
       
       results.azureStorage.working = true;
       results.azureStorage.details = {
-        containerName: "intellibid-documents",
+        provider: getFileStorage().name,
+        containerName: getFileStorage().location,
         documentCount: documents.length,
         sampleDocuments: documents.slice(0, 3),
       };
@@ -1592,7 +1845,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Azure AI Search Skillset and Indexer routes
   // Initialize skillset and indexer with OCR capabilities
-  app.post("/api/skillset/initialize", async (req, res) => {
+  app.post("/api/skillset/initialize", requireAdmin, async (req, res) => {
     try {
       console.log("[Skillset API] Initializing skillset and indexer...");
       
@@ -1673,7 +1926,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Run indexer manually to process documents
-  app.post("/api/skillset/run", async (req, res) => {
+  app.post("/api/skillset/run", requireAdmin, async (req, res) => {
     try {
       console.log("[Skillset API] Running indexer...");
       await azureSearchSkillsetService.runIndexer();
@@ -1709,7 +1962,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reset indexer (reprocess all documents)
-  app.post("/api/skillset/reset", async (req, res) => {
+  app.post("/api/skillset/reset", requireAdmin, async (req, res) => {
     try {
       console.log("[Skillset API] Resetting indexer...");
       await azureSearchSkillsetService.resetIndexer();
@@ -1746,7 +1999,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update OCR enabled/disabled state
-  app.post("/api/config/ocr-enabled", async (req, res) => {
+  app.post("/api/config/ocr-enabled", requireAdmin, async (req, res) => {
     try {
       const { enabled } = req.body;
       
@@ -1880,8 +2133,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Vendor name is required" });
       }
 
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-      
       const proposals = [];
       for (const file of files) {
         const parsed = await parseDocument(file.buffer, file.originalname);
@@ -1889,13 +2140,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         // Upload file to Azure Blob Storage
         let blobUrl: string | undefined;
+        let blobName: string | undefined;
         try {
-          const uploadResult = await azureBlobStorageService.uploadDocument(
+          const uploadResult = await getFileStorage().uploadDocument(
             file.originalname,
             file.buffer,
             { documentType, vendorName }
           );
           blobUrl = uploadResult.blobUrl;
+          blobName = uploadResult.blobName;
         } catch (error) {
           console.error("Failed to upload to Azure Blob Storage:", error);
           // Continue without blob URL if upload fails
@@ -1907,6 +2160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           documentType,
           fileName: file.originalname,
           blobUrl,
+          blobName,
           extractedData: { ...parsed, aiAnalysis: analysis },
           standardId,
           taggedSections,
@@ -1922,7 +2176,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analyze project and generate evaluations
+  // Evaluate every proposal of an uploaded project (runs as a "project_analysis" job)
+  async function analyzeProject(projectId: string, context: JobContext) {
+    const { loadProjectEvaluationInputs, startEvaluationRun, createAgentCheckpoint, finishEvaluationRun } =
+      await import("./services/features/evaluationRunService");
+
+    // Requirement analysis, scoring weights, addenda and standards (throws without requirements)
+    const inputs = await loadProjectEvaluationInputs(storage, projectId);
+    const proposals = await storage.getProposalsByProject(projectId);
+
+    // Agent results are checkpointed per vendor, so a retried job re-runs only unfinished agents
+    const run = await startEvaluationRun(storage, {
+      projectId,
+      trigger: "analysis",
+      totalVendors: new Set(proposals.map(p => p.vendorName)).size,
+      job: context.job,
+    });
+
+    // Evaluate each proposal; evaluations saved by an earlier attempt are kept, so retries resume
+    let evaluated = 0;
+    for (const proposal of proposals) {
+      context.throwIfCancelled();
+      await context.reportProgress({ evaluated, total: proposals.length, currentVendor: proposal.vendorName, runId: run.id });
+
+      // Check if evaluation already exists for this proposal to prevent duplicates
+      const existingEvaluation = await storage.getEvaluationByProposal(proposal.id);
+      if (existingEvaluation) {
+        console.log(`   ⚠️  Evaluation already exists for vendor ${proposal.vendorName}, skipping duplicate creation`);
+        evaluated++;
+        continue;
+      }
+      
+      const { proposalAnalysis, standardData } = await inputs.resolveProposal(proposal);
+      
+      const { evaluation, diagnostics, agentResults } = await evaluateProposal(
+        inputs.requirementAnalysis, 
+        proposalAnalysis,
+        standardData || undefined,
+        undefined,
+        inputs.scoringConfig,
+        inputs.addendaContext,
+        createAgentCheckpoint(storage, run.id, proposal)
+      );
+
+      await storage.createEvaluation({
+        projectId,
+        proposalId: proposal.id,
+        overallScore: evaluation.overallScore,
+        functionalFit: evaluation.functionalFit,
+        technicalFit: evaluation.technicalFit,
+        deliveryRisk: evaluation.deliveryRisk,
+        cost: evaluation.cost,
+        compliance: evaluation.compliance,
+        status: evaluation.status,
+        aiRationale: evaluation.rationale,
+        roleInsights: evaluation.roleInsights,
+        detailedScores: evaluation.detailedScores,
+        sectionCompliance: evaluation.sectionCompliance || null,
+        agentDiagnostics: diagnostics || null,
+        agentResults: agentResults || null,
+        citations: attachProposalId(evaluation.citations, proposal.id),
+      });
+      evaluated++;
+    }
+
+    const runStatus = await finishEvaluationRun(storage, run.id);
+
+    // Update project status
+    await storage.updateProjectStatus(projectId, "completed");
+
+    return { projectId, evaluations: evaluated, runId: run.id, runStatus };
+  }
+
+  // Analyze project and generate evaluations in the background; poll GET /api/jobs/:jobId
   app.post("/api/projects/:id/analyze", async (req, res) => {
     try {
       const projectId = req.params.id;
@@ -1939,101 +2265,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No proposals found for project" });
       }
 
-      // Use first requirement for evaluation criteria
-      const requirementAnalysis = requirements[0].extractedData as any;
-
-      // Check if there's a standard associated with requirements
-      let requirementStandardData = null;
-      const requirement = requirements[0];
-      if (requirement.standardId) {
-        const standard = await storage.getStandard(requirement.standardId);
-        if (standard && standard.isActive === "true") {
-          requirementStandardData = {
-            id: standard.id,
-            name: standard.name,
-            sections: (standard.sections || []) as any,
-            taggedSectionIds: (requirement.taggedSections || []) as any,
-          };
-        }
-      }
-
-      // Evaluate each proposal
-      const evaluations = [];
-      for (const proposal of proposals) {
-        // Check if evaluation already exists for this proposal to prevent duplicates
-        const existingEvaluation = await storage.getEvaluationByProposal(proposal.id);
-        if (existingEvaluation) {
-          console.log(`   ⚠️  Evaluation already exists for vendor ${proposal.vendorName}, skipping duplicate creation`);
-          evaluations.push({
-            ...existingEvaluation,
-            vendorName: proposal.vendorName,
-          });
-          continue;
-        }
-        
-        const proposalAnalysis = proposal.extractedData as any;
-        
-        // Determine which standard to use for this proposal
-        let proposalStandardData = null;
-        
-        if (proposal.standardId) {
-          // Proposal has its own standard reference
-          if (requirementStandardData && proposal.standardId === requirementStandardData.id) {
-            // Use requirement standard with proposal's tagged sections
-            proposalStandardData = {
-              ...requirementStandardData,
-              taggedSectionIds: proposal.taggedSections || requirementStandardData.taggedSectionIds,
-            };
-          } else {
-            // Fetch proposal's standard independently
-            const proposalStandard = await storage.getStandard(proposal.standardId);
-            if (proposalStandard && proposalStandard.isActive === "true") {
-              proposalStandardData = {
-                id: proposalStandard.id,
-                name: proposalStandard.name,
-                sections: (proposalStandard.sections || []) as any,
-                taggedSectionIds: (proposal.taggedSections || []) as any,
-              };
-            }
-          }
-        } else if (requirementStandardData) {
-          // Fall back to requirement standard
-          proposalStandardData = requirementStandardData;
-        }
-        
-        const { evaluation, diagnostics } = await evaluateProposal(
-          requirementAnalysis, 
-          proposalAnalysis,
-          proposalStandardData || undefined
-        );
-
-        const { evaluation: savedEvaluation } = await storage.createEvaluation({
-          projectId,
-          proposalId: proposal.id,
-          overallScore: evaluation.overallScore,
-          functionalFit: evaluation.functionalFit,
-          technicalFit: evaluation.technicalFit,
-          deliveryRisk: evaluation.deliveryRisk,
-          cost: evaluation.cost,
-          compliance: evaluation.compliance,
-          status: evaluation.status,
-          aiRationale: evaluation.rationale,
-          roleInsights: evaluation.roleInsights,
-          detailedScores: evaluation.detailedScores,
-          sectionCompliance: evaluation.sectionCompliance || null,
-          agentDiagnostics: diagnostics || null,
-        });
-
-        evaluations.push({
-          ...savedEvaluation,
-          vendorName: proposal.vendorName,
-        });
-      }
-
-      // Update project status
-      await storage.updateProjectStatus(projectId, "completed");
+      const job = await jobQueue.enqueue("project_analysis", { projectId }, {
+        resourceId: projectId,
+        createdBy: req.user!.id,
+        unique: true,
+      });
 
-      res.json(evaluations);
+      res.status(202).json({ jobId: job.id, job });
     } catch (error) {
       console.error("Error analyzing project:", error);
       res.status(500).json({ error: "Failed to analyze project" });
@@ -2060,6 +2298,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get the scoring model (role weights, dimension weights, consensus rules) for a project
+  app.get("/api/projects/:id/scoring-config", async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json({
+        config: resolveScoringConfig(project.scoringConfig),
+        isDefault: !project.scoringConfig,
+      });
+    } catch (error) {
+      console.error("Error fetching scoring config:", error);
+      res.status(500).json({ error: "Failed to fetch scoring config" });
+    }
+  });
+
+  // Update the scoring model for a project (applies to future evaluations and rescoring)
+  app.put("/api/projects/:id/scoring-config", requireAdmin, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const { scoringConfigSchema } = await import("@shared/schema");
+      const config = scoringConfigSchema.parse(req.body);
+
+      await storage.updateProjectScoringConfig(project.id, config);
+      res.json({ config, isDefault: false });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid scoring config", details: error.errors });
+      }
+      console.error("Error updating scoring config:", error);
+      res.status(500).json({ error: "Failed to update scoring config" });
+    }
+  });
+
+  // Reset the scoring model for a project back to defaults
+  app.delete("/api/projects/:id/scoring-config", requireAdmin, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      await storage.updateProjectScoringConfig(project.id, null);
+      res.json({ config: resolveScoringConfig(null), isDefault: true });
+    } catch (error) {
+      console.error("Error resetting scoring config:", error);
+      res.status(500).json({ error: "Failed to reset scoring config" });
+    }
+  });
+
+  // Rebuild evaluations from stored agent outputs with the current scoring model (no LLM calls)
+  app.post("/api/projects/:id/recompute", requireAdmin, async (req, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      const { recomputeProjectEvaluations } = await import("./services/features/evaluationRecompute");
+      const result = await recomputeProjectEvaluations(storage, project.id);
+      res.json(result);
+    } catch (error) {
+      console.error("Error recomputing evaluations:", error);
+      res.status(500).json({ error: "Failed to recompute evaluations" });
+    }
+  });
+
   // Get evaluations for a project
   app.get("/api/projects/:id/evaluations", async (req, res) => {
     try {
@@ -2083,17 +2393,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
         
         // Get all documents for this vendor IN THIS PROJECT ONLY
-        const vendorDocuments = proposals
+        const vendorDocuments = await Promise.all(proposals
           .filter((p) => p.vendorName === vendorName && p.projectId === projectId)
-          .map((p) => {
-            // Extract blob name from URL (everything after container name)
-            let blobName = p.fileName;
-            if (p.blobUrl) {
+          .map(async (p) => {
+            // Stored upload URLs expire, so links are signed when the documents are listed
+            let blobName = p.blobName || p.fileName;
+            if (!p.blobName && p.blobUrl) {
               try {
-                const url = new URL(p.blobUrl);
-                const pathParts = url.pathname.split('/').filter(part => part.length > 0);
-                // Skip container name (first part) and join the rest
-                blobName = pathParts.slice(1).join('/');
+                blobName = blobNameFromUrl(p.blobUrl);
               } catch (error) {
                 console.error(`Failed to parse blobUrl for ${p.fileName}:`, error);
               }
@@ -2103,11 +2410,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
               id: p.id,
               documentType: p.documentType,
               fileName: p.fileName,
-              blobUrl: p.blobUrl || "",
+              blobUrl: (await getDownloadUrl(p)) || "",
               blobName,
               createdAt: p.createdAt,
             };
-          });
+          }));
 
         // Calculate Excel-based scores
         let excelScores = null;
@@ -2209,82 +2516,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update evaluation criteria score
+  // Override an evaluation criterion score (recorded in the audit trail with reviewer and justification)
   app.patch("/api/evaluation-criteria/:id", async (req, res) => {
     try {
-      const id = req.params.id;
-      const { score, scoreLabel } = req.body;
-      
-      // Update the criterion
-      await storage.updateEvaluationCriteria(id, { score, scoreLabel });
-      
-      // Get the updated criterion to find its evaluation
-      const updatedCriterion = await storage.getEvaluationCriterion(id);
-      
-      if (updatedCriterion) {
-        // Get all criteria for this evaluation to recalculate scores
-        const evaluationCriteria = await storage.getEvaluationCriteriaByEvaluation(updatedCriterion.evaluationId);
-        
-        // Guard against empty criteria (unlikely but possible)
-        if (evaluationCriteria.length === 0) {
-          console.warn(`[Evaluation Recalculation] No criteria found for evaluation ${updatedCriterion.evaluationId}`);
-          res.json({ success: true });
-          return;
-        }
-        
-        // Calculate average score from all criteria
-        const totalScore = evaluationCriteria.reduce((sum, c) => sum + c.score, 0);
-        const avgScore = Math.round(totalScore / evaluationCriteria.length);
-        
-        // Group by role to calculate dimension scores
-        const roleGroups = evaluationCriteria.reduce((groups, c) => {
-          if (!groups[c.role]) groups[c.role] = [];
-          groups[c.role].push(c);
-          return groups;
-        }, {} as Record<string, typeof evaluationCriteria>);
-        
-        // Calculate dimension scores (simplified - using role averages)
-        const roles = Object.keys(roleGroups);
-        const technicalFit = roles.length > 0 ? Math.round(
-          Object.values(roleGroups).reduce((sum, group) => 
-            sum + group.reduce((s, c) => s + c.score, 0) / group.length, 0
-          ) / roles.length
-        ) : avgScore;
-        
-        // For simplicity, use overall score for other dimensions
-        // In a real system, you'd have specific criteria mapped to each dimension
-        const deliveryRisk = avgScore;
-        const compliance = avgScore;
-        
-        // Determine status based on overall score
-        let status: "recommended" | "under-review" | "risk-flagged";
-        if (avgScore >= 70) {
-          status = "recommended";
-        } else if (avgScore >= 50) {
-          status = "under-review";
-        } else {
-          status = "risk-flagged";
-        }
-        
-        // Update the evaluation with recalculated values
-        await storage.updateEvaluation(updatedCriterion.evaluationId, {
-          overallScore: avgScore,
-          technicalFit,
-          deliveryRisk,
-          compliance,
-          status,
-        });
-        
-        console.log(`[Evaluation Recalculated] ID: ${updatedCriterion.evaluationId}, Score: ${avgScore}, Status: ${status}`);
+      const { criterionOverrideSchema } = await import("@shared/schema");
+      const override = criterionOverrideSchema.parse(req.body);
+
+      const { applyCriterionOverride } = await import("./services/features/scoreOverrideService");
+      const result = await applyCriterionOverride(storage, req.params.id, override, {
+        id: req.user!.id,
+        name: req.user!.displayName,
+      });
+      if (!result) {
+        return res.status(404).json({ error: "Evaluation criterion or its evaluation not found" });
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
       }
-      
-      res.json({ success: true });
-    } catch (error) {
       console.error("Error updating evaluation criteria:", error);
       res.status(500).json({ error: "Failed to update evaluation criteria" });
     }
   });
 
+  // Get the score override audit trail for an evaluation
+  app.get("/api/evaluations/:id/overrides", async (req, res) => {
+    try {
+      const overrides = await storage.getScoreOverridesByEvaluation(req.params.id);
+      res.json(overrides);
+    } catch (error) {
+      console.error("Error fetching score overrides:", error);
+      res.status(500).json({ error: "Failed to fetch score overrides" });
+    }
+  });
+
+  // Resolve a citation back to the proposal section the agent quoted
+  app.get("/api/proposals/:proposalId/evidence/:sectionId", async (req, res) => {
+    try {
+      const { proposalId, sectionId } = req.params;
+      const proposal = await storage.getProposal(proposalId);
+
+      if (!proposal) {
+        return res.status(404).json({ error: "Proposal not found" });
+      }
+
+      const { buildEvidenceSections } = await import("./services/ai/proposalEvidence");
+      const section = buildEvidenceSections(proposal.extractedData).find(s => s.id === sectionId);
+      if (!section) {
+        return res.status(404).json({ error: "Evidence section not found" });
+      }
+
+      res.json({
+        proposalId: proposal.id,
+        vendorName: proposal.vendorName,
+        fileName: proposal.fileName,
+        blobUrl: await getDownloadUrl(proposal),
+        section,
+      });
+    } catch (error) {
+      console.error("Error fetching proposal evidence:", error);
+      res.status(500).json({ error: "Failed to fetch proposal evidence" });
+    }
+  });
+
   // Excel questionnaire parsing and saving endpoints
   app.get("/api/proposals/:proposalId/parse-excel", async (req, res) => {
     try {
@@ -2300,27 +2596,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "File is not an Excel file" });
       }
 
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
       const { parseExcelQuestionnaire } = await import("./services/rft/excelQuestionnaireHandler");
 
       // Download Excel file from Azure
-      if (!proposal.blobUrl) {
+      if (!proposal.blobName && !proposal.blobUrl) {
         return res.status(400).json({ error: "No blob URL available" });
       }
       
-      // Extract blob name from full URL, stripping SAS token query parameters and URL decoding
-      // URL format: https://intellibidstorage.blob.core.windows.net/intellibid-documents/project-xxx/RFT_Responses/rftId/Vendor%20Name/Product_Response.xlsx?sv=...&se=...
-      // We need (decoded): project-xxx/RFT_Responses/rftId/Vendor Name/Product_Response.xlsx
-      const url = new URL(proposal.blobUrl);
-      const pathname = decodeURIComponent(url.pathname); // Decode %20 → space, etc.
-      const containerPath = '/intellibid-documents/';
-      const containerIndex = pathname.toLowerCase().indexOf(containerPath.toLowerCase());
-      if (containerIndex === -1) {
-        throw new Error('Invalid blob URL format - missing container path');
-      }
-      const blobName = pathname.substring(containerIndex + containerPath.length);
+      // Blob name, or for older rows the one behind the stored download URL, e.g. project-xxx/RFT_Responses/rftId/Vendor Name/Product_Response.xlsx
+      const blobName = proposal.blobName || blobNameFromUrl(proposal.blobUrl!);
       
-      const excelBuffer = await azureBlobStorageService.downloadDocument(blobName);
+      const excelBuffer = await getFileStorage().downloadDocument(blobName);
       
       // Parse Excel to JSON
       const questions = await parseExcelQuestionnaire(excelBuffer);
@@ -2350,7 +2636,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Proposal not found" });
       }
 
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
       const { createExcelQuestionnaire } = await import("./services/rft/excelQuestionnaireHandler");
 
       // Create updated Excel file
@@ -2360,23 +2645,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       // Upload updated file to Azure (replace existing file by name)
-      if (!proposal.blobUrl) {
+      if (!proposal.blobName && !proposal.blobUrl) {
         return res.status(400).json({ error: "No blob URL available" });
       }
       
-      // Extract blob name from URL, stripping SAS token query parameters and URL decoding
-      const url = new URL(proposal.blobUrl);
-      const pathname = decodeURIComponent(url.pathname); // Decode %20 → space, etc.
-      const containerPath = '/intellibid-documents/';
-      const containerIndex = pathname.toLowerCase().indexOf(containerPath.toLowerCase());
-      if (containerIndex === -1) {
-        throw new Error('Invalid blob URL format - missing container path');
-      }
-      const blobName = pathname.substring(containerIndex + containerPath.length);
+      // Blob name, or for older rows the one behind the stored download URL
+      const blobName = proposal.blobName || blobNameFromUrl(proposal.blobUrl!);
       
       // Delete the old file and upload the updated one
-      await azureBlobStorageService.deleteDocument(blobName);
-      const uploadResult = await azureBlobStorageService.uploadDocument(
+      await getFileStorage().deleteDocument(blobName);
+      const uploadResult = await getFileStorage().uploadDocument(
         blobName, // Use same path to replace the file
         updatedExcelBuffer,
         { proposalId, documentType: proposal.documentType }
@@ -2389,7 +2667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ 
         success: true,
         message: "Questionnaire updated successfully",
-        blobUrl: uploadResult.blobUrl,
+        blobUrl: await getDownloadUrl(uploadResult),
       });
     } catch (error) {
       console.error("Error saving Excel file:", error);
@@ -2434,52 +2712,306 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Incremental re-index: only chunks whose content changed are re-embedded (?full=true re-embeds all)
   app.post("/api/rag/documents/:id/reindex", async (req, res) => {
     try {
       const ragDoc = await storage.getRagDocument(req.params.id);
       if (!ragDoc) {
         return res.status(404).json({ error: "RAG document not found" });
       }
-
-      // Import at runtime to avoid circular dependencies
-      const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-      
-      // Download the document from blob storage
       if (!ragDoc.blobName) {
         return res.status(400).json({ error: "Document has no blob reference" });
       }
 
-      const buffer = await azureBlobStorageService.downloadDocument(ragDoc.blobName);
-      const textContent = buffer.toString('utf-8');
-      
-      // Clear existing chunks and search index entries (preserve parent document)
-      await documentIngestionService.clearDocumentChunksAndIndex(req.params.id);
-      
-      // Re-ingest the document using the same ID
-      await documentIngestionService.ingestDocument({
-        sourceType: ragDoc.sourceType as any,
-        sourceId: ragDoc.sourceId || undefined,
-        fileName: ragDoc.fileName,
-        content: buffer,
-        textContent,
-        metadata: ragDoc.metadata as any,
-        documentId: req.params.id, // Reuse the same document ID
-      });
+      // Import at runtime to avoid circular dependencies
+      const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
+      if (documentIngestionService.isIndexing(ragDoc)) {
+        return res.status(409).json({ error: "Document is already being indexed" });
+      }
+      const result = await documentIngestionService.reindexDocument(req.params.id, { full: req.query.full === "true" });
+      if (result.status === "failed") {
+        return res.status(500).json({ error: "Failed to re-index RAG document", details: result.error });
+      }
 
       // Get updated document
       const updatedDoc = await storage.getRagDocument(req.params.id);
-      res.json(updatedDoc);
+      res.json({ ...updatedDoc, reindex: result });
     } catch (error) {
       console.error("Error re-indexing RAG document:", error);
       res.status(500).json({ error: "Failed to re-index RAG document" });
     }
   });
 
-  // ==================================================================
-  // AI FEATURES ROUTES
-  // ==================================================================
-
+  // Bulk "reindex stale": re-indexes changed or outdated documents in a background job
+  app.post("/api/rag/reindex-stale", requireAdmin, async (req, res) => {
+    try {
+      const latestJob = await jobQueue.getLatestJob("rag_reindex");
+      if (latestJob && (latestJob.status === "queued" || latestJob.status === "running")) {
+        return res.status(409).json({ error: "A stale re-index is already running", jobId: latestJob.id });
+      }
+
+      const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
+      const documents = await documentIngestionService.prepareStaleReindex();
+      const job = await jobQueue.enqueue("rag_reindex", { documentIds: documents.map(doc => doc.id) }, {
+        createdBy: req.user!.id,
+      });
+      res.status(202).json({ jobId: job.id, job });
+    } catch (error) {
+      console.error("Error starting stale re-index:", error);
+      res.status(500).json({ error: "Failed to start stale re-index" });
+    }
+  });
+
+  app.get("/api/rag/reindex-stale", async (req, res) => {
+    try {
+      const { documentIngestionService } = await import("./services/knowledgebase/documentIngestion");
+      const [documents, job] = await Promise.all([
+        storage.getAllRagDocuments(),
+        jobQueue.getLatestJob("rag_reindex"),
+      ]);
+      res.json({
+        run: job ? {
+          jobId: job.id,
+          status: job.status,
+          running: job.status === "queued" || job.status === "running",
+          startedAt: job.startedAt,
+          finishedAt: job.completedAt,
+          ...((job.result || job.progress || {}) as Record<string, any>),
+        } : null,
+        staleDocuments: documents.filter(doc =>
+          doc.blobName && !documentIngestionService.isIndexing(doc) && documentIngestionService.isStale(doc)
+        ).length,
+      });
+    } catch (error) {
+      console.error("Error fetching stale re-index status:", error);
+      res.status(500).json({ error: "Failed to fetch stale re-index status" });
+    }
+  });
+
+  // RAG retrieval traces (query rewrite, dedup, rerank and token budget decisions per retrieval)
+  app.get("/api/rag/retrieval-traces", requireAdmin, async (req, res) => {
+    try {
+      const { getRetrievalTraces } = await import("./services/knowledgebase/retrievalPipeline");
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      res.json(getRetrievalTraces(limit));
+    } catch (error) {
+      console.error("Error fetching retrieval traces:", error);
+      res.status(500).json({ error: "Failed to fetch retrieval traces" });
+    }
+  });
+
+  app.get("/api/rag/retrieval-traces/:id", requireAdmin, async (req, res) => {
+    try {
+      const { getRetrievalTrace } = await import("./services/knowledgebase/retrievalPipeline");
+      const trace = getRetrievalTrace(req.params.id);
+      if (!trace) {
+        return res.status(404).json({ error: "Retrieval trace not found" });
+      }
+      res.json(trace);
+    } catch (error) {
+      console.error("Error fetching retrieval trace:", error);
+      res.status(500).json({ error: "Failed to fetch retrieval trace" });
+    }
+  });
+
+  app.delete("/api/rag/retrieval-traces", requireAdmin, async (req, res) => {
+    try {
+      const { clearRetrievalTraces } = await import("./services/knowledgebase/retrievalPipeline");
+      clearRetrievalTraces();
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error clearing retrieval traces:", error);
+      res.status(500).json({ error: "Failed to clear retrieval traces" });
+    }
+  });
+
+  // ==================================================================
+  // FILE DOWNLOADS (signed URLs of the local file storage provider)
+  // ==================================================================
+
+  // Reachable without a session: the expiring signature is the credential, like an Azure SAS URL
+  app.get("/api/files/*", async (req, res) => {
+    try {
+      const { LocalFileStorage, SIGNED_FILE_ROUTE_PREFIX } = await import("./services/core/fileStorage");
+      const fileStorage = getFileStorage();
+      if (!(fileStorage instanceof LocalFileStorage)) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      let blobName: string;
+      try {
+        blobName = decodeURIComponent(req.path.slice(SIGNED_FILE_ROUTE_PREFIX.length));
+      } catch (error) {
+        return res.status(400).json({ error: "Invalid file path" });
+      }
+      const { expires, signature } = req.query;
+      if (typeof expires !== "string" || typeof signature !== "string" ||
+          !fileStorage.verifySignedUrl(blobName, Number(expires), signature)) {
+        return res.status(403).json({ error: "Download link is invalid or has expired" });
+      }
+
+      let content: Buffer;
+      try {
+        content = await fileStorage.downloadDocument(blobName);
+      } catch (error) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      res.attachment(path.basename(blobName));
+      res.send(content);
+    } catch (error) {
+      console.error("Error serving file download:", error);
+      res.status(500).json({ error: "Failed to download file" });
+    }
+  });
+
+  // ==================================================================
+  // BACKGROUND JOBS
+  // ==================================================================
+
+  // Admins see every job; other users see the jobs they queued
+  const canAccessJob = (job: Job, user: { id: string; role: string }) => user.role === "admin" || job.createdBy === user.id;
+
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const { jobStatuses } = await import("@shared/schema");
+      const status = req.query.status as string | undefined;
+      if (status && !jobStatuses.includes(status as JobStatus)) {
+        return res.status(400).json({ error: `Unknown job status '${status}'` });
+      }
+
+      const jobList = await jobQueue.listJobs({
+        type: (req.query.type as string) || undefined,
+        status: status as JobStatus | undefined,
+        resourceId: (req.query.resourceId as string) || undefined,
+        createdBy: req.user!.role === "admin" ? undefined : req.user!.id,
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json(jobList);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+      if (!job || !canAccessJob(job, req.user!)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+      if (!job || !canAccessJob(job, req.user!)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const cancelled = await jobQueue.cancelJob(job.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Job has already ${job.status === "cancelled" ? "been cancelled" : job.status}` });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
+  app.post("/api/jobs/:id/retry", async (req, res) => {
+    try {
+      const job = await jobQueue.getJob(req.params.id);
+      if (!job || !canAccessJob(job, req.user!)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      const retried = await jobQueue.retryJob(job.id);
+      if (!retried) {
+        return res.status(409).json({ error: "Only failed or cancelled jobs can be retried, and not while the same work is queued or running" });
+      }
+      res.json(retried);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
+  // ==================================================================
+  // EVALUATION RUNS (per-vendor/per-agent checkpoints of project evaluations)
+  // ==================================================================
+
+  app.get("/api/projects/:id/evaluation-runs", async (req, res) => {
+    try {
+      const runs = await storage.getEvaluationRunsByProject(req.params.id);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching evaluation runs:", error);
+      res.status(500).json({ error: "Failed to fetch evaluation runs" });
+    }
+  });
+
+  app.get("/api/evaluation-runs/:id", async (req, res) => {
+    try {
+      const { getEvaluationRunSummary } = await import("./services/features/evaluationRunService");
+      const summary = await getEvaluationRunSummary(storage, req.params.id);
+      if (!summary) {
+        return res.status(404).json({ error: "Evaluation run not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching evaluation run:", error);
+      res.status(500).json({ error: "Failed to fetch evaluation run" });
+    }
+  });
+
+  // Re-run failed and missing agents of a run, optionally only one vendor proposal or one agent
+  app.post("/api/evaluation-runs/:id/resume", async (req, res) => {
+    try {
+      const { EVALUATION_AGENT_ROLES } = await import("./services/features/evaluationRunService");
+      const run = await storage.getEvaluationRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Evaluation run not found" });
+      }
+      if (run.status === "running") {
+        return res.status(409).json({ error: "Evaluation run is still running" });
+      }
+
+      const { proposalId, agentRole } = req.body || {};
+      if (agentRole !== undefined && !EVALUATION_AGENT_ROLES.includes(agentRole)) {
+        return res.status(400).json({ error: `Invalid agentRole. Supported: ${EVALUATION_AGENT_ROLES.join(", ")}` });
+      }
+      if (proposalId !== undefined) {
+        const proposal = await storage.getProposal(proposalId);
+        if (!proposal || proposal.projectId !== run.projectId) {
+          return res.status(400).json({ error: "Proposal does not belong to this evaluation run's project" });
+        }
+      }
+
+      const job = await jobQueue.enqueue("evaluation_run_resume", { runId: run.id, proposalId, agentRole }, {
+        resourceId: run.id,
+        createdBy: req.user!.id,
+        unique: true,
+      });
+      await storage.updateEvaluationRun(run.id, { status: "running", error: null, completedAt: null });
+
+      res.status(202).json({ jobId: job.id, job });
+    } catch (error) {
+      console.error("Error resuming evaluation run:", error);
+      res.status(500).json({ error: "Failed to resume evaluation run" });
+    }
+  });
+
+  // ==================================================================
+  // AI FEATURES ROUTES
+  // ==================================================================
+
   // Compliance Gap Analysis
   app.post("/api/projects/:projectId/proposals/:proposalId/analyze-gaps", async (req, res) => {
     try {
@@ -2979,17 +3511,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/kb-chatbot/query", async (req, res) => {
     try {
       const { knowledgeBaseChatbotService } = await import("./services/knowledgebase/knowledgeBaseChatbotService");
-      const { query, conversationHistory } = req.body;
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const { query, conversationHistory, sessionId } = req.body;
 
       if (!query) {
         return res.status(400).json({ error: "Query is required" });
       }
 
+      // With a session, history comes from the server and the exchange is stored
+      const session = sessionId ? await kbChatSessionService.getOwnedSession(sessionId, req.user!.id) : undefined;
+      if (sessionId && !session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
       const response = await knowledgeBaseChatbotService.generateResponse(
         query,
-        conversationHistory || []
+        session ? await kbChatSessionService.getHistory(session.id) : conversationHistory || []
       );
 
+      if (session) {
+        const saved = await kbChatSessionService.saveExchange(session, query, response);
+        return res.json({ ...response, sessionId: session.id, messageId: saved.assistantMessage.id, sessionTitle: saved.title });
+      }
+
       res.json(response);
     } catch (error) {
       console.error("Error querying chatbot:", error);
@@ -3008,12 +3552,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/kb-chatbot/query/stream", async (req, res) => {
     try {
       const { knowledgeBaseChatbotService } = await import("./services/knowledgebase/knowledgeBaseChatbotService");
-      const { query, conversationHistory } = req.body;
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const { query, conversationHistory, sessionId } = req.body;
 
       if (!query) {
         return res.status(400).json({ error: "Query is required" });
       }
 
+      // With a session, history comes from the server and the exchange is stored
+      const session = sessionId ? await kbChatSessionService.getOwnedSession(sessionId, req.user!.id) : undefined;
+      if (sessionId && !session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
       // Set up SSE headers
       res.setHeader("Content-Type", "text/event-stream");
       res.setHeader("Cache-Control", "no-cache");
@@ -3021,10 +3572,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const stream = knowledgeBaseChatbotService.generateStreamingResponse(
         query,
-        conversationHistory || []
+        session ? await kbChatSessionService.getHistory(session.id) : conversationHistory || []
       );
 
+      let answer = "";
+      let sourcesEvent: ChatbotSourcesEvent | null = null;
       for await (const chunk of stream) {
+        if (chunk.type === "sources") sourcesEvent = chunk;
+        if (chunk.type === "chunk") answer += chunk.content;
+
+        // Store the completed exchange before telling the client the stream is done
+        if (chunk.type === "done" && session && sourcesEvent) {
+          const { type, ...result } = sourcesEvent;
+          const saved = await kbChatSessionService.saveExchange(session, query, { ...result, answer });
+          res.write(`data: ${JSON.stringify({ type: "saved", sessionId: session.id, messageId: saved.assistantMessage.id, sessionTitle: saved.title })}\n\n`);
+        }
+
         res.write(`data: ${JSON.stringify(chunk)}\n\n`);
       }
 
@@ -3032,6 +3595,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error) {
       console.error("Error in streaming chatbot:", error);
       const errorMessage = error instanceof Error ? error.message : "Failed to stream chatbot response";
+
+      // Part of the answer has already been sent: report the failure in-stream
+      if (res.headersSent) {
+        res.write(`data: ${JSON.stringify({ type: "error", error: errorMessage })}\n\n`);
+        return res.end();
+      }
       
       // Return 400 for configuration errors, 500 for runtime errors
       if (errorMessage.includes("not configured") || errorMessage.includes("API key")) {
@@ -3042,6 +3611,201 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Knowledge base chat sessions (private to the signed-in user)
+  app.get("/api/kb-chatbot/sessions", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const sessions = await kbChatSessionService.listSessions(req.user!.id);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching chatbot sessions:", error);
+      res.status(500).json({ error: "Failed to fetch chat sessions" });
+    }
+  });
+
+  app.post("/api/kb-chatbot/sessions", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const { createKbChatSessionSchema } = await import("@shared/schema");
+      const { title } = createKbChatSessionSchema.parse(req.body || {});
+      const session = await kbChatSessionService.createSession(req.user!.id, title);
+      res.status(201).json(session);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating chatbot session:", error);
+      res.status(500).json({ error: "Failed to create chat session" });
+    }
+  });
+
+  app.get("/api/kb-chatbot/sessions/:sessionId/messages", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const session = await kbChatSessionService.getOwnedSession(req.params.sessionId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      const messages = await kbChatSessionService.getMessages(session.id, req.user!.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching chatbot messages:", error);
+      res.status(500).json({ error: "Failed to fetch messages" });
+    }
+  });
+
+  app.patch("/api/kb-chatbot/sessions/:sessionId", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const { renameKbChatSessionSchema } = await import("@shared/schema");
+      const { title } = renameKbChatSessionSchema.parse(req.body);
+      const session = await kbChatSessionService.getOwnedSession(req.params.sessionId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      await kbChatSessionService.renameSession(session.id, title);
+      res.json({ success: true });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error renaming chatbot session:", error);
+      res.status(500).json({ error: "Failed to rename chat session" });
+    }
+  });
+
+  app.delete("/api/kb-chatbot/sessions/:sessionId", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const session = await kbChatSessionService.getOwnedSession(req.params.sessionId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      await kbChatSessionService.deleteSession(session.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting chatbot session:", error);
+      res.status(500).json({ error: "Failed to delete chat session" });
+    }
+  });
+
+  app.get("/api/kb-chatbot/sessions/:sessionId/export", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const session = await kbChatSessionService.getOwnedSession(req.params.sessionId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+      const messages = await storage.getChatMessagesBySession(session.id);
+      const markdown = kbChatSessionService.formatSessionAsMarkdown(session, messages);
+      const filename = `${(session.title || "conversation").replace(/[^a-zA-Z0-9-_ ]/g, "").trim().replace(/\s+/g, "-").slice(0, 60) || "conversation"}.md`;
+
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(markdown);
+    } catch (error) {
+      console.error("Error exporting chatbot session:", error);
+      res.status(500).json({ error: "Failed to export chat session" });
+    }
+  });
+
+  app.put("/api/kb-chatbot/sessions/:sessionId/messages/:messageId/feedback", async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const { chatMessageFeedbackSchema } = await import("@shared/schema");
+      const feedback = chatMessageFeedbackSchema.parse(req.body);
+      const session = await kbChatSessionService.getOwnedSession(req.params.sessionId, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      const saved = await kbChatSessionService.recordFeedback(session.id, req.params.messageId, req.user!.id, feedback);
+      if (!saved) {
+        return res.status(404).json({ error: "Assistant message not found" });
+      }
+      res.json(saved);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error saving chatbot feedback:", error);
+      res.status(500).json({ error: "Failed to save feedback" });
+    }
+  });
+
+  // Rated answers with their questions and retrieved sources, for retrieval-quality analysis
+  app.get("/api/kb-chatbot/feedback", requireAdmin, async (req, res) => {
+    try {
+      const { kbChatSessionService } = await import("./services/knowledgebase/kbChatSessionService");
+      const rating = req.query.rating === "up" || req.query.rating === "down" ? req.query.rating : undefined;
+      const records = await kbChatSessionService.getFeedbackForAnalysis(rating);
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching chatbot feedback:", error);
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  });
+
+  // Cited chunk in its document context (neighbouring chunks plus a short-lived download link)
+  app.get("/api/kb-chatbot/sources/:documentId/chunks/:chunkIndex", async (req, res) => {
+    try {
+      const chunkIndex = parseInt(req.params.chunkIndex);
+      if (isNaN(chunkIndex)) {
+        return res.status(400).json({ error: "Invalid chunk index" });
+      }
+
+      const document = await storage.getRagDocument(req.params.documentId);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const allChunks = await storage.getRagChunksByDocumentId(document.id);
+      const cited = allChunks.find(chunk => chunk.chunkIndex === chunkIndex);
+      if (!cited) {
+        return res.status(404).json({ error: "Chunk not found" });
+      }
+
+      const CONTEXT_CHUNKS = 1;
+      const chunks = allChunks
+        .filter(chunk => Math.abs(chunk.chunkIndex - chunkIndex) <= CONTEXT_CHUNKS)
+        .sort((a, b) => a.chunkIndex - b.chunkIndex)
+        .map(chunk => {
+          const metadata = (chunk.metadata || {}) as Record<string, any>;
+          return {
+            chunkIndex: chunk.chunkIndex,
+            content: chunk.content,
+            sectionTitle: metadata.sectionTitle || null,
+            pageNumber: metadata.pageNumber ?? null,
+            cited: chunk.chunkIndex === chunkIndex,
+          };
+        });
+
+      let documentUrl: string | null = null;
+      if (document.blobName) {
+        try {
+          documentUrl = await getFileStorage().generateSasUrl(document.blobName, 1);
+        } catch (error) {
+          console.warn(`[Knowledge Base Chatbot] Could not create download link for ${document.fileName}:`, error);
+        }
+      }
+
+      res.json({
+        document: {
+          id: document.id,
+          fileName: document.fileName,
+          sourceType: document.sourceType,
+          category: document.category,
+          totalChunks: document.totalChunks,
+        },
+        chunks,
+        documentUrl,
+      });
+    } catch (error) {
+      console.error("Error fetching chatbot source:", error);
+      res.status(500).json({ error: "Failed to fetch source" });
+    }
+  });
+
   // ============================================
   // SMART RFT CREATION ROUTES
   // ============================================
@@ -3434,35 +4198,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Step 5: Upload all files to Azure Blob Storage
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
 
       // Upload base files (now includes 5 questionnaires)
       const [docxUpload, pdfUpload, productQuestUpload, nfrUpload, cybersecurityUpload, agileUpload, procurementUpload] = await Promise.all([
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_RFT.docx`,
           docxBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/${projectName.replace(/[^a-zA-Z0-9]/g, '_')}_RFT.pdf`,
           pdfBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/Product_Questionnaire.xlsx`,
           productBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/NFR_Questionnaire.xlsx`,
           nfrBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/Cybersecurity_Questionnaire.xlsx`,
           cybersecurityBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/Agile_Questionnaire.xlsx`,
           agileBuffer
         ),
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `${folderPath}/Procurement_Questionnaire.xlsx`,
           procurementBuffer
         )
@@ -3471,7 +4234,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Upload Product Technical Questionnaire if generated
       let productTechnicalUpload = null;
       if (productTechnicalBuffer) {
-        productTechnicalUpload = await azureBlobStorageService.uploadDocument(
+        productTechnicalUpload = await getFileStorage().uploadDocument(
           `${folderPath}/Product_Technical_Questionnaire.docx`,
           productTechnicalBuffer
         );
@@ -3481,7 +4244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Upload Context Diagram PNG if generated (full quality separate file)
       let contextDiagramUpload = null;
       if (contextDiagramBuffer) {
-        contextDiagramUpload = await azureBlobStorageService.uploadDocument(
+        contextDiagramUpload = await getFileStorage().uploadDocument(
           `${folderPath}/Context_Architecture_Diagram.png`,
           contextDiagramBuffer
         );
@@ -3887,7 +4650,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const mergedFileName = `merged_template_${timestamp}.docx`;
         const blobPath = `projects/${projectId}/drafts/${mergedFileName}`;
 
-        const { blobUrl } = await azureBlobStorageService.uploadDocument(blobPath, mergedBuffer, {
+        const { blobUrl } = await getFileStorage().uploadDocument(blobPath, mergedBuffer, {
           projectId,
           templateId,
           businessCaseId,
@@ -4024,15 +4787,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Automatically generate RFT pack in background (DOCX, PDF, 4 Excel questionnaires)
-      console.log(`🎯 Triggering automatic RFT pack generation for draft ${draft.id}...`);
-      const {generateRftPackFromDraft} = await import("./services/rft/draftPackGenerator");
-      generateRftPackFromDraft(draft.id).catch((error) => {
-        console.error(`❌ Background RFT pack generation failed for draft ${draft.id}:`, error);
+      console.log(`🎯 Queueing automatic RFT pack generation for draft ${draft.id}...`);
+      const packJob = await jobQueue.enqueue("rft_pack", { draftId: draft.id }, {
+        resourceId: draft.id,
+        createdBy: req.user!.id,
+        unique: true,
       });
 
       res.json({
         id: draft.id,
         draft,
+        packJobId: packJob.id,
         message: "Draft generated successfully with stakeholder assignments",
       });
     } catch (error) {
@@ -4042,6 +4807,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Reviewer inbox: sections awaiting review across drafts. Stakeholders see their own role;
+  // admins can pass ?role= to view another role's inbox (or omit it to see every open section)
+  app.get("/api/rft/review-inbox", async (req, res) => {
+    try {
+      let roleId: string | undefined = req.user!.role;
+      if (req.user!.role === "admin") {
+        roleId = typeof req.query.role === "string" && req.query.role !== "all" ? req.query.role : undefined;
+      }
+
+      const { getReviewInbox } = await import("./services/rft/draftReviewService");
+      const items = await getReviewInbox(roleId);
+      res.json(items);
+    } catch (error) {
+      console.error("Error fetching review inbox:", error);
+      res.status(500).json({ error: "Failed to fetch review inbox" });
+    }
+  });
+
   // Get draft by ID
   app.get("/api/rft/drafts/:id", async (req, res) => {
     try {
@@ -4090,10 +4873,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Edit section content (with authorization check)
   app.patch("/api/rft/drafts/:id/sections/:sectionId", async (req, res) => {
     try {
-      const { content, editedBy } = req.body;
+      const { content } = req.body;
+      const editedBy = req.user!.displayName;
 
-      if (!content || !editedBy) {
-        return res.status(400).json({ error: "content and editedBy are required" });
+      if (!content) {
+        return res.status(400).json({ error: "content is required" });
       }
 
       const draft = await storage.getRftGenerationDraft(req.params.id);
@@ -4110,150 +4894,383 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const section = sections[sectionIndex];
 
-      // Authorization: Check if editedBy matches assignedTo (or allow privileged roles)
-      // For MVP, we'll log a warning but allow edits
-      if (section.assignedTo && editedBy !== section.assignedTo) {
+      // Authorization: Check if the editor holds the assigned stakeholder role
+      // For MVP, we'll log a warning but allow edits - approval is restricted to the assigned role
+      if (req.user!.role !== getSectionApproverRole(section)) {
         console.warn(
           `⚠️  Section edit authorization warning: ${editedBy} editing section assigned to ${section.assignedTo}`
         );
       }
 
-      // Update section content and reset approval
-      section.content = content;
-      section.reviewStatus = "pending";
-      section.approvedBy = null;
-      section.approvedAt = null;
+      // Re-reads the draft with the row locked, so concurrent reviews of other sections are kept
+      const { editDraftSection } = await import("./services/rft/draftReviewService");
+      const result = await editDraftSection(req.params.id, req.params.sectionId, content, editedBy);
+      if (!result) {
+        return res.status(404).json({ error: "Section not found" });
+      }
 
-      // Track edit history in metadata (ring buffer, max 10 entries per section)
-      const metadata = (draft.metadata as any) || { editHistory: {} };
-      metadata.editHistory = metadata.editHistory || {};
-      metadata.editHistory[req.params.sectionId] = metadata.editHistory[req.params.sectionId] || [];
-      
-      metadata.editHistory[req.params.sectionId].push({
-        editedBy,
-        editedAt: new Date().toISOString(),
-        previousContent: section.content,
+      res.json({
+        ...result,
+        message: "Section updated successfully",
       });
+    } catch (error) {
+      const { DraftFinalizedError } = await import("./services/rft/draftReviewService");
+      if (error instanceof DraftFinalizedError) {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+      console.error("Error updating section:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to update section";
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // Approve section (with authorization check)
+  app.post("/api/rft/drafts/:id/sections/:sectionId/approve", async (req, res) => {
+    try {
+      // The approver is the signed-in user; their account role must match the section's stakeholder
+      const approvedBy = req.user!.displayName;
+      const approverRole = req.user!.role;
+
+      console.log("🔍 Approval request received:", {
+        draftId: req.params.id,
+        sectionId: req.params.sectionId,
+        approvedBy,
+        approverRole,
+      });
+
+      const draft = await storage.getRftGenerationDraft(req.params.id);
+      if (!draft) {
+        console.log("❌ Draft not found:", req.params.id);
+        return res.status(404).json({ error: "Draft not found" });
+      }
+
+      if (draft.status === "finalized") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+
+      const sections = draft.generatedSections as any[];
+      const sectionIndex = sections.findIndex((s: any) => s.sectionId === req.params.sectionId);
+
+      if (sectionIndex === -1) {
+        console.log("❌ Section not found:", req.params.sectionId);
+        return res.status(404).json({ error: "Section not found" });
+      }
 
-      // Keep only last 10 edits (ring buffer)
-      if (metadata.editHistory[req.params.sectionId].length > 10) {
-        metadata.editHistory[req.params.sectionId].shift();
+      const section = sections[sectionIndex];
+      const requiredRole = getSectionApproverRole(section);
+
+      console.log("📝 Section details:", {
+        sectionTitle: section.sectionTitle,
+        assignedTo: section.assignedTo,
+        requiredRole,
+        approverRole,
+        match: requiredRole === approverRole
+      });
+
+      // Authorization: Only a user holding the section's mapped stakeholder role may approve
+      if (approverRole !== requiredRole) {
+        const requiredRoleName = getStakeholderRole(requiredRole)?.name || requiredRole;
+        console.log("❌ Authorization failed:", {
+          requiredRole,
+          approverRole,
+          error: `Only ${requiredRoleName} can approve this section`
+        });
+        return res.status(403).json({
+          error: `Only ${requiredRoleName} can approve this section`,
+        });
       }
+      
+      console.log("✅ Authorization passed, approving section");
 
-      // Update draft
-      await storage.updateRftGenerationDraft(req.params.id, {
-        generatedSections: sections as any,
-        metadata: metadata as any,
+      // Approve against the latest draft with the row locked (it may have been finalized meanwhile)
+      const { approveDraftSection } = await import("./services/rft/draftReviewService");
+      const result = await approveDraftSection(req.params.id, req.params.sectionId, {
+        name: approvedBy,
+        role: approverRole,
       });
+      if (!result) {
+        return res.status(404).json({ error: "Section not found" });
+      }
 
       res.json({
-        section,
-        message: "Section updated successfully",
+        ...result,
+        message: "Section approved successfully",
       });
     } catch (error) {
-      console.error("Error updating section:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to update section";
+      const { DraftFinalizedError } = await import("./services/rft/draftReviewService");
+      if (error instanceof DraftFinalizedError) {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+      console.error("Error approving section:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to approve section";
       res.status(500).json({ error: errorMessage });
     }
   });
 
-  // Approve section (with authorization check)
-  app.post("/api/rft/drafts/:id/sections/:sectionId/approve", async (req, res) => {
+  // Reject section with comments (same authorization as approval); optionally redrafts it with AI
+  app.post("/api/rft/drafts/:id/sections/:sectionId/reject", async (req, res) => {
+    try {
+      const { sectionRejectionSchema } = await import("@shared/schema");
+      const { comments, regenerate } = sectionRejectionSchema.parse(req.body);
+
+      const draft = await storage.getRftGenerationDraft(req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+
+      if (draft.status === "finalized") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+
+      const sections = draft.generatedSections as any[];
+      const sectionIndex = sections.findIndex((s: any) => s.sectionId === req.params.sectionId);
+      if (sectionIndex === -1) {
+        return res.status(404).json({ error: "Section not found" });
+      }
+
+      const requiredRole = getSectionApproverRole(sections[sectionIndex]);
+      if (req.user!.role !== requiredRole) {
+        const requiredRoleName = getStakeholderRole(requiredRole)?.name || requiredRole;
+        return res.status(403).json({
+          error: `Only ${requiredRoleName} can reject this section`,
+        });
+      }
+
+      const { rejectDraftSection } = await import("./services/rft/draftReviewService");
+      const result = await rejectDraftSection(
+        draft,
+        sectionIndex,
+        { name: req.user!.displayName, role: req.user!.role },
+        comments,
+        regenerate
+      );
+
+      res.json({
+        ...result,
+        message: result.regenerated
+          ? "Section rejected and redrafted for review"
+          : "Section rejected",
+      });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      if (error.name === "DraftFinalizedError") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+      console.error("Error rejecting section:", error);
+      res.status(500).json({ error: "Failed to reject section" });
+    }
+  });
+
+  // Get all comment threads on a draft (replies nested, anchors re-located in current content)
+  app.get("/api/rft/drafts/:id/comments", async (req, res) => {
+    try {
+      const draft = await storage.getRftGenerationDraft(req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+
+      const { getDraftCommentThreads } = await import("./services/rft/draftCommentService");
+      res.json(await getDraftCommentThreads(draft));
+    } catch (error) {
+      console.error("Error fetching draft comments:", error);
+      res.status(500).json({ error: "Failed to fetch draft comments" });
+    }
+  });
+
+  // Open a comment thread (or suggested edit) on a section, optionally anchored to a text range
+  app.post("/api/rft/drafts/:id/sections/:sectionId/comments", async (req, res) => {
+    try {
+      const { createDraftCommentSchema } = await import("@shared/schema");
+      const { body, anchor, suggestedText } = createDraftCommentSchema.parse(req.body);
+
+      const draft = await storage.getRftGenerationDraft(req.params.id);
+      if (!draft) {
+        return res.status(404).json({ error: "Draft not found" });
+      }
+
+      const sections = draft.generatedSections as any[];
+      const section = sections.find((s: any) => s.sectionId === req.params.sectionId);
+      if (!section) {
+        return res.status(404).json({ error: "Section not found" });
+      }
+
+      const isSuggestion = suggestedText !== undefined;
+      if (isSuggestion && draft.status === "finalized") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+
+      const { isValidAnchor } = await import("./services/rft/draftCommentService");
+      if (anchor && !isValidAnchor(section.content || "", anchor)) {
+        return res.status(409).json({
+          error: "Selected text no longer matches the section content",
+          hint: "Reload the draft and select the text again",
+        });
+      }
+
+      const comment = await storage.createDraftComment({
+        draftId: draft.id,
+        sectionId: section.sectionId,
+        parentId: null,
+        kind: isSuggestion ? "suggestion" : "comment",
+        body,
+        anchorStart: anchor?.start ?? null,
+        anchorEnd: anchor?.end ?? null,
+        anchorText: anchor?.text ?? null,
+        suggestedText: isSuggestion ? suggestedText : null,
+        suggestionStatus: isSuggestion ? "open" : null,
+        authorId: req.user!.id,
+        authorName: req.user!.displayName,
+        authorRole: req.user!.role,
+      });
+
+      res.json(comment);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating draft comment:", error);
+      res.status(500).json({ error: "Failed to create comment" });
+    }
+  });
+
+  // Reply to a comment thread
+  app.post("/api/draft-comments/:id/replies", async (req, res) => {
+    try {
+      const { draftCommentReplySchema } = await import("@shared/schema");
+      const { body } = draftCommentReplySchema.parse(req.body);
+
+      const thread = await storage.getDraftComment(req.params.id);
+      if (!thread) {
+        return res.status(404).json({ error: "Comment not found" });
+      }
+      if (thread.parentId) {
+        return res.status(400).json({ error: "Replies must be added to the thread's first comment" });
+      }
+
+      const reply = await storage.createDraftComment({
+        draftId: thread.draftId,
+        sectionId: thread.sectionId,
+        parentId: thread.id,
+        kind: "comment",
+        body,
+        authorId: req.user!.id,
+        authorName: req.user!.displayName,
+        authorRole: req.user!.role,
+      });
+
+      res.json(reply);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error replying to draft comment:", error);
+      res.status(500).json({ error: "Failed to add reply" });
+    }
+  });
+
+  // Resolve or reopen a thread (thread author, section owner or admin)
+  app.patch("/api/draft-comments/:id/resolve", async (req, res) => {
+    try {
+      const { resolveDraftCommentSchema } = await import("@shared/schema");
+      const { resolved } = resolveDraftCommentSchema.parse(req.body);
+
+      const thread = await storage.getDraftComment(req.params.id);
+      if (!thread || thread.parentId) {
+        return res.status(404).json({ error: "Comment thread not found" });
+      }
+
+      const draft = await storage.getRftGenerationDraft(thread.draftId);
+      const section = (draft?.generatedSections as any[] | undefined)?.find((s: any) => s.sectionId === thread.sectionId);
+      const isOwner = !!section && getSectionApproverRole(section) === req.user!.role;
+      if (thread.authorId !== req.user!.id && !isOwner && req.user!.role !== "admin") {
+        return res.status(403).json({ error: "Only the thread author or section owner can resolve this thread" });
+      }
+
+      // Reopening a decided suggestion would let it be applied twice
+      if (!resolved && thread.kind === "suggestion" && thread.suggestionStatus !== "open") {
+        return res.status(409).json({ error: `Suggestion was already ${thread.suggestionStatus}` });
+      }
+
+      const updated = await storage.updateDraftComment(thread.id, {
+        resolved,
+        resolvedBy: resolved ? req.user!.displayName : null,
+        resolvedAt: resolved ? new Date() : null,
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error resolving draft comment:", error);
+      res.status(500).json({ error: "Failed to update comment" });
+    }
+  });
+
+  // Accept (apply to the section) or reject a suggested edit; section owner only
+  app.post("/api/draft-comments/:id/suggestion", async (req, res) => {
     try {
-      const { approvedBy } = req.body;
-      
-      console.log("🔍 Approval request received:", {
-        draftId: req.params.id,
-        sectionId: req.params.sectionId,
-        approvedBy,
-        body: req.body
-      });
+      const { suggestionDecisionSchema } = await import("@shared/schema");
+      const { decision } = suggestionDecisionSchema.parse(req.body);
 
-      if (!approvedBy) {
-        console.log("❌ Missing approvedBy in request");
-        return res.status(400).json({ error: "approvedBy is required" });
+      const suggestion = await storage.getDraftComment(req.params.id);
+      if (!suggestion || suggestion.kind !== "suggestion") {
+        return res.status(404).json({ error: "Suggestion not found" });
+      }
+      if (suggestion.suggestionStatus !== "open") {
+        return res.status(409).json({ error: `Suggestion was already ${suggestion.suggestionStatus}` });
       }
 
-      const draft = await storage.getRftGenerationDraft(req.params.id);
+      const draft = await storage.getRftGenerationDraft(suggestion.draftId);
       if (!draft) {
-        console.log("❌ Draft not found:", req.params.id);
         return res.status(404).json({ error: "Draft not found" });
       }
+      if (draft.status === "finalized") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
 
-      const sections = draft.generatedSections as any[];
-      const sectionIndex = sections.findIndex((s: any) => s.sectionId === req.params.sectionId);
-
-      if (sectionIndex === -1) {
-        console.log("❌ Section not found:", req.params.sectionId);
+      const section = (draft.generatedSections as any[]).find((s: any) => s.sectionId === suggestion.sectionId);
+      if (!section) {
         return res.status(404).json({ error: "Section not found" });
       }
 
-      const section = sections[sectionIndex];
-      
-      console.log("📝 Section details:", {
-        sectionTitle: section.sectionTitle,
-        assignedTo: section.assignedTo,
-        approvedBy,
-        match: section.assignedTo === approvedBy
-      });
-
-      // Authorization: Check if approvedBy matches assignedTo
-      if (section.assignedTo && approvedBy !== section.assignedTo) {
-        console.log("❌ Authorization failed:", {
-          assignedTo: section.assignedTo,
-          approvedBy,
-          error: `Only ${section.assignedTo} can approve this section`
-        });
+      const requiredRole = getSectionApproverRole(section);
+      if (req.user!.role !== requiredRole) {
+        const requiredRoleName = getStakeholderRole(requiredRole)?.name || requiredRole;
         return res.status(403).json({
-          error: `Only ${section.assignedTo} can approve this section`,
+          error: `Only ${requiredRoleName} can ${decision} suggestions on this section`,
         });
       }
-      
-      console.log("✅ Authorization passed, approving section");
-
-      // Approve section
-      section.reviewStatus = "approved";
-      section.approvedBy = approvedBy;
-      section.approvedAt = new Date().toISOString();
-
-      // Update approval progress
-      const approvalProgress = (draft.approvalProgress as any) || {
-        totalSections: sections.length,
-        approvedSections: 0,
-        pendingSections: sections.length,
-      };
 
-      approvalProgress.approvedSections = sections.filter(
-        (s: any) => s.reviewStatus === "approved"
-      ).length;
-      approvalProgress.pendingSections =
-        approvalProgress.totalSections - approvalProgress.approvedSections;
-
-      // Update draft status if all sections approved
-      let newStatus = draft.status;
-      if (approvalProgress.approvedSections === approvalProgress.totalSections) {
-        newStatus = "approved";
-      } else if (approvalProgress.approvedSections > 0) {
-        newStatus = "in_review";
-      }
-
-      // Update draft
-      await storage.updateRftGenerationDraft(req.params.id, {
-        generatedSections: sections as any,
-        approvalProgress: approvalProgress as any,
-        status: newStatus,
-      });
+      const { decideSuggestion } = await import("./services/rft/draftCommentService");
+      const result = await decideSuggestion(draft.id, suggestion, decision, req.user!.displayName);
+      if (result.conflict === "already_decided") {
+        return res.status(409).json({ error: `Suggestion was already ${result.suggestion?.suggestionStatus || "decided"}` });
+      }
+      if (result.conflict) {
+        return res.status(409).json({
+          error: result.conflict === "anchor_ambiguous"
+            ? "The suggested text now occurs more than once in the section"
+            : "The suggested text no longer exists in the section",
+          hint: "The section was edited after the suggestion was made; reject it or edit the section by hand",
+        });
+      }
 
       res.json({
-        section,
-        approvalProgress,
-        draftStatus: newStatus,
-        message: "Section approved successfully",
+        ...result,
+        message: decision === "accept" ? "Suggestion applied to section" : "Suggestion rejected",
       });
-    } catch (error) {
-      console.error("Error approving section:", error);
-      const errorMessage = error instanceof Error ? error.message : "Failed to approve section";
-      res.status(500).json({ error: errorMessage });
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      if (error.name === "DraftFinalizedError") {
+        return res.status(409).json({ error: "Draft is already finalized" });
+      }
+      console.error("Error deciding suggestion:", error);
+      res.status(500).json({ error: "Failed to update suggestion" });
     }
   });
 
@@ -4265,6 +5282,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Draft not found" });
       }
 
+      // Every section must be approved by its mapped stakeholder role
+      const { getFinalizeBlockers, describeFinalizeBlockers } = await import("./services/rft/draftReviewService");
+      const blockers = getFinalizeBlockers(draft);
+      if (blockers.length > 0) {
+        return res.status(409).json({
+          error: "Cannot finalize: not every section has been approved by its assigned stakeholder",
+          hint: describeFinalizeBlockers(blockers),
+          blockers,
+        });
+      }
+
       // Verify template exists (with retry on blob failures)
       if (!draft.templateId) {
         return res.status(400).json({
@@ -4310,14 +5338,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Update draft status to finalized
-      await storage.updateRftGenerationDraft(req.params.id, {
+      // Update draft status to finalized (keeping review history recorded during the merge)
+      await storage.modifyRftGenerationDraft(req.params.id, (latest) => ({
         status: "finalized",
         metadata: {
-          ...(draft.metadata as any),
+          ...(latest.metadata as any),
           finalizedAt: new Date().toISOString(),
         } as any,
-      });
+      }));
 
       res.json({
         draft: {
@@ -4425,24 +5453,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       archive.pipe(res);
 
       // Download and add each file to the archive
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-      
       for (const file of files) {
         if (file.blobUrl) {
           try {
-            // Extract blob name from URL
-            // URL format: https://intellibidstorage.blob.core.windows.net/intellibid-documents/project-XXX/RFT_Generated/file.docx?sas
-            const url = new URL(file.blobUrl.split('?')[0]); // Remove SAS token
-            const pathname = url.pathname; // e.g., /intellibid-documents/project-XXX/RFT_Generated/file.docx
-            const parts = pathname.split('/').filter(Boolean); // ['intellibid-documents', 'project-XXX', 'RFT_Generated', 'file.docx']
-            
-            // Skip container name, join the rest
-            const blobName = parts.slice(1).join('/'); // project-XXX/RFT_Generated/file.docx
+            // Blob name from the stored download URL, e.g. project-XXX/RFT_Generated/file.docx
+            const blobName = blobNameFromUrl(file.blobUrl);
             
             console.log(`📥 Downloading ${file.name} from blob: ${blobName}`);
             
             // Download from Azure
-            const buffer = await azureBlobStorageService.downloadDocument(blobName);
+            const buffer = await getFileStorage().downloadDocument(blobName);
             
             // Add to archive
             archive.append(buffer, { name: file.name });
@@ -4777,7 +5797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         version: 1,
         metadata: {
           generatedAt: new Date().toISOString(),
-          model: "gpt-4o",
+          model: (await resolveLlmRoute("generation")).model,
           templateName: template.name,
           businessCaseName: businessCase.name,
           sectionCount: sections.length,
@@ -4842,26 +5862,311 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update generated RFT
+  // Update generated RFT (content changes are saved as a new immutable revision)
   app.patch("/api/generated-rfts/:id", async (req, res) => {
     try {
       const { sections, status, name } = req.body;
-      const updates: any = {};
-      
-      if (sections) updates.sections = sections;
-      if (status) updates.status = status;
-      if (name) updates.name = name;
 
-      await storage.updateGeneratedRft(req.params.id, updates);
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+
+      if (sections || name) {
+        const { saveRftRevision } = await import("./services/rft/rftRevisionService");
+        await saveRftRevision(
+          rft,
+          { sections: sections || undefined, name: name || undefined },
+          { type: "edited", createdBy: req.user!.displayName }
+        );
+      }
+
+      if (status) {
+        await storage.updateGeneratedRft(req.params.id, { status });
+      }
       
       const updatedRft = await storage.getGeneratedRft(req.params.id);
       res.json(updatedRft);
-    } catch (error) {
+    } catch (error: any) {
+      // Unique (rftId, version) violation: someone else saved a new version first
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "The RFT was changed by someone else. Reload and try again." });
+      }
       console.error("Error updating generated RFT:", error);
       res.status(500).json({ error: "Failed to update generated RFT" });
     }
   });
 
+  // List the version history of a generated RFT (newest first)
+  app.get("/api/generated-rfts/:id/revisions", async (req, res) => {
+    try {
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+
+      const revisions = await storage.getGeneratedRftRevisions(req.params.id);
+      res.json({
+        currentVersion: rft.version,
+        publishedVersion: (rft.metadata as any)?.publishedVersion ?? null,
+        // Sections are omitted here; fetch a single revision or a diff for content
+        revisions: revisions.map(({ sections, ...revision }) => revision),
+      });
+    } catch (error) {
+      console.error("Error fetching RFT revisions:", error);
+      res.status(500).json({ error: "Failed to fetch RFT revisions" });
+    }
+  });
+
+  // Get one revision's full content
+  app.get("/api/generated-rfts/:id/revisions/:version", async (req, res) => {
+    try {
+      const revision = await storage.getGeneratedRftRevision(req.params.id, parseInt(req.params.version, 10));
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching RFT revision:", error);
+      res.status(500).json({ error: "Failed to fetch RFT revision" });
+    }
+  });
+
+  // Diff two revisions section by section (?from=1&to=3; "to" defaults to the current version)
+  app.get("/api/generated-rfts/:id/diff", async (req, res) => {
+    try {
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+
+      const fromVersion = parseInt(req.query.from as string, 10);
+      const toVersion = req.query.to ? parseInt(req.query.to as string, 10) : rft.version;
+      if (isNaN(fromVersion) || isNaN(toVersion)) {
+        return res.status(400).json({ error: "Query parameters 'from' and 'to' must be version numbers" });
+      }
+
+      const { getRevisionForDiff, diffRftRevisions } = await import("./services/rft/rftRevisionService");
+      const [from, to] = await Promise.all([
+        getRevisionForDiff(rft, fromVersion),
+        getRevisionForDiff(rft, toVersion),
+      ]);
+      if (!from || !to) {
+        return res.status(404).json({ error: `Revision v${!from ? fromVersion : toVersion} not found` });
+      }
+
+      res.json(diffRftRevisions(from, to));
+    } catch (error) {
+      console.error("Error diffing RFT revisions:", error);
+      res.status(500).json({ error: "Failed to diff RFT revisions" });
+    }
+  });
+
+  // Restore an earlier revision (recorded as a new version; history is never rewritten)
+  app.post("/api/generated-rfts/:id/revisions/:version/restore", async (req, res) => {
+    try {
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+
+      const version = parseInt(req.params.version, 10);
+      const { restoreRftRevision } = await import("./services/rft/rftRevisionService");
+      const revision = await restoreRftRevision(rft, version, req.user!.displayName);
+      if (revision === undefined) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+
+      res.json({
+        rft: await storage.getGeneratedRft(req.params.id),
+        revision,
+        message: revision ? `Restored v${version} as v${revision.version}` : `Current content already matches v${version}`,
+      });
+    } catch (error: any) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "The RFT was changed by someone else. Reload and try again." });
+      }
+      console.error("Error restoring RFT revision:", error);
+      res.status(500).json({ error: "Failed to restore RFT revision" });
+    }
+  });
+
+  // List vendor clarification questions for a published RFT
+  app.get("/api/generated-rfts/:id/clarifications", async (req, res) => {
+    try {
+      const clarifications = await storage.getRftClarificationsByRft(req.params.id);
+      res.json(clarifications);
+    } catch (error) {
+      console.error("Error fetching clarifications:", error);
+      res.status(500).json({ error: "Failed to fetch clarifications" });
+    }
+  });
+
+  // Record a vendor clarification question (only once the RFT has been published)
+  app.post("/api/generated-rfts/:id/clarifications", async (req, res) => {
+    try {
+      const { createClarificationSchema } = await import("@shared/schema");
+      const { vendorName, question, sectionId } = createClarificationSchema.parse(req.body);
+
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+      if (rft.status !== "published") {
+        return res.status(409).json({ error: "Clarifications can only be recorded for published RFTs" });
+      }
+
+      const clarification = await storage.createRftClarification({
+        rftId: rft.id,
+        projectId: rft.projectId,
+        vendorName,
+        question,
+        sectionId: sectionId || null,
+        status: "open",
+        createdBy: req.user!.displayName,
+      });
+
+      res.json(clarification);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating clarification:", error);
+      res.status(500).json({ error: "Failed to record clarification" });
+    }
+  });
+
+  // Answer, reopen or withdraw a clarification (published answers are frozen)
+  app.patch("/api/clarifications/:id", async (req, res) => {
+    try {
+      const { updateClarificationSchema } = await import("@shared/schema");
+      const { answer, status } = updateClarificationSchema.parse(req.body);
+
+      const clarification = await storage.getRftClarification(req.params.id);
+      if (!clarification) {
+        return res.status(404).json({ error: "Clarification not found" });
+      }
+      if (clarification.status === "published") {
+        return res.status(409).json({ error: "This clarification was already issued in an addendum" });
+      }
+
+      const updates: any = {};
+      if (answer !== undefined) {
+        updates.answer = answer;
+        updates.status = "answered";
+        updates.answeredBy = req.user!.displayName;
+        updates.answeredAt = new Date();
+        // An edited AI draft is still AI-assisted; only a fresh manual answer is "manual"
+        if (clarification.answerSource !== "ai_assisted") {
+          updates.answerSource = "manual";
+        }
+      }
+      if (status) {
+        updates.status = status;
+      }
+
+      const updated = await storage.updateRftClarification(clarification.id, updates);
+      res.json(updated);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating clarification:", error);
+      res.status(500).json({ error: "Failed to update clarification" });
+    }
+  });
+
+  // Draft an answer with AI from the RFT sections and organization standards (saved for review, not published)
+  app.post("/api/clarifications/:id/draft-answer", async (req, res) => {
+    try {
+      const clarification = await storage.getRftClarification(req.params.id);
+      if (!clarification) {
+        return res.status(404).json({ error: "Clarification not found" });
+      }
+      if (clarification.status === "published") {
+        return res.status(409).json({ error: "This clarification was already issued in an addendum" });
+      }
+
+      const rft = await storage.getGeneratedRft(clarification.rftId);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+
+      const { draftClarificationAnswer } = await import("./services/rft/addendumService");
+      const { answer, references } = await draftClarificationAnswer(rft, clarification);
+
+      const updated = await storage.updateRftClarification(clarification.id, {
+        answer,
+        answerSource: "ai_assisted",
+        answerReferences: references,
+        status: "answered",
+        answeredBy: req.user!.displayName,
+        answeredAt: new Date(),
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error drafting clarification answer:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to draft answer";
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  // List addenda issued for an RFT
+  app.get("/api/generated-rfts/:id/addenda", async (req, res) => {
+    try {
+      const addenda = await storage.getRftAddendaByRft(req.params.id);
+      res.json(addenda);
+    } catch (error) {
+      console.error("Error fetching addenda:", error);
+      res.status(500).json({ error: "Failed to fetch addenda" });
+    }
+  });
+
+  // Issue the next numbered addendum from answered clarifications
+  app.post("/api/generated-rfts/:id/addenda", async (req, res) => {
+    try {
+      const { publishAddendumSchema } = await import("@shared/schema");
+      const { title, notes, clarificationIds } = publishAddendumSchema.parse(req.body);
+
+      const rft = await storage.getGeneratedRft(req.params.id);
+      if (!rft) {
+        return res.status(404).json({ error: "Generated RFT not found" });
+      }
+      if (rft.status !== "published") {
+        return res.status(409).json({ error: "Addenda can only be issued for published RFTs" });
+      }
+
+      const clarifications = await storage.getRftClarificationsByRft(rft.id);
+      const selected = clarifications.filter(c => clarificationIds.includes(c.id));
+      const allAnswered = selected.every(c => c.status === "answered" && !!c.answer);
+      if (selected.length !== new Set(clarificationIds).size || !allAnswered) {
+        return res.status(400).json({
+          error: "Only answered clarifications of this RFT that have not been issued yet can be included",
+        });
+      }
+
+      const { publishAddendum } = await import("./services/rft/addendumService");
+      const addendum = await publishAddendum(rft, selected, { title, notes }, req.user!.displayName);
+      if (!addendum) {
+        return res.status(409).json({
+          error: "Some of the selected clarifications were issued in another addendum at the same time. Reload and try again.",
+        });
+      }
+
+      res.json(addendum);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "Another addendum was issued at the same time. Reload and try again." });
+      }
+      console.error("Error publishing addendum:", error);
+      res.status(500).json({ error: "Failed to publish addendum" });
+    }
+  });
+
   // Publish RFT (convert to requirements AND upload files to Azure)
   app.post("/api/generated-rfts/:id/publish", async (req, res) => {
     try {
@@ -4878,10 +6183,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`✅ Files uploaded successfully to Azure Blob Storage`);
 
+      // Snapshot the exact version being published so auditors can diff against it later
+      const { ensureCurrentRevision } = await import("./services/rft/rftRevisionService");
+      await ensureCurrentRevision(rft);
+
       // Update RFT status to published and store Azure blob URLs
       await storage.updateGeneratedRft(req.params.id, {
         status: "published",
         publishedAt: new Date(),
+        metadata: { ...((rft.metadata as any) || {}), publishedVersion: rft.version },
         docxBlobUrl: azureUrls.docxBlobUrl,
         pdfBlobUrl: azureUrls.pdfBlobUrl,
         productQuestionnaireBlobUrl: azureUrls.productQuestionnaireBlobUrl,
@@ -4933,21 +6243,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const newSection = await regenerateRftSection(rftId, sectionId);
 
-      // Update the RFT with the new section
+      // Save the RFT with the new section as a new revision
       const rft = await storage.getGeneratedRft(rftId);
       if (rft) {
-        const sections = (rft.sections as any)?.sections || [];
-        const updatedSections = sections.map((s: any) =>
+        const { getRftSections, saveRftRevision } = await import("./services/rft/rftRevisionService");
+        const updatedSections = getRftSections(rft.sections).map((s: any) =>
           s.sectionId === sectionId ? newSection : s
         );
 
-        await storage.updateGeneratedRft(rftId, {
-          sections: { sections: updatedSections },
-        });
+        await saveRftRevision(
+          rft,
+          { sections: { sections: updatedSections } },
+          { type: "section_regenerated", createdBy: req.user!.displayName }
+        );
       }
 
       res.json(newSection);
-    } catch (error) {
+    } catch (error: any) {
+      if (error.code === "23505") {
+        return res.status(409).json({ error: "The RFT was changed by someone else. Reload and try again." });
+      }
       console.error("Error regenerating RFT section:", error);
       res.status(500).json({ error: "Failed to regenerate section" });
     }
@@ -5163,9 +6478,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (hasAzureFiles) {
         console.log(`📦 Downloading RFT files from Azure Blob Storage for: ${rft.name}`);
         
-        // Import Azure Blob Storage service
-        const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-        
         // Define all 6 files with their blob URLs
         const files = [
           { blobUrl: rft.docxBlobUrl, name: "RFT_Document.docx" },
@@ -5180,19 +6492,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         for (const file of files) {
           if (file.blobUrl) {
             try {
-              // Extract blob name from URL
-              // URL format: https://intellibidstorage.blob.core.windows.net/intellibid-documents/project-XXX/RFT_Generated/file.docx?sas
-              const url = new URL(file.blobUrl.split('?')[0]); // Remove SAS token
-              const pathname = url.pathname; // e.g., /intellibid-documents/project-XXX/RFT_Generated/file.docx
-              const parts = pathname.split('/').filter(Boolean); // ['intellibid-documents', 'project-XXX', 'RFT_Generated', 'file.docx']
-              
-              // Skip container name, join the rest
-              const blobName = parts.slice(1).join('/'); // project-XXX/RFT_Generated/file.docx
+              // Blob name from the stored download URL, e.g. project-XXX/RFT_Generated/file.docx
+              const blobName = blobNameFromUrl(file.blobUrl);
               
               console.log(`📥 Downloading ${file.name} from blob: ${blobName}`);
               
               // Download from Azure
-              const buffer = await azureBlobStorageService.downloadDocument(blobName);
+              const buffer = await getFileStorage().downloadDocument(blobName);
               
               // Add to archive
               archive.append(buffer, { name: file.name });
@@ -5283,6 +6589,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }, 2000);
       }
 
+      // Issued addenda are part of the tender pack (rendered fresh; their content is frozen)
+      const addenda = await storage.getRftAddendaByRft(id);
+      if (addenda.length > 0) {
+        const { generateDocxDocument } = await import("./services/rft/documentGenerator");
+        const { addendumToDocumentSections } = await import("./services/rft/addendumService");
+        const addendumFiles: string[] = [];
+
+        for (const addendum of addenda) {
+          const number = String(addendum.number).padStart(2, "0");
+          const addendumPath = path.join(process.cwd(), "uploads", "documents", `RFT_${id}_addendum_${number}_temp.docx`);
+          try {
+            await generateDocxDocument({
+              projectName: rft.name,
+              sections: addendumToDocumentSections(addendum),
+              outputPath: addendumPath,
+            });
+            archive.file(addendumPath, { name: `Addenda/Addendum_${number}.docx` });
+            addendumFiles.push(addendumPath);
+          } catch (error) {
+            console.warn(`⚠️ Could not add Addendum ${addendum.number} to ZIP:`, error);
+          }
+        }
+
+        // Clean up temp files after a delay
+        setTimeout(() => {
+          for (const tempFile of addendumFiles) {
+            if (fs.existsSync(tempFile)) {
+              fs.unlinkSync(tempFile);
+            }
+          }
+        }, 2000);
+      }
+
       // Finalize archive
       await archive.finalize();
       console.log(`✓ ZIP package sent for RFT ${id}`);
@@ -5310,12 +6649,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Project not found" });
       }
 
-      // Import Azure Blob Storage service
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-      
       // Scope vendor responses to this specific RFT (not project-wide)
       const vendorResponsesPrefix = `project-${project.id}/RFT_Responses/${rft.id}`;
-      let blobNames = await azureBlobStorageService.listDocuments(vendorResponsesPrefix);
+      let blobNames = await getFileStorage().listDocuments(vendorResponsesPrefix);
       
       // If no vendor responses exist for this RFT, generate them
       if (blobNames.length === 0) {
@@ -5324,7 +6660,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await generateVendorResponses(id);
         
         // List again after generation
-        blobNames = await azureBlobStorageService.listDocuments(vendorResponsesPrefix);
+        blobNames = await getFileStorage().listDocuments(vendorResponsesPrefix);
         
         // Verify vendor responses were created
         if (blobNames.length === 0) {
@@ -5342,7 +6678,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const files: { buffer: Buffer; relativePath: string }[] = [];
       for (const blobName of blobNames) {
         try {
-          const buffer = await azureBlobStorageService.downloadDocument(blobName);
+          const buffer = await getFileStorage().downloadDocument(blobName);
           
           // Extract the path relative to the folder prefix to preserve vendor folder structure
           // For example: "project-123/RFT_Responses/rft-456/VendorA/file.xlsx" -> "VendorA/file.xlsx"
@@ -5424,8 +6760,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function to trigger project evaluation in the background
-  async function triggerProjectEvaluation(projectId: string, rft: any) {
+  // Evaluate vendor responses for an RFT project (runs as a "project_evaluation" job)
+  async function triggerProjectEvaluation(projectId: string, rft: any, context?: JobContext) {
     try {
       console.log(`Starting evaluation for project ${projectId}...`);
 
@@ -5472,23 +6808,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`Found ${proposals.length} proposals to evaluate`);
 
-      // Use first requirement for evaluation criteria
-      const requirementAnalysis = requirements[0].extractedData as any;
-
-      // Check if there's a standard associated with requirements
-      let requirementStandardData = null;
-      const requirement = requirements[0];
-      if (requirement.standardId) {
-        const standard = await storage.getStandard(requirement.standardId);
-        if (standard && standard.isActive === "true") {
-          requirementStandardData = {
-            id: standard.id,
-            name: standard.name,
-            sections: (standard.sections || []) as any,
-            taggedSectionIds: (requirement.taggedSections || []) as any,
-          };
-        }
-      }
+      const { loadProjectEvaluationInputs, startEvaluationRun, createAgentCheckpoint, finishEvaluationRun } =
+        await import("./services/features/evaluationRunService");
+
+      // Requirement analysis, scoring weights, addenda and standards
+      const inputs = await loadProjectEvaluationInputs(storage, projectId);
 
       // Track if we actually performed any evaluations (vs all being duplicates)
       let evaluationsPerformed = 0;
@@ -5498,50 +6822,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const totalVendors = uniqueVendors.length;
       
       console.log(`Found ${proposals.length} proposals from ${totalVendors} vendors`);
+
+      // Agent results are checkpointed per vendor, so a retried job re-runs only unfinished agents
+      const run = await startEvaluationRun(storage, { projectId, trigger: "evaluation", totalVendors, job: context?.job });
       
       // Evaluate each proposal
       for (let i = 0; i < proposals.length; i++) {
         const proposal = proposals[i];
+        context?.throwIfCancelled();
+        await context?.reportProgress({ evaluated: i, total: proposals.length, currentVendor: proposal.vendorName, runId: run.id });
         console.log(`Evaluating proposal for ${proposal.vendorName}...`);
         
-        let proposalAnalysis = proposal.extractedData as any;
-        
-        // If extractedData is null, create a minimal proposal analysis from proposal metadata
-        if (!proposalAnalysis) {
-          console.log(`  ⚠️ No extractedData found for ${proposal.vendorName}, creating from metadata...`);
-          proposalAnalysis = {
-            vendorName: proposal.vendorName,
-            technicalApproach: `Vendor response submitted via ${proposal.documentType} questionnaire (${proposal.fileName})`,
-            capabilities: [`Submitted ${proposal.documentType} questionnaire`],
-            costStructure: "To be determined from questionnaire responses",
-            fileName: proposal.fileName,
-            documentType: proposal.documentType,
-          };
-        }
-        
-        // Determine which standard to use for this proposal
-        let proposalStandardData = null;
-        
-        if (proposal.standardId) {
-          if (requirementStandardData && proposal.standardId === requirementStandardData.id) {
-            proposalStandardData = {
-              ...requirementStandardData,
-              taggedSectionIds: proposal.taggedSections || requirementStandardData.taggedSectionIds,
-            };
-          } else {
-            const proposalStandard = await storage.getStandard(proposal.standardId);
-            if (proposalStandard && proposalStandard.isActive === "true") {
-              proposalStandardData = {
-                id: proposalStandard.id,
-                name: proposalStandard.name,
-                sections: (proposalStandard.sections || []) as any,
-                taggedSectionIds: (proposal.taggedSections || []) as any,
-              };
-            }
-          }
-        } else if (requirementStandardData) {
-          proposalStandardData = requirementStandardData;
-        }
+        const { proposalAnalysis, standardData: proposalStandardData } = await inputs.resolveProposal(proposal);
         
         // ✅ ATOMIC RACE-SAFE DUPLICATE PREVENTION:
         // Attempt to create placeholder evaluation - database enforces uniqueness on proposalId
@@ -5561,6 +6853,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           detailedScores: null,
           sectionCompliance: null,
           agentDiagnostics: null,
+          agentResults: null,
+          citations: null,
         });
         
         if (!wasInserted) {
@@ -5590,11 +6884,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           evaluationId: placeholderEvaluation.id,
         };
         
-        const { evaluation, diagnostics } = await evaluateProposal(
-          requirementAnalysis, 
+        const { evaluation, diagnostics, agentResults } = await evaluateProposal(
+          inputs.requirementAnalysis, 
           proposalAnalysis,
           proposalStandardData || undefined,
-          vendorContext
+          vendorContext,
+          inputs.scoringConfig,
+          inputs.addendaContext,
+          createAgentCheckpoint(storage, run.id, proposal)
         );
 
         // Update evaluation record with final results
@@ -5611,11 +6908,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           detailedScores: evaluation.detailedScores,
           sectionCompliance: evaluation.sectionCompliance || null,
           agentDiagnostics: diagnostics || null,
+          agentResults: agentResults || null,
+          citations: attachProposalId(evaluation.citations, proposal.id),
         });
 
         console.log(`✓ Completed evaluation for ${proposal.vendorName}`);
       }
 
+      await finishEvaluationRun(storage, run.id);
+
       // Handle case where no new evaluations were performed (all duplicates)
       if (evaluationsPerformed === 0) {
         console.log(`⚠️  No new evaluations performed (all vendors already have evaluations)`);
@@ -5745,7 +7046,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Upload files to Azure Blob Storage and create proposals
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
       let uploadedVendorCount = 0;
       const failedUploads: string[] = [];
 
@@ -5756,7 +7056,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           try {
             // Upload to Azure Blob Storage with project-scoped path
             const blobPath = `project-${rft.projectId}/RFT_Responses/${vendorName}/${file.name}`;
-            const uploadResult = await azureBlobStorageService.uploadDocument(
+            const uploadResult = await getFileStorage().uploadDocument(
               blobPath,
               file.data
             );
@@ -5774,6 +7074,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               documentType,
               fileName: file.name,
               blobUrl: uploadResult.blobUrl,
+              blobName: uploadResult.blobName,
             });
             
             vendorHasSuccessfulUpload = true;
@@ -5795,21 +7096,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.updateProjectStatus(rft.projectId, "eval_in_progress");
         console.log(`✓ Project status updated to eval_in_progress`);
 
-        // Trigger evaluation process in background (non-blocking)
+        // Queue the evaluation (non-blocking)
         // This allows user to close the dialog while evaluation runs
-        triggerProjectEvaluation(rft.projectId, rft).catch(async (evaluationError) => {
-          console.error("Error during background evaluation:", evaluationError);
-          
-          // Revert status back to responses_received on failure so user can retry
-          try {
-            await storage.updateProjectStatus(rft.projectId, "responses_received");
-            console.log(`✓ Reverted project status to responses_received after evaluation failure`);
-          } catch (revertError) {
-            console.error("Failed to revert project status:", revertError);
-          }
+        const job = await jobQueue.enqueue("project_evaluation", { projectId: rft.projectId, rftId: rft.id }, {
+          resourceId: rft.projectId,
+          createdBy: req.user!.id,
+          unique: true,
         });
 
-        console.log(`✓ Background evaluation started for project ${rft.projectId}`);
+        console.log(`✓ Background evaluation queued for project ${rft.projectId} (job ${job.id})`);
         
         // Return immediately so user can close dialog
         res.json({
@@ -5818,6 +7113,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           failedUploads,
           message: `Successfully uploaded responses for ${uploadedVendorCount} vendor(s). Evaluation started in background.`,
           evaluationInProgress: true,
+          jobId: job.id,
         });
       } else {
         res.json({
@@ -5852,6 +7148,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const rft = rfts[0];
 
+      const latestJob = await jobQueue.getLatestJob("project_evaluation", projectId);
+      if (latestJob && (latestJob.status === "queued" || latestJob.status === "running")) {
+        return res.status(409).json({ error: "An evaluation is already in progress for this project", jobId: latestJob.id });
+      }
+
       // Delete existing evaluations
       const evaluations = await storage.getEvaluationsByProject(projectId);
       console.log(`🗑️  Deleting ${evaluations.length} existing evaluations...`);
@@ -5865,24 +7166,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.updateProjectStatus(projectId, "eval_in_progress");
       console.log(`✓ Project status updated to eval_in_progress`);
 
-      // Trigger evaluation process in background
-      triggerProjectEvaluation(projectId, rft).catch(async (evaluationError) => {
-        console.error("Error during background re-evaluation:", evaluationError);
-        
-        // Revert status back to responses_received on failure
-        try {
-          await storage.updateProjectStatus(projectId, "responses_received");
-          console.log(`✓ Reverted project status to responses_received after evaluation failure`);
-        } catch (revertError) {
-          console.error("Failed to revert project status:", revertError);
-        }
+      // Queue the evaluation
+      const job = await jobQueue.enqueue("project_evaluation", { projectId, rftId: rft.id }, {
+        resourceId: projectId,
+        createdBy: req.user!.id,
+        unique: true,
       });
 
-      console.log(`✓ Background re-evaluation started for project ${projectId}`);
+      console.log(`✓ Background re-evaluation queued for project ${projectId} (job ${job.id})`);
       
       res.json({
         success: true,
         message: "Re-evaluation started in background. The page will auto-refresh when complete.",
+        jobId: job.id,
       });
 
     } catch (error) {
@@ -6203,21 +7499,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Diagnostic endpoint for Azure Blob Storage connectivity
+  // Diagnostic endpoint for file storage connectivity (Azure Blob Storage or the local provider)
   app.get("/api/health/azure-storage", async (req, res) => {
     try {
-      const { azureBlobStorageService } = await import("./services/azure/azureBlobStorage");
-      
+      const fileStorage = getFileStorage();
+
       // Test initialization
-      await azureBlobStorageService.initialize();
+      await fileStorage.initialize();
       
       // Test listing documents (lightweight operation)
-      const documents = await azureBlobStorageService.listDocuments();
+      const documents = await fileStorage.listDocuments();
       
       res.json({
         status: "connected",
-        message: "Azure Blob Storage is properly configured and accessible",
-        containerName: "intellibid-documents",
+        message: `${fileStorage.name === "local" ? "Local file storage" : "Azure Blob Storage"} is properly configured and accessible`,
+        provider: fileStorage.name,
+        containerName: fileStorage.location,
         documentCount: documents.length,
         timestamp: new Date().toISOString()
       });
@@ -6252,10 +7549,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const searchContext = `${objective || ''} ${domain || ''}`.trim();
       
       // Use OpenAI to fetch real market vendors for the domain
-      const openai = await getOpenAIClient();
+      const { client: openai, model } = await getLlmClient("research");
       
       const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+        model,
         messages: [
           {
             role: "system",
@@ -0,0 +1,199 @@
+/**
+ * Agent Tool Calling
+ *
+ * Runs an evaluation agent's chat completion as a function-calling loop over the on-demand MCP
+ * connector tools of its role (see mcpConnectorService.openAgentToolbox): the model may call tools
+ * before it answers, e.g. to look up a vendor's certifications only when the proposal claims them.
+ * The loop is bounded by MCP_AGENT_MAX_TOOL_CALLS and MCP_AGENT_TOOL_TOKEN_BUDGET; once either is
+ * reached the model must answer with what it has. Every call is returned for agentDiagnostics.
+ * Retries of an agent share one AgentUsage, so the limits cover all attempts, and an aborted
+ * attempt stops before its next completion or tool call.
+ */
+
+import type OpenAI from "openai";
+import type {
+  ChatCompletionFunctionTool,
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import { ConfigHelper } from "../core/configHelpers";
+import type { AgentToolbox } from "../knowledgebase/mcpConnectorService";
+
+// A connector tool call made (or refused) during an agent's evaluation
+export interface AgentToolCall {
+  tool: string;
+  connectorName: string;
+  arguments: Record<string, unknown>;
+  status: "success" | "error" | "skipped";
+  result?: string; // Truncated to RECORDED_RESULT_CHARS
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentCompletion {
+  content: string | null;
+  tokenUsage: number;
+  toolCalls: AgentToolCall[];
+}
+
+// Tokens and tool calls of an agent across all its attempts (the limits apply to the totals)
+export interface AgentUsage {
+  tokenUsage: number;
+  toolCalls: AgentToolCall[];
+}
+
+export interface AgentCompletionOptions {
+  toolbox?: AgentToolbox;
+  signal?: AbortSignal; // Aborting (e.g. on timeout) rejects with the signal's reason
+  usage?: AgentUsage;
+}
+
+// Tool output handed back to the model; long search results would exhaust the token budget
+const MAX_TOOL_RESULT_CHARS = 12000;
+const RECORDED_RESULT_CHARS = 2000;
+
+const TOOL_INSTRUCTIONS = `
+
+You can call the provided tools to look up external information about the vendor (for example certifications, assessments or past performance). Call a tool only when the proposal makes a claim worth checking or leaves a gap the tool can fill, and cite what you found in your rationale. When you are done, answer with the JSON evaluation.`;
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[truncated]` : text;
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the signal is aborted.
+ * The abandoned promise keeps running, but the caller takes no further steps.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(raw || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run one tool call, returning the text the model sees; failures are reported to the model too
+ */
+async function executeToolCall(
+  call: ChatCompletionMessageFunctionToolCall,
+  toolbox: AgentToolbox,
+  allowed: boolean,
+  toolCalls: AgentToolCall[],
+  signal?: AbortSignal
+): Promise<string> {
+  const tool = toolbox.tools.find((candidate) => candidate.name === call.function.name);
+  const args = parseArguments(call.function.arguments);
+  const record: AgentToolCall = {
+    tool: tool?.toolName || call.function.name,
+    connectorName: tool?.connectorName || "Unknown",
+    arguments: args || {},
+    status: "skipped",
+    durationMs: 0,
+  };
+  toolCalls.push(record);
+
+  if (!allowed) {
+    record.error = "Tool call limit reached";
+    return "Not executed: the tool call limit for this evaluation has been reached. Answer with the information you have.";
+  }
+  if (!tool) {
+    record.status = "error";
+    record.error = `Unknown tool ${call.function.name}`;
+    return `Error: there is no tool named ${call.function.name}.`;
+  }
+  if (!args) {
+    record.status = "error";
+    record.error = "Arguments are not a JSON object";
+    return "Error: the tool arguments must be a JSON object.";
+  }
+
+  const startTime = Date.now();
+  try {
+    const result = await abortable(toolbox.call(tool.name, args), signal);
+    record.status = "success";
+    record.result = truncate(result, RECORDED_RESULT_CHARS);
+    return truncate(result, MAX_TOOL_RESULT_CHARS) || "The tool returned no data.";
+  } catch (error: any) {
+    record.status = "error";
+    record.error = error?.message || String(error);
+    return `Error: ${record.error}`;
+  } finally {
+    record.durationMs = Date.now() - startTime;
+  }
+}
+
+/**
+ * JSON-mode chat completion for an agent, letting the model call the toolbox's tools first.
+ * Without a toolbox (or tools) this is a single completion. The returned usage is the running
+ * total of `options.usage` when one is passed.
+ */
+export async function runAgentCompletion(
+  client: OpenAI,
+  model: string,
+  system: string,
+  user: string,
+  options: AgentCompletionOptions = {}
+): Promise<AgentCompletion> {
+  const { toolbox, signal } = options;
+  const usage = options.usage ?? { tokenUsage: 0, toolCalls: [] };
+  const { toolCalls } = usage;
+  const { maxToolCalls, tokenBudget } = ConfigHelper.getAgentToolCallingConfig();
+  const tools: ChatCompletionFunctionTool[] = maxToolCalls > 0
+    ? (toolbox?.tools || []).map((tool) => ({
+        type: "function",
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+      }))
+    : [];
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: tools.length > 0 ? system + TOOL_INSTRUCTIONS : system },
+    { role: "user", content: user },
+  ];
+
+  // Every round with tools allowed makes at least one call, so this only stops a model that keeps
+  // asking for tools after being told to answer
+  for (let round = 0; round <= maxToolCalls + 1; round++) {
+    const executedCalls = toolCalls.filter((call) => call.status !== "skipped").length;
+    const canCallTools = executedCalls < maxToolCalls && usage.tokenUsage < tokenBudget;
+
+    const response = await abortable(client.chat.completions.create({
+      model,
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.4,
+      ...(tools.length > 0 && { tools, tool_choice: canCallTools ? "auto" : "none" }),
+    }, { signal }), signal);
+    usage.tokenUsage += response.usage?.total_tokens || 0;
+
+    const message = response.choices[0]?.message;
+    const requested = (message?.tool_calls || []).filter(
+      (call): call is ChatCompletionMessageFunctionToolCall => call.type === "function"
+    );
+    if (!message || requested.length === 0 || tools.length === 0) {
+      return { content: message?.content ?? null, tokenUsage: usage.tokenUsage, toolCalls };
+    }
+
+    messages.push({ role: "assistant", content: message.content, tool_calls: requested });
+    for (const call of requested) {
+      const allowed = canCallTools && toolCalls.filter((c) => c.status !== "skipped").length < maxToolCalls;
+      signal?.throwIfAborted();
+      const content = await executeToolCall(call, toolbox!, allowed, toolCalls, signal);
+      messages.push({ role: "tool", tool_call_id: call.id, content });
+    }
+    console.log(`   🧰 ${requested.map((call) => call.function.name).join(", ")} (${toolCalls.length} tool calls, ${usage.tokenUsage} tokens so far)`);
+  }
+
+  throw new Error("Agent kept requesting tools after its tool call limit was reached");
+}
@@ -1,76 +1,6 @@
-import OpenAI from "openai";
-import { evaluateProposalMultiAgent } from "./multiAgentEvaluator";
-import { ConfigHelper } from "../core/configHelpers";
-
-// Lazy-initialized OpenAI client
-let openaiClient: OpenAI | null = null;
-let cachedConfigHash: string | null = null;
-
-// Helper function to create a hash of the current config for cache invalidation
-function getConfigHash(): string {
-  // Include env values in hash to detect any config changes
-  const endpoint = ConfigHelper.getConfigValue("AZURE_OPENAI_ENDPOINT") || "";
-  const deployment = ConfigHelper.getConfigValue("AZURE_OPENAI_DEPLOYMENT") || "";
-  const apiVersion = ConfigHelper.getConfigValue("AZURE_OPENAI_API_VERSION") || "";
-  const openaiKey = process.env.AI_INTEGRATIONS_OPENAI_API_KEY || "";
-  return `${endpoint}:${deployment}:${apiVersion}:${openaiKey.slice(0, 8)}`;
-}
-
-export async function getOpenAIClient(): Promise<OpenAI> {
-  try {
-    const currentHash = getConfigHash();
-    
-    // Invalidate cache if config has changed
-    if (openaiClient && cachedConfigHash !== currentHash) {
-      console.log("OpenAI config changed, invalidating cache");
-      openaiClient = null;
-      cachedConfigHash = null;
-    }
-    
-    // Return cached client if still valid
-    if (openaiClient) {
-      return openaiClient;
-    }
-    
-    // Store current hash for future comparisons
-    cachedConfigHash = currentHash;
-    
-    // Use ConfigHelper to get config from environment variables
-    const config = ConfigHelper.getAgentsOpenAIConfig();
-    
-    if (config.useAzure) {
-      // Azure OpenAI configuration
-      const cleanEndpoint = config.azureEndpoint!.replace(/\/$/, '');
-      
-      console.log("Using Azure OpenAI config for agents (from environment variables)");
-      console.log(`  Endpoint: ${cleanEndpoint}`);
-      console.log(`  Deployment: ${config.azureDeployment}`);
-      console.log(`  API Version: ${config.azureApiVersion}`);
-      console.log(`  Final URL: ${cleanEndpoint}/openai/deployments/${config.azureDeployment}`);
-      
-      openaiClient = new OpenAI({
-        baseURL: `${cleanEndpoint}/openai/deployments/${config.azureDeployment}`,
-        apiKey: config.apiKey,
-        defaultQuery: { "api-version": config.azureApiVersion },
-        defaultHeaders: { "api-key": config.apiKey },
-        timeout: 180000, // 3 minutes for private endpoint latency
-      });
-    } else {
-      // Regular OpenAI configuration
-      console.log("Using regular OpenAI config for agents (from environment variables)");
-      openaiClient = new OpenAI({
-        apiKey: config.apiKey,
-        baseURL: config.baseUrl,
-        timeout: 180000, // 3 minutes for private endpoint latency
-      });
-    }
-    
-    return openaiClient;
-  } catch (error) {
-    console.error("Failed to initialize OpenAI client:", error);
-    throw error;
-  }
-}
+import { evaluateProposalMultiAgent, type AgentCheckpoint, type AgentResult } from "./multiAgentEvaluator";
+import { getLlmClient } from "./llmProvider";
+import type { AgentCitation, ScoringConfig } from "@shared/schema";
 
 // Feature flag for multiagent evaluation
 const USE_MULTIAGENT = process.env.USE_MULTIAGENT !== "false"; // Enabled by default
@@ -126,6 +56,7 @@ export interface VendorEvaluation {
     score: number;
     findings: string;
   }[];
+  citations?: AgentCitation[];
 }
 
 export interface StandardSection {
@@ -172,9 +103,9 @@ Examples of sections might include:
 - Business Continuity
 etc.`;
 
-  const client = await getOpenAIClient();
+  const { client, model } = await getLlmClient("analysis");
   const response = await client.chat.completions.create({
-    model: "gpt-4o",
+    model,
     messages: [
       {
         role: "system",
@@ -221,9 +152,9 @@ Return your analysis in JSON format with the following structure:
   "successMetrics": ["metric 1", "metric 2"]
 }`;
 
-  const client = await getOpenAIClient();
+  const { client, model } = await getLlmClient("analysis");
   const response = await client.chat.completions.create({
-    model: "gpt-4o",
+    model,
     messages: [
       {
         role: "system",
@@ -274,9 +205,9 @@ Return your analysis in JSON format with the following structure:
   "timeline": "Implementation timeline"
 }`;
 
-  const client = await getOpenAIClient();
+  const { client, model } = await getLlmClient("analysis");
   const response = await client.chat.completions.create({
-    model: "gpt-4o",
+    model,
     messages: [
       {
         role: "system",
@@ -310,7 +241,8 @@ Return your analysis in JSON format with the following structure:
 async function evaluateProposalSingleAgent(
   requirementAnalysis: RequirementAnalysis,
   proposalAnalysis: ProposalAnalysis,
-  standardData?: StandardData
+  standardData?: StandardData,
+  addendaContext?: string
 ): Promise<VendorEvaluation> {
   let standardSection = '';
   let standardInstructions = '';
@@ -337,7 +269,7 @@ Requirements:
 ${JSON.stringify(requirementAnalysis, null, 2)}
 
 Vendor Proposal:
-${JSON.stringify(proposalAnalysis, null, 2)}${standardSection}
+${JSON.stringify(proposalAnalysis, null, 2)}${standardSection}${addendaContext || ''}
 
 Provide a comprehensive evaluation with:
 1. Overall fit score (0-100)
@@ -380,9 +312,9 @@ Return JSON with this structure:
   ]` : ''}
 }`;
 
-  const client = await getOpenAIClient();
+  const { client, model } = await getLlmClient("evaluation");
   const response = await client.chat.completions.create({
-    model: "gpt-4o",
+    model,
     messages: [
       {
         role: "system",
@@ -415,18 +347,34 @@ export interface VendorContext {
 }
 
 // Main evaluation function with multiagent support
+// Section compliance for multi-agent evaluations mirrors the aggregated compliance score
+export function buildMultiAgentSectionCompliance(
+  sections: Array<{ sectionId: string; sectionName: string }>,
+  compliance: number
+): NonNullable<VendorEvaluation["sectionCompliance"]> {
+  return sections.map(section => ({
+    sectionId: section.sectionId,
+    sectionName: section.sectionName,
+    score: compliance,
+    findings: `Multi-agent evaluation (${compliance}/100). All 6 specialized agents evaluated vendor compliance against "${section.sectionName}". See role-specific insights for detailed findings.`
+  }));
+}
+
 export async function evaluateProposal(
   requirementAnalysis: RequirementAnalysis,
   proposalAnalysis: ProposalAnalysis,
   standardData?: StandardData,
-  vendorContext?: VendorContext
-): Promise<{ evaluation: VendorEvaluation; diagnostics?: any }> {
+  vendorContext?: VendorContext,
+  scoringConfig?: ScoringConfig,
+  addendaContext?: string,
+  checkpoint?: AgentCheckpoint
+): Promise<{ evaluation: VendorEvaluation; diagnostics?: any; agentResults?: AgentResult[] }> {
   // Try multiagent evaluation first
   if (USE_MULTIAGENT) {
     try {
       console.log("🚀 Using multiagent evaluation system");
       // Pass organization standards to all agents for evaluation
-      const result = await evaluateProposalMultiAgent(requirementAnalysis, proposalAnalysis, standardData, vendorContext);
+      const result = await evaluateProposalMultiAgent(requirementAnalysis, proposalAnalysis, standardData, vendorContext, scoringConfig, addendaContext, checkpoint);
       
       // Generate section-level compliance if standard data is provided
       if (standardData && standardData.taggedSectionIds.length > 0) {
@@ -435,14 +383,10 @@ export async function evaluateProposal(
         );
         
         // Create section compliance array based on aggregated multi-agent evaluation
-        const sectionCompliance = taggedSections.map(section => ({
-          sectionId: section.id,
-          sectionName: section.name,
-          score: result.evaluation.compliance,
-          findings: `Multi-agent evaluation (${result.evaluation.compliance}/100). All 6 specialized agents evaluated vendor compliance against "${section.name}". See role-specific insights for detailed findings.`
-        }));
-        
-        result.evaluation.sectionCompliance = sectionCompliance;
+        result.evaluation.sectionCompliance = buildMultiAgentSectionCompliance(
+          taggedSections.map(section => ({ sectionId: section.id, sectionName: section.name })),
+          result.evaluation.compliance
+        );
       }
       
       return result;
@@ -454,6 +398,6 @@ export async function evaluateProposal(
   
   // Fallback to single-agent evaluation
   console.log("Using single-agent evaluation system");
-  const evaluation = await evaluateProposalSingleAgent(requirementAnalysis, proposalAnalysis, standardData);
+  const evaluation = await evaluateProposalSingleAgent(requirementAnalysis, proposalAnalysis, standardData, addendaContext);
   return { evaluation };
 }
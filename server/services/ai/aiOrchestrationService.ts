@@ -1,4 +1,4 @@
-import { getOpenAIClient } from "./aiAnalysis";
+import { getLlmClient, type LlmTask } from "./llmProvider";
 import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 
 /**
@@ -309,6 +309,15 @@ If you reference specific data, cite the source (vendor name, proposal section,
   }
 };
 
+// Model routing task for each template (see llmProvider)
+const TEMPLATE_TASKS: Record<keyof typeof PROMPT_TEMPLATES, LlmTask> = {
+  complianceGap: "analysis",
+  followupQuestions: "generation",
+  vendorComparison: "analysis",
+  executiveBriefing: "summarization",
+  conversationalAssistant: "chat",
+};
+
 // Response cache for expensive operations
 interface CacheEntry<T> {
   data: T;
@@ -404,9 +413,9 @@ export async function generateCompletion(
   const startTime = Date.now();
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient(TEMPLATE_TASKS[templateKey]);
     const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages,
       temperature,
       max_tokens: maxTokens,
@@ -450,9 +459,9 @@ export async function* streamCompletion(
   console.log(`[AI Orchestration] Starting streaming completion...`);
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("chat");
     const stream = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages,
       temperature,
       max_tokens: maxTokens,
@@ -1,7 +1,7 @@
 import { storage } from "../../storage";
 import { generateCompletion } from "./aiOrchestrationService";
 import type { ChatSession, ChatMessage, InsertChatSession, InsertChatMessage } from "@shared/schema";
-import { getOpenAIClient } from "./aiAnalysis";
+import { getLlmClient } from "./llmProvider";
 
 /**
  * Conversational AI Assistant Service
@@ -195,12 +195,12 @@ export async function* generateStreamingChatResponse(
     const contextString = buildContextString(context);
 
     // Get OpenAI client with database config fallback to environment variables
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("chat");
 
     // Generate streaming AI response
     let fullResponse = "";
     const stream = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         { 
           role: "system", 
@@ -0,0 +1,261 @@
+/**
+ * LLM Provider Registry
+ *
+ * Every chat completion is issued for a task ("evaluation", "summarization", ...) and routed to
+ * a provider + model. Provider credentials stay in environment variables; the per-task routing
+ * is stored in system_config (category "llm_routing", key "llm_route_<task>", value
+ * {"provider": "...", "model": "..."}) so admins can move cheap tasks to cheaper or local models
+ * without a redeploy. Tasks without a route use the default provider, which follows the
+ * original Azure OpenAI → OpenAI precedence.
+ *
+ * Providers:
+ * - azure-openai: AZURE_OPENAI_ENDPOINT + AZURE_OPENAI_KEY (model = deployment name)
+ * - openai: AI_INTEGRATIONS_OPENAI_API_KEY or OPENAI_API_KEY (optional AI_INTEGRATIONS_OPENAI_BASE_URL)
+ * - local: any OpenAI-compatible server (Ollama, llama.cpp, vLLM) at LOCAL_LLM_BASE_URL,
+ *   optional LOCAL_LLM_API_KEY and default model LOCAL_LLM_MODEL
+ */
+
+import OpenAI from "openai";
+import { llmProviderIds, llmTasks } from "@shared/schema";
+import { ConfigHelper } from "../core/configHelpers";
+import { storage } from "../../storage";
+import { createReplayClient, getFakeLlmClient, getLlmReplayMode } from "./llmReplay";
+
+export type LlmProviderId = typeof llmProviderIds[number];
+export type LlmTask = typeof llmTasks[number];
+
+export const LLM_TASK_DESCRIPTIONS: Record<LlmTask, string> = {
+  evaluation: "Multi-agent and single-agent vendor proposal evaluation",
+  analysis: "Requirements, proposal and standards extraction; compliance gaps and vendor comparison",
+  generation: "RFT sections, questionnaires, business cases and clarification answers",
+  chat: "Knowledge base chatbot and conversational assistant",
+  summarization: "Context summaries and executive briefings",
+  research: "Vendor market research",
+  mock_data: "Demo vendor lists and mock vendor proposals",
+  retrieval: "Knowledge base query rewriting and reranking",
+};
+
+export interface LlmRoute {
+  provider: LlmProviderId;
+  model: string;
+}
+
+export interface LlmProviderStatus {
+  id: LlmProviderId;
+  label: string;
+  configured: boolean;
+  defaultModel: string | null;
+}
+
+export const LLM_ROUTE_CONFIG_CATEGORY = "llm_routing";
+export const llmRouteConfigKey = (task: LlmTask) => `llm_route_${task}`;
+
+// Routing is read from the database at most this often (saves through the API invalidate it)
+const ROUTING_CACHE_TTL_MS = 60_000;
+const CLIENT_TIMEOUT_MS = 180000; // 3 minutes for private endpoint latency
+
+interface ProviderDefinition {
+  label: string;
+  isConfigured(): boolean;
+  defaultModel(): string | undefined;
+  createClient(model: string): OpenAI;
+}
+
+const PROVIDERS: Record<LlmProviderId, ProviderDefinition> = {
+  "azure-openai": {
+    label: "Azure OpenAI",
+    isConfigured: () =>
+      !!ConfigHelper.getConfigValue("AZURE_OPENAI_ENDPOINT") && !!ConfigHelper.getConfigValue("AZURE_OPENAI_KEY"),
+    defaultModel: () => ConfigHelper.getConfigValue("AZURE_OPENAI_DEPLOYMENT"),
+    createClient: (deployment) => {
+      const endpoint = ConfigHelper.getRequiredConfigValue("AZURE_OPENAI_ENDPOINT").replace(/\/$/, "");
+      const apiKey = ConfigHelper.getRequiredConfigValue("AZURE_OPENAI_KEY");
+      const apiVersion = ConfigHelper.getConfigValue("AZURE_OPENAI_API_VERSION") || "2024-08-01-preview";
+      return new OpenAI({
+        baseURL: `${endpoint}/openai/deployments/${deployment}`,
+        apiKey,
+        defaultQuery: { "api-version": apiVersion },
+        defaultHeaders: { "api-key": apiKey },
+        timeout: CLIENT_TIMEOUT_MS,
+      });
+    },
+  },
+  openai: {
+    label: "OpenAI",
+    isConfigured: () => !!(process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY),
+    defaultModel: () => "gpt-4o",
+    createClient: () => new OpenAI({
+      apiKey: process.env.AI_INTEGRATIONS_OPENAI_API_KEY || process.env.OPENAI_API_KEY,
+      baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
+      timeout: CLIENT_TIMEOUT_MS,
+    }),
+  },
+  local: {
+    label: "Local (OpenAI-compatible)",
+    isConfigured: () => !!ConfigHelper.getConfigValue("LOCAL_LLM_BASE_URL"),
+    defaultModel: () => ConfigHelper.getConfigValue("LOCAL_LLM_MODEL"),
+    createClient: () => new OpenAI({
+      baseURL: ConfigHelper.getRequiredConfigValue("LOCAL_LLM_BASE_URL"),
+      // The SDK requires a key; local servers usually ignore it
+      apiKey: ConfigHelper.getConfigValue("LOCAL_LLM_API_KEY") || "local",
+      timeout: CLIENT_TIMEOUT_MS,
+    }),
+  },
+};
+
+// Clients are cached per provider/model and rebuilt when the provider's environment changes
+const clients = new Map<string, { client: OpenAI; configHash: string }>();
+let routingCache: { routes: Partial<Record<LlmTask, LlmRoute>>; loadedAt: number } | null = null;
+
+function getConfigHash(provider: LlmProviderId): string {
+  const keys: Record<LlmProviderId, string[]> = {
+    "azure-openai": ["AZURE_OPENAI_ENDPOINT", "AZURE_OPENAI_KEY", "AZURE_OPENAI_API_VERSION"],
+    openai: ["AI_INTEGRATIONS_OPENAI_API_KEY", "OPENAI_API_KEY", "AI_INTEGRATIONS_OPENAI_BASE_URL"],
+    local: ["LOCAL_LLM_BASE_URL", "LOCAL_LLM_API_KEY"],
+  };
+  return keys[provider].map(key => (process.env[key] || "").slice(0, 16)).join(":");
+}
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === "string" && (llmProviderIds as readonly string[]).includes(value);
+}
+
+export function isLlmTask(value: unknown): value is LlmTask {
+  return typeof value === "string" && (llmTasks as readonly string[]).includes(value);
+}
+
+export function getLlmProviderStatuses(): LlmProviderStatus[] {
+  return llmProviderIds.map(id => ({
+    id,
+    label: PROVIDERS[id].label,
+    configured: PROVIDERS[id].isConfigured(),
+    defaultModel: PROVIDERS[id].defaultModel() || null,
+  }));
+}
+
+/**
+ * Route used when a task has none configured: Azure OpenAI when fully configured (the original
+ * behaviour), then OpenAI, then a local server
+ */
+export function getDefaultLlmRoute(): LlmRoute {
+  try {
+    const config = ConfigHelper.getAgentsOpenAIConfig();
+    if (config.useAzure) {
+      return { provider: "azure-openai", model: config.azureDeployment! };
+    }
+    return { provider: "openai", model: "gpt-4o" };
+  } catch (error) {
+    const localModel = PROVIDERS.local.defaultModel();
+    if (PROVIDERS.local.isConfigured() && localModel) {
+      return { provider: "local", model: localModel };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Per-task routes stored in system_config (cached for ROUTING_CACHE_TTL_MS)
+ */
+export async function getConfiguredLlmRoutes(): Promise<Partial<Record<LlmTask, LlmRoute>>> {
+  if (routingCache && Date.now() - routingCache.loadedAt < ROUTING_CACHE_TTL_MS) {
+    return routingCache.routes;
+  }
+
+  const routes: Partial<Record<LlmTask, LlmRoute>> = {};
+  const configs = await storage.getSystemConfigByCategory(LLM_ROUTE_CONFIG_CATEGORY);
+  for (const task of llmTasks) {
+    const config = configs.find(c => c.key === llmRouteConfigKey(task));
+    if (!config?.value) continue;
+    try {
+      const route = JSON.parse(config.value);
+      if (isLlmProviderId(route.provider) && typeof route.model === "string" && route.model) {
+        routes[task] = { provider: route.provider, model: route.model };
+      } else {
+        console.warn(`[LLM] Ignoring invalid route for ${task}: ${config.value}`);
+      }
+    } catch {
+      console.warn(`[LLM] Ignoring unparseable route for ${task}: ${config.value}`);
+    }
+  }
+
+  routingCache = { routes, loadedAt: Date.now() };
+  return routes;
+}
+
+export function invalidateLlmRoutingCache(): void {
+  routingCache = null;
+}
+
+/**
+ * Provider and model a task will run on (configured route, or the default when the route's
+ * provider is not configured in this environment)
+ */
+export async function resolveLlmRoute(task: LlmTask): Promise<LlmRoute> {
+  let routes: Partial<Record<LlmTask, LlmRoute>> = {};
+  try {
+    routes = await getConfiguredLlmRoutes();
+  } catch (error) {
+    console.warn("[LLM] Could not load model routing, using default provider:", error);
+  }
+
+  const route = routes[task];
+  if (route) {
+    if (PROVIDERS[route.provider].isConfigured()) {
+      return route;
+    }
+    console.warn(`[LLM] Provider ${route.provider} routed for ${task} is not configured, using default provider`);
+  }
+  return getDefaultLlmRoute();
+}
+
+/**
+ * Client and model for a task
+ *
+ * The fake test provider and LLM_REPLAY_MODE (see llmReplay) take effect here, so callers never
+ * need to know whether a response is live, recorded or scripted.
+ *
+ * @example
+ * const { client, model } = await getLlmClient("summarization");
+ * await client.chat.completions.create({ model, messages });
+ */
+export async function getLlmClient(task: LlmTask): Promise<{ client: OpenAI; model: string; provider: LlmProviderId | "fake" | "replay" }> {
+  const fakeClient = getFakeLlmClient(task);
+  if (fakeClient) {
+    return { client: fakeClient, model: "fake", provider: "fake" };
+  }
+
+  const replayMode = getLlmReplayMode();
+  if (replayMode === "replay") {
+    // Replay needs no provider credentials; the model is only echoed back to callers
+    const route = await resolveLlmRoute(task).catch(() => null);
+    const model = route?.model || "replay";
+    return { client: createReplayClient(task, model, null, "replay"), model, provider: "replay" };
+  }
+
+  const { provider, model } = await resolveLlmRoute(task);
+  const client = getProviderClient(provider, model);
+
+  if (replayMode !== "off") {
+    return { client: createReplayClient(task, model, client, replayMode), model, provider };
+  }
+  return { client, model, provider };
+}
+
+function getProviderClient(provider: LlmProviderId, model: string): OpenAI {
+  // Azure bakes the deployment into the base URL, so each deployment needs its own client
+  const cacheKey = provider === "azure-openai" ? `${provider}:${model}` : provider;
+  const configHash = getConfigHash(provider);
+  const cached = clients.get(cacheKey);
+
+  if (cached && cached.configHash === configHash) {
+    return cached.client;
+  }
+
+  if (cached) {
+    console.log(`[LLM] ${provider} config changed, invalidating cached client`);
+  }
+  console.log(`[LLM] Creating ${PROVIDERS[provider].label} client (model: ${model})`);
+  const client = PROVIDERS[provider].createClient(model);
+  clients.set(cacheKey, { client, configHash });
+  return client;
+}
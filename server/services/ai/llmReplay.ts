@@ -0,0 +1,320 @@
+/**
+ * LLM Record/Replay
+ *
+ * Lets evaluation, RFT generation and compliance-gap flows run without live model calls:
+ * - LLM_REPLAY_MODE=record: call the routed provider and save each request→response pair as a
+ *   fixture under LLM_FIXTURES_DIR (default fixtures/llm/<task>/<hash>.json)
+ * - LLM_REPLAY_MODE=replay: answer every request from fixtures; a request with no fixture fails
+ *   with LlmFixtureNotFoundError instead of reaching the network (no credentials needed)
+ * - LLM_REPLAY_MODE=auto: replay when a fixture exists, otherwise record
+ *
+ * Fixtures are keyed by task plus the request body (messages, response format, temperature,
+ * token limit, tools, streaming) but not the model, so a fixture recorded against one Azure deployment
+ * replays against any other. Prompts that embed the current time or random IDs will not match.
+ *
+ * installFakeLlm() replaces every client with a scripted responder for unit tests.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import type OpenAI from "openai";
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionCreateParams } from "openai/resources/chat/completions";
+import { ConfigHelper } from "../core/configHelpers";
+import type { LlmTask } from "./llmProvider";
+
+export type LlmReplayMode = "off" | "record" | "replay" | "auto";
+
+export interface LlmFixture {
+  task: LlmTask;
+  key: string;
+  model: string;
+  recordedAt: string;
+  synthetic?: boolean; // Hand-written response (not recorded from a model), e.g. test fixtures
+  request: Record<string, unknown>;
+  response: ChatCompletion | null; // Non-streaming requests
+  chunks: ChatCompletionChunk[] | null; // Streaming requests
+}
+
+export class LlmFixtureNotFoundError extends Error {
+  constructor(public readonly task: LlmTask, public readonly fixturePath: string) {
+    super(`No LLM fixture for ${task} request (expected ${fixturePath}). Re-record with LLM_REPLAY_MODE=record.`);
+    this.name = "LlmFixtureNotFoundError";
+  }
+}
+
+export function getLlmReplayMode(): LlmReplayMode {
+  const mode = (ConfigHelper.getConfigValue("LLM_REPLAY_MODE") || "off").toLowerCase();
+  if (mode === "off" || mode === "record" || mode === "replay" || mode === "auto") {
+    return mode;
+  }
+  throw new Error(`Unknown LLM_REPLAY_MODE '${mode}'. Supported values are off, record, replay and auto.`);
+}
+
+function getFixturesDir(): string {
+  return ConfigHelper.getConfigValue("LLM_FIXTURES_DIR") || path.join(process.cwd(), "fixtures", "llm");
+}
+
+// JSON with sorted object keys so logically equal requests hash identically
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalJson(entryValue)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * The parts of a request that decide the response (model deliberately excluded)
+ */
+function getFixtureRequest(params: ChatCompletionCreateParams): Record<string, unknown> {
+  return {
+    messages: params.messages,
+    response_format: params.response_format,
+    temperature: params.temperature,
+    max_tokens: params.max_tokens,
+    tools: params.tools,
+    tool_choice: params.tool_choice,
+    stream: params.stream || undefined,
+  };
+}
+
+export function getFixtureKey(task: LlmTask, params: ChatCompletionCreateParams): string {
+  return createHash("sha256")
+    .update(canonicalJson({ task, ...getFixtureRequest(params) }))
+    .digest("hex")
+    .slice(0, 32);
+}
+
+function getFixturePath(task: LlmTask, key: string): string {
+  return path.join(getFixturesDir(), task, `${key}.json`);
+}
+
+async function readFixture(fixturePath: string): Promise<LlmFixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(fixturePath, "utf-8")) as LlmFixture;
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function writeFixture(fixturePath: string, fixture: LlmFixture): Promise<void> {
+  await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+  await fs.writeFile(fixturePath, JSON.stringify(fixture, null, 2));
+  console.log(`[LLM Replay] Recorded ${fixture.task} fixture ${fixture.key}`);
+}
+
+async function* replayChunks(chunks: ChatCompletionChunk[]): AsyncGenerator<ChatCompletionChunk> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+/**
+ * Minimal stand-in for the OpenAI client: only chat.completions.create is used by the app
+ */
+function createChatClient(create: (params: ChatCompletionCreateParams) => Promise<unknown>): OpenAI {
+  return { chat: { completions: { create } } } as unknown as OpenAI;
+}
+
+/**
+ * Wrap a client so its chat completions are recorded to or replayed from fixtures
+ *
+ * @param liveClient - Routed provider client (null in replay mode, which never calls out)
+ */
+export function createReplayClient(
+  task: LlmTask,
+  model: string,
+  liveClient: OpenAI | null,
+  mode: Exclude<LlmReplayMode, "off">
+): OpenAI {
+  return createChatClient(async (params) => {
+    const key = getFixtureKey(task, params);
+    const fixturePath = getFixturePath(task, key);
+
+    if (mode === "replay" || mode === "auto") {
+      const fixture = await readFixture(fixturePath);
+      if (fixture) {
+        return params.stream ? replayChunks(fixture.chunks || []) : fixture.response;
+      }
+      if (mode === "replay" || !liveClient) {
+        throw new LlmFixtureNotFoundError(task, fixturePath);
+      }
+    }
+
+    const fixture: LlmFixture = {
+      task,
+      key,
+      model,
+      recordedAt: new Date().toISOString(),
+      request: getFixtureRequest(params),
+      response: null,
+      chunks: null,
+    };
+
+    if (!params.stream) {
+      const response = await liveClient!.chat.completions.create(params);
+      fixture.response = response as ChatCompletion;
+      await writeFixture(fixturePath, fixture);
+      return response;
+    }
+
+    // Streams are passed through to the caller as they arrive and saved once complete
+    const stream = await liveClient!.chat.completions.create(params);
+    return (async function* () {
+      const chunks: ChatCompletionChunk[] = [];
+      for await (const chunk of stream as AsyncIterable<ChatCompletionChunk>) {
+        chunks.push(chunk);
+        yield chunk;
+      }
+      fixture.chunks = chunks;
+      await writeFixture(fixturePath, fixture);
+    })();
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Fake provider for unit tests
+// ---------------------------------------------------------------------------
+
+export interface FakeLlmRequest {
+  task: LlmTask;
+  params: ChatCompletionCreateParams;
+  system: string; // Concatenated system messages
+  user: string; // Concatenated user messages
+}
+
+/**
+ * Returns the assistant message content; objects are serialised as JSON (for response_format json_object).
+ * Return fakeToolCalls(...) to answer with function calls instead.
+ */
+export type FakeLlmResponder = (request: FakeLlmRequest) => string | object | Promise<string | object>;
+
+class FakeToolCalls {
+  constructor(readonly calls: Array<{ name: string; arguments: Record<string, unknown> }>) {}
+}
+
+/**
+ * Fake response asking to call the given tools (requests with `tools`)
+ *
+ * @example
+ * installFakeLlm(({ params }) =>
+ *   params.messages.some(m => m.role === "tool") ? evaluation : fakeToolCalls([{ name: "lookup", arguments: { q: "ISO 27001" } }]));
+ */
+export function fakeToolCalls(calls: Array<{ name: string; arguments: Record<string, unknown> }>): object {
+  return new FakeToolCalls(calls);
+}
+
+let fakeResponder: FakeLlmResponder | null = null;
+const fakeCalls: FakeLlmRequest[] = [];
+
+function messageText(params: ChatCompletionCreateParams, role: "system" | "user"): string {
+  return params.messages
+    .filter(message => message.role === role)
+    .map(message => (typeof message.content === "string" ? message.content : JSON.stringify(message.content)))
+    .join("\n\n");
+}
+
+/**
+ * Route every LLM call to a scripted responder (until uninstallFakeLlm)
+ *
+ * @example
+ * installFakeLlm(({ task, system }) =>
+ *   task === "evaluation" ? { score: 80, status: "recommended", ... } : "ok");
+ */
+export function installFakeLlm(responder: FakeLlmResponder): void {
+  fakeResponder = responder;
+  fakeCalls.length = 0;
+}
+
+export function uninstallFakeLlm(): void {
+  fakeResponder = null;
+  fakeCalls.length = 0;
+}
+
+/**
+ * Requests the fake provider has received since it was installed, in order
+ */
+export function getFakeLlmCalls(): readonly FakeLlmRequest[] {
+  return fakeCalls;
+}
+
+/**
+ * Client answering from the installed fake responder, or null when none is installed
+ */
+export function getFakeLlmClient(task: LlmTask): OpenAI | null {
+  const responder = fakeResponder;
+  if (!responder) return null;
+
+  return createChatClient(async (params) => {
+    const request: FakeLlmRequest = {
+      task,
+      params,
+      system: messageText(params, "system"),
+      user: messageText(params, "user"),
+    };
+    fakeCalls.push(request);
+
+    const result = await responder(request);
+    const created = Math.floor(Date.now() / 1000);
+
+    if (result instanceof FakeToolCalls && !params.stream) {
+      const completion: ChatCompletion = {
+        id: `fake-${fakeCalls.length}`,
+        object: "chat.completion",
+        created,
+        model: "fake",
+        choices: [{
+          index: 0,
+          message: {
+            role: "assistant",
+            content: null,
+            refusal: null,
+            tool_calls: result.calls.map((call, index) => ({
+              id: `call-${fakeCalls.length}-${index}`,
+              type: "function",
+              function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+            })),
+          },
+          finish_reason: "tool_calls",
+          logprobs: null,
+        }],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      };
+      return completion;
+    }
+
+    const content = typeof result === "string" ? result : JSON.stringify(result);
+
+    if (params.stream) {
+      return replayChunks([{
+        id: `fake-${fakeCalls.length}`,
+        object: "chat.completion.chunk",
+        created,
+        model: "fake",
+        choices: [{ index: 0, delta: { role: "assistant", content }, finish_reason: "stop", logprobs: null }],
+      }]);
+    }
+
+    const completion: ChatCompletion = {
+      id: `fake-${fakeCalls.length}`,
+      object: "chat.completion",
+      created,
+      model: "fake",
+      choices: [{
+        index: 0,
+        message: { role: "assistant", content, refusal: null },
+        finish_reason: "stop",
+        logprobs: null,
+      }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+    };
+    return completion;
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Multi-agent evaluation against the scripted fake LLM: six role agents run, one fails, and
+ * the project's scoring model aggregates the rest.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_SCORING_CONFIG, type ScoringConfig } from "@shared/schema";
+import type { ProposalAnalysis, RequirementAnalysis } from "./aiAnalysis";
+import type { AgentCheckpoint, AgentResult, AgentRole } from "./multiAgentEvaluator";
+
+const REQUIREMENTS: RequirementAnalysis = {
+  scope: "Cloud-hosted citizen identity platform for 2 million users",
+  technicalRequirements: ["OpenID Connect and SAML 2.0", "Multi-factor authentication", "In-country hosting"],
+  evaluationCriteria: [
+    { name: "Technical Fit", weight: 60, description: "Coverage of the identity protocols" },
+    { name: "Cost", weight: 40, description: "Total cost over five years" },
+  ],
+  successMetrics: ["99.9% availability"],
+};
+
+const PROPOSAL: ProposalAnalysis = {
+  vendorName: "Northwind Identity",
+  capabilities: ["OpenID Connect", "SAML 2.0", "Passkeys and TOTP MFA"],
+  technicalApproach: "Multi-tenant SaaS on an in-country Azure region",
+  integrations: ["Oracle HR via SCIM"],
+  security: "ISO 27001 certified",
+  support: "24x7 support",
+  costStructure: "$1.20 per active user per year",
+  timeline: "6 months",
+};
+
+// Scripted verdict per role; the security agent answers with invalid JSON on every attempt
+const AGENT_ANSWERS: Record<Exclude<AgentRole, "security">, { overall: number; status: AgentResult["status"] }> = {
+  delivery: { overall: 70, status: "recommended" },
+  product: { overall: 90, status: "recommended" },
+  architecture: { overall: 80, status: "recommended" },
+  engineering: { overall: 60, status: "under-review" },
+  procurement: { overall: 50, status: "risk-flagged" },
+};
+
+describe("evaluateProposalMultiAgent", () => {
+  before(async () => {
+    // No database in tests: configuration and connectors come from the in-memory (empty) storage
+    const { storage, MemStorage } = await import("../../storage");
+    storage.getSystemConfigByCategory = MemStorage.prototype.getSystemConfigByCategory.bind(storage);
+    storage.getAllSystemConfig = MemStorage.prototype.getAllSystemConfig.bind(storage);
+    storage.getActiveMcpConnectors = MemStorage.prototype.getActiveMcpConnectors.bind(storage);
+
+    const { installFakeLlm } = await import("./llmReplay");
+    const { AGENT_PROMPTS } = await import("./multiAgentEvaluator");
+    installFakeLlm(({ system }) => {
+      const role = (Object.keys(AGENT_PROMPTS) as AgentRole[]).find(r => system.startsWith(AGENT_PROMPTS[r].system));
+      if (!role || role === "security") {
+        return "The security review could not be completed.";
+      }
+      const { overall, status } = AGENT_ANSWERS[role];
+      return {
+        insights: [`${role} insight`],
+        scores: { overall, technicalFit: overall, deliveryRisk: 100 - overall, compliance: overall },
+        rationale: `${role} rationale`,
+        status,
+        citations: [],
+      };
+    });
+  });
+
+  after(async () => {
+    const { uninstallFakeLlm } = await import("./llmReplay");
+    uninstallFakeLlm();
+  });
+
+  it("aggregates the agents that succeeded with the project's role weights", async () => {
+    const { evaluateProposalMultiAgent } = await import("./multiAgentEvaluator");
+    const saved: AgentRole[] = [];
+    const checkpoint: AgentCheckpoint = {
+      loadSaved: async () => [],
+      save: async (result) => {
+        saved.push(result.role);
+      },
+    };
+    const config: ScoringConfig = {
+      ...DEFAULT_SCORING_CONFIG,
+      roleWeights: { ...DEFAULT_SCORING_CONFIG.roleWeights, product: 5 },
+    };
+
+    const { evaluation, diagnostics, agentResults } = await evaluateProposalMultiAgent(
+      REQUIREMENTS, PROPOSAL, undefined, undefined, config, undefined, checkpoint
+    );
+
+    // (70 + 5 × 90 + 80 + 60 + 50) / 9 without the failed security agent
+    assert.equal(evaluation.overallScore, 79);
+    // Recommended votes (1 + 5 + 1) × 6 / 10 = 4.2 reach the threshold of 4
+    assert.equal(evaluation.status, "recommended");
+    assert.equal(agentResults.length, 6);
+    assert.equal(diagnostics.find(d => d.role === "security")?.status, "failed");
+    assert.equal(agentResults.find(r => r.role === "security")?.succeeded, false);
+    assert.deepEqual([...saved].sort(), Object.keys(config.roleWeights).sort());
+  });
+
+  it("reaches a different verdict with equal weights", async () => {
+    const { evaluateProposalMultiAgent } = await import("./multiAgentEvaluator");
+
+    const { evaluation } = await evaluateProposalMultiAgent(REQUIREMENTS, PROPOSAL, undefined, undefined, DEFAULT_SCORING_CONFIG);
+
+    // (70 + 90 + 80 + 60 + 50) / 5; only 3 of 6 agents recommend
+    assert.equal(evaluation.overallScore, 70);
+    assert.equal(evaluation.status, "under-review");
+  });
+
+  it("restores checkpointed agents without calling the model", async () => {
+    const { evaluateProposalMultiAgent } = await import("./multiAgentEvaluator");
+    const { getFakeLlmCalls } = await import("./llmReplay");
+    const first = await evaluateProposalMultiAgent(REQUIREMENTS, PROPOSAL, undefined, undefined, DEFAULT_SCORING_CONFIG);
+    const callsBefore = getFakeLlmCalls().length;
+
+    const { evaluation } = await evaluateProposalMultiAgent(
+      REQUIREMENTS, PROPOSAL, undefined, undefined, DEFAULT_SCORING_CONFIG, undefined,
+      { loadSaved: async () => first.agentResults, save: async () => {} }
+    );
+
+    assert.equal(getFakeLlmCalls().length, callsBefore);
+    assert.equal(evaluation.overallScore, first.evaluation.overallScore);
+  });
+});
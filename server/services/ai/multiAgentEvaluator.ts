@@ -1,9 +1,13 @@
 import type { RequirementAnalysis, ProposalAnalysis, VendorEvaluation, VendorContext } from "./aiAnalysis";
-import { getOpenAIClient } from "./aiAnalysis";
+import { getLlmClient } from "./llmProvider";
 import { ragRetrievalService } from "../knowledgebase/ragRetrieval";
-import { mcpConnectorService, type ConnectorError } from "../knowledgebase/mcpConnectorService";
+import { mcpConnectorService, type AgentToolbox, type ConnectorError } from "../knowledgebase/mcpConnectorService";
+import { runAgentCompletion, type AgentToolCall, type AgentUsage } from "./agentToolCalling";
 import { evaluationProgressService } from "../core/evaluationProgress";
 import { agentMetricsService } from "../core/agentMetrics";
+import { computeWeightedScores } from "./scoringModel";
+import { buildEvidenceSections, formatEvidenceForPrompt, resolveCitations, withoutEvidenceText } from "./proposalEvidence";
+import type { AgentCitation, ScoringConfig } from "@shared/schema";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -115,8 +119,8 @@ function getFallbackInsights(role: AgentRole): string[] {
   return fallbacks[role];
 }
 
-// Agent result interface
-interface AgentResult {
+// Agent result interface (persisted on evaluations.agentResults for re-aggregation)
+export interface AgentResult {
   role: AgentRole;
   insights: string[];
   scores: {
@@ -132,22 +136,61 @@ interface AgentResult {
   };
   rationale: string;
   status: "recommended" | "under-review" | "risk-flagged";
+  citations?: AgentCitation[]; // Proposal evidence backing the insights and scores
+  toolCalls?: AgentToolCall[]; // On-demand MCP tools the agent called
   executionTime: number;
   tokenUsage: number;
   succeeded: boolean; // Track if agent completed successfully
 }
 
-// Agent diagnostics
-interface AgentDiagnostics {
+// Agent diagnostics (scores and verdict are kept so aggregation can be re-run without the LLM)
+export interface AgentDiagnostics {
   role: AgentRole;
   executionTime: number;
   tokenUsage: number;
   status: "success" | "failed" | "timeout";
   error?: string;
+  scores?: AgentResult["scores"];
+  verdict?: AgentResult["status"];
+  toolCalls?: AgentToolCall[];
+}
+
+/**
+ * Per-agent persistence for resumable evaluation runs. Agents with a saved result are not run
+ * again; every agent that does run is saved as soon as it finishes.
+ */
+export interface AgentCheckpoint {
+  loadSaved(): Promise<AgentResult[]>;
+  save(result: AgentResult, diagnostics: AgentDiagnostics): Promise<void>;
+}
+
+function toDiagnostics(result: AgentResult): AgentDiagnostics {
+  return {
+    role: result.role,
+    executionTime: result.executionTime,
+    tokenUsage: result.tokenUsage,
+    status: result.succeeded ? "success" : "failed",
+    error: result.succeeded ? undefined : "Agent completed but with errors",
+    scores: result.scores,
+    verdict: result.status,
+    toolCalls: result.toolCalls,
+  };
+}
+
+// A checkpoint write failure must not fail the evaluation; the agent is simply re-run on resume
+async function saveCheckpoint(checkpoint: AgentCheckpoint | undefined, result: AgentResult, diagnostics: AgentDiagnostics): Promise<void> {
+  if (!checkpoint) {
+    return;
+  }
+  try {
+    await checkpoint.save(result, diagnostics);
+  } catch (error) {
+    console.error(`Failed to checkpoint ${result.role} agent result:`, error);
+  }
 }
 
 
-// Context summarizer to reduce token usage
+// Context summarizer to reduce token usage (runs on the "summarization" route, typically a cheaper model)
 async function summarizeContext(requirements: RequirementAnalysis, proposal: ProposalAnalysis): Promise<string> {
   const summary = `
 PROJECT: ${requirements.scope}
@@ -155,8 +198,24 @@ KEY REQUIREMENTS: ${requirements.technicalRequirements.slice(0, 5).join(", ")}
 VENDOR: ${proposal.vendorName}
 KEY CAPABILITIES: ${proposal.capabilities.slice(0, 5).join(", ")}
 APPROACH: ${proposal.technicalApproach.substring(0, 200)}
-`;
-  return summary.trim();
+`.trim();
+
+  try {
+    const { client, model } = await getLlmClient("summarization");
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: "Condense procurement evaluation context into a brief for evaluators. Keep requirement names, vendor capabilities and any gaps; drop everything else." },
+        { role: "user", content: `Requirements:\n${JSON.stringify(requirements, null, 2)}\n\nProposal:\n${JSON.stringify(withoutEvidenceText(proposal), null, 2)}\n\nWrite the brief in under 150 words.` },
+      ],
+      temperature: 0.2,
+      max_tokens: 300,
+    });
+    return response.choices[0]?.message?.content?.trim() || summary;
+  } catch (error) {
+    console.warn("   ⚠️  Context summarization failed, using extractive summary:", error instanceof Error ? error.message : error);
+    return summary;
+  }
 }
 
 // Execute a single agent with timeout and retry
@@ -168,6 +227,7 @@ async function executeAgent(
   ragContext?: string,
   mcpContext?: string,
   vendorContext?: VendorContext,
+  addendaContext?: string,
   timeout: number = 30000
 ): Promise<AgentResult> {
   const startTime = Date.now();
@@ -226,7 +286,8 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
           retrievalQueries,
           { 
             topKPerRequirement: 2,
-            category: role // Use agent role as category filter
+            category: role, // Use agent role as category filter
+            role
           }
         );
         
@@ -252,36 +313,58 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
   if (mcpContext) {
     standardsContext += `\n\n${mcpContext}`;
   }
+
+  // Post-publication addenda amend the requirements every agent scores against
+  if (addendaContext) {
+    standardsContext += addendaContext;
+  }
   
+  // Proposal text is supplied as numbered evidence sections so agents can cite it
+  const evidenceSections = buildEvidenceSections(proposal);
+
   const userMessage = prompt.userTemplate
     .replace('{requirements}', JSON.stringify(requirements, null, 2))
-    .replace('{proposal}', JSON.stringify(proposal, null, 2))
-    .replace('{vendorName}', proposal.vendorName) + standardsContext;
+    .replace('{proposal}', JSON.stringify(withoutEvidenceText(proposal), null, 2))
+    .replace('{vendorName}', proposal.vendorName) + standardsContext + formatEvidenceForPrompt(evidenceSections);
+
+  // On-demand connector tools the agent may call while it evaluates
+  let toolbox: AgentToolbox | undefined;
+  try {
+    toolbox = await mcpConnectorService.openAgentToolbox(role, {
+      projectName: requirements.scope,
+      vendorName: proposal.vendorName,
+      requirements: requirements.technicalRequirements,
+      proposalSummary: proposal.technicalApproach,
+    });
+    for (const diagnostic of toolbox.diagnostics) {
+      console.warn(`   ⚠️  [${role}] MCP tools of ${diagnostic.connectorName} unavailable: ${diagnostic.error}`);
+    }
+  } catch (error) {
+    console.error(`   ❌ [${role}] Opening MCP tools failed, proceeding without them:`, error);
+  }
+  // Tool calls are extra round trips, so agents with tools get twice the time
+  const agentTimeout = toolbox?.tools.length ? timeout * 2 : timeout;
 
   // Retry logic with exponential backoff for rate limit errors
   const maxRetries = 3;
   let lastError: any = null;
+  // Shared by all attempts so the tool call and token limits cover retries too
+  const usage: AgentUsage = { tokenUsage: 0, toolCalls: [] };
   
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    // A timed-out attempt is aborted, so it makes no further calls once the next one starts
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error("Agent timeout")), agentTimeout);
     try {
-      const client = await getOpenAIClient();
-      const response = await Promise.race([
-        client.chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            { role: "system", content: prompt.system },
-            { role: "user", content: userMessage }
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.4,
-        }),
-        new Promise<never>((_, reject) => 
-          setTimeout(() => reject(new Error("Agent timeout")), timeout)
-        )
-      ]);
+      const { client, model } = await getLlmClient("evaluation");
+      const completion = await runAgentCompletion(client, model, prompt.system, userMessage, {
+        toolbox,
+        signal: controller.signal,
+        usage,
+      });
       
       // If we get here, the request succeeded - process the response
-      const content = response.choices[0].message.content;
+      const content = completion.content;
       if (!content) {
         throw new Error("No response from agent");
       }
@@ -292,6 +375,11 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
       // Debug: Log what scores each agent is returning
       console.log(`   📊 ${role} agent scores:`, JSON.stringify(result.scores || {}));
 
+      const citations = resolveCitations(result.citations, evidenceSections, role);
+      if (evidenceSections.length > 0) {
+        console.log(`   🔗 ${role} agent citations: ${citations.filter(c => c.verified).length}/${citations.length} verified`);
+      }
+
       // Calculate status based on scores if not provided by AI
       let calculatedStatus: "recommended" | "under-review" | "risk-flagged" = "under-review";
       if (!result.status && result.scores) {
@@ -314,7 +402,7 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
       }
 
       // Track metrics for successful execution
-      const tokenUsage = response.usage?.total_tokens || 0;
+      const tokenUsage = completion.tokenUsage;
       if (vendorContext && vendorContext.evaluationId) {
         await agentMetricsService.trackExecution({
           evaluationId: vendorContext.evaluationId,
@@ -351,12 +439,15 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
         });
       }
       
+      await toolbox?.close();
       return {
         role,
         insights: result.insights || [],
         scores: result.scores || { overall: 0 },
         rationale: result.rationale || "",
         status: result.status || calculatedStatus,
+        citations,
+        toolCalls: completion.toolCalls.length > 0 ? completion.toolCalls : undefined,
         executionTime,
         tokenUsage,
         succeeded: true,
@@ -387,10 +478,13 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
       if (attempt === maxRetries) {
         break;
       }
+    } finally {
+      clearTimeout(timer);
     }
   }
   
   // If we get here, all retries failed
+  await toolbox?.close();
   const executionTime = Date.now() - startTime;
   const errorMessage = lastError instanceof Error ? lastError.message : String(lastError);
   const errorType = lastError instanceof Error && lastError.message.includes('timeout') ? 'timeout' : 'execution_error';
@@ -405,8 +499,8 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
       vendorName: vendorContext.vendorName,
       agentRole: role,
       executionTimeMs: executionTime,
-      tokenUsage: 0,
-      estimatedCostUsd: 0,
+      tokenUsage: usage.tokenUsage,
+      estimatedCostUsd: agentMetricsService.estimateCost(usage.tokenUsage),
       success: false,
       errorType,
       errorMessage,
@@ -444,40 +538,31 @@ ${taggedSections.map(s => `- ${s.name}${s.description ? ': ' + s.description : '
     scores: { overall: 0 },
     rationale: `Evaluation incomplete for ${role} perspective`,
     status: "under-review",
+    toolCalls: usage.toolCalls.length > 0 ? usage.toolCalls : undefined,
     executionTime,
-    tokenUsage: 0,
+    tokenUsage: usage.tokenUsage,
     succeeded: false,
   };
 }
 
-// Aggregate results from all agents
-function aggregateResults(
+// Aggregate results from all agents using the project's scoring model.
+// Pure over its inputs so stored agent results can be re-aggregated without the LLM.
+export function aggregateResults(
   agentResults: AgentResult[],
-  proposal: ProposalAnalysis
+  cost: string,
+  scoringConfig?: ScoringConfig
 ): VendorEvaluation {
   // Only include successful agents in scoring calculations
   const successfulAgents = agentResults.filter(r => r.succeeded);
   
-  // Helper function to calculate average only from agents that provided the score
-  const calculateAverage = (scoreKey: keyof AgentResult['scores']): number => {
-    const agentsWithScore = successfulAgents.filter(r => r.scores[scoreKey] !== undefined && r.scores[scoreKey] !== null);
-    if (agentsWithScore.length === 0) return 0;
-    const sum = agentsWithScore.reduce((acc, r) => acc + (r.scores[scoreKey] || 0), 0);
-    return Math.round(sum / agentsWithScore.length);
-  };
-  
-  // Calculate average scores (only from agents that provide each specific score)
-  const avgOverall = calculateAverage('overall');
-  const avgFunctionalFit = calculateAverage('functionalFit');
-  const avgTechnicalFit = calculateAverage('technicalFit');
-  const avgDeliveryRisk = calculateAverage('deliveryRisk');
-  const avgCompliance = calculateAverage('compliance');
+  const weighted = computeWeightedScores(agentResults, scoringConfig);
   
   // Debug: Log functionalFit aggregation details
   const functionalFitAgents = successfulAgents.filter(r => r.scores.functionalFit !== undefined && r.scores.functionalFit !== null);
   console.log(`   🔢 FunctionalFit aggregation: ${functionalFitAgents.length} agents provided scores:`, 
     functionalFitAgents.map(a => `${a.role}=${a.scores.functionalFit}`).join(', '));
-  console.log(`   📈 Average FunctionalFit: ${avgFunctionalFit}`);
+  console.log(`   📈 Weighted FunctionalFit: ${weighted.functionalFit}`);
+  console.log(`   🗳️  Consensus votes:`, JSON.stringify(weighted.votes));
 
   // Build role insights object
   const roleInsights: VendorEvaluation["roleInsights"] = {
@@ -489,25 +574,6 @@ function aggregateResults(
     security: agentResults.find(r => r.role === "security")?.insights || [],
   };
 
-  // Aggregate detailed scores (using same approach - only count agents that provide each score)
-  const detailedScores = {
-    integration: calculateAverage('integration'),
-    support: calculateAverage('support'),
-    scalability: calculateAverage('scalability'),
-    documentation: calculateAverage('documentation'),
-  };
-
-  // Determine overall status based on consensus
-  const statusCounts = {
-    recommended: agentResults.filter(r => r.status === "recommended").length,
-    "under-review": agentResults.filter(r => r.status === "under-review").length,
-    "risk-flagged": agentResults.filter(r => r.status === "risk-flagged").length,
-  };
-  
-  const status: "recommended" | "under-review" | "risk-flagged" = 
-    statusCounts["risk-flagged"] > 2 ? "risk-flagged" :
-    statusCounts.recommended > 3 ? "recommended" : "under-review";
-
   // Aggregate rationales (only from successful agents)
   const rationale = successfulAgents
     .filter(r => r.rationale)
@@ -521,16 +587,17 @@ function aggregateResults(
     : "";
 
   const evaluationResult = {
-    overallScore: avgOverall,
-    functionalFit: avgFunctionalFit,
-    technicalFit: avgTechnicalFit,
-    deliveryRisk: avgDeliveryRisk,
-    cost: proposal.costStructure || "Not specified",
-    compliance: avgCompliance,
-    status,
+    overallScore: weighted.overallScore,
+    functionalFit: weighted.functionalFit,
+    technicalFit: weighted.technicalFit,
+    deliveryRisk: weighted.deliveryRisk,
+    cost,
+    compliance: weighted.compliance,
+    status: weighted.status,
     rationale: (rationale || "Multi-agent evaluation completed") + evaluationNote,
     roleInsights,
-    detailedScores,
+    detailedScores: weighted.detailedScores,
+    citations: successfulAgents.flatMap(r => r.citations || []),
   };
   
   // Debug: Log the final evaluation result
@@ -558,13 +625,36 @@ export async function evaluateProposalMultiAgent(
   requirements: RequirementAnalysis,
   proposal: ProposalAnalysis,
   standardData?: StandardData,
-  vendorContext?: VendorContext
-): Promise<{ evaluation: VendorEvaluation; diagnostics: AgentDiagnostics[] }> {
+  vendorContext?: VendorContext,
+  scoringConfig?: ScoringConfig,
+  addendaContext?: string,
+  checkpoint?: AgentCheckpoint
+): Promise<{ evaluation: VendorEvaluation; diagnostics: AgentDiagnostics[]; agentResults: AgentResult[] }> {
   console.log(`🤖 Starting multiagent evaluation for ${proposal.vendorName}...`);
   
-  // Emit initial progress for all agents (pending status)
+  const roles: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
+  
+  // Agents checkpointed by an earlier attempt of this run keep their result
+  const savedResults = new Map<AgentRole, AgentResult>();
+  if (checkpoint) {
+    for (const saved of await checkpoint.loadSaved()) {
+      savedResults.set(saved.role, saved);
+    }
+  }
+  const rolesToRun = roles.filter(role => !savedResults.has(role));
+  
+  if (rolesToRun.length === 0) {
+    console.log(`♻️  All agent results for ${proposal.vendorName} restored from checkpoint`);
+    const agentResults = roles.map(role => savedResults.get(role)!);
+    const evaluation = aggregateResults(agentResults, proposal.costStructure || "Not specified", scoringConfig);
+    return { evaluation, diagnostics: agentResults.map(toDiagnostics), agentResults };
+  }
+  if (savedResults.size > 0) {
+    console.log(`   ♻️  Reusing ${savedResults.size}/6 checkpointed agent results, running ${rolesToRun.join(", ")}`);
+  }
+  
+  // Emit initial progress for the agents about to run (pending status)
   if (vendorContext) {
-    const roles: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
     const roleLabels = {
       delivery: "Delivery Manager",
       product: "Product Manager",
@@ -574,7 +664,7 @@ export async function evaluateProposalMultiAgent(
       security: "Cybersecurity"
     };
     
-    for (const role of roles) {
+    for (const role of rolesToRun) {
       evaluationProgressService.emitProgress({
         projectId: vendorContext.projectId,
         vendorName: vendorContext.vendorName,
@@ -633,15 +723,13 @@ export async function evaluateProposalMultiAgent(
       proposalSummary: proposal.technicalApproach,
     };
     
-    const roles: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
-    
-    // Fetch MCP data for all roles in parallel
+    // Fetch MCP data for the agents about to run in parallel
     const mcpResults = await Promise.allSettled(
-      roles.map(role => mcpConnectorService.fetchAllConnectorDataForRole(role, evaluationContext))
+      rolesToRun.map(role => mcpConnectorService.fetchAllConnectorDataForRole(role, evaluationContext))
     );
     
     mcpResults.forEach((result, index) => {
-      const role = roles[index];
+      const role = rolesToRun[index];
       if (result.status === "fulfilled") {
         const { payload, diagnostics } = result.value;
         if (payload) {
@@ -665,31 +753,30 @@ export async function evaluateProposalMultiAgent(
     console.error(`   ❌ MCP connector retrieval failed, proceeding without it:`, error);
   }
   
-  const roles: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
-  
   try {
-    // Execute all agents in parallel with allSettled for resilience
-    const agentPromises = roles.map(role => 
-      executeAgent(role, requirements, proposal, standardData, ragContext, mcpContextByRole.get(role), vendorContext)
+    // Execute the remaining agents in parallel with allSettled for resilience; each one is
+    // checkpointed as soon as it finishes so a crash mid-vendor loses only unfinished agents
+    const agentPromises = rolesToRun.map(role => 
+      executeAgent(role, requirements, proposal, standardData, ragContext, mcpContextByRole.get(role), vendorContext, addendaContext)
+        .then(async (result) => {
+          await saveCheckpoint(checkpoint, result, toDiagnostics(result));
+          return result;
+        })
     );
     const settledResults = await Promise.allSettled(agentPromises);
     
     // Extract successful results and track failures
-    const agentResults: AgentResult[] = [];
-    const diagnostics: AgentDiagnostics[] = [];
+    const resultsByRole = new Map<AgentRole, { result: AgentResult; diagnostics: AgentDiagnostics }>();
+    savedResults.forEach((saved, role) => {
+      resultsByRole.set(role, { result: saved, diagnostics: toDiagnostics(saved) });
+    });
     
-    settledResults.forEach((result, index) => {
-      const role = roles[index];
+    for (let index = 0; index < settledResults.length; index++) {
+      const result = settledResults[index];
+      const role = rolesToRun[index];
       
       if (result.status === "fulfilled") {
-        agentResults.push(result.value);
-        diagnostics.push({
-          role: result.value.role,
-          executionTime: result.value.executionTime,
-          tokenUsage: result.value.tokenUsage,
-          status: result.value.succeeded ? "success" : "failed",
-          error: result.value.succeeded ? undefined : "Agent completed but with errors",
-        });
+        resultsByRole.set(role, { result: result.value, diagnostics: toDiagnostics(result.value) });
       } else {
         // Agent promise rejected - create informative fallback result
         console.error(`Agent ${role} failed with error:`, result.reason);
@@ -697,7 +784,7 @@ export async function evaluateProposalMultiAgent(
         // Generate role-specific fallback insights instead of error message
         const fallbackInsights = getFallbackInsights(role);
         
-        agentResults.push({
+        const fallback: AgentResult = {
           role,
           insights: fallbackInsights,
           scores: { overall: 0 }, // Zero score for failed agents (won't affect average)
@@ -706,16 +793,23 @@ export async function evaluateProposalMultiAgent(
           executionTime: 0,
           tokenUsage: 0,
           succeeded: false,
-        });
-        diagnostics.push({
+        };
+        const fallbackDiagnostics: AgentDiagnostics = {
           role,
           executionTime: 0,
           tokenUsage: 0,
           status: "failed",
           error: result.reason instanceof Error ? result.reason.message : 'Unknown error',
-        });
+          scores: { overall: 0 },
+          verdict: "under-review",
+        };
+        await saveCheckpoint(checkpoint, fallback, fallbackDiagnostics);
+        resultsByRole.set(role, { result: fallback, diagnostics: fallbackDiagnostics });
       }
-    });
+    }
+    
+    const agentResults = roles.map(role => resultsByRole.get(role)!.result);
+    const diagnostics = roles.map(role => resultsByRole.get(role)!.diagnostics);
     
     // Log execution summary
     const totalTime = Math.max(...agentResults.map(r => r.executionTime), 0);
@@ -729,9 +823,9 @@ export async function evaluateProposalMultiAgent(
     console.log(`   Tokens used: ${totalTokens}`);
     
     // Aggregate results from all agents (including partial failures)
-    const evaluation = aggregateResults(agentResults, proposal);
+    const evaluation = aggregateResults(agentResults, proposal.costStructure || "Not specified", scoringConfig);
     
-    return { evaluation, diagnostics };
+    return { evaluation, diagnostics, agentResults };
   } catch (error) {
     console.error("❌ Multiagent evaluation failed catastrophically:", error);
     throw error;
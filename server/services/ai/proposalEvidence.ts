@@ -0,0 +1,147 @@
+import type { AgentCitation, AgentRoleName, EvaluationCitation } from "@shared/schema";
+import type { ParsedSection } from "../knowledgebase/documentParser";
+
+// A citable slice of the vendor proposal, referenced by agents as "S1", "S2", ...
+export interface EvidenceSection {
+  id: string;
+  title: string;
+  anchor?: string;
+  content: string;
+}
+
+// Legacy proposals without parser sections are split on paragraph boundaries into blocks of this size
+const FALLBACK_BLOCK_CHARS = 3000;
+const MAX_CITATIONS_PER_AGENT = 8;
+const MAX_QUOTE_CHARS = 400;
+
+/**
+ * Build the citable evidence sections for a proposal from its stored extractedData.
+ * Deterministic so the same section ids can be resolved again when a reviewer opens a citation.
+ */
+export function buildEvidenceSections(proposalData: any): EvidenceSection[] {
+  const parsedSections = proposalData?.sections as ParsedSection[] | undefined;
+  if (Array.isArray(parsedSections) && parsedSections.length > 0) {
+    return parsedSections
+      .filter(section => section.content && section.content.trim().length > 0)
+      .map((section, index) => ({
+        id: `S${index + 1}`,
+        title: section.title,
+        anchor: section.anchor,
+        content: section.content,
+      }));
+  }
+
+  const text: string | undefined = proposalData?.text;
+  if (!text || !text.trim()) {
+    return [];
+  }
+
+  const blocks: string[] = [];
+  let current = "";
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > FALLBACK_BLOCK_CHARS) {
+      blocks.push(current);
+      current = "";
+    }
+    current += (current ? "\n\n" : "") + paragraph;
+  }
+  if (current.trim()) {
+    blocks.push(current);
+  }
+
+  return blocks.map((content, index) => ({
+    id: `S${index + 1}`,
+    title: `${proposalData?.fileName || "Proposal"} (part ${index + 1})`,
+    content,
+  }));
+}
+
+/**
+ * Proposal payload for agent prompts with raw text removed (it is supplied as evidence sections instead)
+ */
+export function withoutEvidenceText(proposalData: any): any {
+  if (!proposalData || typeof proposalData !== "object") {
+    return proposalData;
+  }
+  const { text, sections, ...rest } = proposalData;
+  return rest;
+}
+
+/**
+ * Format evidence sections plus citation instructions for an agent prompt
+ */
+export function formatEvidenceForPrompt(sections: EvidenceSection[]): string {
+  if (sections.length === 0) {
+    return "";
+  }
+
+  const body = sections
+    .map(section => `[${section.id}] ${section.title}${section.anchor ? ` (${section.anchor})` : ""}\n${section.content}`)
+    .join("\n\n");
+
+  return `
+
+**VENDOR PROPOSAL SOURCE SECTIONS:**
+${body}
+
+**CITATIONS:** Back your insights and scores with evidence from the source sections above. Add a "citations" array to your JSON response:
+"citations": [{ "sectionId": "S1", "quote": "exact text copied verbatim from that section (max 300 characters)", "supports": "the insight or score this evidence backs" }]
+Only quote text that appears in the cited section. If the proposal is silent on a point, say so in your insights rather than citing.`;
+}
+
+// Case- and whitespace-insensitive comparison so line wrapping in the source doesn't fail verification
+function normalizeForMatch(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Validate raw citations from an agent response against the evidence sections.
+ * Unknown section ids are dropped; quotes not found in the section are kept but marked unverified.
+ */
+export function resolveCitations(
+  raw: unknown,
+  sections: EvidenceSection[],
+  role: AgentRoleName
+): AgentCitation[] {
+  if (!Array.isArray(raw) || sections.length === 0) {
+    return [];
+  }
+
+  const sectionsById = new Map(sections.map(section => [section.id, section]));
+  const citations: AgentCitation[] = [];
+
+  for (const entry of raw) {
+    if (citations.length >= MAX_CITATIONS_PER_AGENT) break;
+    if (!entry || typeof entry !== "object") continue;
+
+    const sectionId = String((entry as any).sectionId || "").trim();
+    const quote = String((entry as any).quote || "").trim().slice(0, MAX_QUOTE_CHARS);
+    const section = sectionsById.get(sectionId);
+    if (!section || !quote) continue;
+
+    citations.push({
+      role,
+      sectionId,
+      sectionTitle: section.title,
+      anchor: section.anchor,
+      quote,
+      supports: String((entry as any).supports || "").trim(),
+      verified: normalizeForMatch(section.content).includes(normalizeForMatch(quote)),
+    });
+  }
+
+  return citations;
+}
+
+/**
+ * Attach the evaluated proposal to agent citations before they are stored on the evaluation
+ */
+export function attachProposalId(
+  citations: AgentCitation[] | undefined,
+  proposalId: string
+): EvaluationCitation[] | null {
+  if (!citations || citations.length === 0) {
+    return null;
+  }
+  return citations.map(citation => ({ ...citation, proposalId }));
+}
@@ -1,4 +1,4 @@
-import { getOpenAIClient } from "./aiAnalysis";
+import { getLlmClient } from "./llmProvider";
 import { AGENT_PROMPTS, type AgentRole } from "./multiAgentEvaluator";
 import { ragRetrievalService } from "../knowledgebase/ragRetrieval";
 
@@ -64,7 +64,8 @@ async function generateAgentRftSection(
         { 
           topK: 3,
           category: role, // Each agent gets their own category-specific standards
-          sourceType: 'standard' // Only retrieve standards, not proposals
+          sourceType: 'standard', // Only retrieve standards, not proposals
+          role
         }
       );
       
@@ -91,10 +92,10 @@ async function generateAgentRftSection(
   }
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("generation");
     
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         { role: "system", content: prompt.system },
         { role: "user", content: userMessage }
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_SCORING_CONFIG, agentRoles, type ScoringConfig } from "@shared/schema";
+import { computeWeightedScores, resolveScoringConfig, type AgentScoreInput } from "./scoringModel";
+
+function agent(role: AgentScoreInput["role"], overall: number, status: AgentScoreInput["status"] = "recommended", succeeded = true): AgentScoreInput {
+  return { role, scores: { overall, technicalFit: overall, deliveryRisk: 100 - overall }, status, succeeded };
+}
+
+describe("resolveScoringConfig", () => {
+  it("uses the defaults when nothing is stored", () => {
+    assert.deepEqual(resolveScoringConfig(null), DEFAULT_SCORING_CONFIG);
+  });
+
+  it("merges a partial config over the defaults", () => {
+    const config = resolveScoringConfig({ roleWeights: { security: 3 } });
+
+    assert.equal(config.roleWeights.security, 3);
+    assert.equal(config.roleWeights.delivery, 1);
+    assert.deepEqual(config.consensus, DEFAULT_SCORING_CONFIG.consensus);
+  });
+
+  it("falls back to the defaults for an invalid config", () => {
+    assert.deepEqual(resolveScoringConfig({ roleWeights: { security: -1 } }), DEFAULT_SCORING_CONFIG);
+  });
+});
+
+describe("computeWeightedScores", () => {
+  it("averages agent scores with equal default weights", () => {
+    const scores = computeWeightedScores(agentRoles.map((role, i) => agent(role, 50 + i * 10)));
+
+    assert.equal(scores.overallScore, 75);
+    assert.equal(scores.technicalFit, 75);
+    assert.equal(scores.status, "recommended");
+  });
+
+  it("weights roles and blends dimensions", () => {
+    const config: ScoringConfig = {
+      ...DEFAULT_SCORING_CONFIG,
+      roleWeights: { ...DEFAULT_SCORING_CONFIG.roleWeights, security: 4 },
+      dimensionWeights: { agentOverall: 1, functionalFit: 0, technicalFit: 0, deliveryRisk: 1, compliance: 0 },
+    };
+    const agents = agentRoles.map(role => agent(role, role === "security" ? 20 : 80));
+
+    const scores = computeWeightedScores(agents, config);
+
+    // Overall (5 × 80 + 4 × 20) / 9 ≈ 53.3; inverted delivery risk is the same, so the blend is too
+    assert.equal(scores.overallScore, 53);
+    assert.equal(scores.deliveryRisk, 47);
+  });
+
+  it("leaves failed agents out of the scores but counts their votes", () => {
+    const agents = [
+      ...agentRoles.slice(0, 3).map(role => agent(role, 90)),
+      ...agentRoles.slice(3).map(role => agent(role, 0, "under-review", false)),
+    ];
+
+    const scores = computeWeightedScores(agents);
+
+    assert.equal(scores.overallScore, 90);
+    assert.equal(scores.votes.recommended, 3);
+    assert.equal(scores.status, "under-review");
+  });
+
+  it("risk-flags on a veto role's flag regardless of the vote", () => {
+    const config: ScoringConfig = {
+      ...DEFAULT_SCORING_CONFIG,
+      consensus: { ...DEFAULT_SCORING_CONFIG.consensus, vetoRoles: ["security"] },
+    };
+    const agents = agentRoles.map(role => agent(role, 85, role === "security" ? "risk-flagged" : "recommended"));
+
+    assert.equal(computeWeightedScores(agents).status, "recommended");
+    assert.equal(computeWeightedScores(agents, config).status, "risk-flagged");
+  });
+});
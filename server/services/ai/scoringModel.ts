@@ -0,0 +1,149 @@
+import {
+  agentRoles,
+  scoringConfigSchema,
+  DEFAULT_SCORING_CONFIG,
+  type AgentRoleName,
+  type ScoringConfig,
+} from "@shared/schema";
+
+type AgentStatus = "recommended" | "under-review" | "risk-flagged";
+
+// Minimal per-agent view needed to aggregate scores (live agent results or stored diagnostics)
+export interface AgentScoreInput {
+  role: AgentRoleName;
+  scores: {
+    overall: number;
+    functionalFit?: number;
+    technicalFit?: number;
+    deliveryRisk?: number;
+    compliance?: number;
+    integration?: number;
+    support?: number;
+    scalability?: number;
+    documentation?: number;
+  };
+  status: AgentStatus;
+  succeeded: boolean;
+}
+
+export interface WeightedScores {
+  overallScore: number;
+  functionalFit: number;
+  technicalFit: number;
+  deliveryRisk: number;
+  compliance: number;
+  detailedScores: {
+    integration: number;
+    support: number;
+    scalability: number;
+    documentation: number;
+  };
+  status: AgentStatus;
+  votes: Record<AgentStatus, number>;
+}
+
+// Merge a stored (possibly partial or legacy) config over the defaults.
+// Invalid configs fall back to defaults rather than breaking an evaluation run.
+export function resolveScoringConfig(stored: unknown): ScoringConfig {
+  if (!stored || typeof stored !== "object") {
+    return DEFAULT_SCORING_CONFIG;
+  }
+
+  const partial = stored as Partial<ScoringConfig>;
+  const merged = {
+    roleWeights: { ...DEFAULT_SCORING_CONFIG.roleWeights, ...(partial.roleWeights || {}) },
+    dimensionWeights: { ...DEFAULT_SCORING_CONFIG.dimensionWeights, ...(partial.dimensionWeights || {}) },
+    consensus: { ...DEFAULT_SCORING_CONFIG.consensus, ...(partial.consensus || {}) },
+  };
+
+  const parsed = scoringConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    console.warn(`⚠️  Invalid scoring config, using defaults:`, parsed.error.issues.map(i => i.message).join("; "));
+    return DEFAULT_SCORING_CONFIG;
+  }
+  return parsed.data;
+}
+
+// Aggregate agent scores using the project's role weights, dimension weights and consensus rules
+export function computeWeightedScores(
+  agents: AgentScoreInput[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): WeightedScores {
+  // Only include successful agents in scoring calculations
+  const successfulAgents = agents.filter(a => a.succeeded);
+
+  // Weighted average only from agents that provided the score; null when no agent did
+  const weightedAverage = (scoreKey: keyof AgentScoreInput["scores"]): number | null => {
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const agent of successfulAgents) {
+      const value = agent.scores[scoreKey];
+      if (value === undefined || value === null) continue;
+      const weight = config.roleWeights[agent.role] ?? 0;
+      weightedSum += value * weight;
+      totalWeight += weight;
+    }
+    return totalWeight > 0 ? weightedSum / totalWeight : null;
+  };
+
+  const agentOverall = weightedAverage("overall");
+  const functionalFit = weightedAverage("functionalFit");
+  const technicalFit = weightedAverage("technicalFit");
+  const deliveryRisk = weightedAverage("deliveryRisk");
+  const compliance = weightedAverage("compliance");
+
+  // Blend overall score from the weighted dimensions (skip dimensions no agent scored)
+  const blendInputs: Array<[number | null, number]> = [
+    [agentOverall, config.dimensionWeights.agentOverall],
+    [functionalFit, config.dimensionWeights.functionalFit],
+    [technicalFit, config.dimensionWeights.technicalFit],
+    [deliveryRisk === null ? null : 100 - deliveryRisk, config.dimensionWeights.deliveryRisk],
+    [compliance, config.dimensionWeights.compliance],
+  ];
+  let blendSum = 0;
+  let blendWeight = 0;
+  for (const [value, weight] of blendInputs) {
+    if (value === null || weight <= 0) continue;
+    blendSum += value * weight;
+    blendWeight += weight;
+  }
+  const overallScore = blendWeight > 0 ? blendSum / blendWeight : (agentOverall ?? 0);
+
+  // Consensus votes: every agent (including failed ones) votes, weights normalised to a 6-vote scale
+  const totalRoleWeight = agents.reduce((sum, a) => sum + (config.roleWeights[a.role] ?? 0), 0);
+  const votes: Record<AgentStatus, number> = { recommended: 0, "under-review": 0, "risk-flagged": 0 };
+  for (const agent of agents) {
+    const weight = config.roleWeights[agent.role] ?? 0;
+    votes[agent.status] += totalRoleWeight > 0 ? (weight * agentRoles.length) / totalRoleWeight : 0;
+  }
+  // Round to avoid floating point drift (e.g. 2.9999999 votes) at threshold boundaries
+  for (const key of Object.keys(votes) as AgentStatus[]) {
+    votes[key] = Math.round(votes[key] * 100) / 100;
+  }
+
+  const vetoed = successfulAgents.some(
+    a => a.status === "risk-flagged" && config.consensus.vetoRoles.includes(a.role)
+  );
+
+  const status: AgentStatus =
+    vetoed || votes["risk-flagged"] >= config.consensus.riskFlaggedMinVotes ? "risk-flagged" :
+    votes.recommended >= config.consensus.recommendedMinVotes ? "recommended" : "under-review";
+
+  const round = (value: number | null) => Math.round(value ?? 0);
+
+  return {
+    overallScore: Math.round(overallScore),
+    functionalFit: round(functionalFit),
+    technicalFit: round(technicalFit),
+    deliveryRisk: round(deliveryRisk),
+    compliance: round(compliance),
+    detailedScores: {
+      integration: round(weightedAverage("integration")),
+      support: round(weightedAverage("support")),
+      scalability: round(weightedAverage("scalability")),
+      documentation: round(weightedAverage("documentation")),
+    },
+    status,
+    votes,
+  };
+}
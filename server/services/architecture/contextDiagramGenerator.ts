@@ -1,5 +1,4 @@
-import OpenAI from "openai";
-import { ConfigHelper } from "../core/configHelpers";
+import { getLlmClient } from "../ai/llmProvider";
 import fs from "fs";
 import path from "path";
 import { execFile } from "child_process";
@@ -21,26 +20,7 @@ export interface ContextArchitecture {
  * Extract context architecture components from business case using AI
  */
 export async function extractContextArchitecture(businessCaseContent: string): Promise<ContextArchitecture> {
-  const config = ConfigHelper.getAgentsOpenAIConfig();
-  
-  // Initialize OpenAI client (Azure or regular)
-  let client: OpenAI;
-  if (config.useAzure) {
-    const cleanEndpoint = config.azureEndpoint!.replace(/\/$/, '');
-    client = new OpenAI({
-      baseURL: `${cleanEndpoint}/openai/deployments/${config.azureDeployment}`,
-      apiKey: config.apiKey,
-      defaultQuery: { "api-version": config.azureApiVersion },
-      defaultHeaders: { "api-key": config.apiKey },
-      timeout: 180000, // 3 minutes for private endpoint latency
-    });
-  } else {
-    client = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: config.baseUrl,
-      timeout: 180000, // 3 minutes for private endpoint latency
-    });
-  }
+  const { client, model } = await getLlmClient("analysis");
 
   const systemPrompt = `You are an enterprise architect analyzing business cases to extract conceptual architecture components.
 
@@ -64,7 +44,7 @@ Return your response as a JSON object matching this structure:
 }`;
 
   const response = await client.chat.completions.create({
-    model: config.useAzure ? config.azureDeployment : "gpt-4o",
+    model,
     messages: [
       { role: "system", content: systemPrompt },
       { role: "user", content: `Analyze this business case:\n\n${businessCaseContent}` }
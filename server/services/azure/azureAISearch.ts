@@ -247,6 +247,25 @@ export class AzureAISearchService {
     }
   }
 
+  /**
+   * Partially update documents (fields not given, such as the embedding, are left unchanged)
+   */
+  async mergeDocuments(documents: Array<Partial<SearchDocument> & { id: string }>): Promise<void> {
+    if (!this.searchClient) {
+      await this.initialize();
+    }
+
+    if (!this.searchClient) {
+      throw new Error("Search client not initialized");
+    }
+
+    const batchSize = 1000;
+    for (let i = 0; i < documents.length; i += batchSize) {
+      // The SDK types merges as full documents; the service only updates the fields sent
+      await this.searchClient.mergeDocuments(documents.slice(i, i + batchSize) as SearchDocument[]);
+    }
+  }
+
   async deleteDocuments(documentIds: string[]): Promise<void> {
     if (!this.searchClient) {
       await this.initialize();
@@ -1,5 +1,6 @@
 import { BlobServiceClient, ContainerClient, BlobSASPermissions, generateBlobSASQueryParameters, StorageSharedKeyCredential } from "@azure/storage-blob";
 import { ConfigHelper } from "../core/configHelpers";
+import type { FileStorageProvider } from "../core/fileStorage";
 
 // Helper function to sanitize metadata values for Azure Blob Storage
 // Azure metadata only allows ASCII characters
@@ -18,13 +19,18 @@ function sanitizeMetadata(metadata?: Record<string, string>): Record<string, str
   return sanitized;
 }
 
-export class AzureBlobStorageService {
+export class AzureBlobStorageService implements FileStorageProvider {
+  readonly name = "azure" as const;
   private client: BlobServiceClient | null = null;
   private containerClient: ContainerClient | null = null;
   private containerName = "intellibid-documents";
   private credential: StorageSharedKeyCredential | null = null;
   private accountName: string = "";
 
+  get location(): string {
+    return this.containerName;
+  }
+
   async initialize(): Promise<void> {
     // Use ConfigHelper to get configuration from environment variables
     const { connectionString } = ConfigHelper.getAzureStorageConfig();
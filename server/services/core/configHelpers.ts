@@ -93,6 +93,37 @@ export class ConfigHelper {
     return { connectionString };
   }
 
+  /**
+   * Get file storage settings from environment variables
+   * FILE_STORAGE_PROVIDER: "azure" (default, Azure Blob Storage) or "local" (files on this server's disk)
+   * FILE_STORAGE_LOCAL_PATH: directory of the local provider (default ./data/files)
+   * FILE_STORAGE_SIGNING_KEY: key for the local provider's signed download URLs (default SESSION_SECRET)
+   * FILE_STORAGE_PUBLIC_URL: origin prefixed to signed download URLs (default: relative /api/files/... URLs)
+   */
+  static getFileStorageConfig(): {
+    provider: "azure" | "local";
+    localPath: string;
+    signingKey?: string;
+    publicUrl: string;
+  } {
+    const provider = (this.getConfigValue("FILE_STORAGE_PROVIDER") || "azure").toLowerCase();
+    if (provider !== "azure" && provider !== "local") {
+      throw new Error(`Unknown FILE_STORAGE_PROVIDER '${provider}'. Supported values are azure and local.`);
+    }
+
+    const signingKey = this.getConfigValue("FILE_STORAGE_SIGNING_KEY") || this.getConfigValue("SESSION_SECRET");
+    if (provider === "local" && !signingKey) {
+      throw new Error("FILE_STORAGE_PROVIDER=local requires FILE_STORAGE_SIGNING_KEY (or SESSION_SECRET) to sign download URLs.");
+    }
+
+    return {
+      provider,
+      localPath: this.getConfigValue("FILE_STORAGE_LOCAL_PATH") || "./data/files",
+      signingKey,
+      publicUrl: (this.getConfigValue("FILE_STORAGE_PUBLIC_URL") || "").replace(/\/+$/, ""),
+    };
+  }
+
   /**
    * Get Agents OpenAI configuration (Azure or regular OpenAI) from environment variables
    */
@@ -166,4 +197,139 @@ export class ConfigHelper {
       "or use existing AZURE_OPENAI_KEY in Replit Secrets."
     );
   }
+
+  /**
+   * Get RAG backend selection from environment variables
+   * RAG_VECTOR_STORE: "azure" (default), "pgvector" or "memory"
+   * RAG_EMBEDDING_PROVIDER: "azure" (default) or "local"
+   * RAG_EMBEDDING_DIMENSIONS: embedding width (default 1536, matching text-embedding-ada-002)
+   */
+  static getRagBackendConfig(): {
+    vectorStore: "azure" | "pgvector" | "memory";
+    embeddingProvider: "azure" | "local";
+    embeddingDimensions: number;
+  } {
+    const vectorStore = (this.getConfigValue("RAG_VECTOR_STORE") || "azure").toLowerCase();
+    const embeddingProvider = (this.getConfigValue("RAG_EMBEDDING_PROVIDER") || "azure").toLowerCase();
+
+    if (vectorStore !== "azure" && vectorStore !== "pgvector" && vectorStore !== "memory") {
+      throw new Error(
+        `Unknown RAG_VECTOR_STORE '${vectorStore}'. Supported values are azure, pgvector and memory.`
+      );
+    }
+
+    if (embeddingProvider !== "azure" && embeddingProvider !== "local") {
+      throw new Error(
+        `Unknown RAG_EMBEDDING_PROVIDER '${embeddingProvider}'. Supported values are azure and local.`
+      );
+    }
+
+    const embeddingDimensions = parseInt(this.getConfigValue("RAG_EMBEDDING_DIMENSIONS") || "1536", 10);
+    if (!Number.isFinite(embeddingDimensions) || embeddingDimensions < 1 || embeddingDimensions > 16000) {
+      throw new Error("RAG_EMBEDDING_DIMENSIONS must be a whole number between 1 and 16000.");
+    }
+
+    return { vectorStore, embeddingProvider, embeddingDimensions };
+  }
+
+  /**
+   * Get RAG retrieval pipeline settings from environment variables
+   * RAG_QUERY_REWRITE: "synonyms" (default), "llm" or "none"
+   * RAG_RERANKER: "none" (default), "llm" or "cross-encoder"
+   * RAG_RERANKER_URL / RAG_RERANKER_API_KEY: rerank endpoint for the cross-encoder reranker
+   */
+  static getRagRetrievalConfig(): {
+    queryRewrite: "synonyms" | "llm" | "none";
+    reranker: "none" | "llm" | "cross-encoder";
+    rerankerUrl?: string;
+    rerankerApiKey?: string;
+  } {
+    const queryRewrite = (this.getConfigValue("RAG_QUERY_REWRITE") || "synonyms").toLowerCase();
+    const reranker = (this.getConfigValue("RAG_RERANKER") || "none").toLowerCase();
+
+    if (queryRewrite !== "synonyms" && queryRewrite !== "llm" && queryRewrite !== "none") {
+      throw new Error(
+        `Unknown RAG_QUERY_REWRITE '${queryRewrite}'. Supported values are synonyms, llm and none.`
+      );
+    }
+
+    if (reranker !== "none" && reranker !== "llm" && reranker !== "cross-encoder") {
+      throw new Error(
+        `Unknown RAG_RERANKER '${reranker}'. Supported values are none, llm and cross-encoder.`
+      );
+    }
+
+    const rerankerUrl = this.getConfigValue("RAG_RERANKER_URL");
+    if (reranker === "cross-encoder" && !rerankerUrl) {
+      throw new Error("RAG_RERANKER=cross-encoder requires RAG_RERANKER_URL (e.g. a text-embeddings-inference /rerank endpoint).");
+    }
+
+    return {
+      queryRewrite,
+      reranker,
+      rerankerUrl,
+      rerankerApiKey: this.getConfigValue("RAG_RERANKER_API_KEY"),
+    };
+  }
+
+  /**
+   * Limits on MCP tools called by evaluation agents during their LLM conversation
+   * MCP_AGENT_MAX_TOOL_CALLS: tool calls per agent (default 5, 0 turns on-demand tools off)
+   * MCP_AGENT_TOOL_TOKEN_BUDGET: tokens an agent may spend before it must answer (default 50000)
+   */
+  static getAgentToolCallingConfig(): {
+    maxToolCalls: number;
+    tokenBudget: number;
+  } {
+    const maxToolCalls = parseInt(this.getConfigValue("MCP_AGENT_MAX_TOOL_CALLS") || "5", 10);
+    if (!Number.isFinite(maxToolCalls) || maxToolCalls < 0) {
+      throw new Error("MCP_AGENT_MAX_TOOL_CALLS must be a whole number (0 to disable agent tool calls).");
+    }
+
+    const tokenBudget = parseInt(this.getConfigValue("MCP_AGENT_TOOL_TOKEN_BUDGET") || "50000", 10);
+    if (!Number.isFinite(tokenBudget) || tokenBudget < 1000) {
+      throw new Error("MCP_AGENT_TOOL_TOKEN_BUDGET must be a number of tokens (at least 1000).");
+    }
+
+    return { maxToolCalls, tokenBudget };
+  }
+
+  /**
+   * Background job queue settings. JOB_QUEUE_WORKER=false makes this instance queue jobs without
+   * running them (e.g. when a separate worker instance handles them). JOB_CONCURRENCY_<TYPE>
+   * (such as JOB_CONCURRENCY_PROJECT_EVALUATION=2) overrides a job type's concurrency.
+   */
+  static getJobQueueConfig(): {
+    workerEnabled: boolean;
+    pollIntervalMs: number;
+  } {
+    const worker = (this.getConfigValue("JOB_QUEUE_WORKER") || "true").toLowerCase();
+    if (worker !== "true" && worker !== "false") {
+      throw new Error(`Unknown JOB_QUEUE_WORKER '${worker}'. Supported values are true and false.`);
+    }
+
+    const pollIntervalMs = parseInt(this.getConfigValue("JOB_QUEUE_POLL_INTERVAL_MS") || "2000", 10);
+    if (!Number.isFinite(pollIntervalMs) || pollIntervalMs < 100) {
+      throw new Error("JOB_QUEUE_POLL_INTERVAL_MS must be a number of milliseconds (at least 100).");
+    }
+
+    return { workerEnabled: worker === "true", pollIntervalMs };
+  }
+
+  /**
+   * Concurrent jobs of a type per server instance (JOB_CONCURRENCY_<TYPE>, else the handler default)
+   */
+  static getJobConcurrency(type: string, defaultConcurrency: number): number {
+    const envVar = `JOB_CONCURRENCY_${type.toUpperCase()}`;
+    const value = this.getConfigValue(envVar);
+    if (!value) {
+      return defaultConcurrency;
+    }
+
+    const concurrency = parseInt(value, 10);
+    if (!Number.isFinite(concurrency) || concurrency < 1) {
+      throw new Error(`${envVar} must be a positive whole number.`);
+    }
+    return concurrency;
+  }
 }
@@ -0,0 +1,246 @@
+/**
+ * File Storage
+ *
+ * Uploaded and generated documents (templates, RFT packs, questionnaires, vendor responses,
+ * knowledge base sources) behind one interface, selected with FILE_STORAGE_PROVIDER (see ConfigHelper):
+ * - azure: Azure Blob Storage container "intellibid-documents" with SAS download URLs (default)
+ * - local: files under FILE_STORAGE_LOCAL_PATH with signed, expiring download URLs served by
+ *   GET /api/files/*, so the app runs without any cloud storage
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { azureBlobStorageService } from "../azure/azureBlobStorage";
+import { ConfigHelper } from "./configHelpers";
+
+export interface FileStorageProvider {
+  readonly name: "azure" | "local";
+  readonly location: string; // Container name or directory, for diagnostics
+  initialize(): Promise<void>;
+  isConfigured(): boolean;
+  // Names containing a "/" are used as-is (replacing an existing file); bare file names get a timestamp prefix
+  uploadDocument(fileName: string, content: Buffer, metadata?: Record<string, string>): Promise<{ blobUrl: string; blobName: string }>;
+  downloadDocument(blobName: string): Promise<Buffer>;
+  deleteDocument(blobName: string): Promise<void>;
+  listDocuments(prefix?: string): Promise<string[]>;
+  deleteAllDocuments(): Promise<number>;
+  // Read-only download URL that stops working after expiryHours
+  generateSasUrl(blobName: string, expiryHours?: number): Promise<string>;
+}
+
+// Route serving the local provider's signed download URLs (registered in routes.ts, exempt from sign-in)
+export const SIGNED_FILE_ROUTE_PREFIX = "/api/files/";
+
+const AZURE_CONTAINER_PATH = "/intellibid-documents/";
+
+// Upload metadata is kept beside the files, outside the listed namespace
+const METADATA_DIR = ".metadata";
+
+/**
+ * Local-disk provider. Blob names map to paths under the root directory; download URLs carry an
+ * expiry timestamp and an HMAC-SHA256 signature of the blob name and expiry.
+ */
+export class LocalFileStorage implements FileStorageProvider {
+  readonly name = "local" as const;
+  readonly location: string;
+  private initialized = false;
+
+  constructor(
+    rootPath: string,
+    private readonly signingKey: string,
+    private readonly publicUrl: string = ""
+  ) {
+    this.location = path.resolve(rootPath);
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.location, { recursive: true });
+    this.initialized = true;
+  }
+
+  isConfigured(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Absolute path of a blob; rejects names that would escape the root directory
+   */
+  private resolvePath(blobName: string, root: string = this.location): string {
+    const segments = blobName.replace(/\\/g, "/").split("/");
+    if (segments.some(segment => segment === "" || segment === "." || segment === "..") || segments[0] === METADATA_DIR) {
+      throw new Error(`Invalid file name: ${blobName}`);
+    }
+    return path.join(root, ...segments);
+  }
+
+  private metadataPath(blobName: string): string {
+    return `${this.resolvePath(blobName, path.join(this.location, METADATA_DIR))}.json`;
+  }
+
+  async uploadDocument(
+    fileName: string,
+    content: Buffer,
+    metadata?: Record<string, string>
+  ): Promise<{ blobUrl: string; blobName: string }> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    // Same naming as the Azure provider, so stored blob names stay valid across providers
+    const normalizedFileName = fileName.replace(/\\/g, "/");
+    const blobName = normalizedFileName.includes("/") ? normalizedFileName : `${Date.now()}-${normalizedFileName}`;
+
+    const filePath = this.resolvePath(blobName);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    if (metadata) {
+      const metadataPath = this.metadataPath(blobName);
+      await fs.mkdir(path.dirname(metadataPath), { recursive: true });
+      await fs.writeFile(metadataPath, JSON.stringify(metadata));
+    }
+
+    return {
+      blobUrl: await this.generateSasUrl(blobName, 24),
+      blobName,
+    };
+  }
+
+  private sign(blobName: string, expires: number): string {
+    return createHmac("sha256", this.signingKey).update(`${blobName}\n${expires}`).digest("base64url");
+  }
+
+  async generateSasUrl(blobName: string, expiryHours: number = 24): Promise<string> {
+    this.resolvePath(blobName);
+    const expires = Date.now() + expiryHours * 60 * 60 * 1000;
+    const encodedName = blobName.split("/").map(encodeURIComponent).join("/");
+    return `${this.publicUrl}${SIGNED_FILE_ROUTE_PREFIX}${encodedName}?expires=${expires}&signature=${this.sign(blobName, expires)}`;
+  }
+
+  /**
+   * Check a download URL's expiry and signature (constant-time comparison)
+   */
+  verifySignedUrl(blobName: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(blobName, expires));
+    const supplied = Buffer.from(signature);
+    return expected.length === supplied.length && timingSafeEqual(expected, supplied);
+  }
+
+  async downloadDocument(blobName: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(blobName));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        throw new Error(`File not found: ${blobName}`);
+      }
+      throw error;
+    }
+  }
+
+  async deleteDocument(blobName: string): Promise<void> {
+    await fs.rm(this.resolvePath(blobName), { force: true });
+    await fs.rm(this.metadataPath(blobName), { force: true });
+  }
+
+  async listDocuments(prefix?: string): Promise<string[]> {
+    const blobNames: string[] = [];
+
+    const walk = async (directory: string, relative: string) => {
+      let entries;
+      try {
+        entries = await fs.readdir(directory, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          return;
+        }
+        throw error;
+      }
+      for (const entry of entries) {
+        const blobName = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          if (blobName !== METADATA_DIR) {
+            await walk(path.join(directory, entry.name), blobName);
+          }
+        } else if (!prefix || blobName.startsWith(prefix)) {
+          blobNames.push(blobName);
+        }
+      }
+    };
+
+    await walk(this.location, "");
+    // Lexicographic, like Azure's flat listing
+    return blobNames.sort();
+  }
+
+  async deleteAllDocuments(): Promise<number> {
+    const blobNames = await this.listDocuments();
+    for (const blobName of blobNames) {
+      await fs.rm(this.resolvePath(blobName), { force: true });
+    }
+    await fs.rm(path.join(this.location, METADATA_DIR), { recursive: true, force: true });
+    return blobNames.length;
+  }
+}
+
+const providers: Partial<Record<FileStorageProvider["name"], FileStorageProvider>> = {};
+
+/**
+ * File storage provider selected by FILE_STORAGE_PROVIDER
+ */
+export function getFileStorage(): FileStorageProvider {
+  const config = ConfigHelper.getFileStorageConfig();
+  if (!providers[config.provider]) {
+    providers[config.provider] = config.provider === "local"
+      ? new LocalFileStorage(config.localPath, config.signingKey!, config.publicUrl)
+      : azureBlobStorageService;
+  }
+  return providers[config.provider]!;
+}
+
+/**
+ * Blob name behind a stored download URL, for records that only kept the URL: an Azure SAS URL
+ * (.../intellibid-documents/<blob name>?sv=...) or a local signed URL (/api/files/<blob name>?expires=...)
+ */
+export function blobNameFromUrl(blobUrl: string): string {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(blobUrl, "http://localhost").pathname);
+  } catch (error) {
+    // Malformed percent-encoding (URIError) or an unparseable URL
+    throw new Error(`Invalid file URL format: ${blobUrl}`);
+  }
+
+  for (const marker of [AZURE_CONTAINER_PATH, SIGNED_FILE_ROUTE_PREFIX]) {
+    const index = pathname.toLowerCase().indexOf(marker);
+    if (index !== -1 && index + marker.length < pathname.length) {
+      return pathname.substring(index + marker.length);
+    }
+  }
+
+  throw new Error(
+    `Invalid file URL format: ${blobUrl}. ` +
+    `Expected an '${AZURE_CONTAINER_PATH}' container path or a '${SIGNED_FILE_ROUTE_PREFIX}' download URL.`
+  );
+}
+
+/**
+ * Short-lived download URL for a stored file, signed when it is read rather than kept in the row
+ * (the URL returned at upload expires after 24 hours). Falls back to the blob name behind a
+ * legacy stored URL; null when the record has no usable file reference.
+ */
+export async function getDownloadUrl(
+  file: { blobName?: string | null; blobUrl?: string | null },
+  expiryHours: number = 1
+): Promise<string | null> {
+  try {
+    const blobName = file.blobName || (file.blobUrl ? blobNameFromUrl(file.blobUrl) : null);
+    return blobName ? await getFileStorage().generateSasUrl(blobName, expiryHours) : null;
+  } catch (error) {
+    console.warn(`[File Storage] Could not create download link for ${file.blobName || file.blobUrl}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,504 @@
+/**
+ * Background Job Queue
+ *
+ * Postgres-backed queue for long-running AI work (evaluations, RFT packs, mock data, RAG ingestion).
+ * Jobs are rows in the jobs table, so queued and interrupted work survives restarts:
+ * - Workers claim due jobs with FOR UPDATE SKIP LOCKED, so each job runs on one instance at a time
+ * - Failed attempts are retried with exponential backoff until maxAttempts is reached
+ * - Each job type runs at most `concurrency` jobs per instance (JOB_CONCURRENCY_<TYPE> overrides it)
+ * - Running jobs send a heartbeat; jobs whose worker died are picked up again by the next worker
+ * - Cancellation aborts the handler's AbortSignal; handlers check it between steps
+ */
+
+import { and, desc, eq, inArray, lt, sql, type SQL } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { jobs, type Job, type JobStatus } from "@shared/schema";
+import { db } from "../../db";
+import { ConfigHelper } from "./configHelpers";
+
+export interface JobContext<TPayload = any> {
+  job: Job;
+  payload: TPayload;
+  signal: AbortSignal; // Aborted when the job is cancelled or the server shuts down
+  reportProgress(progress: Record<string, any>): Promise<void>;
+  throwIfCancelled(): void;
+}
+
+export type JobHandler<TPayload = any> = (context: JobContext<TPayload>) => Promise<unknown>;
+
+export interface JobHandlerOptions {
+  concurrency?: number; // Jobs of this type running at once on this instance (default 1)
+  maxAttempts?: number; // Default 3
+  backoffMs?: number; // Delay before the first retry, doubled for each further retry (default 30s)
+  // Called once a job will not run again (out of attempts or cancelled), e.g. to reset record status
+  onFailure?: (job: Job, error: string) => Promise<void>;
+}
+
+export interface EnqueueOptions {
+  resourceId?: string;
+  createdBy?: string | null;
+  maxAttempts?: number;
+  // Return the queued or running job of this type for the same resource instead of adding another
+  // (enforced by a unique index, so concurrent requests cannot both queue one)
+  unique?: boolean;
+}
+
+export interface JobListFilter {
+  type?: string;
+  status?: JobStatus;
+  resourceId?: string;
+  createdBy?: string;
+  limit?: number;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job was cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+interface JobRegistration {
+  handler: JobHandler;
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+  onFailure?: JobHandlerOptions["onFailure"];
+}
+
+interface ActiveJob {
+  controller: AbortController;
+  cancelled: boolean;
+  done: Promise<void>;
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ["queued", "running"];
+const HEARTBEAT_INTERVAL_MS = 15000;
+// Running jobs without a heartbeat for this long belong to a worker that stopped
+const STALE_LOCK_MS = 2 * 60 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// How long shutdown waits for running handlers before handing their jobs back to the queue
+const SHUTDOWN_GRACE_MS = 10000;
+const DEFAULT_LIST_LIMIT = 100;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+class JobQueueService {
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private registrations = new Map<string, JobRegistration>();
+  private running = new Map<string, Map<string, ActiveJob>>(); // type -> job ID -> active job
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopping = false;
+  private lastRecovery = 0;
+
+  /**
+   * Register the handler for a job type (before start)
+   */
+  register<TPayload>(type: string, handler: JobHandler<TPayload>, options: JobHandlerOptions = {}): void {
+    this.registrations.set(type, {
+      handler,
+      concurrency: ConfigHelper.getJobConcurrency(type, options.concurrency ?? 1),
+      maxAttempts: options.maxAttempts ?? 3,
+      backoffMs: options.backoffMs ?? 30000,
+      onFailure: options.onFailure,
+    });
+    this.running.set(type, new Map());
+  }
+
+  async enqueue<TPayload>(type: string, payload: TPayload, options: EnqueueOptions = {}): Promise<Job> {
+    const registration = this.registrations.get(type);
+    if (!registration) {
+      throw new Error(`Unknown job type: ${type}`);
+    }
+
+    const uniqueKey = options.unique ? options.resourceId ?? null : null;
+    const values: typeof jobs.$inferInsert = {
+      type,
+      status: "queued",
+      payload,
+      maxAttempts: options.maxAttempts ?? registration.maxAttempts,
+      resourceId: options.resourceId ?? null,
+      uniqueKey,
+      createdBy: options.createdBy ?? null,
+    };
+
+    let job: Job | undefined;
+    if (uniqueKey) {
+      // jobs_active_unique_key_idx allows one queued or running job per type and key; the loop
+      // covers the active job finishing between the conflicting insert and the lookup
+      for (let attempt = 0; attempt < 3; attempt++) {
+        [job] = await db.insert(jobs).values(values)
+          .onConflictDoNothing({ target: [jobs.type, jobs.uniqueKey], where: sql`status IN ('queued', 'running')` })
+          .returning();
+        if (job) break;
+
+        const [existing] = await db.select().from(jobs)
+          .where(and(eq(jobs.type, type), eq(jobs.uniqueKey, uniqueKey), inArray(jobs.status, ACTIVE_STATUSES)))
+          .limit(1);
+        if (existing) {
+          return existing;
+        }
+      }
+      if (!job) {
+        throw new Error(`Could not queue ${type} job for ${uniqueKey}`);
+      }
+    } else {
+      [job] = await db.insert(jobs).values(values).returning();
+    }
+    console.log(`[Jobs] Queued ${type} job ${job.id}${job.resourceId ? ` for ${job.resourceId}` : ""}`);
+
+    if (this.pollTimer) {
+      setImmediate(() => void this.poll());
+    }
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<Job[]> {
+    const conditions: SQL[] = [];
+    if (filter.type) conditions.push(eq(jobs.type, filter.type));
+    if (filter.status) conditions.push(eq(jobs.status, filter.status));
+    if (filter.resourceId) conditions.push(eq(jobs.resourceId, filter.resourceId));
+    if (filter.createdBy) conditions.push(eq(jobs.createdBy, filter.createdBy));
+
+    return db.select().from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filter.limit ?? DEFAULT_LIST_LIMIT);
+  }
+
+  /**
+   * Latest job of a type for a resource (any status)
+   */
+  async getLatestJob(type: string, resourceId?: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs)
+      .where(resourceId ? and(eq(jobs.type, type), eq(jobs.resourceId, resourceId)) : eq(jobs.type, type))
+      .orderBy(desc(jobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled at once; running jobs are asked to stop and are marked
+   * cancelled when their handler returns. Returns undefined if the job has already finished.
+   */
+  async cancelJob(id: string): Promise<Job | undefined> {
+    const [queued] = await db.update(jobs)
+      .set({ status: "cancelled", cancelRequestedAt: new Date(), completedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "queued")))
+      .returning();
+    if (queued) {
+      console.log(`[Jobs] Cancelled queued ${queued.type} job ${id}`);
+      await this.notifyFailure(queued, "Cancelled");
+      return queued;
+    }
+
+    const [running] = await db.update(jobs)
+      .set({ cancelRequestedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running")))
+      .returning();
+    if (!running) {
+      return undefined;
+    }
+
+    // Abort now when the job runs here; other instances notice on their next heartbeat
+    const active = this.running.get(running.type)?.get(id);
+    if (active) {
+      active.cancelled = true;
+      active.controller.abort();
+    }
+    console.log(`[Jobs] Cancellation requested for running ${running.type} job ${id}`);
+    return running;
+  }
+
+  /**
+   * Queue a failed or cancelled job again with a fresh set of attempts. Unique jobs are not
+   * retried while another job of the same type and key is queued or running.
+   */
+  async retryJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({
+        status: "queued",
+        attempts: 0,
+        runAt: new Date(),
+        error: null,
+        result: null,
+        progress: null,
+        cancelRequestedAt: null,
+        startedAt: null,
+        completedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(jobs.id, id),
+        inArray(jobs.status, ["failed", "cancelled"]),
+        sql`(${jobs.uniqueKey} IS NULL OR NOT EXISTS (
+          SELECT 1 FROM jobs active
+          WHERE active.type = ${jobs.type} AND active.unique_key = ${jobs.uniqueKey} AND active.status IN ('queued', 'running')
+        ))`,
+      ))
+      .returning();
+    if (job) {
+      console.log(`[Jobs] Retrying ${job.type} job ${id}`);
+      if (this.pollTimer) {
+        setImmediate(() => void this.poll());
+      }
+    }
+    return job;
+  }
+
+  /**
+   * Start claiming and running jobs on this instance (no-op when JOB_QUEUE_WORKER=false)
+   */
+  start(): void {
+    const { workerEnabled, pollIntervalMs } = ConfigHelper.getJobQueueConfig();
+    if (!workerEnabled) {
+      console.log("[Jobs] Worker disabled (JOB_QUEUE_WORKER=false); jobs are queued for another instance");
+      return;
+    }
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.stopping = false;
+    this.pollTimer = setInterval(() => void this.poll(), pollIntervalMs);
+    console.log(`[Jobs] Worker ${this.workerId} started for: ${Array.from(this.registrations.keys()).join(", ")}`);
+    void this.poll();
+  }
+
+  /**
+   * Stop claiming jobs and abort running handlers. Jobs still running after a short grace period
+   * are handed back to the queue (without using up an attempt) for the next worker.
+   */
+  async stop(): Promise<void> {
+    if (!this.pollTimer) {
+      return;
+    }
+    clearInterval(this.pollTimer);
+    this.pollTimer = null;
+    this.stopping = true;
+
+    const active = Array.from(this.running.values()).flatMap(jobsOfType => Array.from(jobsOfType.values()));
+    active.forEach(job => job.controller.abort());
+    await Promise.race([
+      Promise.all(active.map(job => job.done)),
+      new Promise(resolve => setTimeout(resolve, SHUTDOWN_GRACE_MS)),
+    ]);
+
+    const released = await db.update(jobs)
+      .set({ status: "queued", attempts: sql`GREATEST(${jobs.attempts} - 1, 0)`, lockedBy: null, lockedAt: null, updatedAt: new Date() })
+      .where(and(eq(jobs.status, "running"), eq(jobs.lockedBy, this.workerId)))
+      .returning({ id: jobs.id });
+    console.log(`[Jobs] Worker stopped${released.length > 0 ? `, ${released.length} running job(s) returned to the queue` : ""}`);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopping) {
+      return;
+    }
+    this.polling = true;
+    try {
+      if (Date.now() - this.lastRecovery > STALE_LOCK_MS / 2) {
+        this.lastRecovery = Date.now();
+        await this.recoverStaleJobs();
+      }
+
+      for (const [type, registration] of Array.from(this.registrations.entries())) {
+        const active = this.running.get(type)!;
+        while (!this.stopping && active.size < registration.concurrency) {
+          const job = await this.claim(type);
+          if (!job) break;
+          this.execute(job, registration);
+        }
+      }
+    } catch (error) {
+      console.error("[Jobs] Polling failed:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async claim(type: string): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({
+        status: "running",
+        lockedBy: this.workerId,
+        lockedAt: new Date(),
+        attempts: sql`${jobs.attempts} + 1`,
+        startedAt: sql`COALESCE(${jobs.startedAt}, now())`,
+        updatedAt: new Date(),
+      })
+      .where(sql`${jobs.id} = (
+        SELECT id FROM jobs
+        WHERE type = ${type} AND status = 'queued' AND run_at <= now()
+        ORDER BY run_at
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )`)
+      .returning();
+    return job;
+  }
+
+  /**
+   * Re-queue running jobs whose worker stopped sending heartbeats (crash or restart); jobs that
+   * have used all their attempts fail instead
+   */
+  private async recoverStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+    const stale = await db.select().from(jobs)
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore)));
+
+    for (const job of stale) {
+      const exhausted = job.attempts >= job.maxAttempts;
+      const [recovered] = await db.update(jobs)
+        .set(exhausted
+          ? { status: "failed", error: "Worker stopped while running the job", lockedBy: null, completedAt: new Date(), updatedAt: new Date() }
+          : { status: "queued", runAt: new Date(), lockedBy: null, lockedAt: null, updatedAt: new Date() })
+        .where(and(eq(jobs.id, job.id), eq(jobs.status, "running"), lt(jobs.lockedAt, staleBefore)))
+        .returning();
+      if (!recovered) continue;
+
+      console.log(`[Jobs] Recovered ${job.type} job ${job.id} from stopped worker ${job.lockedBy} (${recovered.status})`);
+      if (exhausted) {
+        await this.notifyFailure(recovered, recovered.error || "Worker stopped");
+      }
+    }
+  }
+
+  private execute(job: Job, registration: JobRegistration): void {
+    const controller = new AbortController();
+    const active: ActiveJob = { controller, cancelled: false, done: Promise.resolve() };
+    this.running.get(job.type)!.set(job.id, active);
+
+    const heartbeat = setInterval(() => void this.heartbeat(job, active), HEARTBEAT_INTERVAL_MS);
+    const context: JobContext = {
+      job,
+      payload: job.payload,
+      signal: controller.signal,
+      reportProgress: async (progress) => {
+        await db.update(jobs).set({ progress, updatedAt: new Date() }).where(eq(jobs.id, job.id));
+      },
+      throwIfCancelled: () => {
+        if (controller.signal.aborted) {
+          throw new JobCancelledError();
+        }
+      },
+    };
+
+    console.log(`[Jobs] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+    active.done = registration.handler(context)
+      .then(result => this.complete(job, result))
+      .catch(error => this.fail(job, registration, active, error))
+      .catch(error => console.error(`[Jobs] Failed to record the outcome of job ${job.id}:`, error))
+      .finally(() => {
+        clearInterval(heartbeat);
+        this.running.get(job.type)!.delete(job.id);
+        // A slot is free: pick up the next job without waiting for the poll interval
+        if (this.pollTimer) {
+          setImmediate(() => void this.poll());
+        }
+      });
+  }
+
+  private async heartbeat(job: Job, active: ActiveJob): Promise<void> {
+    try {
+      const [row] = await db.update(jobs)
+        .set({ lockedAt: new Date() })
+        .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.workerId), eq(jobs.status, "running")))
+        .returning({ cancelRequestedAt: jobs.cancelRequestedAt });
+
+      // Cancelled from another instance, or the job was taken over after a missed heartbeat
+      if (!row || row.cancelRequestedAt) {
+        active.cancelled = true;
+        active.controller.abort();
+      }
+    } catch (error) {
+      console.error(`[Jobs] Heartbeat failed for job ${job.id}:`, error);
+    }
+  }
+
+  private async complete(job: Job, result: unknown): Promise<void> {
+    await db.update(jobs)
+      .set({
+        status: "completed",
+        result: result ?? null,
+        error: null,
+        lockedBy: null,
+        completedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.workerId)));
+    console.log(`[Jobs] Completed ${job.type} job ${job.id}`);
+  }
+
+  private async fail(job: Job, registration: JobRegistration, active: ActiveJob, error: unknown): Promise<void> {
+    const message = errorMessage(error);
+    const owned = and(eq(jobs.id, job.id), eq(jobs.lockedBy, this.workerId));
+
+    // Shutdown interrupted the job: stop() hands it back to the queue
+    if (this.stopping && !active.cancelled) {
+      console.log(`[Jobs] ${job.type} job ${job.id} interrupted by shutdown`);
+      return;
+    }
+
+    if (active.cancelled) {
+      const [cancelled] = await db.update(jobs)
+        .set({ status: "cancelled", error: null, lockedBy: null, completedAt: new Date(), updatedAt: new Date() })
+        .where(owned)
+        .returning();
+      console.log(`[Jobs] Cancelled running ${job.type} job ${job.id}`);
+      if (cancelled) {
+        await this.notifyFailure(cancelled, "Cancelled");
+      }
+      return;
+    }
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = Math.min(registration.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+      await db.update(jobs)
+        .set({
+          status: "queued",
+          error: message,
+          runAt: new Date(Date.now() + delay),
+          lockedBy: null,
+          lockedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(owned);
+      console.warn(`[Jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s:`, message);
+      return;
+    }
+
+    const [failed] = await db.update(jobs)
+      .set({ status: "failed", error: message, lockedBy: null, completedAt: new Date(), updatedAt: new Date() })
+      .where(owned)
+      .returning();
+    console.error(`[Jobs] ${job.type} job ${job.id} failed after ${job.attempts} attempt(s):`, message);
+    if (failed) {
+      await this.notifyFailure(failed, message);
+    }
+  }
+
+  private async notifyFailure(job: Job, message: string): Promise<void> {
+    const onFailure = this.registrations.get(job.type)?.onFailure;
+    if (!onFailure) {
+      return;
+    }
+    try {
+      await onFailure(job, message);
+    } catch (error) {
+      console.error(`[Jobs] Failure handler for ${job.type} job ${job.id} threw:`, error);
+    }
+  }
+}
+
+// Singleton instance
+export const jobQueue = new JobQueueService();
@@ -942,12 +942,12 @@ export async function wipeAllData() {
     console.log("\n🔵 Starting Azure cleanup...");
     
     try {
-      const { azureBlobStorageService } = await import("./azureBlobStorage");
-      const blobCount = await azureBlobStorageService.deleteAllDocuments();
+      const { getFileStorage } = await import("./fileStorage");
+      const blobCount = await getFileStorage().deleteAllDocuments();
       deletionSummary.azure.blobDocuments = blobCount;
-      console.log(`✓ Deleted ${blobCount} documents from Azure Blob Storage`);
+      console.log(`✓ Deleted ${blobCount} documents from file storage`);
     } catch (error: any) {
-      console.log(`⚠️  Azure Blob Storage cleanup skipped: ${error.message}`);
+      console.log(`⚠️  File storage cleanup skipped: ${error.message}`);
     }
     
     try {
@@ -982,14 +982,14 @@ export async function wipeAzureOnly() {
       },
     };
     
-    // Delete Azure Blob Storage documents
+    // Delete stored documents (Azure Blob Storage or local file storage)
     try {
-      const { azureBlobStorageService } = await import("./azureBlobStorage");
-      const blobCount = await azureBlobStorageService.deleteAllDocuments();
+      const { getFileStorage } = await import("./fileStorage");
+      const blobCount = await getFileStorage().deleteAllDocuments();
       deletionSummary.azure.blobDocuments = blobCount;
-      console.log(`✓ Deleted ${blobCount} documents from Azure Blob Storage`);
+      console.log(`✓ Deleted ${blobCount} documents from file storage`);
     } catch (error: any) {
-      console.log(`⚠️  Azure Blob Storage cleanup skipped: ${error.message}`);
+      console.log(`⚠️  File storage cleanup skipped: ${error.message}`);
     }
     
     // Delete Azure AI Search documents
@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { agentRoles } from "@shared/schema";
+import { MemStorage } from "../../storage";
+import type { AgentDiagnostics } from "../ai/multiAgentEvaluator";
+import { recomputeProjectEvaluations } from "./evaluationRecompute";
+import { applyCriterionOverride } from "./scoreOverrideService";
+
+const REVIEWER = { id: "user-1", name: "Dana Reviewer" };
+
+// Legacy evaluation: per-agent scores in diagnostics, every agent scoring 80
+async function seedEvaluation(storage: MemStorage) {
+  const project = await storage.createProject({ portfolioId: "portfolio-1", name: "Identity Platform" });
+  const diagnostics: AgentDiagnostics[] = agentRoles.map(role => ({
+    role,
+    executionTime: 1000,
+    tokenUsage: 500,
+    status: "success",
+    scores: { overall: 80, functionalFit: 80, technicalFit: 80, deliveryRisk: 20, compliance: 80 },
+    verdict: "recommended",
+  }));
+  const { evaluation } = await storage.createEvaluation({
+    projectId: project.id,
+    proposalId: "proposal-1",
+    overallScore: 80,
+    technicalFit: 80,
+    deliveryRisk: 20,
+    cost: "$1M",
+    compliance: 80,
+    status: "recommended",
+    agentDiagnostics: diagnostics,
+  });
+  const criteria = await Promise.all(["Protocols", "Hosting"].map(section =>
+    storage.createEvaluationCriteria({
+      evaluationId: evaluation.id,
+      role: "architecture",
+      section,
+      question: `How well does the proposal cover ${section.toLowerCase()}?`,
+      score: 80,
+      scoreLabel: "Good",
+    })
+  ));
+  return { project, evaluation, criteria };
+}
+
+describe("recomputeProjectEvaluations", () => {
+  it("re-aggregates evaluations without overrides from stored agent scores", async () => {
+    const storage = new MemStorage();
+    const { project, evaluation } = await seedEvaluation(storage);
+    await storage.updateEvaluation(evaluation.id, { overallScore: 10, status: "risk-flagged" });
+
+    const result = await recomputeProjectEvaluations(storage, project.id);
+
+    assert.equal(result.recomputed, 1);
+    assert.equal(result.changes[0].overridden, false);
+    assert.equal((await storage.getEvaluation(evaluation.id))?.status, "recommended");
+  });
+
+  it("keeps a reviewer's score override", async () => {
+    const storage = new MemStorage();
+    const { project, evaluation, criteria } = await seedEvaluation(storage);
+
+    const applied = await applyCriterionOverride(storage, criteria[0].id, {
+      score: 20,
+      scoreLabel: "Poor",
+      justification: "No SAML support in the proposed tier",
+    }, REVIEWER);
+    assert.equal(applied?.evaluation?.overallScore, 50);
+
+    const result = await recomputeProjectEvaluations(storage, project.id);
+
+    const recomputed = await storage.getEvaluation(evaluation.id);
+    assert.equal(recomputed?.overallScore, 50);
+    assert.equal(recomputed?.status, "under-review");
+    assert.equal(result.changes[0].overridden, true);
+    assert.equal((await storage.getScoreOverridesByEvaluation(evaluation.id))[0].newOverallScore, recomputed?.overallScore);
+  });
+});
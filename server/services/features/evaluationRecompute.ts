@@ -0,0 +1,144 @@
+import type { IStorage } from "../../storage";
+import type { Evaluation, InsertEvaluation, ScoringConfig } from "@shared/schema";
+import { aggregateResults, type AgentDiagnostics, type AgentResult } from "../ai/multiAgentEvaluator";
+import { buildMultiAgentSectionCompliance } from "../ai/aiAnalysis";
+import { attachProposalId } from "../ai/proposalEvidence";
+import { computeWeightedScores, resolveScoringConfig, type AgentScoreInput } from "../ai/scoringModel";
+import { reapplyScoreOverrides } from "./scoreOverrideService";
+
+export interface RecomputeResult {
+  recomputed: number;
+  skipped: number;
+  changes: Array<{
+    evaluationId: string;
+    proposalId: string;
+    // "full" rebuilds from stored agent results; "scores-only" uses legacy diagnostics (insights/rationale kept)
+    mode: "full" | "scores-only";
+    // Reviewers' criterion overrides were re-applied on top of the aggregated scores
+    overridden: boolean;
+    previous: { overallScore: number; status: string };
+    current: { overallScore: number; status: string };
+  }>;
+}
+
+/**
+ * Converts stored agent diagnostics into aggregation inputs.
+ * Returns null for legacy evaluations whose diagnostics predate per-agent score capture.
+ */
+function diagnosticsToAgentScores(diagnostics: unknown): AgentScoreInput[] | null {
+  if (!Array.isArray(diagnostics) || diagnostics.length === 0) {
+    return null;
+  }
+
+  const entries = diagnostics as AgentDiagnostics[];
+  if (!entries.every(d => d.scores)) {
+    return null;
+  }
+
+  return entries.map(d => ({
+    role: d.role,
+    scores: d.scores!,
+    status: d.verdict || "under-review",
+    succeeded: d.status === "success",
+  }));
+}
+
+/**
+ * Rebuilds a single evaluation from its stored agent outputs.
+ * Returns null when the evaluation has nothing stored to aggregate (single-agent or in-progress runs).
+ */
+function recomputeEvaluation(
+  evaluation: Evaluation,
+  scoringConfig: ScoringConfig
+): { mode: "full" | "scores-only"; updates: Partial<InsertEvaluation> } | null {
+  const agentResults = evaluation.agentResults as AgentResult[] | null;
+
+  if (Array.isArray(agentResults) && agentResults.length > 0) {
+    const aggregated = aggregateResults(agentResults, evaluation.cost, scoringConfig);
+    // Multi-agent section compliance mirrors the aggregated compliance score, so refresh it too
+    const sectionCompliance = Array.isArray(evaluation.sectionCompliance)
+      ? buildMultiAgentSectionCompliance(evaluation.sectionCompliance, aggregated.compliance)
+      : null;
+
+    return {
+      mode: "full",
+      updates: {
+        overallScore: aggregated.overallScore,
+        functionalFit: aggregated.functionalFit,
+        technicalFit: aggregated.technicalFit,
+        deliveryRisk: aggregated.deliveryRisk,
+        compliance: aggregated.compliance,
+        status: aggregated.status,
+        aiRationale: aggregated.rationale,
+        roleInsights: aggregated.roleInsights,
+        detailedScores: aggregated.detailedScores,
+        citations: attachProposalId(aggregated.citations, evaluation.proposalId),
+        ...(sectionCompliance ? { sectionCompliance } : {}),
+      },
+    };
+  }
+
+  const agentScores = diagnosticsToAgentScores(evaluation.agentDiagnostics);
+  if (!agentScores) {
+    return null;
+  }
+
+  const weighted = computeWeightedScores(agentScores, scoringConfig);
+  return {
+    mode: "scores-only",
+    updates: {
+      overallScore: weighted.overallScore,
+      functionalFit: weighted.functionalFit,
+      technicalFit: weighted.technicalFit,
+      deliveryRisk: weighted.deliveryRisk,
+      compliance: weighted.compliance,
+      status: weighted.status,
+      detailedScores: weighted.detailedScores,
+    },
+  };
+}
+
+/**
+ * Re-aggregates every evaluation in a project from stored agent outputs using the
+ * project's current scoring config. No LLM calls are made. Evaluations with score overrides
+ * keep their criteria-based scores. Hybrid Excel scores are derived from the stored scores
+ * when evaluations are read, so they follow automatically.
+ *
+ * @param storage - Storage instance
+ * @param projectId - Project ID
+ * @returns Counts of recomputed/skipped evaluations and the score changes applied
+ */
+export async function recomputeProjectEvaluations(
+  storage: IStorage,
+  projectId: string
+): Promise<RecomputeResult> {
+  const project = await storage.getProject(projectId);
+  const scoringConfig = resolveScoringConfig(project?.scoringConfig);
+  const evaluations = await storage.getEvaluationsByProject(projectId);
+
+  const result: RecomputeResult = { recomputed: 0, skipped: 0, changes: [] };
+
+  for (const evaluation of evaluations) {
+    const recomputed = recomputeEvaluation(evaluation, scoringConfig);
+    if (!recomputed) {
+      result.skipped++;
+      continue;
+    }
+
+    const { updates, overridden } = await reapplyScoreOverrides(storage, evaluation.id, recomputed.updates);
+    await storage.updateEvaluation(evaluation.id, updates);
+
+    result.recomputed++;
+    result.changes.push({
+      evaluationId: evaluation.id,
+      proposalId: evaluation.proposalId,
+      mode: recomputed.mode,
+      overridden,
+      previous: { overallScore: evaluation.overallScore, status: evaluation.status },
+      current: { overallScore: updates.overallScore!, status: updates.status! },
+    });
+  }
+
+  console.log(`✓ Recomputed ${result.recomputed} evaluations for project ${projectId} (${result.skipped} skipped without stored agent outputs)`);
+  return result;
+}
@@ -29,6 +29,7 @@ export async function generateEvaluationReportPdf(
 
       const evaluations = await storage.getEvaluationsByProject(projectId);
       const proposals = await storage.getProposalsByProject(projectId);
+      const overrides = await storage.getScoreOverridesByProject(projectId);
 
       const enrichedEvaluations: EvaluationData[] = evaluations.map((evaluation) => {
         const proposal = proposals.find((p) => p.id === evaluation.proposalId);
@@ -506,6 +507,31 @@ export async function generateEvaluationReportPdf(
         'Vendor financial stability assessment'
       ]);
       
+      doc.moveDown(0.5);
+      checkPageBreak(100);
+      doc.fontSize(11).fillColor('#0079F2').text('Annex E: Human Score Overrides', { underline: true });
+      doc.fontSize(10).fillColor('#000000').moveDown(0.3);
+      if (overrides.length === 0) {
+        doc.text('No evaluator scores were overridden during human review.');
+      } else {
+        doc.text(`${overrides.length} criterion score(s) were overridden during human review:`);
+        doc.moveDown(0.3);
+        // Oldest first so the annex reads as a chronological log
+        [...overrides].reverse().forEach((override, idx) => {
+          checkPageBreak(80);
+          const vendorName = enrichedEvaluations.find((e) => e.id === override.evaluationId)?.vendorName || 'Unknown Vendor';
+          const overallChange = override.previousOverallScore !== null && override.newOverallScore !== null
+            ? ` (overall ${override.previousOverallScore}% to ${override.newOverallScore}%)`
+            : '';
+          doc.text(`${idx + 1}. ${vendorName} - ${override.section}`, { indent: 10 });
+          doc.text(override.question, { indent: 20 });
+          doc.text(`Score changed from ${override.previousScore}% to ${override.newScore}%${overallChange}`, { indent: 20 });
+          doc.text(`Reviewer: ${override.reviewerName} on ${new Date(override.createdAt).toLocaleDateString()}`, { indent: 20 });
+          doc.text(`Justification: ${override.justification}`, { indent: 20 });
+          doc.moveDown(0.3);
+        });
+      }
+
       doc.moveDown(1);
       checkPageBreak(30);
       doc.fontSize(9).fillColor('#666666');
@@ -0,0 +1,379 @@
+import type { IStorage } from "../../storage";
+import type { EvaluationAgentRun, EvaluationRun, EvaluationRunStatus, Proposal, ScoringConfig } from "@shared/schema";
+import type { JobContext } from "../core/jobQueue";
+import { evaluationProgressService } from "../core/evaluationProgress";
+import { evaluateProposal } from "../ai/aiAnalysis";
+import type { AgentCheckpoint, AgentResult, AgentRole } from "../ai/multiAgentEvaluator";
+import { attachProposalId } from "../ai/proposalEvidence";
+import { resolveScoringConfig } from "../ai/scoringModel";
+import { getAddendaContextForProject } from "../rft/addendumService";
+import { reapplyScoreOverrides } from "./scoreOverrideService";
+import { synchronizeVendorStages } from "./vendorStageService";
+
+export const EVALUATION_AGENT_ROLES: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
+
+type AgentRunState = "succeeded" | "failed" | "pending";
+
+export interface EvaluationRunSummary {
+  run: EvaluationRun;
+  vendors: Array<{
+    proposalId: string;
+    vendorName: string;
+    documentType: string | null;
+    agents: Array<{
+      role: AgentRole;
+      status: AgentRunState;
+      attempts: number;
+      error: string | null;
+      completedAt: Date | null;
+    }>;
+  }>;
+  counts: Record<AgentRunState, number>;
+}
+
+export interface ResumeOptions {
+  proposalId?: string; // Only this vendor proposal
+  agentRole?: AgentRole; // Only this agent (other failed agents keep their fallback result)
+}
+
+/**
+ * Inputs shared by every proposal of a project evaluation: requirement analysis, scoring weights,
+ * addenda and the organization standard each proposal is checked against
+ */
+export interface ProjectEvaluationInputs {
+  requirementAnalysis: any;
+  scoringConfig: ScoringConfig;
+  addendaContext: string | undefined;
+  resolveProposal(proposal: Proposal): Promise<{ proposalAnalysis: any; standardData: any }>;
+}
+
+export async function loadProjectEvaluationInputs(storage: IStorage, projectId: string): Promise<ProjectEvaluationInputs> {
+  const requirements = await storage.getRequirementsByProject(projectId);
+  if (requirements.length === 0) {
+    throw new Error("No requirements found for project");
+  }
+
+  // Project-specific scoring weights (defaults when not configured)
+  const project = await storage.getProject(projectId);
+  const scoringConfig = resolveScoringConfig(project?.scoringConfig);
+
+  // Addenda issued after publication amend what the agents score against
+  const addendaContext = await getAddendaContextForProject(projectId);
+
+  // Use first requirement for evaluation criteria
+  const requirement = requirements[0];
+  const requirementAnalysis = requirement.extractedData as any;
+
+  // Check if there's a standard associated with requirements
+  let requirementStandardData: any = null;
+  if (requirement.standardId) {
+    const standard = await storage.getStandard(requirement.standardId);
+    if (standard && standard.isActive === "true") {
+      requirementStandardData = {
+        id: standard.id,
+        name: standard.name,
+        sections: (standard.sections || []) as any,
+        taggedSectionIds: (requirement.taggedSections || []) as any,
+      };
+    }
+  }
+
+  const resolveProposal = async (proposal: Proposal) => {
+    let proposalAnalysis = proposal.extractedData as any;
+
+    // If extractedData is null, create a minimal proposal analysis from proposal metadata
+    if (!proposalAnalysis) {
+      console.log(`  ⚠️ No extractedData found for ${proposal.vendorName}, creating from metadata...`);
+      proposalAnalysis = {
+        vendorName: proposal.vendorName,
+        technicalApproach: `Vendor response submitted via ${proposal.documentType} questionnaire (${proposal.fileName})`,
+        capabilities: [`Submitted ${proposal.documentType} questionnaire`],
+        costStructure: "To be determined from questionnaire responses",
+        fileName: proposal.fileName,
+        documentType: proposal.documentType,
+      };
+    }
+
+    // Determine which standard to use for this proposal
+    let standardData: any = null;
+    if (proposal.standardId) {
+      if (requirementStandardData && proposal.standardId === requirementStandardData.id) {
+        // Use requirement standard with proposal's tagged sections
+        standardData = {
+          ...requirementStandardData,
+          taggedSectionIds: proposal.taggedSections || requirementStandardData.taggedSectionIds,
+        };
+      } else {
+        // Fetch proposal's standard independently
+        const proposalStandard = await storage.getStandard(proposal.standardId);
+        if (proposalStandard && proposalStandard.isActive === "true") {
+          standardData = {
+            id: proposalStandard.id,
+            name: proposalStandard.name,
+            sections: (proposalStandard.sections || []) as any,
+            taggedSectionIds: (proposal.taggedSections || []) as any,
+          };
+        }
+      }
+    } else if (requirementStandardData) {
+      // Fall back to requirement standard
+      standardData = requirementStandardData;
+    }
+
+    return { proposalAnalysis, standardData };
+  };
+
+  return { requirementAnalysis, scoringConfig, addendaContext, resolveProposal };
+}
+
+/**
+ * Start the evaluation run for a job. A retried job (crash, timeout, manual retry) resumes the run
+ * its earlier attempt started, so agents that already finished are not run again.
+ */
+export async function startEvaluationRun(
+  storage: IStorage,
+  options: { projectId: string; trigger: "analysis" | "evaluation"; totalVendors: number; job?: JobContext["job"] }
+): Promise<EvaluationRun> {
+  const { projectId, trigger, totalVendors, job } = options;
+
+  if (job) {
+    const existing = await storage.getEvaluationRunByJob(job.id);
+    if (existing) {
+      await storage.updateEvaluationRun(existing.id, { status: "running", error: null, completedAt: null, totalVendors });
+      console.log(`♻️  Resuming evaluation run ${existing.id} for project ${projectId}`);
+      return { ...existing, status: "running", error: null, completedAt: null, totalVendors };
+    }
+  }
+
+  return storage.createEvaluationRun({
+    projectId,
+    jobId: job?.id ?? null,
+    trigger,
+    status: "running",
+    totalVendors,
+    createdBy: job?.createdBy ?? null,
+  });
+}
+
+/**
+ * Checkpoint backed by evaluation_agent_runs for one vendor proposal. Succeeded agents are kept;
+ * failed and missing agents run again, or only `rerunRoles` when given.
+ */
+export function createAgentCheckpoint(
+  storage: IStorage,
+  runId: string,
+  proposal: Pick<Proposal, "id" | "vendorName">,
+  rerunRoles?: AgentRole[]
+): AgentCheckpoint {
+  return {
+    async loadSaved() {
+      const saved = await storage.getEvaluationAgentRuns(runId, proposal.id);
+      return saved
+        .filter(agentRun => agentRun.status === "succeeded" || (rerunRoles && !rerunRoles.includes(agentRun.agentRole as AgentRole)))
+        .map(agentRun => agentRun.result as AgentResult);
+    },
+    async save(result, diagnostics) {
+      await storage.saveEvaluationAgentRun({
+        runId,
+        proposalId: proposal.id,
+        vendorName: proposal.vendorName,
+        agentRole: result.role,
+        status: result.succeeded ? "succeeded" : "failed",
+        attempts: 1,
+        result,
+        diagnostics,
+        error: result.succeeded ? null : diagnostics.error || "Agent failed",
+        completedAt: new Date(),
+      });
+    },
+  };
+}
+
+/**
+ * Close a run once its job has finished: "partial" when any agent only produced fallback insights
+ */
+export async function finishEvaluationRun(storage: IStorage, runId: string): Promise<EvaluationRunStatus> {
+  const agentRuns = await storage.getEvaluationAgentRuns(runId);
+  const failed = agentRuns.filter(agentRun => agentRun.status !== "succeeded").length;
+  const status: EvaluationRunStatus = failed > 0 ? "partial" : "completed";
+
+  await storage.updateEvaluationRun(runId, {
+    status,
+    error: failed > 0 ? `${failed} agent evaluation(s) failed and can be retried` : null,
+    completedAt: new Date(),
+  });
+  return status;
+}
+
+export async function failEvaluationRun(
+  storage: IStorage,
+  runId: string,
+  status: "failed" | "cancelled",
+  error: string
+): Promise<void> {
+  await storage.updateEvaluationRun(runId, {
+    status,
+    error: status === "cancelled" ? null : error,
+    completedAt: new Date(),
+  });
+}
+
+// An evaluation is complete once the agents' results have been written to it
+function isCompleteEvaluation(evaluation: { aiRationale: string | null } | undefined): boolean {
+  return !!evaluation && evaluation.aiRationale != null;
+}
+
+/**
+ * Per-vendor, per-agent state of a run. Vendors the run never reached are listed with pending
+ * agents; vendors evaluated before the run started are left out.
+ */
+export async function getEvaluationRunSummary(storage: IStorage, runId: string): Promise<EvaluationRunSummary | undefined> {
+  const run = await storage.getEvaluationRun(runId);
+  if (!run) {
+    return undefined;
+  }
+
+  const [proposals, evaluations, agentRuns] = await Promise.all([
+    storage.getProposalsByProject(run.projectId),
+    storage.getEvaluationsByProject(run.projectId),
+    storage.getEvaluationAgentRuns(runId),
+  ]);
+
+  const counts: Record<AgentRunState, number> = { succeeded: 0, failed: 0, pending: 0 };
+  const vendors: EvaluationRunSummary["vendors"] = [];
+
+  for (const proposal of proposals) {
+    const proposalRuns = agentRuns.filter(agentRun => agentRun.proposalId === proposal.id);
+    const evaluation = evaluations.find(e => e.proposalId === proposal.id);
+    if (proposalRuns.length === 0 && isCompleteEvaluation(evaluation)) {
+      continue;
+    }
+
+    const agents = EVALUATION_AGENT_ROLES.map(role => {
+      const agentRun: EvaluationAgentRun | undefined = proposalRuns.find(r => r.agentRole === role);
+      const status: AgentRunState = agentRun ? (agentRun.status as AgentRunState) : "pending";
+      counts[status]++;
+      return {
+        role,
+        status,
+        attempts: agentRun?.attempts ?? 0,
+        error: agentRun?.error ?? null,
+        completedAt: agentRun?.completedAt ?? null,
+      };
+    });
+
+    vendors.push({
+      proposalId: proposal.id,
+      vendorName: proposal.vendorName,
+      documentType: proposal.documentType ?? null,
+      agents,
+    });
+  }
+
+  return { run, vendors, counts };
+}
+
+/**
+ * Resume a run (runs as an "evaluation_run_resume" job): re-run failed and missing agents,
+ * re-aggregate each affected vendor with the agents that already succeeded, and update its
+ * evaluation. Vendors the run never reached are evaluated from scratch.
+ */
+export async function resumeEvaluationRun(
+  storage: IStorage,
+  runId: string,
+  options: ResumeOptions,
+  context: JobContext
+): Promise<{ runId: string; status: EvaluationRunStatus; evaluated: number }> {
+  const run = await storage.getEvaluationRun(runId);
+  if (!run) {
+    throw new Error(`Evaluation run not found: ${runId}`);
+  }
+
+  const inputs = await loadProjectEvaluationInputs(storage, run.projectId);
+  const proposals = (await storage.getProposalsByProject(run.projectId))
+    .filter(proposal => !options.proposalId || proposal.id === options.proposalId);
+  const agentRuns = await storage.getEvaluationAgentRuns(runId);
+  const uniqueVendors = Array.from(new Set(proposals.map(p => p.vendorName)));
+
+  await storage.updateEvaluationRun(runId, { status: "running", error: null, completedAt: null });
+
+  let evaluated = 0;
+  for (let i = 0; i < proposals.length; i++) {
+    const proposal = proposals[i];
+    context.throwIfCancelled();
+    await context.reportProgress({ evaluated: i, total: proposals.length, currentVendor: proposal.vendorName });
+
+    const proposalRuns = agentRuns.filter(agentRun => agentRun.proposalId === proposal.id);
+    const existingEvaluation = await storage.getEvaluationByProposal(proposal.id);
+    const rerunRoles = EVALUATION_AGENT_ROLES.filter(role =>
+      (!options.agentRole || role === options.agentRole) &&
+      proposalRuns.find(agentRun => agentRun.agentRole === role)?.status !== "succeeded"
+    );
+
+    // Evaluated outside this run, or nothing left to retry for this vendor
+    if (isCompleteEvaluation(existingEvaluation) && (proposalRuns.length === 0 || rerunRoles.length === 0)) {
+      continue;
+    }
+
+    console.log(`Resuming evaluation of ${proposal.vendorName} (${rerunRoles.join(", ")})...`);
+    const { proposalAnalysis, standardData } = await inputs.resolveProposal(proposal);
+    const vendorContext = {
+      projectId: run.projectId,
+      vendorName: proposal.vendorName,
+      vendorIndex: uniqueVendors.indexOf(proposal.vendorName),
+      totalVendors: uniqueVendors.length,
+      evaluationId: existingEvaluation?.id,
+    };
+
+    const { evaluation, diagnostics, agentResults } = await evaluateProposal(
+      inputs.requirementAnalysis,
+      proposalAnalysis,
+      standardData || undefined,
+      vendorContext,
+      inputs.scoringConfig,
+      inputs.addendaContext,
+      createAgentCheckpoint(storage, runId, proposal, rerunRoles)
+    );
+
+    const results = {
+      overallScore: evaluation.overallScore,
+      functionalFit: evaluation.functionalFit,
+      technicalFit: evaluation.technicalFit,
+      deliveryRisk: evaluation.deliveryRisk,
+      cost: evaluation.cost,
+      compliance: evaluation.compliance,
+      status: evaluation.status,
+      aiRationale: evaluation.rationale,
+      roleInsights: evaluation.roleInsights,
+      detailedScores: evaluation.detailedScores,
+      sectionCompliance: evaluation.sectionCompliance || null,
+      agentDiagnostics: diagnostics || null,
+      agentResults: agentResults || null,
+      citations: attachProposalId(evaluation.citations, proposal.id),
+    };
+    if (existingEvaluation) {
+      const { updates } = await reapplyScoreOverrides(storage, existingEvaluation.id, results);
+      await storage.updateEvaluation(existingEvaluation.id, updates);
+    } else {
+      await storage.createEvaluation({ projectId: run.projectId, proposalId: proposal.id, ...results });
+    }
+    evaluated++;
+  }
+
+  const status = await finishEvaluationRun(storage, runId);
+  evaluationProgressService.clearProgress(run.projectId);
+
+  // The original job may have failed before the project was marked evaluated
+  const allEvaluations = await storage.getEvaluationsByProject(run.projectId);
+  if (allEvaluations.length > 0 && allEvaluations.every(isCompleteEvaluation)) {
+    await storage.updateProjectStatus(run.projectId, "completed");
+    try {
+      await synchronizeVendorStages(storage, run.projectId, { evaluatedStage: 7 });
+    } catch (stageError) {
+      console.error(`⚠️ Failed to synchronize vendor stages (non-critical):`, stageError);
+    }
+  }
+
+  console.log(`✓ Evaluation run ${runId} resumed: ${evaluated} vendor proposal(s) re-evaluated, status ${status}`);
+  return { runId, status, evaluated };
+}
@@ -0,0 +1,181 @@
+import type { IStorage } from "../../storage";
+import type { CriterionOverride, EvaluationCriteria, InsertEvaluation, ScoreOverride } from "@shared/schema";
+
+export interface RecalculatedEvaluation {
+  evaluationId: string;
+  overallScore: number;
+  status: "recommended" | "under-review" | "risk-flagged";
+}
+
+type EvaluationScoreUpdates = Required<Pick<InsertEvaluation, "overallScore" | "technicalFit" | "deliveryRisk" | "compliance">> & {
+  status: RecalculatedEvaluation["status"];
+};
+
+/**
+ * Evaluation scores derived from its (human-reviewed) criteria, or null if there are none
+ */
+function scoreFromCriteria(evaluationCriteria: EvaluationCriteria[]): EvaluationScoreUpdates | null {
+  // Guard against empty criteria (unlikely but possible)
+  if (evaluationCriteria.length === 0) {
+    return null;
+  }
+
+  // Calculate average score from all criteria
+  const totalScore = evaluationCriteria.reduce((sum, c) => sum + c.score, 0);
+  const avgScore = Math.round(totalScore / evaluationCriteria.length);
+
+  // Group by role to calculate dimension scores
+  const roleGroups = evaluationCriteria.reduce((groups, c) => {
+    if (!groups[c.role]) groups[c.role] = [];
+    groups[c.role].push(c);
+    return groups;
+  }, {} as Record<string, typeof evaluationCriteria>);
+
+  // Calculate dimension scores (simplified - using role averages)
+  const roles = Object.keys(roleGroups);
+  const technicalFit = roles.length > 0 ? Math.round(
+    Object.values(roleGroups).reduce((sum, group) =>
+      sum + group.reduce((s, c) => s + c.score, 0) / group.length, 0
+    ) / roles.length
+  ) : avgScore;
+
+  // For simplicity, use overall score for other dimensions
+  // In a real system, you'd have specific criteria mapped to each dimension
+  const deliveryRisk = avgScore;
+  const compliance = avgScore;
+
+  // Determine status based on overall score
+  let status: "recommended" | "under-review" | "risk-flagged";
+  if (avgScore >= 70) {
+    status = "recommended";
+  } else if (avgScore >= 50) {
+    status = "under-review";
+  } else {
+    status = "risk-flagged";
+  }
+
+  return { overallScore: avgScore, technicalFit, deliveryRisk, compliance, status };
+}
+
+/**
+ * Recalculates the parent evaluation's scores from its (human-reviewed) criteria.
+ *
+ * @param storage - Storage instance
+ * @param evaluationId - Evaluation ID
+ * @returns The recalculated score and status, or null if the evaluation has no criteria
+ */
+export async function recalculateEvaluationFromCriteria(
+  storage: IStorage,
+  evaluationId: string
+): Promise<RecalculatedEvaluation | null> {
+  const scores = scoreFromCriteria(await storage.getEvaluationCriteriaByEvaluation(evaluationId));
+  if (!scores) {
+    console.warn(`[Evaluation Recalculation] No criteria found for evaluation ${evaluationId}`);
+    return null;
+  }
+
+  // Update the evaluation with recalculated values
+  await storage.updateEvaluation(evaluationId, scores);
+
+  console.log(`[Evaluation Recalculated] ID: ${evaluationId}, Score: ${scores.overallScore}, Status: ${scores.status}`);
+  return { evaluationId, overallScore: scores.overallScore, status: scores.status };
+}
+
+/**
+ * Puts reviewers' score overrides back on top of scores re-aggregated from agent outputs.
+ * Recompute and resume know nothing of overrides; when an evaluation has any, its scores come
+ * from the overridden criteria instead, recalculated the same way applyCriterionOverride does.
+ *
+ * @param storage - Storage instance
+ * @param evaluationId - Evaluation ID
+ * @param updates - Scores re-aggregated from agent outputs
+ * @returns The updates to write, and whether overrides replaced the aggregated scores
+ */
+export async function reapplyScoreOverrides(
+  storage: IStorage,
+  evaluationId: string,
+  updates: Partial<InsertEvaluation>
+): Promise<{ updates: Partial<InsertEvaluation>; overridden: boolean }> {
+  const overrides = await storage.getScoreOverridesByEvaluation(evaluationId);
+  if (overrides.length === 0) {
+    return { updates, overridden: false };
+  }
+
+  // Criteria hold the latest override of each score (written with its audit record)
+  const scores = scoreFromCriteria(await storage.getEvaluationCriteriaByEvaluation(evaluationId));
+  if (!scores) {
+    return { updates, overridden: false };
+  }
+
+  console.log(`[Evaluation Recalculation] Kept ${overrides.length} score override(s) on evaluation ${evaluationId}`);
+  return { updates: { ...updates, ...scores }, overridden: true };
+}
+
+/**
+ * Applies a reviewer's score override to a criterion, recalculates the parent evaluation
+ * and records the change (who, why, before/after) in the audit trail. The three writes
+ * happen in one transaction, so a score never changes without its audit record.
+ *
+ * @param storage - Storage instance
+ * @param criterionId - Evaluation criterion ID
+ * @param override - New score and justification
+ * @param reviewer - Signed-in user making the change
+ * @returns The audit record (null when the score was unchanged) and the recalculated evaluation,
+ *          or null if the criterion or its evaluation does not exist
+ */
+export async function applyCriterionOverride(
+  storage: IStorage,
+  criterionId: string,
+  override: CriterionOverride,
+  reviewer: { id: string; name: string }
+): Promise<{ override: ScoreOverride | null; evaluation: RecalculatedEvaluation | null } | null> {
+  const criterion = await storage.getEvaluationCriterion(criterionId);
+  if (!criterion) {
+    return null;
+  }
+
+  if (criterion.score === override.score && criterion.scoreLabel === override.scoreLabel) {
+    return { override: null, evaluation: null };
+  }
+
+  const evaluation = await storage.getEvaluation(criterion.evaluationId);
+  if (!evaluation) {
+    return null;
+  }
+
+  // Recalculate with the override in place before writing anything
+  const criteria = await storage.getEvaluationCriteriaByEvaluation(criterion.evaluationId);
+  const scores = scoreFromCriteria(criteria.map(c =>
+    c.id === criterionId ? { ...c, score: override.score, scoreLabel: override.scoreLabel } : c
+  ));
+  const recalculated: RecalculatedEvaluation | null = scores
+    ? { evaluationId: criterion.evaluationId, overallScore: scores.overallScore, status: scores.status }
+    : null;
+
+  const auditRecord = await storage.applyScoreOverride(criterionId, {
+    score: override.score,
+    scoreLabel: override.scoreLabel,
+  }, scores, {
+    projectId: evaluation.projectId,
+    evaluationId: criterion.evaluationId,
+    criterionId,
+    role: criterion.role,
+    section: criterion.section,
+    question: criterion.question,
+    previousScore: criterion.score,
+    newScore: override.score,
+    previousScoreLabel: criterion.scoreLabel,
+    newScoreLabel: override.scoreLabel,
+    previousOverallScore: evaluation.overallScore ?? null,
+    newOverallScore: recalculated?.overallScore ?? evaluation.overallScore ?? null,
+    reviewerName: reviewer.name,
+    reviewerId: reviewer.id,
+    justification: override.justification,
+  });
+
+  if (recalculated) {
+    console.log(`[Evaluation Recalculated] ID: ${recalculated.evaluationId}, Score: ${recalculated.overallScore}, Status: ${recalculated.status}`);
+  }
+  console.log(`✏️  Score override by ${reviewer.name} on criterion ${criterionId}: ${criterion.score} → ${override.score}`);
+  return { override: auditRecord, evaluation: recalculated };
+}
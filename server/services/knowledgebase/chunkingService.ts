@@ -1,17 +1,25 @@
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+
 /**
- * Smart text chunking service for RAG
- * 
- * Chunks documents into 500-1000 token segments with 100 token overlap
- * for optimal semantic search and retrieval.
+ * Structure-aware text chunking service for RAG
+ *
+ * Chunks documents into 500-1000 token segments with 100 token overlap.
+ * Chunks follow the document structure: a heading always starts a new chunk, parser sections
+ * (PDF pages, Word heading sections, Excel sheets) are never merged, and tables are kept whole
+ * or split row-wise with their header row repeated. Each chunk records its heading path.
  */
 
-interface ChunkResult {
+export interface ChunkResult {
   content: string;
   tokenCount: number;
   metadata?: {
     chunkIndex: number;
-    sectionTitle?: string;
+    sectionTitle?: string; // Heading path joined with " > " (or the parser section title)
+    sectionPath?: string[]; // Heading hierarchy, outermost first: ["3 Security", "3.2 Access Control"]
     pageNumber?: number;
+    anchor?: string;
+    hasTable?: boolean;
   };
 }
 
@@ -21,14 +29,53 @@ interface ChunkingOptions {
   overlapTokens?: number; // Default: 100
   sectionTitle?: string;
   pageNumber?: number;
+  anchor?: string; // Source locator from the parser (page, heading or sheet range)
 }
 
+interface ChunkSection {
+  title: string;
+  content: string;
+  level?: number; // Heading depth when the section is itself a heading (Word documents)
+  pageNumber?: number;
+  anchor?: string;
+}
+
+type Block =
+  | { type: "heading"; text: string; title: string; level: number }
+  | { type: "table"; rows: string[] }
+  | { type: "text"; text: string };
+
+// A piece of chunk content; `separator` is what joins it to the previous unit
+interface ChunkUnit {
+  kind: "heading" | "sentence" | "table";
+  text: string;
+  tokens: number;
+  separator: string;
+}
+
+// Stored on rag_documents; bump when chunk boundaries change so "reindex stale" re-chunks documents
+export const CHUNKER_VERSION = 2;
+
+const SECTION_PATH_SEPARATOR = " > ";
+
+// Numbered headings are short standalone lines such as "3.2.1 Access Control"
+const MAX_NUMBERED_HEADING_WORDS = 12;
+
+let encoder: Tiktoken | null = null;
+
 /**
- * Approximate token count (rough estimate: 1 token ≈ 4 characters)
- * For production, consider using tiktoken or similar for accurate counts
+ * Token count using the cl100k_base encoding of the Azure OpenAI embedding and GPT-4 models,
+ * so chunk sizes and retrieval budgets match what the models actually receive
  */
-function estimateTokenCount(text: string): number {
-  return Math.ceil(text.length / 4);
+export function countTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  if (!encoder) {
+    encoder = new Tiktoken(cl100k_base);
+  }
+  // Special-token markers in documents are counted as plain text rather than rejected
+  return encoder.encode(text, [], []).length;
 }
 
 /**
@@ -38,7 +85,7 @@ function splitIntoSentences(text: string): string[] {
   // Split on sentence boundaries (., !, ?) followed by whitespace
   const sentences = text.split(/([.!?]+\s+)/);
   const result: string[] = [];
-  
+
   for (let i = 0; i < sentences.length; i += 2) {
     const sentence = sentences[i];
     const delimiter = sentences[i + 1] || "";
@@ -46,126 +93,258 @@ function splitIntoSentences(text: string): string[] {
       result.push(sentence + delimiter);
     }
   }
-  
+
   return result;
 }
 
 /**
- * Chunk text into segments with overlap
+ * Recognise a heading line: Markdown ("## Scope") or a numbered standards heading ("4.2.1 Key Management").
+ * Numbered list items that read like sentences (punctuated or long) are not headings.
  */
-export function chunkText(
-  text: string,
+function parseHeading(line: string): { title: string; level: number } | null {
+  const markdown = line.match(/^(#{1,6})\s+(.+?)\s*#*$/);
+  if (markdown) {
+    return { title: markdown[2].trim(), level: markdown[1].length };
+  }
+
+  const numbered = line.match(/^(\d{1,2}(?:\.\d{1,3}){0,5})\.?\s+(\S.*)$/);
+  if (!numbered) {
+    return null;
+  }
+  const [, number, title] = numbered;
+  if (!/^[A-Z]/.test(title) || /[.,;:!?]$/.test(title) || title.split(/\s+/).length > MAX_NUMBERED_HEADING_WORDS) {
+    return null;
+  }
+  return { title: `${number} ${title}`, level: number.split(".").length };
+}
+
+/**
+ * Split section content into headings, pipe-delimited tables and paragraphs
+ */
+function parseBlocks(content: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let tableRows: string[] = [];
+
+  const endParagraph = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) {
+      blocks.push({ type: "text", text });
+    }
+    paragraph = [];
+  };
+  const endTable = () => {
+    if (tableRows.length > 0) {
+      blocks.push({ type: "table", rows: tableRows });
+    }
+    tableRows = [];
+  };
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (/^\|.*\|$/.test(line)) {
+      endParagraph();
+      tableRows.push(line);
+      continue;
+    }
+    endTable();
+
+    if (!line) {
+      endParagraph();
+      continue;
+    }
+
+    const heading = paragraph.length === 0 ? parseHeading(line) : null;
+    if (heading) {
+      blocks.push({ type: "heading", text: line, ...heading });
+      continue;
+    }
+    paragraph.push(line);
+  }
+
+  endParagraph();
+  endTable();
+  return blocks;
+}
+
+/**
+ * Serialise a table into pieces of at most maxTokens. A table that fits stays whole; larger tables
+ * are split between rows with the header row (and a Markdown separator row) repeated in each piece.
+ */
+function splitTable(rows: string[], maxTokens: number): string[] {
+  const whole = rows.join("\n");
+  if (countTokens(whole) <= maxTokens || rows.length < 2) {
+    return [whole];
+  }
+
+  const headerLength = rows.length > 2 && /^\|[\s:|-]+\|$/.test(rows[1]) ? 2 : 1;
+  const header = rows.slice(0, headerLength);
+  const headerTokens = countTokens(header.join("\n"));
+
+  const pieces: string[] = [];
+  let body: string[] = [];
+  let bodyTokens = 0;
+
+  for (const row of rows.slice(headerLength)) {
+    const rowTokens = countTokens(row) + 1;
+    if (body.length > 0 && headerTokens + bodyTokens + rowTokens > maxTokens) {
+      pieces.push([...header, ...body].join("\n"));
+      body = [];
+      bodyTokens = 0;
+    }
+    body.push(row);
+    bodyTokens += rowTokens;
+  }
+
+  if (body.length > 0) {
+    pieces.push([...header, ...body].join("\n"));
+  }
+  return pieces;
+}
+
+/**
+ * Chunk a document with multiple sections
+ *
+ * The heading path carries across sections, so a PDF section that continues over a page break
+ * keeps its heading on the next page.
+ */
+export function chunkDocument(
+  sections: ChunkSection[],
   options: ChunkingOptions = {}
 ): ChunkResult[] {
   const {
     minTokens = 500,
     maxTokens = 1000,
     overlapTokens = 100,
-    sectionTitle,
-    pageNumber,
   } = options;
 
-  if (!text || text.trim().length === 0) {
-    return [];
-  }
-
-  const sentences = splitIntoSentences(text);
   const chunks: ChunkResult[] = [];
-  let currentChunk: string[] = [];
-  let currentTokenCount = 0;
-  let chunkIndex = 0;
-
-  for (let i = 0; i < sentences.length; i++) {
-    const sentence = sentences[i];
-    const sentenceTokens = estimateTokenCount(sentence);
-
-    // If adding this sentence would exceed maxTokens and we have enough content
-    if (currentTokenCount + sentenceTokens > maxTokens && currentTokenCount >= minTokens) {
-      // Save current chunk
-      chunks.push({
-        content: currentChunk.join("").trim(),
-        tokenCount: currentTokenCount,
-        metadata: {
-          chunkIndex: chunkIndex++,
-          sectionTitle,
-          pageNumber,
-        },
-      });
-
-      // Create overlap by keeping the last few sentences
-      const overlapSentences: string[] = [];
-      let overlapTokenCount = 0;
-      
-      for (let j = currentChunk.length - 1; j >= 0; j--) {
-        const overlapSentence = currentChunk[j];
-        const overlapSentenceTokens = estimateTokenCount(overlapSentence);
-        
-        if (overlapTokenCount + overlapSentenceTokens <= overlapTokens) {
-          overlapSentences.unshift(overlapSentence);
-          overlapTokenCount += overlapSentenceTokens;
-        } else {
-          break;
-        }
-      }
+  const headingStack: { title: string; level: number }[] = [];
+  let units: ChunkUnit[] = [];
+  let unitTokens = 0;
+  let section: ChunkSection = sections[0];
 
-      // Start new chunk with overlap
-      currentChunk = overlapSentences;
-      currentTokenCount = overlapTokenCount;
+  const pushHeading = (title: string, level: number) => {
+    while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+      headingStack.pop();
     }
+    headingStack.push({ title, level });
+  };
 
-    // Add sentence to current chunk
-    currentChunk.push(sentence);
-    currentTokenCount += sentenceTokens;
-  }
+  const addUnit = (unit: ChunkUnit) => {
+    units.push({ ...unit, separator: units.length === 0 ? "" : unit.separator });
+    unitTokens += unit.tokens;
+  };
 
-  // Add the last chunk if it has content
-  if (currentChunk.length > 0) {
+  // Emit the pending chunk; with `keepOverlap` its trailing sentences start the next chunk
+  const flush = (keepOverlap: boolean) => {
+    if (units.length === 0 || units.every(unit => unit.kind === "heading")) {
+      return;
+    }
+
+    const content = units.map(unit => unit.separator + unit.text).join("").trim();
+    const sectionPath = headingStack.map(heading => heading.title);
     chunks.push({
-      content: currentChunk.join("").trim(),
-      tokenCount: currentTokenCount,
+      content,
+      tokenCount: countTokens(content),
       metadata: {
-        chunkIndex: chunkIndex++,
-        sectionTitle,
-        pageNumber,
+        chunkIndex: chunks.length,
+        sectionTitle: sectionPath.length > 0
+          ? sectionPath.join(SECTION_PATH_SEPARATOR)
+          : section.title || options.sectionTitle,
+        sectionPath,
+        pageNumber: section.pageNumber ?? options.pageNumber,
+        anchor: section.anchor ?? options.anchor,
+        hasTable: units.some(unit => unit.kind === "table"),
       },
     });
+
+    const overlap: ChunkUnit[] = [];
+    let overlapTokenCount = 0;
+    if (keepOverlap) {
+      for (let i = units.length - 1; i >= 0; i--) {
+        const unit = units[i];
+        if (unit.kind !== "sentence" || overlapTokenCount + unit.tokens > overlapTokens) {
+          break;
+        }
+        overlap.unshift(unit);
+        overlapTokenCount += unit.tokens;
+      }
+    }
+
+    units = [];
+    unitTokens = 0;
+    overlap.forEach(addUnit);
+  };
+
+  for (section of sections) {
+    if (!section.content || section.content.trim().length === 0) {
+      continue;
+    }
+
+    // Word heading sections carry their heading outside the content
+    if (section.level && section.level > 0) {
+      pushHeading(section.title, section.level);
+      addUnit({ kind: "heading", text: section.title, tokens: countTokens(section.title), separator: "\n\n" });
+    }
+
+    for (const block of parseBlocks(section.content)) {
+      if (block.type === "heading") {
+        // Consecutive headings ("3 Security" then "3.1 Access") share a chunk
+        flush(false);
+        pushHeading(block.title, block.level);
+        addUnit({ kind: "heading", text: block.text, tokens: countTokens(block.text), separator: "\n\n" });
+      } else if (block.type === "table") {
+        for (const piece of splitTable(block.rows, maxTokens)) {
+          const tokens = countTokens(piece);
+          // Tables are never cut mid-row: start a new chunk when the table doesn't fit
+          if (unitTokens + tokens > maxTokens) {
+            flush(false);
+          }
+          addUnit({ kind: "table", text: piece, tokens, separator: "\n\n" });
+        }
+      } else {
+        splitIntoSentences(block.text).forEach((sentence, index) => {
+          const tokens = countTokens(sentence);
+          // If adding this sentence would exceed maxTokens and we have enough content
+          if (unitTokens + tokens > maxTokens && unitTokens >= minTokens) {
+            flush(true);
+          }
+          addUnit({ kind: "sentence", text: sentence, tokens, separator: index === 0 ? "\n\n" : "" });
+        });
+      }
+    }
+
+    // Parser sections (pages, sheets, Word sections) are hard boundaries; a trailing heading
+    // with no content yet moves on to the next section
+    flush(false);
   }
 
   return chunks;
 }
 
 /**
- * Chunk a document with multiple sections
+ * Chunk a single block of text (headings and tables inside it are still respected)
  */
-export function chunkDocument(
-  sections: { title: string; content: string; pageNumber?: number }[],
+export function chunkText(
+  text: string,
   options: ChunkingOptions = {}
 ): ChunkResult[] {
-  const allChunks: ChunkResult[] = [];
-  
-  for (const section of sections) {
-    const sectionChunks = chunkText(section.content, {
-      ...options,
-      sectionTitle: section.title,
-      pageNumber: section.pageNumber,
-    });
-    allChunks.push(...sectionChunks);
+  if (!text || text.trim().length === 0) {
+    return [];
   }
 
-  // Update chunk indices to be sequential across all sections
-  allChunks.forEach((chunk, index) => {
-    if (chunk.metadata) {
-      chunk.metadata.chunkIndex = index;
-    }
-  });
-
-  return allChunks;
+  return chunkDocument(
+    [{ title: options.sectionTitle || "", content: text, pageNumber: options.pageNumber, anchor: options.anchor }],
+    options
+  );
 }
 
 /**
  * Estimate total chunks needed for a text
  */
 export function estimateChunkCount(text: string, maxTokens: number = 1000): number {
-  const totalTokens = estimateTokenCount(text);
+  const totalTokens = countTokens(text);
   return Math.ceil(totalTokens / maxTokens);
 }
@@ -1,11 +1,13 @@
-import { azureBlobStorageService } from "../azure/azureBlobStorage";
-import { azureAISearchService } from "../azure/azureAISearch";
-import { azureEmbeddingService } from "../azure/azureEmbedding";
+import { getFileStorage } from "../core/fileStorage";
+import { ConfigHelper } from "../core/configHelpers";
 import { azureSearchSkillsetService } from "../azure/azureSearchSkillset";
-import { chunkDocument } from "./chunkingService";
+import { chunkDocument, CHUNKER_VERSION, type ChunkResult } from "./chunkingService";
+import { parseDocument, type ParsedSection } from "./documentParser";
+import { getEmbeddingProvider } from "./embeddingProvider";
+import { getVectorStore, type VectorStoreDocument, type VectorStoreDocumentUpdate } from "./vectorStore";
 import { storage } from "../../storage";
-import type { InsertRagDocument, InsertRagChunk } from "@shared/schema";
-import { randomUUID } from "crypto";
+import type { InsertRagChunk, RagChunk, RagDocument } from "@shared/schema";
+import { createHash, randomUUID } from "crypto";
 
 interface DocumentIngestionOptions {
   sourceType: "standard" | "proposal" | "requirement" | "confluence" | "sharepoint";
@@ -14,6 +16,7 @@ interface DocumentIngestionOptions {
   fileName: string;
   content: Buffer;
   textContent: string;
+  sections?: ParsedSection[]; // Structural sections from parseDocument (used unless OCR text replaces the content)
   metadata?: {
     tags?: string[];
     vendor?: string;
@@ -22,6 +25,7 @@ interface DocumentIngestionOptions {
     pageNumber?: number;
   };
   documentId?: string; // Optional: reuse existing document ID for re-indexing
+  blob?: { blobName: string; blobUrl: string }; // Source file already in blob storage (queued ingestion); kept if ingestion fails
 }
 
 interface IngestionResult {
@@ -33,7 +37,73 @@ interface IngestionResult {
   error?: string;
 }
 
+// Chunk counts of the latest (re-)index run, stored in rag_documents.progress
+export interface IndexProgress {
+  totalChunks: number;
+  processedChunks: number;
+  reusedChunks: number; // Unchanged content: embedding kept
+  embeddedChunks: number;
+  removedChunks: number;
+}
+
+export interface ReindexResult {
+  documentId: string;
+  status: "unchanged" | "updated" | "failed";
+  progress: IndexProgress;
+  error?: string;
+}
+
+// Progress and result of a stale re-index run (the "rag_reindex" job)
+export interface StaleReindexProgress {
+  total: number;
+  checked: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  currentDocument?: string;
+}
+
+// Chunks embedded and indexed per batch during re-indexing (progress is saved after each batch)
+const REINDEX_BATCH_SIZE = 16;
+
+// A "processing" or "reindexing" document whose row has not been updated for this long belongs to
+// a run that died (every saved batch bumps updatedAt), so it may be indexed again
+const INDEXING_STALL_TIMEOUT_MS = 30 * 60 * 1000;
+
+function hashContent(content: Buffer | string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Vector store ID for a chunk: "<ragDocumentId>-chunk-<n>-<content hash prefix>".
+ * The hash suffix keeps IDs unique when re-indexing moves an unchanged chunk to a new position.
+ */
+function chunkSearchId(documentId: string, chunkIndex: number, contentHash: string): string {
+  return `${documentId}-chunk-${chunkIndex}-${contentHash.slice(0, 12)}`;
+}
+
+/**
+ * Identifies where chunk vectors live and how they were produced; vectors are only reused
+ * while this is unchanged. A non-default embedding width is appended.
+ */
+function currentEmbeddingVersion(): string {
+  const { embeddingDimensions } = ConfigHelper.getRagBackendConfig();
+  const version = `${getVectorStore().name}/${getEmbeddingProvider().name}`;
+  return embeddingDimensions === 1536 ? version : `${version}/${embeddingDimensions}`;
+}
+
+// jsonb does not preserve key order, so compare with sorted keys
+function sameMetadata(stored: unknown, metadata: Record<string, any>): boolean {
+  const normalise = (value: Record<string, any>) => JSON.stringify(value, Object.keys(value).sort());
+  return normalise((stored as Record<string, any> | null) || {}) === normalise(metadata);
+}
+
+function emptyProgress(totalChunks = 0): IndexProgress {
+  return { totalChunks, processedChunks: 0, reusedChunks: 0, embeddedChunks: 0, removedChunks: 0 };
+}
+
 export class DocumentIngestionService {
+
   /**
    * Get effective text content for chunking, preferring OCR-enriched text if available
    * Falls back to original text if OCR not available within timeout or if OCR is disabled
@@ -79,22 +149,145 @@ export class DocumentIngestionService {
     }
   }
 
+  /**
+   * Chunk the document, preferring OCR-enriched text (which replaces the parser's sections) when available
+   */
+  private async prepareChunks(
+    options: Pick<DocumentIngestionOptions, "fileName" | "textContent" | "sections" | "metadata">,
+    blobName: string | null
+  ): Promise<ChunkResult[]> {
+    let effectiveTextContent = options.textContent;
+    let ocrEnriched = false;
+
+    if (blobName) {
+      // Extract just the filename from the full blob path for OCR lookup
+      // blobName is full path like "knowledge-base/shared/doc.pdf"
+      // metadata_storage_name in Azure stores only "doc.pdf"
+      const fileName = blobName.split('/').pop() || blobName;
+
+      const contentResult = await this.getEffectiveContent({
+        blobName: fileName,
+        defaultText: options.textContent,
+        timeoutMs: 30000, // 30 second timeout for OCR retrieval
+      });
+      effectiveTextContent = contentResult.content;
+      ocrEnriched = contentResult.ocrEnriched;
+    }
+
+    console.log(`[RAG] Chunking document: ${options.fileName} (OCR-enriched: ${ocrEnriched})`);
+    const chunkSections = !ocrEnriched && options.sections && options.sections.length > 0
+      ? options.sections
+      : [{ title: options.fileName, content: effectiveTextContent }];
+    const chunks = chunkDocument(
+      chunkSections,
+      { sectionTitle: options.metadata?.sectionTitle, pageNumber: options.metadata?.pageNumber }
+    );
+
+    if (chunks.length === 0) {
+      throw new Error("No chunks generated from document");
+    }
+    return chunks;
+  }
+
+  /**
+   * Labels stored with a chunk in the vector store (the fields of the Azure index's metadata type)
+   */
+  private toVectorMetadata(chunk: ChunkResult, documentMetadata?: DocumentIngestionOptions["metadata"]): Record<string, any> {
+    return {
+      sectionTitle: chunk.metadata?.sectionTitle,
+      pageNumber: chunk.metadata?.pageNumber,
+      tags: documentMetadata?.tags,
+      vendor: documentMetadata?.vendor,
+      project: documentMetadata?.project,
+    };
+  }
+
+  private toVectorStoreDocument(
+    chunk: ChunkResult,
+    index: number,
+    id: string,
+    embedding: number[],
+    options: Pick<DocumentIngestionOptions, "sourceType" | "sourceId" | "category" | "fileName" | "metadata">
+  ): VectorStoreDocument {
+    return {
+      id,
+      content: chunk.content,
+      embedding,
+      sourceType: options.sourceType,
+      sourceId: options.sourceId,
+      category: options.category || "shared",
+      fileName: options.fileName,
+      chunkIndex: chunk.metadata?.chunkIndex || index,
+      metadata: this.toVectorMetadata(chunk, options.metadata),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private toChunkMetadata(chunk: ChunkResult): Record<string, any> {
+    return {
+      sectionTitle: chunk.metadata?.sectionTitle,
+      sectionPath: chunk.metadata?.sectionPath,
+      pageNumber: chunk.metadata?.pageNumber,
+      anchor: chunk.metadata?.anchor,
+      hasTable: chunk.metadata?.hasTable,
+    };
+  }
+
+  private toRagChunk(
+    chunk: ChunkResult,
+    index: number,
+    documentId: string,
+    searchChunkId: string,
+    contentHash: string
+  ): InsertRagChunk {
+    return {
+      documentId,
+      chunkIndex: chunk.metadata?.chunkIndex || index,
+      content: chunk.content,
+      tokenCount: chunk.tokenCount,
+      contentHash,
+      searchChunkId,
+      metadata: this.toChunkMetadata(chunk),
+    };
+  }
+
+  /**
+   * Upload a source file to its category folder in blob storage. Queued ingestion uploads before
+   * queueing (passing the result as `blob`), so the job can run after a restart.
+   */
+  async uploadSourceFile(
+    options: Pick<DocumentIngestionOptions, "sourceType" | "sourceId" | "category" | "fileName" | "content">,
+    documentId?: string
+  ): Promise<{ blobUrl: string; blobName: string }> {
+    const category = options.category || "shared";
+    const categoryPath = `knowledge-base/${category}/${options.fileName}`;
+    console.log(`[RAG] Uploading document to Blob Storage: ${categoryPath}`);
+    return getFileStorage().uploadDocument(categoryPath, options.content, {
+      sourceType: options.sourceType,
+      sourceId: options.sourceId || "",
+      ...(documentId && { documentId }),
+      category,
+    });
+  }
+
   /**
    * Ingest a document into the RAG system
    * 1. Create initial record with "processing" status
    * 2. Upload to Azure Blob Storage
    * 3. Get OCR-enriched text if available (or fall back to original)
-   * 4. Chunk the document
-   * 5. Generate embeddings
-   * 6. Index in Azure AI Search
-   * 7. Store chunks in database
+   * 4. Chunk the document along its headings, tables and pages
+   * 5. Generate embeddings (configured embedding provider)
+   * 6. Store chunks in database
+   * 7. Index in the configured vector store (the pgvector store indexes the stored rows)
    * 8. Update record with "indexed" status
    */
   async ingestDocument(options: DocumentIngestionOptions): Promise<IngestionResult> {
     const documentId = options.documentId || randomUUID();
     let blobName: string | null = null;
     let searchChunkIds: string[] = [];
+    let chunksStored = false;
     let blobUrl: string = "";
+    const vectorStore = getVectorStore();
     
     // Step 0: Create or update initial record with "processing" status before any operations
     console.log(`[RAG] ${options.documentId ? 'Updating' : 'Creating'} record for: ${options.fileName}`);
@@ -130,8 +323,8 @@ export class DocumentIngestionService {
           sourceId: options.sourceId,
           category: options.category || "shared",
           fileName: options.fileName,
-          blobUrl: "",
-          blobName: null,
+          blobUrl: options.blob?.blobUrl || "",
+          blobName: options.blob?.blobName ?? null,
           searchDocId: "",
           indexName: "intellibid-rag",
           totalChunks: 0,
@@ -156,21 +349,13 @@ export class DocumentIngestionService {
       if (options.documentId) {
         // Re-indexing: blob metadata already loaded in Step 0
         console.log(`[RAG] Re-indexing: Reusing existing blob for: ${options.fileName}`);
+      } else if (options.blob) {
+        // Queued ingestion: the file was uploaded when the job was queued
+        blobUrl = options.blob.blobUrl;
+        blobName = options.blob.blobName;
       } else {
         // New document: Upload to blob storage with category-based path
-        const category = options.category || "shared";
-        const categoryPath = `knowledge-base/${category}/${options.fileName}`;
-        console.log(`[RAG] Uploading document to Blob Storage: ${categoryPath}`);
-        const blobResult = await azureBlobStorageService.uploadDocument(
-          categoryPath,
-          options.content,
-          {
-            sourceType: options.sourceType,
-            sourceId: options.sourceId || "",
-            documentId,
-            category,
-          }
-        );
+        const blobResult = await this.uploadSourceFile(options, documentId);
         blobUrl = blobResult.blobUrl;
         blobName = blobResult.blobName;
         
@@ -183,106 +368,65 @@ export class DocumentIngestionService {
         });
       }
 
-      // Step 2: Get effective content (OCR-enriched if available, otherwise original)
-      let effectiveTextContent = options.textContent;
-      let ocrEnriched = false;
-
-      if (blobName) {
-        // Extract just the filename from the full blob path for OCR lookup
-        // blobName is full path like "knowledge-base/shared/doc.pdf"
-        // metadata_storage_name in Azure stores only "doc.pdf"
-        const fileName = blobName.split('/').pop() || blobName;
-        
-        const contentResult = await this.getEffectiveContent({
-          blobName: fileName,
-          defaultText: options.textContent,
-          timeoutMs: 30000, // 30 second timeout for OCR retrieval
-        });
-        effectiveTextContent = contentResult.content;
-        ocrEnriched = contentResult.ocrEnriched;
-      }
-
-      // Step 3: Chunk the document using effective content (may include OCR text)
-      console.log(`[RAG] Chunking document: ${options.fileName} (OCR-enriched: ${ocrEnriched})`);
-      const chunks = chunkDocument(
-        [{ title: options.fileName, content: effectiveTextContent }],
-        { sectionTitle: options.metadata?.sectionTitle, pageNumber: options.metadata?.pageNumber }
-      );
-
-      if (chunks.length === 0) {
-        throw new Error("No chunks generated from document");
-      }
+      // Steps 2-3: Chunk the effective content (OCR-enriched if available, otherwise original)
+      const chunks = await this.prepareChunks(options, blobName);
 
       // Step 4: Generate embeddings for all chunks
       console.log(`[RAG] Generating embeddings for ${chunks.length} chunks`);
       const chunkTexts = chunks.map(c => c.content);
-      const embeddingResult = await azureEmbeddingService.generateBatchEmbeddings(chunkTexts);
+      const embeddingResult = await getEmbeddingProvider().generateBatchEmbeddings(chunkTexts);
 
-      // Step 5: Prepare documents for Azure AI Search and track chunk IDs
-      searchChunkIds = chunks.map((chunk, index) => 
-        `${documentId}-chunk-${chunk.metadata?.chunkIndex || index}`
+      // Step 5: Prepare documents for the vector store and track chunk IDs
+      const chunkHashes = chunks.map(chunk => hashContent(chunk.content));
+      searchChunkIds = chunks.map((chunk, index) =>
+        chunkSearchId(documentId, chunk.metadata?.chunkIndex || index, chunkHashes[index])
       );
-      
-      const category = options.category || "shared";
-      const searchDocuments = chunks.map((chunk, index) => ({
-        id: searchChunkIds[index],
-        content: chunk.content,
-        embedding: embeddingResult.embeddings[index],
-        sourceType: options.sourceType,
-        sourceId: options.sourceId,
-        category,
-        fileName: options.fileName,
-        chunkIndex: chunk.metadata?.chunkIndex || index,
-        metadata: {
-          sectionTitle: chunk.metadata?.sectionTitle,
-          pageNumber: chunk.metadata?.pageNumber,
-          tags: options.metadata?.tags,
-          vendor: options.metadata?.vendor,
-          project: options.metadata?.project,
-        },
-        createdAt: new Date().toISOString(),
-      }));
-
-      // Step 6: Index in Azure AI Search
-      console.log(`[RAG] Indexing ${searchDocuments.length} chunks in Azure AI Search`);
-      await azureAISearchService.indexDocuments(searchDocuments);
-
-      // Step 7: Store chunks in database with searchChunkIds
+
+      const searchDocuments: VectorStoreDocument[] = chunks.map((chunk, index) =>
+        this.toVectorStoreDocument(chunk, index, searchChunkIds[index], embeddingResult.embeddings[index], options)
+      );
+
+      // Step 6: Store chunks in database with searchChunkIds
       console.log(`[RAG] Storing chunks in database`);
-      const ragChunks: InsertRagChunk[] = chunks.map((chunk, index) => ({
-        documentId,
-        chunkIndex: chunk.metadata?.chunkIndex || index,
-        content: chunk.content,
-        tokenCount: chunk.tokenCount,
-        searchChunkId: searchChunkIds[index],
-        metadata: {
-          sectionTitle: chunk.metadata?.sectionTitle,
-          pageNumber: chunk.metadata?.pageNumber,
-        },
-      }));
+      const ragChunks: InsertRagChunk[] = chunks.map((chunk, index) =>
+        this.toRagChunk(chunk, index, documentId, searchChunkIds[index], chunkHashes[index])
+      );
 
       await storage.createRagChunks(ragChunks);
+      chunksStored = true;
+
+      // Step 7: Index in the vector store
+      console.log(`[RAG] Indexing ${searchDocuments.length} chunks in ${vectorStore.name} vector store`);
+      await vectorStore.indexDocuments(searchDocuments);
 
       // Step 8: Update record with success status
-      console.log(`[RAG] Updating document record with indexed status (OCR-enriched: ${ocrEnriched})`);
+      console.log(`[RAG] Updating document record with indexed status`);
       await storage.updateRagDocument(documentId, {
         searchDocId: documentId,
         totalChunks: chunks.length,
         status: "indexed",
+        contentHash: hashContent(options.content),
+        chunkerVersion: CHUNKER_VERSION,
+        embeddingVersion: currentEmbeddingVersion(),
+        progress: { ...emptyProgress(chunks.length), processedChunks: chunks.length, embeddedChunks: chunks.length },
+        lastIndexedAt: new Date(),
       });
 
       console.log(`[RAG] Document ingestion completed: ${options.fileName}`);
       
       // Trigger indexer run in background for OCR processing (fire-and-forget)
       // This runs completely asynchronously without blocking ingestion
-      void (async () => {
-        try {
-          await azureSearchSkillsetService.runIndexer();
-          console.log("[RAG] Indexer triggered for OCR processing");
-        } catch (err: any) {
-          console.warn("[RAG] Indexer trigger failed (non-blocking):", err?.message);
-        }
-      })();
+      // The OCR skillset belongs to Azure AI Search, so other vector stores skip it
+      if (vectorStore.name === "azure") {
+        void (async () => {
+          try {
+            await azureSearchSkillsetService.runIndexer();
+            console.log("[RAG] Indexer triggered for OCR processing");
+          } catch (err: any) {
+            console.warn("[RAG] Indexer trigger failed (non-blocking):", err?.message);
+          }
+        })();
+      }
       
       return {
         documentId,
@@ -295,11 +439,11 @@ export class DocumentIngestionService {
       console.error(`[RAG] Document ingestion failed: ${options.fileName}`, error);
       
       // CRITICAL: Clean up Azure resources if they were created
-      // Blob cleanup (only for new uploads, not re-indexing)
-      if (blobName && !options.documentId) {
+      // Blob cleanup (only for new uploads, not re-indexing or queued ingestion, which retries from the blob)
+      if (blobName && !options.documentId && !options.blob) {
         console.log(`[RAG] Cleaning up orphaned blob: ${blobName}`);
         try {
-          await azureBlobStorageService.deleteDocument(blobName);
+          await getFileStorage().deleteDocument(blobName);
         } catch (cleanupError) {
           console.error(`[RAG] Failed to cleanup blob: ${blobName}`, cleanupError);
         }
@@ -309,11 +453,20 @@ export class DocumentIngestionService {
       if (searchChunkIds.length > 0) {
         console.log(`[RAG] Cleaning up orphaned search chunks: ${searchChunkIds.length} items`);
         try {
-          await azureAISearchService.deleteDocuments(searchChunkIds);
+          await vectorStore.deleteDocuments(searchChunkIds);
         } catch (cleanupError) {
           console.error(`[RAG] Failed to cleanup search chunks`, cleanupError);
         }
       }
+
+      // Database chunk cleanup
+      if (chunksStored) {
+        try {
+          await storage.deleteRagChunksByDocumentId(documentId);
+        } catch (cleanupError) {
+          console.error(`[RAG] Failed to cleanup database chunks`, cleanupError);
+        }
+      }
       
       // Update document status to failed (record already exists from step 0)
       try {
@@ -334,7 +487,7 @@ export class DocumentIngestionService {
   }
 
   /**
-   * Clear chunks and search index for a document (used for re-indexing)
+   * Clear chunks and vector store index for a document (used for re-indexing)
    * Preserves the parent document record
    */
   async clearDocumentChunksAndIndex(documentId: string): Promise<void> {
@@ -344,10 +497,10 @@ export class DocumentIngestionService {
     const chunks = await storage.getRagChunksByDocumentId(documentId);
     const chunkIds = chunks.map((c) => c.searchChunkId).filter((id): id is string => id !== null);
     
-    // Delete chunks from Azure AI Search
+    // Delete chunks from the vector store
     if (chunkIds.length > 0) {
       try {
-        await azureAISearchService.deleteDocuments(chunkIds);
+        await getVectorStore().deleteDocuments(chunkIds);
         console.log(`[RAG] Deleted ${chunkIds.length} chunks from search index`);
       } catch (error) {
         console.error(`[RAG] Failed to delete search documents`, error);
@@ -362,7 +515,7 @@ export class DocumentIngestionService {
 
   /**
    * Delete a document from the RAG system
-   * Orchestrates cleanup across Azure Blob Storage, Azure AI Search, and database
+   * Orchestrates cleanup across Azure Blob Storage, the vector store, and database
    */
   async deleteDocument(documentId: string): Promise<void> {
     // Get document metadata
@@ -374,7 +527,7 @@ export class DocumentIngestionService {
     // Delete from Azure Blob Storage using stored blobName
     if (doc.blobName) {
       try {
-        await azureBlobStorageService.deleteDocument(doc.blobName);
+        await getFileStorage().deleteDocument(doc.blobName);
       } catch (error) {
         console.error(`[RAG] Failed to delete blob: ${doc.blobName}`, error);
         // Continue with cleanup even if blob deletion fails
@@ -389,36 +542,257 @@ export class DocumentIngestionService {
   }
 
   /**
-   * Re-index a document (useful if embedding model changes)
+   * Whether an indexing run is working on the document. A run that stopped updating the row for
+   * INDEXING_STALL_TIMEOUT_MS is taken to have crashed.
    */
-  async reindexDocument(documentId: string): Promise<IngestionResult> {
-    // Get document metadata
+  isIndexing(document: RagDocument): boolean {
+    return (document.status === "processing" || document.status === "reindexing")
+      && Date.now() - document.updatedAt.getTime() < INDEXING_STALL_TIMEOUT_MS;
+  }
+
+  /**
+   * Whether a document needs re-indexing without looking at its source file: it failed, was
+   * marked stale or its indexing run crashed, or it was indexed with an older chunker or another
+   * embedding provider/vector store. Changed source files are detected by reindexDocument, which
+   * compares content hashes.
+   */
+  isStale(document: RagDocument): boolean {
+    return document.status === "failed"
+      || document.status === "stale"
+      || ((document.status === "processing" || document.status === "reindexing") && !this.isIndexing(document))
+      || !document.contentHash
+      || document.chunkerVersion !== CHUNKER_VERSION
+      || document.embeddingVersion !== currentEmbeddingVersion();
+  }
+
+  /**
+   * Incrementally re-index a document from its stored blob
+   *
+   * Skips the document when the file, chunker and embedding setup are unchanged. Otherwise the
+   * document is re-chunked and chunks are matched to the stored ones by content hash: matches keep
+   * their embedding (only their position and labels are updated), new chunks are embedded and
+   * indexed, and chunks that no longer exist are removed. With `full`, every chunk is re-embedded.
+   * Progress counts are saved to rag_documents.progress as batches complete.
+   */
+  async reindexDocument(documentId: string, options: { full?: boolean } = {}): Promise<ReindexResult> {
     const doc = await storage.getRagDocument(documentId);
     if (!doc) {
       throw new Error(`Document not found: ${documentId}`);
     }
+    if (!doc.blobName) {
+      throw new Error("Document has no blob reference");
+    }
+
+    const content = await getFileStorage().downloadDocument(doc.blobName);
+    const contentHash = hashContent(content);
+    const embeddingVersion = currentEmbeddingVersion();
+    const reuseEmbeddings = !options.full && doc.embeddingVersion === embeddingVersion;
+
+    if (!options.full && !this.isStale(doc) && doc.contentHash === contentHash) {
+      console.log(`[RAG] Re-index skipped, document unchanged: ${doc.fileName}`);
+      return { documentId, status: "unchanged", progress: (doc.progress as IndexProgress | null) || emptyProgress(doc.totalChunks) };
+    }
+
+    const progress = emptyProgress();
+    await storage.updateRagDocument(documentId, { status: "reindexing", progress });
+
+    try {
+      const parsed = await parseDocument(content, doc.fileName);
+      const documentMetadata = (doc.metadata as DocumentIngestionOptions["metadata"] | null) || undefined;
+      const chunks = await this.prepareChunks(
+        { fileName: doc.fileName, textContent: parsed.text, sections: parsed.sections, metadata: documentMetadata },
+        doc.blobName
+      );
+      progress.totalChunks = chunks.length;
+
+      // Stored chunks by content hash (a list, since identical chunks can repeat within a document)
+      const existing = await storage.getRagChunksByDocumentId(documentId);
+      const reusable = new Map<string, RagChunk[]>();
+      if (reuseEmbeddings) {
+        for (const row of existing) {
+          if (!row.contentHash || !row.searchChunkId) continue;
+          reusable.set(row.contentHash, [...(reusable.get(row.contentHash) || []), row]);
+        }
+      }
+
+      // Match chunks to stored rows: first a row with the same ID (same position and content), then
+      // any row with the same content. Preferring same-ID rows keeps new chunk IDs from colliding
+      // with the IDs of rows that moved.
+      const chunkHashes = chunks.map(chunk => hashContent(chunk.content));
+      const matches = new Map<number, RagChunk>();
+      const takeMatch = (index: number, predicate: (row: RagChunk) => boolean) => {
+        const candidates = reusable.get(chunkHashes[index]);
+        const position = candidates?.findIndex(predicate) ?? -1;
+        if (candidates && position !== -1) {
+          matches.set(index, candidates.splice(position, 1)[0]);
+        }
+      };
+      chunks.forEach((chunk, index) => takeMatch(index, row =>
+        row.searchChunkId === chunkSearchId(documentId, chunk.metadata?.chunkIndex ?? index, chunkHashes[index])
+      ));
+      chunks.forEach((_chunk, index) => {
+        if (!matches.has(index)) takeMatch(index, () => true);
+      });
+
+      const kept = new Set<string>();
+      const vectorUpdates: VectorStoreDocumentUpdate[] = [];
+      const toEmbed: { chunk: ChunkResult; index: number; contentHash: string }[] = [];
+
+      for (let index = 0; index < chunks.length; index++) {
+        const chunk = chunks[index];
+        const match = matches.get(index);
+        if (!match) {
+          toEmbed.push({ chunk, index, contentHash: chunkHashes[index] });
+          continue;
+        }
+
+        kept.add(match.id);
+        const chunkIndex = chunk.metadata?.chunkIndex ?? index;
+        const metadata = this.toChunkMetadata(chunk);
+        if (match.chunkIndex !== chunkIndex || !sameMetadata(match.metadata, metadata)) {
+          await storage.updateRagChunk(match.id, { chunkIndex, metadata, tokenCount: chunk.tokenCount });
+          vectorUpdates.push({ id: match.searchChunkId!, chunkIndex, metadata: this.toVectorMetadata(chunk, documentMetadata) });
+        }
+      }
+      progress.reusedChunks = kept.size;
+      progress.processedChunks = kept.size;
+
+      // Remove chunks that no longer exist before adding new ones
+      const removed = existing.filter(row => !kept.has(row.id));
+      const removedSearchIds = removed.map(row => row.searchChunkId).filter((id): id is string => id !== null);
+      if (removedSearchIds.length > 0) {
+        await getVectorStore().deleteDocuments(removedSearchIds);
+      }
+      await storage.deleteRagChunks(removed.map(row => row.id));
+      progress.removedChunks = removed.length;
+
+      if (vectorUpdates.length > 0) {
+        await getVectorStore().updateDocuments(vectorUpdates);
+      }
+      await storage.updateRagDocument(documentId, { progress });
+
+      console.log(`[RAG] Re-indexing ${doc.fileName}: ${kept.size} unchanged, ${toEmbed.length} to embed, ${removed.length} removed`);
+
+      const ingestionOptions = {
+        sourceType: doc.sourceType as DocumentIngestionOptions["sourceType"],
+        sourceId: doc.sourceId || undefined,
+        category: doc.category as DocumentIngestionOptions["category"],
+        fileName: doc.fileName,
+        metadata: documentMetadata,
+      };
+
+      for (let i = 0; i < toEmbed.length; i += REINDEX_BATCH_SIZE) {
+        const batch = toEmbed.slice(i, i + REINDEX_BATCH_SIZE);
+        const embeddingResult = await getEmbeddingProvider().generateBatchEmbeddings(batch.map(item => item.chunk.content));
+        const ids = batch.map(item => chunkSearchId(documentId, item.chunk.metadata?.chunkIndex ?? item.index, item.contentHash));
+
+        // Rows first: the pgvector store indexes the stored rows
+        await storage.createRagChunks(batch.map((item, j) => this.toRagChunk(item.chunk, item.index, documentId, ids[j], item.contentHash)));
+        await getVectorStore().indexDocuments(batch.map((item, j) =>
+          this.toVectorStoreDocument(item.chunk, item.index, ids[j], embeddingResult.embeddings[j], ingestionOptions)
+        ));
+
+        progress.embeddedChunks += batch.length;
+        progress.processedChunks += batch.length;
+        await storage.updateRagDocument(documentId, { progress });
+      }
+
+      await storage.updateRagDocument(documentId, {
+        status: "indexed",
+        totalChunks: chunks.length,
+        contentHash,
+        chunkerVersion: CHUNKER_VERSION,
+        embeddingVersion,
+        progress,
+        lastIndexedAt: new Date(),
+      });
+
+      console.log(`[RAG] Re-index completed: ${doc.fileName}`);
+      return { documentId, status: "updated", progress };
+    } catch (error) {
+      // The stored hash is left as it was, so the next run retries; reused and new chunks are kept
+      console.error(`[RAG] Re-index failed: ${doc.fileName}`, error);
+      await storage.updateRagDocument(documentId, { status: "failed", progress });
+      return {
+        documentId,
+        status: "failed",
+        progress,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Mark documents whose indexing run crashed as failed, so they show up as stale instead of
+   * looking busy forever. Runs at startup.
+   */
+  async failInterruptedRuns(): Promise<number> {
+    const interrupted = (await storage.getAllRagDocuments()).filter(doc =>
+      (doc.status === "processing" || doc.status === "reindexing") && !this.isIndexing(doc)
+    );
+    for (const doc of interrupted) {
+      console.warn(`[RAG] ${doc.fileName} was left ${doc.status} by an interrupted run, marking it failed`);
+      await storage.updateRagDocumentStatus(doc.id, "failed");
+    }
+    return interrupted.length;
+  }
+
+  /**
+   * Documents a stale re-index should check (every document not being indexed right now).
+   * Documents known to be stale are marked "stale" up front so the list shows what is queued.
+   */
+  async prepareStaleReindex(): Promise<RagDocument[]> {
+    const documents = (await storage.getAllRagDocuments())
+      .filter(doc => doc.blobName && !this.isIndexing(doc));
+    for (const doc of documents) {
+      if (doc.status === "indexed" && this.isStale(doc)) {
+        await storage.updateRagDocumentStatus(doc.id, "stale");
+      }
+    }
+    return documents;
+  }
 
-    // Download from Blob Storage
-    if (!doc.blobUrl) {
-      throw new Error("Document blob URL not found");
+  /**
+   * Re-index documents one at a time. Unchanged documents are skipped after a content hash check,
+   * so a retried run passes quickly over the documents it already re-indexed.
+   */
+  async runStaleReindex(
+    documentIds: string[],
+    context: {
+      reportProgress: (progress: StaleReindexProgress) => Promise<void>;
+      throwIfCancelled: () => void;
     }
-    const blobName = doc.blobUrl.split("/").pop();
-    if (!blobName) {
-      throw new Error("Invalid blob URL");
+  ): Promise<StaleReindexProgress> {
+    const run: StaleReindexProgress = {
+      total: documentIds.length,
+      checked: 0,
+      updated: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+    console.log(`[RAG] Stale re-index started for ${documentIds.length} documents`);
+
+    for (const documentId of documentIds) {
+      context.throwIfCancelled();
+      const doc = await storage.getRagDocument(documentId);
+      if (doc && !this.isIndexing(doc)) {
+        run.currentDocument = doc.fileName;
+        await context.reportProgress(run);
+        try {
+          const result = await this.reindexDocument(doc.id);
+          run[result.status]++;
+        } catch (error) {
+          console.error(`[RAG] Stale re-index failed for ${doc.fileName}:`, error);
+          run.failed++;
+        }
+      }
+      run.checked++;
     }
 
-    const content = await azureBlobStorageService.downloadDocument(blobName);
-    const textContent = content.toString("utf-8");
-
-    // Re-ingest
-    return this.ingestDocument({
-      sourceType: doc.sourceType as any,
-      sourceId: doc.sourceId || undefined,
-      fileName: doc.fileName,
-      content,
-      textContent,
-      metadata: doc.metadata as any,
-    });
+    run.currentDocument = undefined;
+    await context.reportProgress(run);
+    console.log(`[RAG] Stale re-index finished: ${run.updated} updated, ${run.unchanged} unchanged, ${run.failed} failed`);
+    return run;
   }
 }
 
@@ -1,9 +1,298 @@
 import { PDFParse } from "pdf-parse";
+import mammoth from "mammoth";
+import ExcelJS from "exceljs";
+
+export interface ParsedSection {
+  title: string;
+  content: string;
+  anchor: string; // Stable locator within the source: "page:3", "heading:Scope", "Pricing!A1:F40"
+  level?: number; // Heading depth for Word documents (1 = top level)
+  pageNumber?: number; // PDF page number
+  sheetName?: string; // Excel worksheet name
+}
 
 export interface ParsedDocument {
   text: string;
   fileName: string;
   pageCount?: number;
+  format?: "pdf" | "docx" | "xlsx" | "txt" | "unknown";
+  sections?: ParsedSection[];
+  sheetNames?: string[];
+  tableCount?: number;
+}
+
+// Excel rows beyond this are truncated per sheet to keep prompts and chunk counts bounded
+const MAX_ROWS_PER_SHEET = 2000;
+
+interface HtmlElement {
+  tag: string;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(["br", "img", "hr"]);
+const LIST_TAGS = new Set(["ul", "ol"]);
+
+/**
+ * Decode the HTML entities mammoth emits (named ones it uses plus numeric references)
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Build an element tree from mammoth's HTML. Mammoth emits well-formed markup, so a tag stack is
+ * enough; a stray closing tag closes up to its matching open element and is otherwise ignored.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: "root", children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*?(\/?)>|([^<]+)/g;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenPattern.exec(html)) !== null) {
+    const [, closing, rawTag, selfClosing, text] = token;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+      continue;
+    }
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const openIndex = stack.map(element => element.tag).lastIndexOf(tag);
+      if (openIndex > 0) {
+        stack.length = openIndex;
+      }
+    } else {
+      const element: HtmlElement = { tag, children: [] };
+      parent.children.push(element);
+      if (!selfClosing && !VOID_TAGS.has(tag)) {
+        stack.push(element);
+      }
+    }
+  }
+  return root;
+}
+
+/**
+ * Text content of a node (line breaks kept); elements in `skip` are left out
+ */
+function nodeText(node: HtmlNode, skip: Set<string> = new Set()): string {
+  if (typeof node === "string") {
+    return node;
+  }
+  if (node.tag === "br") {
+    return "\n";
+  }
+  if (skip.has(node.tag)) {
+    return "";
+  }
+  const text = node.children.map(child => nodeText(child, skip)).join("");
+  // Rows and cells of tables nested inside another block stay apart when flattened
+  return node.tag === "tr" || node.tag === "p" ? `${text}\n` : node.tag === "td" || node.tag === "th" ? `${text} ` : text;
+}
+
+function childElements(node: HtmlElement, tags: string[]): HtmlElement[] {
+  return node.children.filter((child): child is HtmlElement => typeof child !== "string" && tags.includes(child.tag));
+}
+
+/**
+ * Rows of a table (its own rows, including those in thead/tbody/tfoot, not nested tables')
+ */
+function tableRows(table: HtmlElement): string[][] {
+  const rows = [
+    ...childElements(table, ["tr"]),
+    ...childElements(table, ["thead", "tbody", "tfoot"]).flatMap(group => childElements(group, ["tr"])),
+  ];
+  return rows.map(row => childElements(row, ["td", "th"]).map(cell => nodeText(cell).trim()));
+}
+
+/**
+ * Render a grid of cell values as a pipe-delimited table (keeps row/column structure for the LLM)
+ */
+function renderTable(rows: string[][]): string {
+  return rows
+    .filter(row => row.some(cell => cell.length > 0))
+    .map(row => `| ${row.map(cell => cell.replace(/\s*\n\s*/g, " ").replace(/\|/g, "/")).join(" | ")} |`)
+    .join("\n");
+}
+
+/**
+ * Convert an Excel column number (1-based) to its letter reference (1 -> A, 27 -> AA)
+ */
+function columnLetter(column: number): string {
+  let letters = "";
+  while (column > 0) {
+    const remainder = (column - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    column = Math.floor((column - 1) / 26);
+  }
+  return letters;
+}
+
+async function parsePdf(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+  const parser = new PDFParse({ data: buffer });
+  const textResult = await parser.getText();
+  await parser.destroy();
+
+  const sections: ParsedSection[] = textResult.pages
+    .filter(page => page.text.trim().length > 0)
+    .map(page => ({
+      title: `Page ${page.num}`,
+      content: page.text,
+      anchor: `page:${page.num}`,
+      pageNumber: page.num,
+    }));
+
+  return {
+    text: textResult.text,
+    fileName,
+    pageCount: textResult.pages.length,
+    format: "pdf",
+    sections,
+  };
+}
+
+/**
+ * Extract Word documents via mammoth's semantic HTML so headings and tables survive.
+ * Each heading opens a new section; content before the first heading goes into a preamble section.
+ */
+async function parseDocx(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+  const { value: html, messages } = await mammoth.convertToHtml({ buffer });
+  if (messages.length > 0) {
+    console.log(`   ⚠️  DOCX conversion warnings for ${fileName}: ${messages.length}`);
+  }
+
+  const sections: ParsedSection[] = [];
+  let current: ParsedSection = { title: fileName, content: "", anchor: "heading:preamble", level: 0 };
+  const textParts: string[] = [];
+  let tableCount = 0;
+
+  const appendBlock = (block: string) => {
+    current.content += (current.content ? "\n\n" : "") + block;
+    textParts.push(block);
+  };
+
+  // Nested list items are indented under their parent item
+  const appendList = (list: HtmlElement, depth: number) => {
+    for (const item of childElements(list, ["li"])) {
+      const text = nodeText(item, LIST_TAGS).trim();
+      if (text) {
+        appendBlock(`${"  ".repeat(depth)}- ${text.replace(/\s*\n\s*/g, " ")}`);
+      }
+      for (const nested of childElements(item, ["ul", "ol"])) {
+        appendList(nested, depth + 1);
+      }
+    }
+  };
+
+  const visit = (node: HtmlNode) => {
+    if (typeof node === "string") {
+      const text = node.trim();
+      if (text) appendBlock(text);
+      return;
+    }
+
+    const headingMatch = /^h([1-6])$/.exec(node.tag);
+    if (headingMatch) {
+      const title = nodeText(node).trim();
+      if (!title) return;
+      if (current.content.trim()) {
+        sections.push(current);
+      }
+      const level = parseInt(headingMatch[1], 10);
+      current = { title, content: "", anchor: `heading:${title}`, level };
+      textParts.push(`${"#".repeat(level)} ${title}`);
+    } else if (node.tag === "table") {
+      const table = renderTable(tableRows(node));
+      if (table) {
+        tableCount++;
+        appendBlock(table);
+      }
+    } else if (LIST_TAGS.has(node.tag)) {
+      appendList(node, 0);
+    } else if (node.tag === "p") {
+      const text = nodeText(node).trim();
+      if (text) appendBlock(text);
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+
+  parseHtml(html).children.forEach(visit);
+
+  if (current.content.trim()) {
+    sections.push(current);
+  }
+
+  return {
+    text: textParts.join("\n\n"),
+    fileName,
+    format: "docx",
+    sections,
+    tableCount,
+  };
+}
+
+/**
+ * Extract every worksheet as a cell grid. Each sheet becomes a section anchored to its used range.
+ */
+async function parseXlsx(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+
+  const sections: ParsedSection[] = [];
+  const sheetNames: string[] = [];
+
+  workbook.eachSheet((worksheet) => {
+    sheetNames.push(worksheet.name);
+
+    const rows: string[][] = [];
+    let lastRow = 0;
+    let lastColumn = 0;
+
+    worksheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      if (rows.length >= MAX_ROWS_PER_SHEET) return;
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+        cells[colNumber - 1] = (cell.text || "").trim();
+        lastColumn = Math.max(lastColumn, colNumber);
+      });
+      rows.push(Array.from(cells, cell => cell || ""));
+      lastRow = rowNumber;
+    });
+
+    const table = renderTable(rows);
+    if (!table) return;
+
+    if (worksheet.rowCount > MAX_ROWS_PER_SHEET) {
+      console.log(`   ⚠️  Sheet "${worksheet.name}" in ${fileName} truncated to ${MAX_ROWS_PER_SHEET} rows`);
+    }
+
+    sections.push({
+      title: `Sheet: ${worksheet.name}`,
+      content: table,
+      anchor: `${worksheet.name}!A1:${columnLetter(lastColumn)}${lastRow}`,
+      sheetName: worksheet.name,
+    });
+  });
+
+  return {
+    text: sections.map(section => `## ${section.title}\n\n${section.content}`).join("\n\n"),
+    fileName,
+    format: "xlsx",
+    sections,
+    sheetNames,
+    tableCount: sections.length,
+  };
 }
 
 export async function parseDocument(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
@@ -11,26 +300,24 @@ export async function parseDocument(buffer: Buffer, fileName: string): Promise<P
 
   try {
     if (fileExtension === 'pdf') {
-      const parser = new PDFParse({ data: buffer });
-      const textResult = await parser.getText();
-      await parser.destroy();
-      
-      return {
-        text: textResult.text,
-        fileName,
-        pageCount: textResult.pages.length,
-      };
+      return await parsePdf(buffer, fileName);
+    } else if (fileExtension === 'docx') {
+      return await parseDocx(buffer, fileName);
+    } else if (fileExtension === 'xlsx' || fileExtension === 'xlsm') {
+      return await parseXlsx(buffer, fileName);
     } else if (fileExtension === 'txt') {
       return {
         text: buffer.toString('utf-8'),
         fileName,
+        format: "txt",
       };
     } else {
-      // For other formats (Word, Excel), return a simplified text extraction
-      // In production, use libraries like mammoth or xlsx
+      // Legacy binary formats (.doc, .xls) are not supported - fall back to raw text
+      console.warn(`⚠️  No structured parser for .${fileExtension} files, using raw text: ${fileName}`);
       return {
         text: buffer.toString('utf-8'),
         fileName,
+        format: "unknown",
       };
     }
   } catch (error) {
@@ -0,0 +1,126 @@
+/**
+ * Embedding Providers
+ *
+ * RAG ingestion and retrieval embed text through this interface so the knowledge base can run
+ * against Azure OpenAI or fully offline. Selected with RAG_EMBEDDING_PROVIDER (see ConfigHelper).
+ */
+
+import { azureEmbeddingService } from "../azure/azureEmbedding";
+import { ConfigHelper } from "../core/configHelpers";
+import { countTokens } from "./chunkingService";
+
+export interface EmbeddingResult {
+  embedding: number[];
+  tokenCount: number;
+}
+
+export interface BatchEmbeddingResult {
+  embeddings: number[][];
+  tokenCounts: number[];
+  totalTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: "azure" | "local";
+  generateEmbedding(text: string): Promise<EmbeddingResult>;
+  generateBatchEmbeddings(texts: string[]): Promise<BatchEmbeddingResult>;
+}
+
+/**
+ * Azure OpenAI embeddings (the original, default provider)
+ */
+export class AzureEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "azure" as const;
+
+  generateEmbedding(text: string): Promise<EmbeddingResult> {
+    return azureEmbeddingService.generateEmbedding(text);
+  }
+
+  generateBatchEmbeddings(texts: string[]): Promise<BatchEmbeddingResult> {
+    return azureEmbeddingService.generateBatchEmbeddings(texts);
+  }
+}
+
+/**
+ * Deterministic in-process embeddings for on-prem and offline environments
+ *
+ * Word unigrams and bigrams are feature-hashed into a fixed-width vector with log-scaled term
+ * frequency and L2 normalisation, so cosine similarity measures lexical overlap. Weaker than a
+ * neural model on paraphrases, but needs no network, no model download and no extra packages,
+ * and the BM25 leg of hybrid search carries exact-term matches either way.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local" as const;
+
+  private tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1);
+  }
+
+  // FNV-1a (32-bit)
+  private hash(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  private embed(text: string): number[] {
+    const tokens = this.tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    const addFeature = (feature: string, weight: number) => {
+      termFrequencies.set(feature, (termFrequencies.get(feature) || 0) + weight);
+    };
+
+    tokens.forEach((token, index) => {
+      addFeature(token, 1);
+      if (index > 0) {
+        addFeature(`${tokens[index - 1]} ${token}`, 0.5);
+      }
+    });
+
+    // Same width as the configured model so the providers share the pgvector column; vectors from
+    // different providers are still not comparable, so re-index after switching providers
+    const { embeddingDimensions } = ConfigHelper.getRagBackendConfig();
+    const vector = new Array<number>(embeddingDimensions).fill(0);
+    termFrequencies.forEach((frequency, feature) => {
+      const hash = this.hash(feature);
+      // Top bit picks the sign so colliding features tend to cancel instead of accumulate
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % embeddingDimensions] += sign * (1 + Math.log(frequency));
+    });
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  async generateEmbedding(text: string): Promise<EmbeddingResult> {
+    return { embedding: this.embed(text), tokenCount: countTokens(text) };
+  }
+
+  async generateBatchEmbeddings(texts: string[]): Promise<BatchEmbeddingResult> {
+    const embeddings = texts.map(text => this.embed(text));
+    const tokenCounts = texts.map(text => countTokens(text));
+    return {
+      embeddings,
+      tokenCounts,
+      totalTokens: tokenCounts.reduce((sum, tokens) => sum + tokens, 0),
+    };
+  }
+}
+
+const providers: Partial<Record<EmbeddingProvider["name"], EmbeddingProvider>> = {};
+
+/**
+ * Embedding provider selected by RAG_EMBEDDING_PROVIDER
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const { embeddingProvider } = ConfigHelper.getRagBackendConfig();
+  if (!providers[embeddingProvider]) {
+    providers[embeddingProvider] = embeddingProvider === "local"
+      ? new LocalEmbeddingProvider()
+      : new AzureEmbeddingProvider();
+  }
+  return providers[embeddingProvider]!;
+}
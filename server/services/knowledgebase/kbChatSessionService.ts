@@ -0,0 +1,223 @@
+import { storage } from "../../storage";
+import type { ChatMessage, ChatMessageFeedback, ChatSession } from "@shared/schema";
+import type { ChatbotResponse, ChatbotSource, KnowledgeBaseChatMessage } from "./knowledgeBaseChatbotService";
+
+/**
+ * Knowledge Base Chat Sessions
+ * Server-side history for the knowledge base chatbot. Sessions reuse the chat_sessions and
+ * chat_messages tables with a null project and are private to the user who created them.
+ * Assistant messages keep their numbered sources and retrieval confidence so thumbs up/down
+ * feedback can be analysed against what was retrieved.
+ */
+
+const DEFAULT_SESSION_TITLE = "New Conversation";
+const AUTO_TITLE_LENGTH = 60;
+
+export interface KbChatMessageView extends ChatMessage {
+  feedback: Pick<ChatMessageFeedback, "rating" | "reason" | "comment"> | null; // Current user's rating
+}
+
+export interface KbChatFeedbackRecord {
+  feedback: ChatMessageFeedback;
+  question: string | null; // User message the rated answer replied to
+  answer: string;
+  sources: ChatbotSource[];
+  metadata: Record<string, any>;
+}
+
+class KbChatSessionService {
+  async createSession(userId: string, title?: string): Promise<ChatSession> {
+    const session = await storage.createChatSession({
+      projectId: null,
+      userId,
+      title: title || DEFAULT_SESSION_TITLE,
+    });
+    console.log(`[Knowledge Base Chatbot] Created session ${session.id}`);
+    return session;
+  }
+
+  async listSessions(userId: string): Promise<ChatSession[]> {
+    return storage.getKnowledgeBaseChatSessionsByUser(userId);
+  }
+
+  /**
+   * Session if it is a knowledge base session owned by the user (otherwise undefined, so other
+   * users' sessions look like missing ones)
+   */
+  async getOwnedSession(sessionId: string, userId: string): Promise<ChatSession | undefined> {
+    const session = await storage.getChatSession(sessionId);
+    if (!session || session.projectId !== null || session.userId !== userId) {
+      return undefined;
+    }
+    return session;
+  }
+
+  async renameSession(sessionId: string, title: string): Promise<void> {
+    await storage.updateChatSession(sessionId, { title });
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await storage.deleteChatSession(sessionId);
+    console.log(`[Knowledge Base Chatbot] Deleted session ${sessionId}`);
+  }
+
+  async getMessages(sessionId: string, userId: string): Promise<KbChatMessageView[]> {
+    const [messages, feedback] = await Promise.all([
+      storage.getChatMessagesBySession(sessionId),
+      storage.getChatMessageFeedbackBySession(sessionId),
+    ]);
+    const userFeedback = new Map(
+      feedback.filter(entry => entry.userId === userId).map(entry => [entry.messageId, entry])
+    );
+
+    return messages.map(message => {
+      const entry = userFeedback.get(message.id);
+      return {
+        ...message,
+        feedback: entry ? { rating: entry.rating, reason: entry.reason, comment: entry.comment } : null,
+      };
+    });
+  }
+
+  /**
+   * Stored messages in the shape the chatbot takes as conversation history
+   */
+  async getHistory(sessionId: string): Promise<KnowledgeBaseChatMessage[]> {
+    const messages = await storage.getChatMessagesBySession(sessionId);
+    return messages.map(message => ({
+      role: message.role as KnowledgeBaseChatMessage["role"],
+      content: message.content,
+      timestamp: message.createdAt.getTime(),
+    }));
+  }
+
+  /**
+   * Store a question and the chatbot's answer; the first question names an untitled session
+   */
+  async saveExchange(
+    session: ChatSession,
+    question: string,
+    response: ChatbotResponse
+  ): Promise<{ userMessage: ChatMessage; assistantMessage: ChatMessage; title: string }> {
+    const userMessage = await storage.createChatMessage({
+      sessionId: session.id,
+      role: "user",
+      content: question,
+    });
+
+    const assistantMessage = await storage.createChatMessage({
+      sessionId: session.id,
+      role: "assistant",
+      content: response.answer,
+      sourceReferences: response.sources,
+      metadata: {
+        ragChunksUsed: response.ragChunksUsed,
+        mcpConnectorsUsed: response.mcpConnectorsUsed,
+        noAnswer: response.noAnswer,
+        confidence: response.confidence,
+        traceId: response.traceId,
+      },
+    });
+
+    let title = session.title || DEFAULT_SESSION_TITLE;
+    if (title === DEFAULT_SESSION_TITLE) {
+      const singleLine = question.replace(/\s+/g, " ").trim();
+      title = singleLine.length > AUTO_TITLE_LENGTH ? `${singleLine.slice(0, AUTO_TITLE_LENGTH - 1)}…` : singleLine;
+    }
+    // Also bumps updatedAt so the session moves to the top of the list
+    await storage.updateChatSession(session.id, { title });
+
+    return { userMessage, assistantMessage, title };
+  }
+
+  /**
+   * Rate an assistant message (rating again replaces the user's previous rating)
+   */
+  async recordFeedback(
+    sessionId: string,
+    messageId: string,
+    userId: string,
+    feedback: { rating: "up" | "down"; reason?: string; comment?: string }
+  ): Promise<ChatMessageFeedback | null> {
+    const message = await storage.getChatMessage(messageId);
+    if (!message || message.sessionId !== sessionId || message.role !== "assistant") {
+      return null;
+    }
+
+    return storage.upsertChatMessageFeedback({
+      messageId,
+      sessionId,
+      userId,
+      rating: feedback.rating,
+      reason: feedback.reason || null,
+      comment: feedback.comment || null,
+    });
+  }
+
+  /**
+   * All feedback with the rated answer, the question it replied to and what was retrieved
+   */
+  async getFeedbackForAnalysis(rating?: "up" | "down"): Promise<KbChatFeedbackRecord[]> {
+    const feedback = (await storage.getAllChatMessageFeedback())
+      .filter(entry => !rating || entry.rating === rating);
+
+    const messagesBySession = new Map<string, ChatMessage[]>();
+    const records: KbChatFeedbackRecord[] = [];
+
+    for (const entry of feedback) {
+      if (!messagesBySession.has(entry.sessionId)) {
+        messagesBySession.set(entry.sessionId, await storage.getChatMessagesBySession(entry.sessionId));
+      }
+      const messages = messagesBySession.get(entry.sessionId)!;
+      const index = messages.findIndex(message => message.id === entry.messageId);
+      if (index === -1) continue;
+
+      const question = messages.slice(0, index).reverse().find(message => message.role === "user");
+      records.push({
+        feedback: entry,
+        question: question?.content ?? null,
+        answer: messages[index].content,
+        sources: (messages[index].sourceReferences as ChatbotSource[] | null) || [],
+        metadata: (messages[index].metadata as Record<string, any> | null) || {},
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * Markdown transcript with each answer's numbered sources
+   */
+  formatSessionAsMarkdown(session: ChatSession, messages: ChatMessage[]): string {
+    let markdown = `# ${session.title || DEFAULT_SESSION_TITLE}\n\n`;
+    markdown += `*Knowledge Base Chatbot conversation, started ${session.createdAt.toISOString().slice(0, 10)}*\n\n`;
+
+    for (const message of messages) {
+      const time = message.createdAt.toISOString().replace("T", " ").slice(0, 16);
+      if (message.role === "user") {
+        markdown += `## Question (${time})\n\n${message.content}\n\n`;
+        continue;
+      }
+
+      markdown += `### Answer\n\n${message.content}\n\n`;
+      const sources = (message.sourceReferences as ChatbotSource[] | null) || [];
+      if (sources.length > 0 && !(message.metadata as Record<string, any> | null)?.noAnswer) {
+        markdown += `**Sources**\n\n`;
+        for (const source of sources) {
+          const location = [
+            source.sectionTitle && `section "${source.sectionTitle}"`,
+            source.pageNumber !== undefined && `page ${source.pageNumber}`,
+          ].filter(Boolean).join(", ");
+          markdown += `${source.index}. ${source.name}${source.type === "mcp" ? " (MCP connector)" : ""}${location ? ` - ${location}` : ""}\n`;
+        }
+        markdown += `\n`;
+      }
+      markdown += `---\n\n`;
+    }
+
+    return markdown;
+  }
+}
+
+// Singleton instance
+export const kbChatSessionService = new KbChatSessionService();
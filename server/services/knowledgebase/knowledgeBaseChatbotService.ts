@@ -1,7 +1,7 @@
 import { storage } from "../../storage";
-import { ragRetrievalService } from "./ragRetrieval";
+import { ragRetrievalService, type RetrievedChunk } from "./ragRetrieval";
 import { mcpConnectorService } from "./mcpConnectorService";
-import { getOpenAIClient } from "../ai/aiAnalysis";
+import { getLlmClient, getLlmProviderStatuses } from "../ai/llmProvider";
 
 /**
  * Knowledge Base Chatbot Service
@@ -16,15 +16,69 @@ export interface KnowledgeBaseChatMessage {
   sources?: string[];
 }
 
+/**
+ * A numbered source the answer can cite inline as [n]
+ */
+export interface ChatbotSource {
+  index: number; // Citation number, 1-based
+  type: "rag" | "mcp";
+  name: string; // File or connector name
+  content?: string; // Section title (kept for older clients)
+  documentId?: string; // ragDocuments.id, when the chunk came from the RAG index
+  chunkIndex?: number;
+  sectionTitle?: string;
+  pageNumber?: number;
+  excerpt?: string; // Start of the chunk text, for hover previews
+}
+
 export interface ChatbotResponse {
   answer: string;
-  sources: Array<{
-    type: "rag" | "mcp";
-    name: string;
-    content?: string;
-  }>;
+  sources: ChatbotSource[];
   ragChunksUsed: number;
   mcpConnectorsUsed: number;
+  noAnswer: boolean; // True when retrieval confidence was too low to answer
+  confidence: number; // 0-1 retrieval confidence for the question
+  traceId?: string; // RAG retrieval trace (see retrievalPipeline)
+}
+
+// Sent before the answer text: everything in the response except the answer itself
+export type ChatbotSourcesEvent = { type: "sources" } & Omit<ChatbotResponse, "answer">;
+
+export type ChatbotStreamEvent =
+  | ChatbotSourcesEvent
+  | { type: "chunk"; content: string }
+  | { type: "done" };
+
+interface PreparedChat {
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+  sources: ChatbotSource[];
+  ragChunksUsed: number;
+  mcpConnectorsUsed: number;
+  noAnswer: boolean;
+  confidence: number;
+  traceId?: string;
+}
+
+// Below this retrieval confidence (and with no MCP data) the chatbot declines instead of answering
+const MIN_ANSWER_CONFIDENCE = 0.35;
+const EXCERPT_LENGTH = 280;
+
+const QUERY_STOPWORDS = new Set([
+  "the", "and", "for", "are", "what", "which", "who", "how", "does", "our", "with", "that", "this",
+  "about", "from", "have", "has", "any", "can", "you", "your", "there", "their", "when", "where",
+  "should", "would", "could", "tell", "show", "list", "give", "into", "all", "its", "was", "were",
+]);
+
+export const NO_ANSWER_MESSAGE =
+  "I couldn't find enough information in the knowledge base to answer this question reliably. " +
+  "Try rephrasing it with the terms used in your documents, or upload the relevant standard or policy.";
+
+/**
+ * Vector store chunk IDs are "<ragDocumentId>-chunk-<n>[-<content hash>]" (see documentIngestion)
+ */
+function getRagDocumentId(chunk: RetrievedChunk): string | undefined {
+  const match = chunk.chunkId?.match(/^(.+)-chunk-\d+(?:-[0-9a-f]+)?$/);
+  return match?.[1];
 }
 
 class KnowledgeBaseChatbotService {
@@ -41,150 +95,89 @@ class KnowledgeBaseChatbotService {
   ): Promise<ChatbotResponse> {
     console.log("[Knowledge Base Chatbot] Processing query:", userQuery);
 
-    // Step 1: Retrieve relevant RAG context
-    const ragContext = await ragRetrievalService.retrieveRelevantContext(userQuery, {
-      topK: 8,
-    });
-
-    console.log(`[Knowledge Base Chatbot] Retrieved ${ragContext.chunks.length} RAG chunks`);
+    const prepared = await this.prepareChat(userQuery, conversationHistory);
+    const { messages, ...result } = prepared;
 
-    // Step 2: Fetch MCP connector data for all roles (test all connectors)
-    const mcpConnectors = await storage.getActiveMcpConnectors();
-    const mcpPayloads: Array<{ connectorName: string; data: any; roles: string[] }> = [];
-
-    for (const connector of mcpConnectors) {
-      try {
-        const payload = await mcpConnectorService.fetchConnectorData(connector.id, {
-          projectName: "Knowledge Base Query",
-          proposalSummary: userQuery,
-        });
-
-        if (payload) {
-          mcpPayloads.push({
-            connectorName: connector.name,
-            data: payload.rawData,
-            roles: connector.roleMapping || [],
-          });
-        }
-      } catch (error) {
-        console.warn(`[Knowledge Base Chatbot] Failed to fetch from connector ${connector.name}:`, error);
-      }
+    if (prepared.noAnswer) {
+      return { answer: NO_ANSWER_MESSAGE, ...result };
     }
 
-    console.log(`[Knowledge Base Chatbot] Retrieved MCP data from ${mcpPayloads.length} connectors`);
+    // Generate response
+    console.log("[Knowledge Base Chatbot] Generating AI response...");
+    const { client: openai, model } = await getLlmClient("chat");
+    const completion = await openai.chat.completions.create({
+      model,
+      messages,
+      temperature: 0.3,
+      max_tokens: 1500,
+    });
 
-    // Step 3: Build context from RAG chunks
-    let contextParts: string[] = [];
+    const answer = completion.choices[0]?.message?.content || "I couldn't generate a response.";
 
-    if (ragContext.chunks.length > 0) {
-      contextParts.push("## Knowledge Base Documents\n");
-      ragContext.chunks.forEach((chunk, index) => {
-        contextParts.push(`### Document ${index + 1}: ${chunk.fileName}`);
-        if (chunk.metadata?.sectionTitle) {
-          contextParts.push(`Section: ${chunk.metadata.sectionTitle}`);
-        }
-        contextParts.push(chunk.content);
-        contextParts.push("---\n");
-      });
-    }
+    return { answer, ...result };
+  }
 
-    // Step 4: Build context from MCP connectors
-    if (mcpPayloads.length > 0) {
-      contextParts.push("\n## External Data Sources (MCP Connectors)\n");
-      mcpPayloads.forEach((mcp, index) => {
-        contextParts.push(`### Connector ${index + 1}: ${mcp.connectorName}`);
-        contextParts.push(`Mapped to Agents: ${mcp.roles.join(", ")}`);
-        contextParts.push(`Data: ${JSON.stringify(mcp.data, null, 2)}`);
-        contextParts.push("---\n");
-      });
-    }
+  /**
+   * Generate streaming response
+   *
+   * Sources are sent first so the client can link [n] citations while the answer streams.
+   */
+  async *generateStreamingResponse(
+    userQuery: string,
+    conversationHistory: KnowledgeBaseChatMessage[] = []
+  ): AsyncGenerator<ChatbotStreamEvent> {
+    console.log("[Knowledge Base Chatbot] Processing streaming query:", userQuery);
 
-    const contextString = contextParts.join("\n");
+    const { messages, ...result } = await this.prepareChat(userQuery, conversationHistory);
 
-    // Step 5: Build conversation history for OpenAI
-    const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
-      {
-        role: "system",
-        content: this.getSystemPrompt(ragContext.chunks.length, mcpPayloads.length),
-      },
-    ];
+    yield { type: "sources", ...result };
 
-    // Add conversation history (last 6 messages)
-    const recentHistory = conversationHistory.slice(-6);
-    for (const msg of recentHistory) {
-      if (msg.role !== "system") {
-        messages.push({
-          role: msg.role,
-          content: msg.content,
-        });
-      }
+    if (result.noAnswer) {
+      yield { type: "chunk", content: NO_ANSWER_MESSAGE };
+      yield { type: "done" };
+      return;
     }
 
-    // Add current context and query
-    messages.push({
-      role: "user",
-      content: `${contextString}\n\n---\n\n**User Question:** ${userQuery}\n\nPlease answer based ONLY on the knowledge base documents and MCP connector data provided above. If the information is not in the provided context, clearly state that you don't have that information in the knowledge base.`,
-    });
-
-    // Step 6: Generate response
-    console.log("[Knowledge Base Chatbot] Generating AI response...");
-    const openai = await getOpenAIClient();
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    // Stream response
+    const { client: openai, model } = await getLlmClient("chat");
+    const stream = await openai.chat.completions.create({
+      model,
       messages,
       temperature: 0.3,
       max_tokens: 1500,
+      stream: true,
     });
 
-    const answer = completion.choices[0]?.message?.content || "I couldn't generate a response.";
-
-    // Step 7: Build sources list
-    const sources: Array<{ type: "rag" | "mcp"; name: string; content?: string }> = [];
-
-    ragContext.chunks.forEach((chunk) => {
-      sources.push({
-        type: "rag",
-        name: chunk.fileName,
-        content: chunk.metadata?.sectionTitle || undefined,
-      });
-    });
-
-    mcpPayloads.forEach((mcp) => {
-      sources.push({
-        type: "mcp",
-        name: mcp.connectorName,
-      });
-    });
+    for await (const chunk of stream) {
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield {
+          type: "chunk",
+          content,
+        };
+      }
+    }
 
-    return {
-      answer,
-      sources,
-      ragChunksUsed: ragContext.chunks.length,
-      mcpConnectorsUsed: mcpPayloads.length,
+    yield {
+      type: "done",
     };
   }
 
   /**
-   * Generate streaming response
+   * Retrieve RAG and MCP context, number the sources and build the prompt
    */
-  async *generateStreamingResponse(
+  private async prepareChat(
     userQuery: string,
-    conversationHistory: KnowledgeBaseChatMessage[] = []
-  ): AsyncGenerator<{
-    type: "chunk" | "sources" | "done";
-    content?: string;
-    sources?: Array<{ type: "rag" | "mcp"; name: string; content?: string }>;
-    ragChunksUsed?: number;
-    mcpConnectorsUsed?: number;
-  }> {
-    console.log("[Knowledge Base Chatbot] Processing streaming query:", userQuery);
-
-    // Step 1: Retrieve RAG context
+    conversationHistory: KnowledgeBaseChatMessage[]
+  ): Promise<PreparedChat> {
+    // Step 1: Retrieve relevant RAG context
     const ragContext = await ragRetrievalService.retrieveRelevantContext(userQuery, {
       topK: 8,
     });
 
-    // Step 2: Fetch MCP data
+    console.log(`[Knowledge Base Chatbot] Retrieved ${ragContext.chunks.length} RAG chunks`);
+
+    // Step 2: Fetch MCP connector data for all roles (test all connectors)
     const mcpConnectors = await storage.getActiveMcpConnectors();
     const mcpPayloads: Array<{ connectorName: string; data: any; roles: string[] }> = [];
 
@@ -207,16 +200,47 @@ class KnowledgeBaseChatbotService {
       }
     }
 
-    // Step 3: Build context
-    let contextParts: string[] = [];
+    console.log(`[Knowledge Base Chatbot] Retrieved MCP data from ${mcpPayloads.length} connectors`);
+
+    // Step 3: Number sources: RAG chunks first, then MCP connectors
+    const sources: ChatbotSource[] = [
+      ...ragContext.chunks.map((chunk, index): ChatbotSource => ({
+        index: index + 1,
+        type: "rag",
+        name: chunk.fileName,
+        content: chunk.metadata?.sectionTitle || undefined,
+        documentId: getRagDocumentId(chunk),
+        chunkIndex: chunk.chunkIndex,
+        sectionTitle: chunk.metadata?.sectionTitle || undefined,
+        pageNumber: chunk.metadata?.pageNumber ?? undefined,
+        excerpt: chunk.content.slice(0, EXCERPT_LENGTH),
+      })),
+      ...mcpPayloads.map((mcp, index): ChatbotSource => ({
+        index: ragContext.chunks.length + index + 1,
+        type: "mcp",
+        name: mcp.connectorName,
+      })),
+    ];
+
+    const confidence = this.assessRetrievalConfidence(userQuery, ragContext.chunks);
+    const noAnswer = mcpPayloads.length === 0 && confidence < MIN_ANSWER_CONFIDENCE;
+    if (noAnswer) {
+      console.log(`[Knowledge Base Chatbot] Retrieval confidence ${confidence.toFixed(2)} below ${MIN_ANSWER_CONFIDENCE}, not answering`);
+    }
+
+    // Step 4: Build context with citation numbers
+    const contextParts: string[] = [];
 
     if (ragContext.chunks.length > 0) {
       contextParts.push("## Knowledge Base Documents\n");
       ragContext.chunks.forEach((chunk, index) => {
-        contextParts.push(`### Document ${index + 1}: ${chunk.fileName}`);
+        contextParts.push(`### [${index + 1}] ${chunk.fileName}`);
         if (chunk.metadata?.sectionTitle) {
           contextParts.push(`Section: ${chunk.metadata.sectionTitle}`);
         }
+        if (chunk.metadata?.pageNumber) {
+          contextParts.push(`Page: ${chunk.metadata.pageNumber}`);
+        }
         contextParts.push(chunk.content);
         contextParts.push("---\n");
       });
@@ -225,7 +249,7 @@ class KnowledgeBaseChatbotService {
     if (mcpPayloads.length > 0) {
       contextParts.push("\n## External Data Sources (MCP Connectors)\n");
       mcpPayloads.forEach((mcp, index) => {
-        contextParts.push(`### Connector ${index + 1}: ${mcp.connectorName}`);
+        contextParts.push(`### [${ragContext.chunks.length + index + 1}] ${mcp.connectorName}`);
         contextParts.push(`Mapped to Agents: ${mcp.roles.join(", ")}`);
         contextParts.push(`Data: ${JSON.stringify(mcp.data, null, 2)}`);
         contextParts.push("---\n");
@@ -234,14 +258,15 @@ class KnowledgeBaseChatbotService {
 
     const contextString = contextParts.join("\n");
 
-    // Step 4: Build messages
-    const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [
+    // Step 5: Build conversation history for OpenAI
+    const messages: PreparedChat["messages"] = [
       {
         role: "system",
         content: this.getSystemPrompt(ragContext.chunks.length, mcpPayloads.length),
       },
     ];
 
+    // Add conversation history (last 6 messages)
     const recentHistory = conversationHistory.slice(-6);
     for (const msg of recentHistory) {
       if (msg.role !== "system") {
@@ -252,59 +277,47 @@ class KnowledgeBaseChatbotService {
       }
     }
 
+    // Add current context and query
     messages.push({
       role: "user",
-      content: `${contextString}\n\n---\n\n**User Question:** ${userQuery}\n\nPlease answer based ONLY on the knowledge base documents and MCP connector data provided above.`,
+      content: `${contextString}\n\n---\n\n**User Question:** ${userQuery}\n\nPlease answer based ONLY on the knowledge base documents and MCP connector data provided above, citing each statement with its source number like [1]. If the information is not in the provided context, clearly state that you don't have that information in the knowledge base.`,
     });
 
-    // Step 5: Stream response
-    const openai = await getOpenAIClient();
-    const stream = await openai.chat.completions.create({
-      model: "gpt-4o",
+    return {
       messages,
-      temperature: 0.3,
-      max_tokens: 1500,
-      stream: true,
-    });
-
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        yield {
-          type: "chunk",
-          content,
-        };
-      }
-    }
-
-    // Send sources
-    const sources: Array<{ type: "rag" | "mcp"; name: string; content?: string }> = [];
-
-    ragContext.chunks.forEach((chunk) => {
-      sources.push({
-        type: "rag",
-        name: chunk.fileName,
-        content: chunk.metadata?.sectionTitle || undefined,
-      });
-    });
-
-    mcpPayloads.forEach((mcp) => {
-      sources.push({
-        type: "mcp",
-        name: mcp.connectorName,
-      });
-    });
-
-    yield {
-      type: "sources",
       sources,
       ragChunksUsed: ragContext.chunks.length,
       mcpConnectorsUsed: mcpPayloads.length,
+      noAnswer,
+      confidence,
+      traceId: ragContext.traceId,
     };
+  }
 
-    yield {
-      type: "done",
-    };
+  /**
+   * How well the retrieved chunks cover the question (0-1)
+   *
+   * Uses reranker scores when a reranker is configured; otherwise the share of the question's
+   * key terms found in the top chunks, since raw search scores are not comparable across
+   * vector stores.
+   */
+  private assessRetrievalConfidence(userQuery: string, chunks: RetrievedChunk[]): number {
+    if (chunks.length === 0) return 0;
+
+    const rerankScores = chunks.map(chunk => chunk.rerankScore).filter((score): score is number => score !== undefined);
+    if (rerankScores.length > 0) {
+      return Math.max(...rerankScores);
+    }
+
+    const terms = Array.from(new Set(
+      userQuery.toLowerCase().split(/[^a-z0-9]+/).filter(term => term.length > 2 && !QUERY_STOPWORDS.has(term))
+    ));
+    // Nothing to match on (e.g. "hi"): let the model respond
+    if (terms.length === 0) return 1;
+
+    const topText = chunks.slice(0, 3).map(chunk => chunk.content.toLowerCase()).join(" ");
+    const matched = terms.filter(term => topText.includes(term)).length;
+    return matched / terms.length;
   }
 
   /**
@@ -317,7 +330,7 @@ class KnowledgeBaseChatbotService {
 - Answer questions ONLY using the provided knowledge base documents and MCP connector data
 - DO NOT use your general knowledge about aviation, airlines, or technology
 - If information is NOT in the provided context, clearly state: "I don't have that information in the current knowledge base"
-- Always cite which documents or connectors you're using in your answer
+- Cite every statement with the number of the source it came from, e.g. "Data must be encrypted at rest [2]." Use only the numbers shown in the context; cite several sources as [1][3]
 
 **CURRENT CONTEXT AVAILABLE:**
 - Knowledge Base Documents: ${ragChunks} retrieved chunks
@@ -352,19 +365,12 @@ You are helping test the RAG (Retrieval Augmented Generation) system and MCP (Mo
     const ragConfigured = await ragRetrievalService.isConfigured();
     const mcpConnectors = await storage.getActiveMcpConnectors();
     
-    // Check for OpenAI credentials (supports both regular OpenAI and Azure OpenAI)
-    // Matches ConfigHelper.getAgentsOpenAIConfig() logic:
-    // - Regular OpenAI: AI_INTEGRATIONS_OPENAI_API_KEY or OPENAI_API_KEY
-    // - Azure OpenAI: AZURE_OPENAI_KEY + AZURE_OPENAI_ENDPOINT + AZURE_OPENAI_DEPLOYMENT
-    const hasOpenAI = !!process.env.AI_INTEGRATIONS_OPENAI_API_KEY || !!process.env.OPENAI_API_KEY;
-    const hasAzureOpenAI = !!process.env.AZURE_OPENAI_KEY && 
-                           !!process.env.AZURE_OPENAI_ENDPOINT && 
-                           !!process.env.AZURE_OPENAI_DEPLOYMENT;
-    const openAIConfigured = hasOpenAI || hasAzureOpenAI;
+    // Any configured LLM provider can serve the chat route (Azure OpenAI, OpenAI or a local server)
+    const openAIConfigured = getLlmProviderStatuses().some(provider => provider.configured);
 
     const missingConfiguration: string[] = [];
     if (!openAIConfigured) {
-      missingConfiguration.push("OpenAI credentials (AI_INTEGRATIONS_OPENAI_API_KEY or complete Azure OpenAI setup: AZURE_OPENAI_KEY + AZURE_OPENAI_ENDPOINT + AZURE_OPENAI_DEPLOYMENT)");
+      missingConfiguration.push("LLM provider credentials (complete Azure OpenAI setup: AZURE_OPENAI_KEY + AZURE_OPENAI_ENDPOINT + AZURE_OPENAI_DEPLOYMENT, AI_INTEGRATIONS_OPENAI_API_KEY, or LOCAL_LLM_BASE_URL + LOCAL_LLM_MODEL)");
     }
     if (!ragConfigured) {
       missingConfiguration.push("Azure AI Search configuration");
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSseEvents } from "./mcpClient";
+
+describe("parseSseEvents", () => {
+  it("parses each message event and joins multi-line data", () => {
+    const body = [
+      'data: {"jsonrpc":"2.0","id":1,',
+      'data: "result":{"tools":[]}}',
+      "",
+      'data: {"jsonrpc":"2.0","method":"notifications/progress"}',
+      "",
+    ].join("\n");
+
+    assert.deepEqual(parseSseEvents(body), [
+      { jsonrpc: "2.0", id: 1, result: { tools: [] } },
+      { jsonrpc: "2.0", method: "notifications/progress" },
+    ]);
+  });
+
+  it("skips comments, other event types and events without data", () => {
+    const body = ": keep-alive\r\n\r\nevent: endpoint\r\ndata: /messages\r\n\r\nid: 7\r\n\r\nevent: message\r\ndata: {\"jsonrpc\":\"2.0\",\"id\":2,\"result\":{}}\r\n\r\n";
+
+    assert.deepEqual(parseSseEvents(body), [{ jsonrpc: "2.0", id: 2, result: {} }]);
+  });
+
+  it("flattens a batched response", () => {
+    const body = 'data: [{"jsonrpc":"2.0","id":1,"result":{}},{"jsonrpc":"2.0","id":2,"result":{}}]\n\n';
+
+    assert.deepEqual(parseSseEvents(body).map(message => message.id), [1, 2]);
+  });
+});
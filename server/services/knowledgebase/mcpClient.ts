@@ -0,0 +1,277 @@
+/**
+ * Model Context Protocol Client
+ *
+ * Minimal MCP client over the Streamable HTTP transport: initialize handshake, tool discovery and
+ * calls, and resource reads. Servers may answer a request with plain JSON or an SSE stream; the
+ * stream is read until the response to that request arrives. Errors are thrown as
+ * { category, message } like the connector adapters.
+ */
+
+import type { ConnectorError } from "./mcpConnectorService";
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+const CLIENT_INFO = { name: "intellibid", version: "1.0.0" };
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+}
+
+export interface McpResource {
+  uri: string;
+  name?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpServerInfo {
+  protocolVersion: string;
+  serverInfo?: { name: string; version?: string };
+  capabilities: Record<string, any>;
+  instructions?: string;
+}
+
+interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method?: string;
+  result?: any;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type McpClientError = Pick<ConnectorError, "category"> & { message: string };
+
+/**
+ * Classify a failed HTTP response (also used by the connector adapters)
+ */
+export function httpError(status: number, statusText: string): McpClientError {
+  if (status === 401 || status === 403) {
+    return { category: "auth", message: `Authentication failed: ${statusText}` };
+  }
+  if (status === 429) {
+    return { category: "rateLimit", message: "Rate limit exceeded" };
+  }
+  return { category: "network", message: `HTTP ${status}: ${statusText}` };
+}
+
+/**
+ * Split an SSE body into the JSON-RPC messages of its events (multi-line data fields joined,
+ * comments and non-message events skipped)
+ */
+export function parseSseEvents(chunk: string): JsonRpcMessage[] {
+  const messages: JsonRpcMessage[] = [];
+  for (const event of chunk.split(/\r?\n\r?\n/)) {
+    let eventType = "message";
+    const data: string[] = [];
+    for (const line of event.split(/\r?\n/)) {
+      if (line.startsWith("data:")) {
+        data.push(line.slice(5).replace(/^ /, ""));
+      } else if (line.startsWith("event:")) {
+        eventType = line.slice(6).trim();
+      }
+    }
+    if (eventType !== "message" || data.length === 0) continue;
+    const parsed = JSON.parse(data.join("\n"));
+    messages.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+  return messages;
+}
+
+export class McpClient {
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private nextId = 1;
+
+  constructor(
+    private readonly serverUrl: string,
+    private readonly headers: Record<string, string> = {},
+    private readonly timeoutMs: number = 30000
+  ) {}
+
+  /**
+   * Handshake: negotiate the protocol version, then confirm with notifications/initialized
+   */
+  async initialize(): Promise<McpServerInfo> {
+    const result = await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    this.protocolVersion = result.protocolVersion || MCP_PROTOCOL_VERSION;
+    await this.notify("notifications/initialized");
+    return {
+      protocolVersion: this.protocolVersion!,
+      serverInfo: result.serverInfo,
+      capabilities: result.capabilities || {},
+      instructions: result.instructions,
+    };
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request("tools/list", cursor ? { cursor } : {});
+      tools.push(...(result.tools || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<any> {
+    return this.request("tools/call", { name, arguments: args });
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.request("resources/list", cursor ? { cursor } : {});
+      resources.push(...(result.resources || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(uri: string): Promise<any> {
+    return this.request("resources/read", { uri });
+  }
+
+  /**
+   * End the server-side session (best effort; servers without sessions ignore it)
+   */
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      await fetch(this.serverUrl, { method: "DELETE", headers: this.requestHeaders() });
+    } catch {
+      // The session expires on the server anyway
+    }
+    this.sessionId = null;
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      "Accept": "application/json, text/event-stream",
+      "Content-Type": "application/json",
+      ...this.headers,
+      ...(this.sessionId && { "Mcp-Session-Id": this.sessionId }),
+      ...(this.protocolVersion && { "MCP-Protocol-Version": this.protocolVersion }),
+    };
+  }
+
+  private async post(message: JsonRpcMessage, signal: AbortSignal): Promise<Response> {
+    const response = await fetch(this.serverUrl, {
+      method: "POST",
+      headers: this.requestHeaders(),
+      body: JSON.stringify(message),
+      signal,
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw httpError(response.status, response.statusText);
+    }
+    return response;
+  }
+
+  private async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      const response = await this.post({ jsonrpc: "2.0", method, ...(params && { params }) } as JsonRpcMessage, controller.signal);
+      await response.body?.cancel();
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async request(method: string, params: Record<string, unknown>): Promise<any> {
+    const id = this.nextId++;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.post({ jsonrpc: "2.0", id, method, params } as JsonRpcMessage, controller.signal);
+      const contentType = response.headers.get("content-type") || "";
+
+      const reply = contentType.includes("text/event-stream")
+        ? await this.readStream(response, id)
+        : this.findReply(await response.json(), id);
+
+      if (!reply) {
+        throw { category: "parsing", message: `No response to ${method} from MCP server` };
+      }
+      if (reply.error) {
+        throw { category: "unknown", message: `MCP ${method} failed: ${reply.error.message} (${reply.error.code})` };
+      }
+      return reply.result ?? {};
+    } catch (error: any) {
+      throw this.normalizeError(error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private findReply(body: JsonRpcMessage | JsonRpcMessage[], id: number): JsonRpcMessage | undefined {
+    const messages = Array.isArray(body) ? body : [body];
+    return messages.find((message) => message.id === id && ("result" in message || "error" in message));
+  }
+
+  /**
+   * Read SSE events until the response with this id arrives; server notifications and requests
+   * sent on the same stream (progress, logging) are skipped
+   */
+  private async readStream(response: Response, id: number): Promise<JsonRpcMessage | undefined> {
+    if (!response.body) return undefined;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += done ? "\n\n" : decoder.decode(value, { stream: true });
+
+        // Only complete events (terminated by a blank line) are parsed
+        const boundary = Math.max(buffer.lastIndexOf("\n\n"), buffer.lastIndexOf("\r\n\r\n"));
+        if (boundary !== -1) {
+          const reply = this.findReply(parseSseEvents(buffer.slice(0, boundary)), id);
+          buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+          if (reply) return reply;
+        }
+
+        if (done) return undefined;
+      }
+    } catch (error: any) {
+      if (error instanceof SyntaxError) {
+        throw { category: "parsing", message: "Failed to parse MCP event stream" };
+      }
+      throw error;
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  private normalizeError(error: any): McpClientError {
+    if (error?.name === "AbortError") {
+      return { category: "timeout", message: "Request timeout exceeded" };
+    }
+    if (error?.category) {
+      return error;
+    }
+    if (error instanceof SyntaxError) {
+      return { category: "parsing", message: "MCP server returned invalid JSON" };
+    }
+    return { category: "network", message: error?.message || "Unknown error occurred" };
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { McpConnector } from "@shared/schema";
+import { mcpConnectorService, renderTemplate, type ConnectorPayload } from "./mcpConnectorService";
+
+const CONTEXT = {
+  projectName: "Citizen Identity",
+  vendorName: "Northwind",
+  requirements: ["SAML 2.0", "MFA"],
+  proposalSummary: "Hosted identity platform",
+};
+
+describe("renderTemplate", () => {
+  it("fills placeholders inside strings, joining lists with newlines", () => {
+    assert.equal(
+      renderTemplate("{{vendorName}} for {{ projectName }}:\n{{requirements}}", CONTEXT),
+      "Northwind for Citizen Identity:\nSAML 2.0\nMFA"
+    );
+  });
+
+  it("keeps the raw value of a string that is a single placeholder", () => {
+    assert.deepEqual(renderTemplate({ items: "{{requirements}}" }, CONTEXT), { items: ["SAML 2.0", "MFA"] });
+  });
+
+  it("recurses into arrays and objects and leaves other values alone", () => {
+    assert.deepEqual(
+      renderTemplate({ q: ["{{query}}", 5], options: { vendor: "{{vendorName}}", exact: true } }, CONTEXT),
+      { q: ["Hosted identity platform", 5], options: { vendor: "Northwind", exact: true } }
+    );
+  });
+
+  it("leaves unknown placeholders as written and fills missing context with empty values", () => {
+    assert.equal(renderTemplate("{{unknown}} {{vendorName}}", {}), "{{unknown}} ");
+    assert.deepEqual(renderTemplate("{{requirements}}", {}), []);
+  });
+});
+
+describe("fetchAllConnectorDataForRole", () => {
+  it("skips connectors that offer the role on-demand tools", async () => {
+    const { storage } = await import("../../storage");
+    const connector = (id: string, config: unknown) =>
+      ({ id, name: id, connectorType: "rest", roleMapping: ["security", "delivery"], config, isActive: "true" }) as McpConnector;
+    storage.getActiveMcpConnectors = async () => [
+      connector("upfront", { tools: [{ name: "search" }] }),
+      connector("tools", { tools: [{ name: "search" }, { name: "lookup_certifications", onDemand: true, roles: ["security"] }] }),
+    ];
+    const fetched: string[] = [];
+    mcpConnectorService.fetchConnectorData = async (connectorId) => {
+      fetched.push(connectorId);
+      return { roleContext: { security: connectorId, delivery: connectorId } } as unknown as ConnectorPayload;
+    };
+
+    const security = await mcpConnectorService.fetchAllConnectorDataForRole("security", CONTEXT);
+    const delivery = await mcpConnectorService.fetchAllConnectorDataForRole("delivery", CONTEXT);
+
+    assert.equal(security.payload, "upfront");
+    assert.equal(delivery.payload, "upfront\n\ntools");
+    assert.deepEqual(fetched, ["upfront", "upfront", "tools"]);
+  });
+});
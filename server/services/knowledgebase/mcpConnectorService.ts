@@ -1,5 +1,8 @@
+import WebSocket from "ws";
 import { storage } from "../../storage";
 import { cacheService } from "./cacheService";
+import { oauthTokenService, validateOAuthConfig } from "./mcpOAuth";
+import { McpClient, httpError, type McpClientError, type McpResource, type McpServerInfo, type McpTool } from "./mcpClient";
 import type { McpConnector } from "@shared/schema";
 
 export type AgentRole = "delivery" | "product" | "architecture" | "engineering" | "procurement" | "security";
@@ -34,126 +37,274 @@ export interface ConnectorError {
   timestamp: number;
 }
 
-class RESTAdapter implements ConnectorAdapter {
-  supports(connectorType: string): boolean {
-    return connectorType === "rest";
-  }
+// Thrown by adapters and mapped to a ConnectorError by the service
+type AdapterError = McpClientError;
 
-  async fetchData(connector: McpConnector, context: EvaluationContext): Promise<ConnectorPayload> {
-    const timeout = 10000;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+export const AGENT_ROLES: AgentRole[] = ["delivery", "product", "architecture", "engineering", "procurement", "security"];
 
-    try {
-      const headers: Record<string, string> = {
-        "Accept": "application/json, text/event-stream",
-        "Content-Type": "application/json",
-      };
+/**
+ * connector.config of an MCP connector. Tool arguments and resource URIs are templates (see
+ * renderTemplate); roles narrows a tool or resource to some of the connector's mapped roles.
+ * onDemand tools are not called up front: agents call them during evaluation with arguments of
+ * their choosing, and the configured arguments are fixed values the agent cannot change. A role
+ * offered on-demand tools gets none of the connector's up-front data.
+ */
+export interface McpConnectorConfig {
+  tools?: Array<{ name: string; arguments?: Record<string, unknown>; roles?: AgentRole[]; onDemand?: boolean }>;
+  resources?: Array<{ uri: string; roles?: AgentRole[] }>;
+  timeoutMs?: number;
+  cloudId?: string;
+}
 
-      if (connector.authType === "bearer" && connector.apiKey) {
-        headers["Authorization"] = `Bearer ${connector.apiKey}`;
-      } else if (connector.authType === "apikey" && connector.apiKey) {
-        headers["X-API-Key"] = connector.apiKey;
-      } else if (connector.authType === "basic" && connector.apiKey) {
-        headers["Authorization"] = `Basic ${Buffer.from(connector.apiKey).toString("base64")}`;
-      }
+// Connectors saved before tools could be selected call the Zapier Confluence search they were set up for
+const DEFAULT_MCP_TOOLS: NonNullable<McpConnectorConfig["tools"]> = [
+  {
+    name: "confluence_cloud_search_for_page_or_blog_post",
+    arguments: {
+      query: "{{query}}",
+      instructions: "Search Confluence for pages and blog posts related to: {{query}}. Return the full content of relevant pages.",
+    },
+  },
+];
 
-      // Direct JSON-RPC call to Zapier MCP
-      // Try simplified format without extra parameters
-      const searchQuery = context.proposalSummary || context.projectName || "";
-      
-      // Get Confluence cloudId from connector config
-      const config = connector.config as any;
-      const cloudId = config?.cloudId || "";
-      
-      console.log(`🔍 [MCP DEBUG] Connector config:`, connector.config);
-      console.log(`🔍 [MCP DEBUG] Extracted cloudId: "${cloudId}"`);
-      
-      // Try without Site parameter - Zapier might have it configured in the MCP server
-      const jsonRpcRequest = {
-        jsonrpc: "2.0",
-        id: Date.now(),
-        method: "tools/call",
-        params: {
-          name: "confluence_cloud_search_for_page_or_blog_post",
-          arguments: {
-            query: searchQuery,
-            instructions: `Search Confluence for pages and blog posts related to: ${searchQuery}. Return the full content of relevant pages.`,
-            // Don't send Site - Zapier MCP server should have it configured
-          },
-        },
-      };
-      
-      console.log(`🔍 [MCP DEBUG] Sending request:`, JSON.stringify(jsonRpcRequest, null, 2));
+export interface McpDiscovery {
+  server: McpServerInfo;
+  tools: McpTool[];
+  resources: McpResource[];
+}
 
-      const response = await fetch(connector.serverUrl, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(jsonRpcRequest),
-        signal: controller.signal,
-      });
+/**
+ * A connector tool offered to an agent as an LLM function. name is unique within the toolbox;
+ * parameters is the tool's input schema without the arguments fixed by the connector config.
+ */
+export interface AgentTool {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  connectorName: string;
+  toolName: string;
+}
 
-      clearTimeout(timeoutId);
+/**
+ * On-demand tools of the connectors mapped to one agent role, connected for the length of that
+ * agent's evaluation. call() returns the formatted tool result and throws { category, message }.
+ */
+export interface AgentToolbox {
+  tools: AgentTool[];
+  diagnostics: ConnectorError[];
+  call(name: string, args: Record<string, unknown>): Promise<string>;
+  close(): Promise<void>;
+}
 
-      if (!response.ok) {
-        if (response.status === 401 || response.status === 403) {
-          throw { category: "auth", message: `Authentication failed: ${response.statusText}` };
-        }
-        if (response.status === 429) {
-          throw { category: "rateLimit", message: "Rate limit exceeded" };
-        }
-        throw { category: "network", message: `HTTP ${response.status}: ${response.statusText}` };
-      }
+// One connector's connected on-demand tools (see RESTAdapter.openAgentTools)
+interface AgentToolSession {
+  tools: Array<{ tool: McpTool; fixedArguments: Record<string, unknown> }>;
+  call(toolName: string, args: Record<string, unknown>): Promise<string>;
+  close(): Promise<void>;
+}
 
-      // Parse response (could be JSON or Server-Sent Events format)
-      const contentType = response.headers.get("content-type") || "";
-      let data: any;
+/**
+ * connector.config of a GraphQL connector. Variables are templates (see renderTemplate), so the query
+ * itself stays a static document; resultPath picks the part of the response `data` handed to the
+ * agents, e.g. "vendor.assessments".
+ */
+export interface GraphQLConnectorConfig {
+  query: string;
+  variables?: Record<string, unknown>;
+  operationName?: string;
+  resultPath?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
 
-      if (contentType.includes("text/event-stream")) {
-        // Parse SSE format: "event: message\ndata: {...}\n"
-        const text = await response.text();
-        const dataMatch = text.match(/data: ({.*})/);
-        if (dataMatch && dataMatch[1]) {
-          data = JSON.parse(dataMatch[1]);
-        } else {
-          throw { category: "parsing", message: "Failed to parse SSE response" };
-        }
-      } else {
-        // Regular JSON response
-        data = await response.json();
-      }
+/**
+ * connector.config of a WebSocket connector. With the graphql-transport-ws protocol `query` is a
+ * subscription document with templated variables; with the json protocol the `message` template is
+ * sent after connecting. Messages are collected until the server completes, maxMessages arrive or
+ * listenMs passes.
+ */
+export interface WebSocketConnectorConfig {
+  protocol?: "graphql-transport-ws" | "json";
+  query?: string;
+  variables?: Record<string, unknown>;
+  message?: unknown;
+  resultPath?: string;
+  headers?: Record<string, string>;
+  maxMessages?: number;
+  listenMs?: number;
+}
 
-      // DEBUG: Log what Confluence/MCP is actually returning
-      console.log(`🔍 [MCP DEBUG] Raw response from ${connector.name}:`, JSON.stringify(data, null, 2));
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
 
-      const roleContext = this.formatDataForRoles(data, connector, context);
-      const ttl = 300;
+export const TEMPLATE_PLACEHOLDERS = ["query", "projectName", "vendorName", "proposalSummary", "requirements"] as const;
 
-      return {
-        roleContext,
-        rawData: data,
-        metadata: {
-          connectorName: connector.name,
-          timestamp: Date.now(),
-          ttl,
-        },
-      };
-    } catch (error: any) {
-      clearTimeout(timeoutId);
+function templateValues(context: EvaluationContext): Record<string, string | string[]> {
+  return {
+    query: context.proposalSummary || context.projectName || "",
+    projectName: context.projectName || "",
+    vendorName: context.vendorName || "",
+    proposalSummary: context.proposalSummary || "",
+    requirements: context.requirements || [],
+  };
+}
 
-      if (error.name === "AbortError") {
-        throw { category: "timeout", message: "Request timeout exceeded" };
-      }
+/**
+ * Fill {{placeholder}} templates from the evaluation context, recursing into arrays and objects.
+ * A string that is exactly one placeholder takes the raw value, so {{requirements}} becomes a list;
+ * inside longer strings lists are joined with newlines.
+ */
+export function renderTemplate(template: unknown, context: EvaluationContext): unknown {
+  const values = templateValues(context);
 
-      if (error.category) {
-        throw error;
+  const render = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = value.match(/^\{\{\s*(\w+)\s*\}\}$/);
+      if (whole && whole[1] in values) {
+        return values[whole[1]];
       }
+      return value.replace(TEMPLATE_PLACEHOLDER, (match, name: string) => {
+        const replacement = values[name];
+        if (replacement === undefined) return match;
+        return Array.isArray(replacement) ? replacement.join("\n") : replacement;
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map(render);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item)]));
+    }
+    return value;
+  };
 
-      throw { category: "unknown", message: error.message || "Unknown error occurred" };
+  return render(template);
+}
+
+// Value at a dot path ("vendor.assessments.0"); the whole value when no path is configured
+function selectPath(value: any, resultPath?: string): any {
+  if (!resultPath) return value;
+  return resultPath.split(".").reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Check the templates a connector type needs (and the OAuth2 settings of oauth2 connectors) are
+ * present in its config. Returns an error message, or null when the config is usable.
+ */
+export function validateConnectorConfig(connectorType: string, config: unknown, authType?: string): string | null {
+  const settings = (config || {}) as Record<string, any>;
+
+  if (authType === "oauth2") {
+    const oauthError = validateOAuthConfig(settings);
+    if (oauthError) return oauthError;
+  }
+
+  if (typeof settings.query === "string" && settings.query.match(TEMPLATE_PLACEHOLDER)) {
+    return "Placeholders are not filled in GraphQL documents; pass them as variables, e.g. { \"search\": \"{{query}}\" }";
+  }
+
+  const templates = JSON.stringify({
+    variables: settings.variables,
+    message: settings.message,
+    tools: settings.tools,
+    resources: settings.resources,
+  });
+  const unknownPlaceholders = Array.from(templates.matchAll(TEMPLATE_PLACEHOLDER))
+    .map((match) => match[1])
+    .filter((name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknownPlaceholders.length > 0) {
+    return `Unknown template placeholder '{{${unknownPlaceholders[0]}}}'. Supported placeholders are ${TEMPLATE_PLACEHOLDERS.join(", ")}.`;
+  }
+
+  if (settings.variables !== undefined && (typeof settings.variables !== "object" || Array.isArray(settings.variables))) {
+    return "Connector variables must be a JSON object";
+  }
+
+  if (connectorType === "rest") {
+    const selections = [...(settings.tools || []), ...(settings.resources || [])];
+    if ((settings.tools && !Array.isArray(settings.tools)) || (settings.resources && !Array.isArray(settings.resources))) {
+      return "MCP tools and resources must be lists";
+    }
+    if ((settings.tools || []).some((tool: any) => typeof tool?.name !== "string" || !tool.name.trim())) {
+      return "Every selected MCP tool needs a name";
+    }
+    if ((settings.tools || []).some((tool: any) => tool.arguments !== undefined && (typeof tool.arguments !== "object" || Array.isArray(tool.arguments)))) {
+      return "MCP tool arguments must be a JSON object";
+    }
+    if ((settings.tools || []).some((tool: any) => tool.onDemand !== undefined && typeof tool.onDemand !== "boolean")) {
+      return "MCP tool onDemand must be true or false";
+    }
+    if ((settings.resources || []).some((resource: any) => typeof resource?.uri !== "string" || !resource.uri.trim())) {
+      return "Every selected MCP resource needs a URI";
+    }
+    const unknownRole = selections.flatMap((selection: any) => selection.roles || []).find((role: string) => !AGENT_ROLES.includes(role as AgentRole));
+    if (unknownRole) {
+      return `Unknown agent role '${unknownRole}'. Supported values are ${AGENT_ROLES.join(", ")}.`;
+    }
+  } else if (connectorType === "graphql") {
+    if (typeof settings.query !== "string" || !settings.query.trim()) {
+      return "GraphQL connectors need a query template";
+    }
+  } else if (connectorType === "websocket") {
+    const protocol = settings.protocol || "graphql-transport-ws";
+    if (protocol !== "graphql-transport-ws" && protocol !== "json") {
+      return `Unknown WebSocket protocol '${protocol}'. Supported values are graphql-transport-ws and json.`;
+    }
+    if (protocol === "graphql-transport-ws" && (typeof settings.query !== "string" || !settings.query.trim())) {
+      return "WebSocket connectors using graphql-transport-ws need a subscription template";
+    }
+    if (protocol === "json" && settings.message === undefined) {
+      return "WebSocket connectors using the json protocol need a message template";
     }
   }
 
-  private formatDataForRoles(
+  return null;
+}
+
+/**
+ * Shared pieces of the connector adapters: auth headers and turning a response into
+ * role-specific context for the agents
+ */
+abstract class BaseConnectorAdapter implements ConnectorAdapter {
+  abstract supports(connectorType: string): boolean;
+  abstract fetchData(connector: McpConnector, context: EvaluationContext): Promise<ConnectorPayload>;
+
+  protected async authHeaders(connector: McpConnector): Promise<Record<string, string>> {
+    if (connector.authType === "oauth2") {
+      return { "Authorization": `Bearer ${await oauthTokenService.getAccessToken(connector)}` };
+    }
+    if (!connector.apiKey) {
+      return {};
+    }
+    if (connector.authType === "bearer") {
+      return { "Authorization": `Bearer ${connector.apiKey}` };
+    }
+    if (connector.authType === "apikey") {
+      return { "X-API-Key": connector.apiKey };
+    }
+    if (connector.authType === "basic") {
+      return { "Authorization": `Basic ${Buffer.from(connector.apiKey).toString("base64")}` };
+    }
+    return {};
+  }
+
+  protected buildPayload(
+    data: any,
+    connector: McpConnector,
+    context: EvaluationContext,
+    roleContext: Record<AgentRole, string> = this.formatDataForRoles(data, connector, context)
+  ): ConnectorPayload {
+    return {
+      roleContext,
+      rawData: data,
+      metadata: {
+        connectorName: connector.name,
+        timestamp: Date.now(),
+        ttl: 300,
+      },
+    };
+  }
+
+  protected formatDataForRoles(
     data: any,
     connector: McpConnector,
     context: EvaluationContext
@@ -170,7 +321,7 @@ class RESTAdapter implements ConnectorAdapter {
     return formattedData as Record<AgentRole, string>;
   }
 
-  private formatGenericData(data: any, connectorName: string): string {
+  protected formatGenericData(data: any, connectorName: string): string {
     if (!data) {
       console.warn(`⚠️ [MCP] No data returned from ${connectorName}`);
       return "";
@@ -202,6 +353,12 @@ class RESTAdapter implements ConnectorAdapter {
           }
         }).join("\n\n");
       }
+      // MCP resources/read response: contents array of text or binary items
+      else if (data.contents && Array.isArray(data.contents)) {
+        formatted += data.contents.map((item: any) =>
+          item.text ?? `[${item.mimeType || "binary"} content: ${item.uri}]`
+        ).join("\n\n");
+      }
       // MCP Protocol: Check for tools array (tools/list response)
       else if (data.tools && Array.isArray(data.tools)) {
         console.log(`🔧 [MCP] Found ${data.tools.length} tools in MCP response`);
@@ -292,12 +449,406 @@ class RESTAdapter implements ConnectorAdapter {
   }
 }
 
+/**
+ * MCP servers over Streamable HTTP (connector type "rest"). Calls the tools and reads the resources
+ * selected in connector.config, each feeding the roles it is selected for.
+ */
+class RESTAdapter extends BaseConnectorAdapter {
+  supports(connectorType: string): boolean {
+    return connectorType === "rest";
+  }
+
+  private async createClient(connector: McpConnector): Promise<McpClient> {
+    const config = (connector.config || {}) as McpConnectorConfig;
+    return new McpClient(connector.serverUrl, await this.authHeaders(connector), config.timeoutMs);
+  }
+
+  /**
+   * Tools and resources the server offers, for choosing what the agents use
+   */
+  async discover(connector: McpConnector): Promise<McpDiscovery> {
+    const client = await this.createClient(connector);
+    try {
+      const server = await client.initialize();
+      const tools = await client.listTools();
+      const resources = server.capabilities.resources ? await client.listResources() : [];
+      return { server, tools, resources };
+    } finally {
+      await client.close();
+    }
+  }
+
+  async fetchData(connector: McpConnector, context: EvaluationContext): Promise<ConnectorPayload> {
+    const config = (connector.config || {}) as McpConnectorConfig;
+    const tools = config.tools?.length || config.resources?.length
+      ? (config.tools || []).filter((tool) => !tool.onDemand)
+      : DEFAULT_MCP_TOOLS;
+    const resources = config.resources || [];
+    if (tools.length === 0 && resources.length === 0) {
+      // Only on-demand tools: nothing to hand the agents up front
+      return this.buildPayload({}, connector, context, {} as Record<AgentRole, string>);
+    }
+    const client = await this.createClient(connector);
+
+    try {
+      await client.initialize();
+
+      const results = await Promise.allSettled([
+        ...tools.map(async (tool) => {
+          const result = await client.callTool(tool.name, renderTemplate(tool.arguments || {}, context) as Record<string, unknown>);
+          if (result.isError) {
+            throw toolError(tool.name, result);
+          }
+          return { label: tool.name, roles: tool.roles, data: result };
+        }),
+        ...resources.map(async (resource) => {
+          const uri = renderTemplate(resource.uri, context) as string;
+          return { label: uri, roles: resource.roles, data: await client.readResource(uri) };
+        }),
+      ]);
+
+      const sources = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+      const failures = results.flatMap((result) => (result.status === "rejected" ? [result.reason as AdapterError] : []));
+
+      if (sources.length === 0 && failures.length > 0) {
+        throw { category: failures[0].category || "unknown", message: failures.map((failure) => failure.message).join("; ") };
+      }
+      for (const failure of failures) {
+        console.warn(`⚠️ [MCP] ${connector.name}: ${failure.message}`);
+      }
+
+      // Each role only sees the tools and resources selected for it
+      const roleContext: Record<string, string> = {};
+      for (const role of connector.roleMapping || []) {
+        const sections = sources
+          .filter((source) => !source.roles?.length || source.roles.includes(role as AgentRole))
+          .map((source) => this.formatGenericData(source.data, sources.length === 1 ? connector.name : `${connector.name} - ${source.label}`));
+        if (sections.length > 0) {
+          roleContext[role] = sections.join("\n\n");
+        }
+      }
+
+      const rawData = Object.fromEntries(sources.map((source) => [source.label, source.data]));
+      return this.buildPayload(rawData, connector, context, roleContext as Record<AgentRole, string>);
+    } finally {
+      await client.close();
+    }
+  }
+
+  /**
+   * Connect for the on-demand tools selected for the role, or null when it has none. The session
+   * stays open until closed so an agent can call the tools several times.
+   */
+  async openAgentTools(connector: McpConnector, role: AgentRole, context: EvaluationContext): Promise<AgentToolSession | null> {
+    const selected = onDemandToolsFor(connector, role);
+    if (selected.length === 0) {
+      return null;
+    }
+
+    const client = await this.createClient(connector);
+    try {
+      await client.initialize();
+      // The server's descriptions and input schemas tell the model what each tool does and takes
+      const offered = await client.listTools();
+      const tools = selected.flatMap((selection) => {
+        const tool = offered.find((candidate) => candidate.name === selection.name);
+        if (!tool) {
+          console.warn(`⚠️ [MCP] ${connector.name} no longer offers tool ${selection.name}`);
+          return [];
+        }
+        return [{ tool, fixedArguments: renderTemplate(selection.arguments || {}, context) as Record<string, unknown> }];
+      });
+
+      return {
+        tools,
+        call: async (toolName, args) => {
+          const fixedArguments = tools.find((entry) => entry.tool.name === toolName)?.fixedArguments || {};
+          const result = await client.callTool(toolName, { ...args, ...fixedArguments });
+          if (result.isError) {
+            throw toolError(toolName, result);
+          }
+          return this.formatGenericData(result, `${connector.name} - ${toolName}`);
+        },
+        close: () => client.close(),
+      };
+    } catch (error) {
+      await client.close();
+      throw error;
+    }
+  }
+}
+
+// A tools/call result flagged isError (the tool ran but failed)
+function toolError(toolName: string, result: any): AdapterError {
+  const details = (result.content || []).map((item: any) => item.text).filter(Boolean).join(" ");
+  return { category: "unknown", message: `Tool ${toolName} failed: ${details || "no details"}` };
+}
+
+// On-demand tools an MCP connector offers to the role's agent
+function onDemandToolsFor(connector: McpConnector, role: AgentRole): NonNullable<McpConnectorConfig["tools"]> {
+  if (connector.connectorType !== "rest") {
+    return [];
+  }
+  const config = (connector.config || {}) as McpConnectorConfig;
+  return (config.tools || []).filter((tool) => tool.onDemand && (!tool.roles?.length || tool.roles.includes(role)));
+}
+
+// LLM function names allow letters, digits, _ and - (up to 64 characters)
+function agentToolName(toolName: string, taken: Set<string>): string {
+  const base = toolName.replace(/[^a-zA-Z0-9_-]+/g, "_").slice(0, 60) || "tool";
+  let name = base;
+  for (let suffix = 2; taken.has(name); suffix++) {
+    name = `${base}_${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+// Input schema without the properties the connector config fixes
+function agentToolParameters(inputSchema: Record<string, any> | undefined, fixedArguments: Record<string, unknown>): Record<string, any> {
+  const properties = { ...(inputSchema?.properties || {}) };
+  for (const key of Object.keys(fixedArguments)) {
+    delete properties[key];
+  }
+  const required = (inputSchema?.required || []).filter((key: string) => !(key in fixedArguments));
+  return { ...inputSchema, type: "object", properties, required };
+}
+
+// Summary of a GraphQL errors array, classified like HTTP failures
+function graphQLError(errors: any[]): AdapterError {
+  const message = errors.map((error) => error?.message || JSON.stringify(error)).join("; ");
+  const code = errors[0]?.extensions?.code;
+  if (code === "UNAUTHENTICATED" || code === "FORBIDDEN") {
+    return { category: "auth", message: `Authentication failed: ${message}` };
+  }
+  return { category: "unknown", message: `GraphQL error: ${message}` };
+}
+
+class GraphQLAdapter extends BaseConnectorAdapter {
+  supports(connectorType: string): boolean {
+    return connectorType === "graphql";
+  }
+
+  async fetchData(connector: McpConnector, context: EvaluationContext): Promise<ConnectorPayload> {
+    const config = (connector.config || {}) as GraphQLConnectorConfig;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), config.timeoutMs || 10000);
+
+    try {
+      const response = await fetch(connector.serverUrl, {
+        method: "POST",
+        headers: {
+          "Accept": "application/graphql-response+json, application/json",
+          "Content-Type": "application/json",
+          ...(config.headers || {}),
+          ...(await this.authHeaders(connector)),
+        },
+        body: JSON.stringify({
+          query: config.query,
+          variables: renderTemplate(config.variables || {}, context),
+          ...(config.operationName && { operationName: config.operationName }),
+        }),
+        signal: controller.signal,
+      });
+
+      // GraphQL-over-HTTP servers may answer failed requests with a 4xx and an errors body
+      const body: any = await response.json().catch(() => null);
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const error = httpError(response.status, response.statusText);
+        throw body?.errors?.length ? { ...error, message: `${error.message} - ${graphQLError(body.errors).message}` } : error;
+      }
+      if (!body) {
+        throw { category: "parsing", message: "GraphQL response is not JSON" };
+      }
+      if (body.errors?.length) {
+        if (!body.data) {
+          throw graphQLError(body.errors);
+        }
+        console.warn(`⚠️ [MCP] Partial GraphQL response from ${connector.name}: ${graphQLError(body.errors).message}`);
+      }
+
+      const data = selectPath(body.data, config.resultPath);
+      if (data === undefined) {
+        throw { category: "parsing", message: `Result path '${config.resultPath}' not found in the GraphQL response` };
+      }
+
+      return this.buildPayload(data, connector, context);
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+
+      if (error.name === "AbortError") {
+        throw { category: "timeout", message: "Request timeout exceeded" };
+      }
+
+      if (error.category) {
+        throw error;
+      }
+
+      throw { category: "unknown", message: error.message || "Unknown error occurred" };
+    }
+  }
+}
+
+const SUBSCRIPTION_ID = "intellibid";
+
+class WebSocketAdapter extends BaseConnectorAdapter {
+  supports(connectorType: string): boolean {
+    return connectorType === "websocket";
+  }
+
+  async fetchData(connector: McpConnector, context: EvaluationContext): Promise<ConnectorPayload> {
+    const config = (connector.config || {}) as WebSocketConnectorConfig;
+    const protocol = config.protocol || "graphql-transport-ws";
+    const maxMessages = config.maxMessages || 20;
+    const listenMs = config.listenMs || 5000;
+    const authHeaders = await this.authHeaders(connector);
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(connector.serverUrl, protocol === "graphql-transport-ws" ? protocol : [], {
+        headers: { ...(config.headers || {}), ...authHeaders },
+        handshakeTimeout: 10000,
+      });
+
+      const items: any[] = [];
+      let messageCount = 0;
+      let acknowledged = false;
+      let completed = false;
+      let settled = false;
+      let listenTimer: NodeJS.Timeout | undefined;
+
+      const finish = (error?: AdapterError) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(listenTimer);
+
+        if (socket.readyState === WebSocket.OPEN) {
+          if (protocol === "graphql-transport-ws" && acknowledged && !completed) {
+            socket.send(JSON.stringify({ id: SUBSCRIPTION_ID, type: "complete" }));
+          }
+          socket.close(1000);
+        } else {
+          socket.terminate();
+        }
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(this.buildPayload(items, connector, context));
+        }
+      };
+
+      const collect = (value: any) => {
+        messageCount++;
+        const selected = selectPath(value, config.resultPath);
+        if (selected !== undefined) {
+          items.push(...(Array.isArray(selected) ? selected : [selected]));
+        }
+        if (messageCount >= maxMessages) {
+          finish();
+        }
+      };
+
+      socket.on("unexpected-response", (_request, response) => {
+        finish(httpError(response.statusCode || 0, response.statusMessage || ""));
+      });
+
+      socket.on("open", () => {
+        listenTimer = setTimeout(() => {
+          if (protocol === "graphql-transport-ws" && !acknowledged) {
+            finish({ category: "timeout", message: "Server did not acknowledge the connection" });
+          } else {
+            finish();
+          }
+        }, listenMs);
+
+        if (protocol === "graphql-transport-ws") {
+          // Credentials go in the upgrade headers and the init payload; servers read one or the other
+          socket.send(JSON.stringify({ type: "connection_init", payload: authHeaders }));
+        } else {
+          socket.send(JSON.stringify(renderTemplate(config.message, context)));
+        }
+      });
+
+      socket.on("message", (raw) => {
+        let message: any;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          finish({ category: "parsing", message: "WebSocket message is not JSON" });
+          return;
+        }
+
+        if (protocol === "json") {
+          collect(message);
+          return;
+        }
+
+        switch (message.type) {
+          case "connection_ack":
+            acknowledged = true;
+            socket.send(JSON.stringify({
+              id: SUBSCRIPTION_ID,
+              type: "subscribe",
+              payload: {
+                query: config.query,
+                variables: renderTemplate(config.variables || {}, context),
+              },
+            }));
+            break;
+          case "ping":
+            socket.send(JSON.stringify({ type: "pong" }));
+            break;
+          case "next":
+            if (message.payload?.errors?.length) {
+              console.warn(`⚠️ [MCP] Subscription error from ${connector.name}: ${graphQLError(message.payload.errors).message}`);
+            }
+            if (message.payload?.data) {
+              collect(message.payload.data);
+            }
+            break;
+          case "error":
+            finish(graphQLError(Array.isArray(message.payload) ? message.payload : [message.payload]));
+            break;
+          case "complete":
+            completed = true;
+            finish();
+            break;
+        }
+      });
+
+      socket.on("close", (code, reason) => {
+        if (code === 4401 || code === 4403) {
+          finish({ category: "auth", message: `Authentication failed: ${reason.toString() || code}` });
+        } else if (code === 4429) {
+          finish({ category: "rateLimit", message: "Rate limit exceeded" });
+        } else if (code === 1000 || code === 1005) {
+          finish();
+        } else {
+          finish({ category: "network", message: `Connection closed (${code})${reason.length ? `: ${reason.toString()}` : ""}` });
+        }
+      });
+
+      socket.on("error", (error) => {
+        finish({
+          category: /timed out/i.test(error.message) ? "timeout" : "network",
+          message: error.message,
+        });
+      });
+    });
+  }
+}
+
 class MCPConnectorService {
   private adapters: Map<string, ConnectorAdapter>;
+  private mcpAdapter = new RESTAdapter();
 
   constructor() {
     this.adapters = new Map();
-    this.registerAdapter(new RESTAdapter());
+    this.registerAdapter(this.mcpAdapter);
+    this.registerAdapter(new GraphQLAdapter());
+    this.registerAdapter(new WebSocketAdapter());
   }
 
   registerAdapter(adapter: ConnectorAdapter): void {
@@ -306,6 +857,13 @@ class MCPConnectorService {
     if (adapter.supports("websocket")) this.adapters.set("websocket", adapter);
   }
 
+  /**
+   * Connect to an MCP connector's server and list its tools and resources (admin tool selection)
+   */
+  async discoverCapabilities(connector: McpConnector): Promise<McpDiscovery> {
+    return this.mcpAdapter.discover(connector);
+  }
+
   async fetchConnectorData(
     connectorId: string,
     context: EvaluationContext,
@@ -343,7 +901,18 @@ class MCPConnectorService {
       }
 
       console.log(`🔌 Fetching data from MCP connector: ${connector.name}`);
-      const payload = await adapter.fetchData(connector, context);
+      let payload: ConnectorPayload;
+      try {
+        payload = await adapter.fetchData(connector, context);
+      } catch (error: any) {
+        // An OAuth2 token revoked before its expiry: get a new one and try once more
+        if (connector.authType !== "oauth2" || error?.category !== "auth") {
+          throw error;
+        }
+        console.warn(`🔑 ${connector.name} rejected its OAuth2 token, renewing`);
+        oauthTokenService.invalidate(connector.id);
+        payload = await adapter.fetchData(connector, context);
+      }
 
       cacheService.set(cacheKey, payload, payload.metadata.ttl);
       console.log(`✅ Data fetched and cached from: ${connector.name}`);
@@ -363,6 +932,11 @@ class MCPConnectorService {
     }
   }
 
+  /**
+   * Up-front data of the role's active connectors, combined for the agent's prompt. Connectors that
+   * expose on-demand tools to the role are left out: the agent reaches them through its toolbox
+   * (see openAgentToolbox) instead of paying for a fetch it may not need.
+   */
   async fetchAllConnectorDataForRole(
     role: AgentRole,
     context: EvaluationContext
@@ -371,7 +945,7 @@ class MCPConnectorService {
     
     const relevantConnectors = connectors.filter((c) => {
       const roleMapping = c.roleMapping || [];
-      return roleMapping.includes(role);
+      return roleMapping.includes(role) && onDemandToolsFor(c, role).length === 0;
     });
 
     if (relevantConnectors.length === 0) {
@@ -410,6 +984,85 @@ class MCPConnectorService {
     return { payload: combinedPayload, diagnostics };
   }
 
+  /**
+   * Connect to the on-demand tools of the role's active MCP server connectors for an agent's
+   * tool-calling loop. Connectors that fail to connect are reported in diagnostics and left out;
+   * close() the toolbox when the agent is done.
+   */
+  async openAgentToolbox(role: AgentRole, context: EvaluationContext): Promise<AgentToolbox> {
+    const connectors = (await storage.getActiveMcpConnectors()).filter((c) =>
+      (c.roleMapping || []).includes(role) && onDemandToolsFor(c, role).length > 0
+    );
+
+    const results = await Promise.allSettled(connectors.map(async (connector) => {
+      try {
+        return await this.mcpAdapter.openAgentTools(connector, role, context);
+      } catch (error: any) {
+        if (connector.authType !== "oauth2" || error?.category !== "auth") {
+          throw error;
+        }
+        console.warn(`🔑 ${connector.name} rejected its OAuth2 token, renewing`);
+        oauthTokenService.invalidate(connector.id);
+        return await this.mcpAdapter.openAgentTools(connector, role, context);
+      }
+    }));
+
+    const tools: AgentTool[] = [];
+    const diagnostics: ConnectorError[] = [];
+    const sessions: AgentToolSession[] = [];
+    const routes = new Map<string, { session: AgentToolSession; toolName: string }>();
+    const taken = new Set<string>();
+
+    results.forEach((result, idx) => {
+      const connector = connectors[idx];
+      if (result.status === "rejected") {
+        diagnostics.push({
+          connectorId: connector.id,
+          connectorName: connector.name,
+          error: result.reason?.message || String(result.reason),
+          category: result.reason?.category || "unknown",
+          timestamp: Date.now(),
+        });
+        return;
+      }
+      const session = result.value;
+      if (!session) {
+        return;
+      }
+      sessions.push(session);
+      for (const { tool, fixedArguments } of session.tools) {
+        const name = agentToolName(tool.name, taken);
+        routes.set(name, { session, toolName: tool.name });
+        tools.push({
+          name,
+          description: `${tool.description || tool.name} (source: ${connector.name})`,
+          parameters: agentToolParameters(tool.inputSchema, fixedArguments),
+          connectorName: connector.name,
+          toolName: tool.name,
+        });
+      }
+    });
+
+    if (tools.length > 0) {
+      console.log(`🧰 [MCP] ${tools.length} on-demand tools available to ${role} agent`);
+    }
+
+    return {
+      tools,
+      diagnostics,
+      call: async (name, args) => {
+        const route = routes.get(name);
+        if (!route) {
+          throw { category: "unknown", message: `Unknown tool ${name}` };
+        }
+        return route.session.call(route.toolName, args);
+      },
+      close: async () => {
+        await Promise.allSettled(sessions.map((session) => session.close()));
+      },
+    };
+  }
+
   private getCacheKey(connectorId: string, context: EvaluationContext): string {
     const contextStr = JSON.stringify({
       vendor: context.vendorName,
@@ -0,0 +1,179 @@
+/**
+ * OAuth2 for MCP Connectors
+ *
+ * Access tokens for connectors with authType "oauth2", from the client credentials or refresh token
+ * grant. Tokens are cached in memory until shortly before they expire; concurrent requests for the
+ * same connector share one token request. Refresh tokens rotated by the token endpoint are saved
+ * back to the connector (encrypted by storage).
+ */
+
+import { createHash } from "crypto";
+import { storage } from "../../storage";
+import type { McpConnector } from "@shared/schema";
+import { httpError } from "./mcpClient";
+
+/**
+ * connector.config.oauth. clientAuth chooses how the client credentials reach the token endpoint:
+ * HTTP Basic (default, client_secret_basic) or form fields (client_secret_post).
+ */
+export interface OAuthConnectorConfig {
+  grantType: "client_credentials" | "refresh_token";
+  tokenUrl: string;
+  clientId: string;
+  scope?: string;
+  audience?: string;
+  clientAuth?: "basic" | "body";
+}
+
+export const OAUTH_GRANT_TYPES = ["client_credentials", "refresh_token"] as const;
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+  fingerprint: string;
+}
+
+// Renew this long before the token endpoint's expiry so requests in flight don't fail
+const EXPIRY_MARGIN_MS = 60 * 1000;
+const DEFAULT_EXPIRES_IN_SECONDS = 3600;
+
+/**
+ * Check connector.config.oauth. Returns an error message, or null when the settings are usable.
+ */
+export function validateOAuthConfig(config: unknown): string | null {
+  const oauth = ((config || {}) as Record<string, any>).oauth;
+  if (!oauth || typeof oauth !== "object") {
+    return "OAuth2 connectors need a token URL and client ID";
+  }
+  if (!OAUTH_GRANT_TYPES.includes(oauth.grantType)) {
+    return `Unknown OAuth2 grant type '${oauth.grantType}'. Supported values are client_credentials and refresh_token.`;
+  }
+  if (typeof oauth.tokenUrl !== "string" || !/^https?:\/\//.test(oauth.tokenUrl)) {
+    return "OAuth2 connectors need an http(s) token URL";
+  }
+  if (typeof oauth.clientId !== "string" || !oauth.clientId.trim()) {
+    return "OAuth2 connectors need a client ID";
+  }
+  if (oauth.clientAuth !== undefined && oauth.clientAuth !== "basic" && oauth.clientAuth !== "body") {
+    return `Unknown OAuth2 client authentication '${oauth.clientAuth}'. Supported values are basic and body.`;
+  }
+  return null;
+}
+
+class OAuthTokenService {
+  private tokens = new Map<string, CachedToken>();
+  private pending = new Map<string, Promise<CachedToken>>();
+
+  /**
+   * Valid access token for the connector, requesting a new one when none is cached or it is about to expire
+   */
+  async getAccessToken(connector: McpConnector): Promise<string> {
+    const fingerprint = this.fingerprint(connector);
+    const cached = this.tokens.get(connector.id);
+    if (cached && cached.fingerprint === fingerprint && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    let request = this.pending.get(connector.id);
+    if (!request) {
+      request = this.requestToken(connector, fingerprint).finally(() => this.pending.delete(connector.id));
+      this.pending.set(connector.id, request);
+    }
+    return (await request).accessToken;
+  }
+
+  /**
+   * Drop the cached token, e.g. after the server rejected it before its expiry
+   */
+  invalidate(connectorId: string): void {
+    this.tokens.delete(connectorId);
+  }
+
+  // Changing the token URL, client or secret invalidates tokens issued for the old settings
+  private fingerprint(connector: McpConnector): string {
+    const oauth = ((connector.config || {}) as { oauth?: OAuthConnectorConfig }).oauth;
+    return createHash("sha256")
+      .update(JSON.stringify([oauth?.grantType, oauth?.tokenUrl, oauth?.clientId, oauth?.scope, oauth?.audience, connector.oauthClientSecret]))
+      .digest("hex");
+  }
+
+  private async requestToken(connector: McpConnector, fingerprint: string): Promise<CachedToken> {
+    const configError = validateOAuthConfig(connector.config);
+    if (configError) {
+      throw { category: "auth", message: configError };
+    }
+    const oauth = (connector.config as { oauth: OAuthConnectorConfig }).oauth;
+
+    const body = new URLSearchParams({ grant_type: oauth.grantType });
+    if (oauth.grantType === "refresh_token") {
+      if (!connector.oauthRefreshToken) {
+        throw { category: "auth", message: "OAuth2 refresh token is not set" };
+      }
+      body.set("refresh_token", connector.oauthRefreshToken);
+    } else if (!connector.oauthClientSecret) {
+      throw { category: "auth", message: "OAuth2 client secret is not set" };
+    }
+    if (oauth.scope) body.set("scope", oauth.scope);
+    if (oauth.audience) body.set("audience", oauth.audience);
+
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      "Content-Type": "application/x-www-form-urlencoded",
+    };
+    if (connector.oauthClientSecret && oauth.clientAuth !== "body") {
+      const credentials = `${encodeURIComponent(oauth.clientId)}:${encodeURIComponent(connector.oauthClientSecret)}`;
+      headers["Authorization"] = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    } else {
+      // Public clients (refresh token without a secret) identify themselves in the form
+      body.set("client_id", oauth.clientId);
+      if (connector.oauthClientSecret) body.set("client_secret", connector.oauthClientSecret);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+
+    try {
+      const response = await fetch(oauth.tokenUrl, { method: "POST", headers, body, signal: controller.signal });
+      const result: any = await response.json().catch(() => null);
+
+      if (!response.ok || !result?.access_token) {
+        // RFC 6749 error responses (invalid_client, invalid_grant, ...) mean the credentials are wrong
+        if (result?.error) {
+          throw {
+            category: "auth",
+            message: `OAuth2 token request failed: ${result.error}${result.error_description ? ` - ${result.error_description}` : ""}`,
+          };
+        }
+        throw response.ok
+          ? { category: "parsing", message: "OAuth2 token response has no access_token" }
+          : httpError(response.status, response.statusText);
+      }
+
+      if (result.refresh_token && result.refresh_token !== connector.oauthRefreshToken) {
+        await storage.updateMcpConnector(connector.id, { oauthRefreshToken: result.refresh_token });
+        console.log(`🔑 [MCP] Saved rotated OAuth2 refresh token for ${connector.name}`);
+      }
+
+      const token: CachedToken = {
+        accessToken: result.access_token,
+        expiresAt: Date.now() + (Number(result.expires_in) || DEFAULT_EXPIRES_IN_SECONDS) * 1000,
+        fingerprint,
+      };
+      this.tokens.set(connector.id, token);
+      console.log(`🔑 [MCP] Obtained OAuth2 access token for ${connector.name} (${oauth.grantType})`);
+      return token;
+    } catch (error: any) {
+      if (error?.name === "AbortError") {
+        throw { category: "timeout", message: "OAuth2 token request timed out" };
+      }
+      if (error?.category) {
+        throw error;
+      }
+      throw { category: "network", message: `OAuth2 token request failed: ${error?.message || error}` };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+export const oauthTokenService = new OAuthTokenService();
@@ -1,9 +1,24 @@
-import { azureEmbeddingService } from "../azure/azureEmbedding";
-import { azureAISearchService } from "../azure/azureAISearch";
 import { azureSearchSkillsetService } from "../azure/azureSearchSkillset";
+import { ConfigHelper } from "../core/configHelpers";
 import { storage } from "../../storage";
+import { getEmbeddingProvider } from "./embeddingProvider";
+import { getVectorStore } from "./vectorStore";
+import { getReranker } from "./reranker";
+import {
+  applyTokenBudget,
+  createTraceId,
+  deduplicateChunks,
+  getRetrievalTokenBudget,
+  recordRetrievalTrace,
+  rewriteQuery,
+  type DroppedChunk,
+  type QueryRewrite,
+} from "./retrievalPipeline";
+import { countTokens } from "./chunkingService";
+import type { AgentRole } from "../ai/multiAgentEvaluator";
 
 export interface RetrievedChunk {
+  chunkId?: string; // Vector store chunk ID (rag_chunks.searchChunkId, "<ragDocumentId>-chunk-<n>-<content hash>")
   content: string;
   fileName: string;
   sourceType: string;
@@ -11,61 +26,112 @@ export interface RetrievedChunk {
   chunkIndex: number;
   metadata: Record<string, any>;
   score?: number;
+  rerankScore?: number; // Set when a reranker is configured (0-1)
 }
 
 export interface RAGContext {
   chunks: RetrievedChunk[];
   summary: string;
+  traceId?: string; // Look up with GET /api/rag/retrieval-traces/:id
 }
 
+export interface RetrievalOptions {
+  topK?: number;
+  sourceType?: string;
+  category?: string;
+  tags?: string[];
+  role?: AgentRole; // Selects the role's context token budget
+  tokenBudget?: number; // Overrides the role budget
+}
+
+// Search returns this many candidates per requested chunk so dedup and reranking have room to work
+const CANDIDATE_MULTIPLIER = 3;
+
 export class RAGRetrievalService {
   /**
    * Retrieve relevant compliance documents for a given query
-   * Now queries BOTH intellibid-rag (chunked documents) AND intellibid-blob-ocr (OCR-extracted text)
+   * Queries the configured vector store and, with the Azure store, also intellibid-blob-ocr (OCR-extracted text)
+   *
+   * Pipeline: rewrite query → hybrid search → merge OCR → deduplicate → rerank → top-K → token budget.
+   * Each call records a retrieval trace.
    */
   async retrieveRelevantContext(
     query: string,
-    options?: {
-      topK?: number;
-      sourceType?: string;
-      category?: string;
-      tags?: string[];
-    }
+    options?: RetrievalOptions
   ): Promise<RAGContext> {
+    const startedAt = Date.now();
+    const traceId = createTraceId();
+    const topK = options?.topK || 5;
+    const tokenBudget = options?.tokenBudget ?? getRetrievalTokenBudget(options?.role);
+    let rewrite: QueryRewrite = { original: query, query, expansions: [], method: "none" };
+    let vectorStoreName = "unknown";
+    let rerankerName: string | null = null;
+    const counts = { vectorResults: 0, ocrResults: 0, merged: 0, deduplicated: 0, returned: 0 };
+    const dropped: DroppedChunk[] = [];
+
+    const recordTrace = (chunks: RetrievedChunk[], tokensUsed: number, error?: string) => {
+      recordRetrievalTrace({
+        id: traceId,
+        timestamp: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        query,
+        rewrite,
+        options: {
+          topK,
+          sourceType: options?.sourceType,
+          category: options?.category,
+          tags: options?.tags,
+          role: options?.role,
+        },
+        vectorStore: vectorStoreName,
+        reranker: rerankerName,
+        counts: { ...counts, returned: chunks.length },
+        tokenBudget,
+        tokensUsed,
+        results: chunks.map(chunk => ({
+          fileName: chunk.fileName,
+          chunkIndex: chunk.chunkIndex,
+          sourceType: chunk.sourceType,
+          score: chunk.score,
+          rerankScore: chunk.rerankScore,
+          tokens: countTokens(chunk.content),
+        })),
+        dropped,
+        error,
+      });
+    };
+
     try {
-      const topK = options?.topK || 5;
-      
-      // Generate embedding for the query (needed for RAG index)
-      const embeddingResult = await azureEmbeddingService.generateEmbedding(query);
+      const vectorStore = getVectorStore();
+      vectorStoreName = vectorStore.name;
+      const candidateCount = topK * CANDIDATE_MULTIPLIER;
 
-      // Build filter if needed
-      let filter: string | undefined;
-      if (options?.sourceType) {
-        filter = `sourceType eq '${options.sourceType}'`;
-      }
-      
-      // Category filtering: include both agent's category AND shared category
-      if (options?.category) {
-        const categoryFilter = `(category eq '${options.category}') or (category eq 'shared')`;
-        filter = filter ? `${filter} and (${categoryFilter})` : categoryFilter;
-      }
-      
-      if (options?.tags && options.tags.length > 0) {
-        const tagFilters = options.tags.map(tag => `metadata/tags/any(t: t eq '${tag}')`).join(' or ');
-        filter = filter ? `${filter} and (${tagFilters})` : tagFilters;
+      // Expanded query feeds the keyword leg; the embedding uses the original wording
+      rewrite = await rewriteQuery(query);
+      if (rewrite.expansions.length > 0) {
+        console.log(`[RAG] Query expanded (${rewrite.method}) with: ${rewrite.expansions.join(', ')}`);
       }
 
+      // Generate embedding for the query (needed for RAG index)
+      const embeddingResult = await getEmbeddingProvider().generateEmbedding(query);
+
       // DUAL-INDEX QUERYING: Query both indexes in parallel
-      console.log(`[RAG] Dual-index retrieval: querying intellibid-rag + intellibid-blob-ocr`);
+      // The OCR index is built by the Azure AI Search skillset, so it only exists with the Azure store
+      const queryOcrIndex = vectorStore.name === "azure";
+      console.log(`[RAG] ${queryOcrIndex ? 'Dual-index retrieval: querying intellibid-rag + intellibid-blob-ocr' : `Retrieval from ${vectorStore.name} vector store`}`);
       
       const [ragResults, ocrResults] = await Promise.all([
         // Query 1: Standard RAG index (chunked documents with embeddings)
-        azureAISearchService.hybridSearch(
-          query,
+        vectorStore.hybridSearch(
+          rewrite.query,
           embeddingResult.embedding,
           {
-            top: topK,
-            filter,
+            top: candidateCount,
+            filter: {
+              sourceType: options?.sourceType,
+              category: options?.category,
+              tags: options?.tags,
+            },
           }
         ).catch(error => {
           console.warn('[RAG] Error querying RAG index:', error.message);
@@ -73,19 +139,24 @@ export class RAGRetrievalService {
         }),
         
         // Query 2: OCR index (blob documents with merged_text from images)
-        azureSearchSkillsetService.queryOcrIndex({
-          query,
-          topK,
-        }).catch(error => {
-          console.warn('[RAG] Error querying OCR index:', error.message);
-          return [];
-        })
+        queryOcrIndex
+          ? azureSearchSkillsetService.queryOcrIndex({
+              query: rewrite.query,
+              topK: candidateCount,
+            }).catch(error => {
+              console.warn('[RAG] Error querying OCR index:', error.message);
+              return [];
+            })
+          : Promise.resolve([]),
       ]);
 
       console.log(`[RAG] Retrieved ${ragResults.length} chunks from RAG index, ${ocrResults.length} documents from OCR index`);
+      counts.vectorResults = ragResults.length;
+      counts.ocrResults = ocrResults.length;
 
       // Convert RAG results to RetrievedChunk format
       const ragChunks: RetrievedChunk[] = ragResults.map((doc) => ({
+        chunkId: doc.id,
         content: doc.content,
         fileName: doc.fileName,
         sourceType: doc.sourceType,
@@ -163,28 +234,73 @@ export class RAGRetrievalService {
 
       // Convert back to array and sort by score
       const mergedChunks = Array.from(fileNameMap.values())
-        .sort((a, b) => (b.score || 0) - (a.score || 0))
-        .slice(0, topK);
+        .sort((a, b) => (b.score || 0) - (a.score || 0));
+      counts.merged = mergedChunks.length;
+
+      const deduplicated = deduplicateChunks(mergedChunks);
+      dropped.push(...deduplicated.dropped);
+      counts.deduplicated = deduplicated.chunks.length;
+
+      const reranker = getReranker();
+      rerankerName = reranker?.name ?? null;
+      const ranked = reranker
+        ? await this.rerankChunks(reranker, query, deduplicated.chunks)
+        : deduplicated.chunks;
+
+      ranked.slice(topK).forEach(chunk =>
+        dropped.push({ fileName: chunk.fileName, chunkIndex: chunk.chunkIndex, reason: "top_k" })
+      );
+      const budgeted = applyTokenBudget(ranked.slice(0, topK), tokenBudget);
+      dropped.push(...budgeted.dropped);
 
       // Generate a summary of the retrieved context
-      const summary = this.generateContextSummary(mergedChunks);
+      const summary = this.generateContextSummary(budgeted.chunks);
 
-      console.log(`[RAG] Final merged results: ${mergedChunks.length} chunks (${mergedChunks.filter(c => c.sourceType === 'ocr-document').length} from OCR)`);
+      console.log(`[RAG] Final merged results: ${budgeted.chunks.length} chunks (${budgeted.chunks.filter(c => c.sourceType === 'ocr-document').length} from OCR, ${mergedChunks.length - deduplicated.chunks.length} duplicates removed, ${budgeted.tokensUsed}/${tokenBudget} tokens, trace ${traceId})`);
+      recordTrace(budgeted.chunks, budgeted.tokensUsed);
 
       return {
-        chunks: mergedChunks,
+        chunks: budgeted.chunks,
         summary,
+        traceId,
       };
-    } catch (error) {
+    } catch (error: any) {
       console.error('[RAG] Error retrieving RAG context:', error);
+      recordTrace([], 0, error?.message || String(error));
       // Return empty context on error
       return {
         chunks: [],
         summary: 'No relevant compliance documents found.',
+        traceId,
       };
     }
   }
 
+  /**
+   * Reorder chunks by reranker score; on reranker failure the fused search order is kept
+   */
+  private async rerankChunks(
+    reranker: NonNullable<ReturnType<typeof getReranker>>,
+    query: string,
+    chunks: RetrievedChunk[]
+  ): Promise<RetrievedChunk[]> {
+    if (chunks.length <= 1) return chunks;
+
+    try {
+      const results = await reranker.rerank(query, chunks.map(chunk => chunk.content));
+      const scores = new Map(results.map(result => [result.index, result.score]));
+
+      // Chunks the reranker did not score sink below scored ones but keep their relative order
+      return chunks
+        .map((chunk, index) => ({ chunk: { ...chunk, rerankScore: scores.get(index) }, index }))
+        .sort((a, b) => (b.chunk.rerankScore ?? -1) - (a.chunk.rerankScore ?? -1) || a.index - b.index)
+        .map(entry => entry.chunk);
+    } catch (error: any) {
+      console.warn(`[RAG] ${reranker.name} reranker failed, keeping search order:`, error.message);
+      return chunks;
+    }
+  }
+
   /**
    * Retrieve compliance standards relevant to specific requirements
    */
@@ -193,30 +309,35 @@ export class RAGRetrievalService {
     options?: {
       topKPerRequirement?: number;
       category?: string;
+      role?: AgentRole;
     }
   ): Promise<RAGContext> {
     const topK = options?.topKPerRequirement || 3;
-    const allChunks: RetrievedChunk[] = [];
-    const seenChunkIds = new Set<string>();
+    const perRequirement: RetrievedChunk[][] = [];
 
     // For each requirement, retrieve relevant compliance documents
+    // (the budget applies to the combined result, not to each requirement)
     for (const requirement of requirements) {
       const context = await this.retrieveRelevantContext(requirement, {
         topK,
         sourceType: 'compliance-standard',
         category: options?.category,
+        tokenBudget: Number.POSITIVE_INFINITY,
       });
+      perRequirement.push(context.chunks);
+    }
 
-      // Add unique chunks only
-      for (const chunk of context.chunks) {
-        const chunkId = `${chunk.fileName}-${chunk.chunkIndex}`;
-        if (!seenChunkIds.has(chunkId)) {
-          seenChunkIds.add(chunkId);
-          allChunks.push(chunk);
-        }
+    // Interleave by rank so every requirement's best match is considered before any second-best
+    const interleaved: RetrievedChunk[] = [];
+    for (let rank = 0; rank < topK; rank++) {
+      for (const chunks of perRequirement) {
+        if (chunks[rank]) interleaved.push(chunks[rank]);
       }
     }
 
+    const { chunks: uniqueChunks } = deduplicateChunks(interleaved);
+    const { chunks: allChunks } = applyTokenBudget(uniqueChunks, getRetrievalTokenBudget(options?.role));
+
     const summary = this.generateContextSummary(allChunks);
 
     return {
@@ -267,16 +388,16 @@ export class RAGRetrievalService {
    */
   async isConfigured(): Promise<boolean> {
     try {
+      const { vectorStore, embeddingProvider } = ConfigHelper.getRagBackendConfig();
       const configs = await storage.getAllSystemConfig();
-      
-      const hasAzureSearch = configs.some(c => c.key === 'AZURE_SEARCH_ENDPOINT' && c.value) ||
-                            !!process.env.AZURE_SEARCH_ENDPOINT;
-      const hasAzureSearchKey = configs.some(c => c.key === 'AZURE_SEARCH_KEY' && c.value) ||
-                               !!process.env.AZURE_SEARCH_KEY;
-      const hasEmbeddings = configs.some(c => c.key === 'AZURE_OPENAI_EMBEDDING_DEPLOYMENT' && c.value) ||
-                           !!process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
-
-      return hasAzureSearch && hasAzureSearchKey && hasEmbeddings;
+      const hasValue = (key: string) => configs.some(c => c.key === key && c.value) || !!process.env[key];
+
+      // pgvector and memory stores and the local embedding provider need no external services
+      const hasVectorStore = vectorStore !== "azure" ||
+                             (hasValue('AZURE_SEARCH_ENDPOINT') && hasValue('AZURE_SEARCH_KEY'));
+      const hasEmbeddings = embeddingProvider === "local" || hasValue('AZURE_OPENAI_EMBEDDING_DEPLOYMENT');
+
+      return hasVectorStore && hasEmbeddings;
     } catch (error) {
       return false;
     }
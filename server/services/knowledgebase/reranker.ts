@@ -0,0 +1,126 @@
+/**
+ * Rerankers
+ *
+ * Second-stage relevance scoring for retrieved chunks. Hybrid search ranks by lexical and vector
+ * similarity to the query; a reranker reads the query and each passage together, which is much
+ * better at telling "mentions encryption" apart from "specifies encryption requirements".
+ * Selected with RAG_RERANKER (see ConfigHelper.getRagRetrievalConfig):
+ * - llm: scores passages with the model routed for the "retrieval" task
+ * - cross-encoder: POSTs to a rerank endpoint (text-embeddings-inference, Cohere- or Jina-style)
+ */
+
+import { ConfigHelper } from "../core/configHelpers";
+import { getLlmClient } from "../ai/llmProvider";
+
+export interface RerankResult {
+  index: number; // Position in the passages passed to rerank()
+  score: number; // 0-1, higher is more relevant
+}
+
+export interface Reranker {
+  readonly name: "llm" | "cross-encoder";
+  rerank(query: string, passages: string[]): Promise<RerankResult[]>;
+}
+
+// Passages are clipped so a rerank request stays well inside small context windows
+const MAX_PASSAGE_CHARS = 1500;
+
+/**
+ * Listwise LLM reranker: one request scores every passage 0-10
+ */
+export class LlmReranker implements Reranker {
+  readonly name = "llm" as const;
+
+  async rerank(query: string, passages: string[]): Promise<RerankResult[]> {
+    if (passages.length === 0) return [];
+
+    const { client, model } = await getLlmClient("retrieval");
+    const passageList = passages
+      .map((passage, index) => `[${index}] ${passage.slice(0, MAX_PASSAGE_CHARS)}`)
+      .join("\n\n");
+
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "system",
+          content: `You rank document passages by how useful they are for answering a procurement or compliance query.
+Score every passage from 0 (irrelevant) to 10 (directly answers or specifies the requirement).
+Respond with JSON only: {"scores": [{"index": 0, "score": 7}, ...]} with one entry per passage.`,
+        },
+        {
+          role: "user",
+          content: `Query: ${query}\n\nPassages:\n\n${passageList}`,
+        },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 50 + passages.length * 20,
+    });
+
+    const parsed = JSON.parse(response.choices[0]?.message?.content || "{}");
+    const scores: Array<{ index: number; score: number }> = Array.isArray(parsed.scores) ? parsed.scores : [];
+
+    return scores
+      .filter(entry => Number.isInteger(entry.index) && entry.index >= 0 && entry.index < passages.length)
+      .map(entry => ({ index: entry.index, score: Math.max(0, Math.min(10, Number(entry.score) || 0)) / 10 }));
+  }
+}
+
+/**
+ * Cross-encoder served over HTTP
+ *
+ * Accepts text-embeddings-inference responses ([{index, score}]) and Cohere/Jina-style
+ * responses ({results: [{index, relevance_score}]}).
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = "cross-encoder" as const;
+
+  constructor(private readonly url: string, private readonly apiKey?: string) {}
+
+  async rerank(query: string, passages: string[]): Promise<RerankResult[]> {
+    if (passages.length === 0) return [];
+
+    const texts = passages.map(passage => passage.slice(0, MAX_PASSAGE_CHARS));
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      // "texts" for text-embeddings-inference, "documents" for Cohere/Jina
+      body: JSON.stringify({ query, texts, documents: texts, top_n: texts.length }),
+      signal: AbortSignal.timeout(30000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reranker returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+
+    const body = await response.json();
+    const results: Array<{ index: number; score?: number; relevance_score?: number }> =
+      Array.isArray(body) ? body : body.results || [];
+
+    return results
+      .filter(result => Number.isInteger(result.index) && result.index >= 0 && result.index < passages.length)
+      .map(result => {
+        const raw = result.relevance_score ?? result.score ?? 0;
+        // Raw logits (TEI with raw_scores) are squashed into 0-1
+        return { index: result.index, score: raw >= 0 && raw <= 1 ? raw : 1 / (1 + Math.exp(-raw)) };
+      });
+  }
+}
+
+/**
+ * Reranker selected by RAG_RERANKER, or null when reranking is disabled
+ */
+export function getReranker(): Reranker | null {
+  const { reranker, rerankerUrl, rerankerApiKey } = ConfigHelper.getRagRetrievalConfig();
+  if (reranker === "llm") {
+    return new LlmReranker();
+  }
+  if (reranker === "cross-encoder") {
+    return new CrossEncoderReranker(rerankerUrl!, rerankerApiKey);
+  }
+  return null;
+}
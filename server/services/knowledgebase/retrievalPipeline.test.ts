@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { countTokens } from "./chunkingService";
+import { applyTokenBudget, deduplicateChunks } from "./retrievalPipeline";
+
+const SENTENCE = "The platform must support OpenID Connect and SAML 2.0 with multi-factor authentication. ";
+
+function chunk(content: string, chunkIndex: number, fileName = "identity-standard.pdf") {
+  return { content, fileName, chunkIndex };
+}
+
+describe("deduplicateChunks", () => {
+  it("drops a near-duplicate of a higher-ranked chunk", () => {
+    const original = chunk(SENTENCE.repeat(3) + "Hosting must be in-country.", 0);
+    const copy = chunk(SENTENCE.repeat(3) + "Hosting must be in-country!", 4, "identity-standard-copy.pdf");
+
+    const { chunks, dropped } = deduplicateChunks([original, copy]);
+
+    assert.deepEqual(chunks, [original]);
+    assert.deepEqual(dropped, [{ fileName: "identity-standard-copy.pdf", chunkIndex: 4, reason: "duplicate" }]);
+  });
+
+  it("trims sentences a neighbouring chunk repeats through overlap", () => {
+    const shared = "Availability of 99.9% is required for every production service and its dependencies. ";
+    const first = chunk("Recovery point objectives are agreed per service tier with the data owner. " + shared, 0);
+    const second = chunk(shared + "Recovery time objectives must be tested twice a year with a documented failover exercise.", 1);
+
+    const { chunks } = deduplicateChunks([first, second]);
+
+    assert.equal(chunks.length, 2);
+    assert.equal(chunks[1].content, "Recovery time objectives must be tested twice a year with a documented failover exercise.");
+  });
+
+  it("keeps the same text from unrelated chunks of another file", () => {
+    const { chunks } = deduplicateChunks([chunk("MFA is required.", 0), chunk("SSO is required.", 1, "other.pdf")]);
+
+    assert.equal(chunks.length, 2);
+  });
+});
+
+describe("applyTokenBudget", () => {
+  it("keeps chunks that fit and drops what is left once the budget is spent", () => {
+    const small = chunk(SENTENCE, 0);
+    const large = chunk(SENTENCE.repeat(40), 1);
+    const tokens = countTokens(small.content);
+
+    const { chunks, tokensUsed, dropped } = applyTokenBudget([small, large], tokens + 10);
+
+    assert.deepEqual(chunks, [small]);
+    assert.equal(tokensUsed, tokens);
+    assert.deepEqual(dropped, [{ fileName: "identity-standard.pdf", chunkIndex: 1, reason: "token_budget" }]);
+  });
+
+  it("cuts the chunk crossing the budget at a sentence boundary", () => {
+    const { chunks, tokensUsed } = applyTokenBudget([chunk(SENTENCE.repeat(40), 0)], 200);
+
+    assert.match(chunks[0].content, /authentication\. …$/);
+    assert.ok(tokensUsed <= 200);
+  });
+
+  it("never exceeds the budget, even when a single sentence has to be cut", () => {
+    const unbroken = "x".repeat(4000) + " token".repeat(500);
+    for (const budget of [5, 120, 333, 1000]) {
+      const { chunks, tokensUsed } = applyTokenBudget([chunk(SENTENCE.repeat(30), 0), chunk(unbroken, 1)], budget);
+      const counted = chunks.reduce((sum, c) => sum + countTokens(c.content), 0);
+
+      assert.equal(tokensUsed, counted);
+      assert.ok(tokensUsed <= budget, `${tokensUsed} tokens used for a budget of ${budget}`);
+    }
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * RAG Retrieval Pipeline Stages
+ *
+ * Stages applied by RAGRetrievalService around the vector store search:
+ * 1. Query rewriting: expand requirement jargon with synonyms (or let the LLM rewrite the query)
+ * 2. Deduplication: drop near-identical chunks and the text repeated by chunk overlap
+ * 3. Token budget: cap the context handed to each agent role
+ * Every retrieval records a trace (kept in memory, newest first) for debugging.
+ */
+
+import { randomUUID } from "crypto";
+import { ConfigHelper } from "../core/configHelpers";
+import { getLlmClient } from "../ai/llmProvider";
+import type { AgentRole } from "../ai/multiAgentEvaluator";
+import { countTokens } from "./chunkingService";
+
+// ---------------------------------------------------------------------------
+// Query rewriting
+// ---------------------------------------------------------------------------
+
+/**
+ * Groups of equivalent procurement and compliance terms. When any term of a group appears in a
+ * query the others are appended, so "MFA" also matches standards that say "two-factor".
+ */
+const REQUIREMENT_SYNONYMS: string[][] = [
+  ["sso", "single sign-on", "saml", "federated identity"],
+  ["mfa", "multi-factor authentication", "two-factor", "2fa"],
+  ["rbac", "role-based access control", "access control", "least privilege"],
+  ["encryption", "encrypted", "tls", "aes-256"],
+  ["sla", "service level agreement", "uptime", "availability"],
+  ["dr", "disaster recovery", "business continuity", "backup"],
+  ["rto", "recovery time objective"],
+  ["rpo", "recovery point objective"],
+  ["ha", "high availability", "failover", "redundancy"],
+  ["gdpr", "data protection", "privacy", "personal data"],
+  ["pii", "personally identifiable information", "personal data"],
+  ["iso 27001", "isms", "information security management"],
+  ["soc 2", "soc2", "service organization control"],
+  ["audit log", "audit trail", "logging", "monitoring"],
+  ["api", "integration", "interface", "web service"],
+  ["scalability", "scaling", "elasticity", "capacity"],
+  ["tco", "total cost of ownership", "pricing", "licensing"],
+  ["data residency", "data sovereignty", "hosting location"],
+  ["vulnerability management", "penetration testing", "patching"],
+  ["onboarding", "implementation", "rollout", "deployment"],
+];
+
+export interface QueryRewrite {
+  original: string;
+  query: string; // Text sent to the lexical leg of hybrid search
+  expansions: string[]; // Terms added to the original query
+  method: "none" | "synonyms" | "llm";
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}([^a-z0-9]|$)`, "i").test(text);
+}
+
+export function expandQueryWithSynonyms(query: string): QueryRewrite {
+  const expansions: string[] = [];
+  for (const group of REQUIREMENT_SYNONYMS) {
+    if (!group.some(term => containsTerm(query, term))) continue;
+    for (const term of group) {
+      if (!containsTerm(query, term) && !expansions.includes(term)) {
+        expansions.push(term);
+      }
+    }
+  }
+
+  return {
+    original: query,
+    query: expansions.length > 0 ? `${query} ${expansions.join(" ")}` : query,
+    expansions,
+    method: "synonyms",
+  };
+}
+
+async function rewriteQueryWithLlm(query: string): Promise<QueryRewrite> {
+  const { client, model } = await getLlmClient("retrieval");
+  const response = await client.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: `You rewrite search queries for a procurement knowledge base of organisational standards, policies and vendor documents.
+Return the key requirement terms plus common synonyms and spelled-out acronyms, without filler words.
+Respond with JSON only: {"keywords": ["term", ...]} with at most 12 keywords.`,
+      },
+      { role: "user", content: query },
+    ],
+    response_format: { type: "json_object" },
+    temperature: 0,
+    max_tokens: 200,
+  });
+
+  const parsed = JSON.parse(response.choices[0]?.message?.content || "{}");
+  const keywords: string[] = Array.isArray(parsed.keywords)
+    ? parsed.keywords.filter((keyword: unknown): keyword is string => typeof keyword === "string" && keyword.trim().length > 0)
+    : [];
+  const expansions = keywords.map(keyword => keyword.trim()).filter(keyword => !containsTerm(query, keyword));
+
+  return {
+    original: query,
+    query: expansions.length > 0 ? `${query} ${expansions.join(" ")}` : query,
+    expansions,
+    method: "llm",
+  };
+}
+
+/**
+ * Rewrite a query as configured by RAG_QUERY_REWRITE (an LLM failure falls back to synonyms)
+ */
+export async function rewriteQuery(query: string): Promise<QueryRewrite> {
+  const { queryRewrite } = ConfigHelper.getRagRetrievalConfig();
+
+  if (queryRewrite === "none") {
+    return { original: query, query, expansions: [], method: "none" };
+  }
+
+  if (queryRewrite === "llm") {
+    try {
+      return await rewriteQueryWithLlm(query);
+    } catch (error: any) {
+      console.warn("[RAG] LLM query rewrite failed, using synonym expansion:", error.message);
+    }
+  }
+
+  return expandQueryWithSynonyms(query);
+}
+
+// ---------------------------------------------------------------------------
+// Deduplication
+// ---------------------------------------------------------------------------
+
+export interface DedupableChunk {
+  content: string;
+  fileName: string;
+  chunkIndex: number;
+}
+
+export interface DroppedChunk {
+  fileName: string;
+  chunkIndex: number;
+  reason: "duplicate" | "overlap" | "rerank" | "top_k" | "token_budget";
+}
+
+// Chunks sharing this fraction of word trigrams (relative to the smaller chunk) are duplicates
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+// A chunk left with less than this after removing overlapping sentences is dropped
+const MIN_TRIMMED_CHARS = 80;
+
+function wordShingles(text: string): Set<string> {
+  const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const shingles = new Set<string>();
+  for (let i = 0; i + 2 < words.length; i++) {
+    shingles.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`);
+  }
+  if (shingles.size === 0 && words.length > 0) {
+    shingles.add(words.join(" "));
+  }
+  return shingles;
+}
+
+function containment(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  smaller.forEach(shingle => {
+    if (larger.has(shingle)) shared++;
+  });
+  return shared / smaller.size;
+}
+
+function splitSentences(text: string): string[] {
+  return text.match(/[^.!?\n]+[.!?]*\s*/g) || [text];
+}
+
+function normaliseSentence(sentence: string): string {
+  return sentence.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Remove near-duplicate chunks and the sentences neighbouring chunks of the same file repeat
+ * through chunk overlap. Chunks must be in rank order: the higher-ranked copy is always kept.
+ */
+export function deduplicateChunks<T extends DedupableChunk>(chunks: T[]): { chunks: T[]; dropped: DroppedChunk[] } {
+  const kept: Array<{ chunk: T; shingles: Set<string>; sentences: Set<string> }> = [];
+  const dropped: DroppedChunk[] = [];
+
+  for (const chunk of chunks) {
+    const shingles = wordShingles(chunk.content);
+    if (kept.some(existing => containment(existing.shingles, shingles) >= NEAR_DUPLICATE_THRESHOLD)) {
+      dropped.push({ fileName: chunk.fileName, chunkIndex: chunk.chunkIndex, reason: "duplicate" });
+      continue;
+    }
+
+    // Overlap only exists between consecutive chunks of the same document
+    const neighbours = kept.filter(existing =>
+      existing.chunk.fileName === chunk.fileName && Math.abs(existing.chunk.chunkIndex - chunk.chunkIndex) === 1
+    );
+
+    let candidate = chunk;
+    if (neighbours.length > 0) {
+      const sentences = splitSentences(chunk.content);
+      const remaining = sentences.filter(sentence => {
+        const normalised = normaliseSentence(sentence);
+        return !normalised || !neighbours.some(neighbour => neighbour.sentences.has(normalised));
+      });
+
+      if (remaining.length < sentences.length) {
+        const trimmed = remaining.join("").trim();
+        if (trimmed.length < MIN_TRIMMED_CHARS) {
+          dropped.push({ fileName: chunk.fileName, chunkIndex: chunk.chunkIndex, reason: "overlap" });
+          continue;
+        }
+        candidate = { ...chunk, content: trimmed };
+      }
+    }
+
+    kept.push({
+      chunk: candidate,
+      shingles: candidate === chunk ? shingles : wordShingles(candidate.content),
+      sentences: new Set(splitSentences(candidate.content).map(normaliseSentence).filter(Boolean)),
+    });
+  }
+
+  return { chunks: kept.map(entry => entry.chunk), dropped };
+}
+
+// ---------------------------------------------------------------------------
+// Token budgets
+// ---------------------------------------------------------------------------
+
+/**
+ * Maximum retrieved-context tokens per agent role. Roles that lean on detailed standards
+ * (security, architecture) get more room than roles that mostly need the headline terms.
+ */
+export const RETRIEVAL_TOKEN_BUDGETS: Record<AgentRole, number> = {
+  security: 3000,
+  architecture: 2500,
+  engineering: 2500,
+  procurement: 2000,
+  delivery: 1500,
+  product: 1500,
+};
+
+// Budget for callers that are not an evaluation agent (chatbot, RFT sections, addenda)
+export const DEFAULT_RETRIEVAL_TOKEN_BUDGET = 4000;
+
+// Below this many remaining tokens a partial chunk is not worth including
+const MIN_PARTIAL_CHUNK_TOKENS = 100;
+
+export function getRetrievalTokenBudget(role?: AgentRole): number {
+  return role ? RETRIEVAL_TOKEN_BUDGETS[role] : DEFAULT_RETRIEVAL_TOKEN_BUDGET;
+}
+
+// Appended to a chunk that was cut to fit the budget
+const TRUNCATION_MARKER = " …";
+
+// Largest i in [0, count) for which fits(i) holds, assuming fits is true up to some i and false after
+function lastFitting(count: number, fits: (index: number) => boolean): number {
+  let low = 0;
+  let high = count - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (fits(mid)) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Longest prefix of content that fits in maxTokens together with the truncation marker: cut at
+ * the last sentence boundary that fits, or mid-sentence when not even the first sentence does.
+ * The cut point is binary searched with countTokens on the text as returned, so it never exceeds
+ * maxTokens. Null when nothing fits.
+ */
+function truncateToTokens(content: string, maxTokens: number): { content: string; tokens: number } | null {
+  const render = (end: number) => `${content.slice(0, end).trim()}${TRUNCATION_MARKER}`;
+  const fits = (end: number) => content.slice(0, end).trim().length > 0 && countTokens(render(end)) <= maxTokens;
+
+  const boundaries: number[] = [];
+  let offset = 0;
+  for (const sentence of splitSentences(content)) {
+    offset += sentence.length;
+    boundaries.push(offset);
+  }
+
+  const sentenceCut = lastFitting(boundaries.length, index => fits(boundaries[index]));
+  let end = sentenceCut >= 0 ? boundaries[sentenceCut] : -1;
+  if (end === -1) {
+    const characterCut = lastFitting(content.length, index => fits(index + 1));
+    end = characterCut >= 0 ? characterCut + 1 : -1;
+  }
+  if (end === -1) {
+    return null;
+  }
+
+  const truncated = render(end);
+  return { content: truncated, tokens: countTokens(truncated) };
+}
+
+/**
+ * Keep chunks in order until the budget is spent; the chunk that crosses the budget is cut
+ * (at a sentence boundary where possible) when enough budget remains, and the first chunk is
+ * always kept if any of it fits. The budget is a hard ceiling on countTokens of the result.
+ */
+export function applyTokenBudget<T extends DedupableChunk>(
+  chunks: T[],
+  budget: number
+): { chunks: T[]; tokensUsed: number; dropped: DroppedChunk[] } {
+  const selected: T[] = [];
+  const dropped: DroppedChunk[] = [];
+  let tokensUsed = 0;
+
+  for (const chunk of chunks) {
+    const remaining = budget - tokensUsed;
+    const tokens = countTokens(chunk.content);
+
+    if (tokens <= remaining) {
+      selected.push(chunk);
+      tokensUsed += tokens;
+      continue;
+    }
+
+    const truncated = remaining >= MIN_PARTIAL_CHUNK_TOKENS || selected.length === 0
+      ? truncateToTokens(chunk.content, remaining)
+      : null;
+    if (truncated) {
+      selected.push({ ...chunk, content: truncated.content });
+      tokensUsed += truncated.tokens;
+    } else {
+      dropped.push({ fileName: chunk.fileName, chunkIndex: chunk.chunkIndex, reason: "token_budget" });
+    }
+  }
+
+  return { chunks: selected, tokensUsed, dropped };
+}
+
+// ---------------------------------------------------------------------------
+// Retrieval traces
+// ---------------------------------------------------------------------------
+
+export interface RetrievalTrace {
+  id: string;
+  timestamp: string;
+  durationMs: number;
+  query: string;
+  rewrite: QueryRewrite;
+  options: {
+    topK: number;
+    sourceType?: string;
+    category?: string;
+    tags?: string[];
+    role?: AgentRole;
+  };
+  vectorStore: string;
+  reranker: string | null;
+  counts: {
+    vectorResults: number;
+    ocrResults: number;
+    merged: number;
+    deduplicated: number;
+    returned: number;
+  };
+  tokenBudget: number;
+  tokensUsed: number;
+  results: Array<{
+    fileName: string;
+    chunkIndex: number;
+    sourceType: string;
+    score?: number;
+    rerankScore?: number;
+    tokens: number;
+  }>;
+  dropped: DroppedChunk[];
+  error?: string;
+}
+
+const MAX_TRACES = 200;
+const traces: RetrievalTrace[] = [];
+
+export function createTraceId(): string {
+  return randomUUID();
+}
+
+export function recordRetrievalTrace(trace: RetrievalTrace): void {
+  traces.unshift(trace);
+  if (traces.length > MAX_TRACES) {
+    traces.length = MAX_TRACES;
+  }
+}
+
+/**
+ * Most recent retrieval traces, newest first
+ */
+export function getRetrievalTraces(limit = 50): RetrievalTrace[] {
+  return traces.slice(0, limit);
+}
+
+export function getRetrievalTrace(id: string): RetrievalTrace | undefined {
+  return traces.find(trace => trace.id === id);
+}
+
+export function clearRetrievalTraces(): void {
+  traces.length = 0;
+}
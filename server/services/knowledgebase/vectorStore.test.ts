@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { InMemoryVectorStore, reciprocalRankFusion, type VectorStoreDocument } from "./vectorStore";
+
+function document(id: string, content: string, embedding: number[], category = "security"): VectorStoreDocument {
+  return {
+    id,
+    content,
+    embedding,
+    sourceType: "standard",
+    category,
+    fileName: `${id}.pdf`,
+    chunkIndex: 0,
+    metadata: {},
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+describe("reciprocalRankFusion", () => {
+  it("scores each ID by the sum of 1 / (60 + rank) over the rankings", () => {
+    const fused = reciprocalRankFusion([["a", "b"], ["b", "c"]]);
+
+    assert.deepEqual(fused.map(hit => hit.id), ["b", "a", "c"]);
+    assert.equal(fused[0].score, 1 / 62 + 1 / 61);
+    assert.equal(fused[1].score, 1 / 61);
+  });
+
+  it("returns nothing for empty rankings", () => {
+    assert.deepEqual(reciprocalRankFusion([[], []]), []);
+  });
+});
+
+describe("InMemoryVectorStore", () => {
+  it("ranks a chunk matching both the keywords and the embedding first", async () => {
+    const store = new InMemoryVectorStore();
+    await store.indexDocuments([
+      document("mfa", "Multi-factor authentication is mandatory for administrators", [1, 0, 0]),
+      document("keywords-only", "Authentication logs are kept for a year", [0, 1, 0]),
+      document("vector-only", "Hardware tokens for privileged users", [0.9, 0.1, 0]),
+    ]);
+
+    const results = await store.hybridSearch("multi-factor authentication", [1, 0, 0], { top: 2 });
+
+    assert.equal(results[0].id, "mfa");
+    assert.equal(results.length, 2);
+    assert.ok(!("embedding" in results[0]));
+  });
+
+  it("filters by category, keeping shared documents", async () => {
+    const store = new InMemoryVectorStore();
+    await store.indexDocuments([
+      document("security", "Encryption at rest with AES-256", [1, 0], "security"),
+      document("shared", "Encryption keys are rotated yearly", [1, 0], "shared"),
+      document("delivery", "Encryption rollout plan", [1, 0], "delivery"),
+    ]);
+
+    const results = await store.hybridSearch("encryption", [1, 0], { filter: { category: "security" } });
+
+    assert.deepEqual(results.map(result => result.id).sort(), ["security", "shared"]);
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Vector Stores
+ *
+ * Chunk indexing and hybrid (keyword + vector) search for the RAG system behind one interface,
+ * selected with RAG_VECTOR_STORE (see ConfigHelper):
+ * - azure: Azure AI Search index "intellibid-rag" (default)
+ * - pgvector: embeddings in rag_chunk_embeddings, full-text + cosine ranking in Postgres
+ * - memory: in-process index for offline dev/test (lost on restart)
+ *
+ * The local stores fuse the keyword and vector rankings with Reciprocal Rank Fusion, the same
+ * scheme Azure AI Search uses for its hybrid queries.
+ */
+
+import { and, cosineDistance, desc, eq, inArray, or, sql, type SQL } from "drizzle-orm";
+import { pgTable, varchar, vector } from "drizzle-orm/pg-core";
+import { ragChunks, ragDocuments } from "@shared/schema";
+import { db } from "../../db";
+import { azureAISearchService } from "../azure/azureAISearch";
+import { ConfigHelper } from "../core/configHelpers";
+
+export interface VectorStoreDocument {
+  id: string; // Chunk ID (rag_chunks.searchChunkId)
+  content: string;
+  embedding: number[];
+  sourceType: string;
+  sourceId?: string;
+  category?: string;
+  fileName: string;
+  chunkIndex: number;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+// New position and labels for an already-indexed chunk whose content (and embedding) is unchanged
+export interface VectorStoreDocumentUpdate {
+  id: string;
+  chunkIndex: number;
+  metadata: Record<string, any>;
+}
+
+export interface VectorSearchFilter {
+  sourceType?: string;
+  category?: string; // Matches the category or 'shared'
+  tags?: string[]; // Matches any tag
+}
+
+export type VectorSearchResult = Omit<VectorStoreDocument, "embedding"> & { score?: number };
+
+export interface VectorStore {
+  readonly name: "azure" | "pgvector" | "memory";
+  indexDocuments(documents: VectorStoreDocument[]): Promise<void>;
+  updateDocuments(updates: VectorStoreDocumentUpdate[]): Promise<void>;
+  deleteDocuments(ids: string[]): Promise<void>;
+  hybridSearch(
+    query: string,
+    embedding: number[],
+    options?: { top?: number; filter?: VectorSearchFilter }
+  ): Promise<VectorSearchResult[]>;
+  deleteAllDocuments(): Promise<number>;
+}
+
+// RRF damping constant (the value used by Azure AI Search and the original RRF paper)
+const RRF_K = 60;
+
+// Each ranking contributes this many candidates per requested result before fusion
+const CANDIDATES_PER_RESULT = 4;
+const MIN_CANDIDATES = 20;
+
+// Embeddings per INSERT statement (pgvector store); 1536 floats are ~20 KB of SQL text each
+const EMBEDDING_BATCH_SIZE = 100;
+
+// pgvector's HNSW index covers vectors up to this width; wider ones are searched exactly
+const HNSW_MAX_DIMENSIONS = 2000;
+
+// BM25 parameters (memory store)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1);
+}
+
+/**
+ * Reciprocal Rank Fusion: score(d) = Σ 1 / (k + rank of d in each ranking)
+ *
+ * @param rankings - Lists of IDs, best first
+ * @returns IDs with fused scores, best first
+ */
+export function reciprocalRankFusion(rankings: string[][]): Array<{ id: string; score: number }> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) || 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+  return Array.from(scores.entries())
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Azure AI Search index (hybrid search is done by the service)
+ */
+export class AzureSearchVectorStore implements VectorStore {
+  readonly name = "azure" as const;
+
+  private buildFilter(filter?: VectorSearchFilter): string | undefined {
+    const escape = (value: string) => value.replace(/'/g, "''");
+    const clauses: string[] = [];
+
+    if (filter?.sourceType) {
+      clauses.push(`sourceType eq '${escape(filter.sourceType)}'`);
+    }
+
+    // Category filtering: include both the requested category AND the shared category
+    if (filter?.category) {
+      clauses.push(`((category eq '${escape(filter.category)}') or (category eq 'shared'))`);
+    }
+
+    if (filter?.tags && filter.tags.length > 0) {
+      const tagFilters = filter.tags.map(tag => `metadata/tags/any(t: t eq '${escape(tag)}')`).join(" or ");
+      clauses.push(`(${tagFilters})`);
+    }
+
+    return clauses.length > 0 ? clauses.join(" and ") : undefined;
+  }
+
+  indexDocuments(documents: VectorStoreDocument[]): Promise<void> {
+    return azureAISearchService.indexDocuments(documents);
+  }
+
+  updateDocuments(updates: VectorStoreDocumentUpdate[]): Promise<void> {
+    return azureAISearchService.mergeDocuments(updates);
+  }
+
+  deleteDocuments(ids: string[]): Promise<void> {
+    return azureAISearchService.deleteDocuments(ids);
+  }
+
+  async hybridSearch(
+    query: string,
+    embedding: number[],
+    options?: { top?: number; filter?: VectorSearchFilter }
+  ): Promise<VectorSearchResult[]> {
+    const results = await azureAISearchService.hybridSearch(query, embedding, {
+      top: options?.top,
+      filter: this.buildFilter(options?.filter),
+    });
+    return results.map(({ embedding: _embedding, ...result }) => result);
+  }
+
+  deleteAllDocuments(): Promise<number> {
+    return azureAISearchService.deleteAllDocuments();
+  }
+}
+
+/**
+ * pgvector store embeddings, one row per indexed chunk. Not part of shared/schema.ts so that
+ * deployments without the vector extension can push the schema: PgVectorStore creates the table
+ * (sized by RAG_EMBEDDING_DIMENSIONS) on first use. The dimensions here only type the column.
+ */
+const ragChunkEmbeddings = pgTable("rag_chunk_embeddings", {
+  chunkId: varchar("chunk_id").primaryKey(), // References ragChunks.id (ON DELETE CASCADE)
+  embedding: vector("embedding", { dimensions: 1536 }).notNull(),
+});
+
+/**
+ * Postgres + pgvector store
+ *
+ * Embeddings reference the rag_chunks rows written during ingestion, so chunks must be stored
+ * before they are indexed. Filters come from the parent rag_documents row. The keyword leg uses
+ * Postgres full-text search (ts_rank_cd with document-length normalisation) as the BM25 ranking.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly name = "pgvector" as const;
+  private schemaReady: Promise<number> | null = null;
+
+  /**
+   * Create the vector extension, embedding table and ANN index once per process
+   *
+   * @returns The configured embedding width
+   */
+  private ensureSchema(): Promise<number> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.migrate().catch((error) => {
+        this.schemaReady = null; // Retry on the next call, e.g. once the extension is allow-listed
+        throw error;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private async migrate(): Promise<number> {
+    const { embeddingDimensions } = ConfigHelper.getRagBackendConfig();
+
+    // On Azure, allow-list VECTOR in azure.extensions first
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS vector`);
+    await db.execute(sql.raw(`
+      CREATE TABLE IF NOT EXISTS rag_chunk_embeddings (
+        chunk_id VARCHAR PRIMARY KEY REFERENCES rag_chunks(id) ON DELETE CASCADE,
+        embedding VECTOR(${embeddingDimensions}) NOT NULL
+      )
+    `));
+
+    const { rows } = await db.execute<{ type: string }>(sql`
+      SELECT format_type(atttypid, atttypmod) AS type
+      FROM pg_attribute
+      WHERE attrelid = 'rag_chunk_embeddings'::regclass AND attname = 'embedding'
+    `);
+    const expected = `vector(${embeddingDimensions})`;
+    if (rows[0]?.type !== expected) {
+      throw new Error(
+        `rag_chunk_embeddings holds ${rows[0]?.type} embeddings but RAG_EMBEDDING_DIMENSIONS is ${embeddingDimensions}. ` +
+        `Drop the table and re-index the knowledge base to change the embedding width.`
+      );
+    }
+
+    if (embeddingDimensions <= HNSW_MAX_DIMENSIONS) {
+      await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS idx_rag_chunk_embeddings_embedding
+        ON rag_chunk_embeddings USING hnsw (embedding vector_cosine_ops)
+      `);
+    } else {
+      console.warn(`⚠️  ${embeddingDimensions}-dimension embeddings exceed the HNSW limit; pgvector search will scan every chunk`);
+    }
+
+    return embeddingDimensions;
+  }
+
+  private buildConditions(filter?: VectorSearchFilter): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filter?.sourceType) {
+      conditions.push(eq(ragDocuments.sourceType, filter.sourceType));
+    }
+
+    if (filter?.category) {
+      conditions.push(or(eq(ragDocuments.category, filter.category), eq(ragDocuments.category, "shared"))!);
+    }
+
+    if (filter?.tags && filter.tags.length > 0) {
+      const tags = sql.join(filter.tags.map(tag => sql`${tag}`), sql`, `);
+      conditions.push(sql`(${ragDocuments.metadata} -> 'tags') ?| array[${tags}]::text[]`);
+    }
+
+    return conditions;
+  }
+
+  async indexDocuments(documents: VectorStoreDocument[]): Promise<void> {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const dimensions = await this.ensureSchema();
+    const wrongWidth = documents.find(document => document.embedding.length !== dimensions);
+    if (wrongWidth) {
+      throw new Error(
+        `Cannot index chunk ${wrongWidth.id}: its embedding has ${wrongWidth.embedding.length} dimensions, ` +
+        `RAG_EMBEDDING_DIMENSIONS is ${dimensions}`
+      );
+    }
+
+    for (let i = 0; i < documents.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = documents.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const values = sql.join(
+        batch.map(document => sql`(${document.id}, ${JSON.stringify(document.embedding)})`),
+        sql`, `
+      );
+
+      const { rows } = await db.execute<{ search_chunk_id: string }>(sql`
+        WITH input AS (
+          SELECT c.id, c.search_chunk_id, v.embedding::vector AS embedding
+          FROM (VALUES ${values}) AS v(search_chunk_id, embedding)
+          JOIN rag_chunks c ON c.search_chunk_id = v.search_chunk_id
+        ), upserted AS (
+          INSERT INTO rag_chunk_embeddings (chunk_id, embedding)
+          SELECT id, embedding FROM input
+          ON CONFLICT (chunk_id) DO UPDATE SET embedding = EXCLUDED.embedding
+          RETURNING chunk_id
+        )
+        SELECT input.search_chunk_id FROM input JOIN upserted ON upserted.chunk_id = input.id
+      `);
+
+      if (rows.length < batch.length) {
+        const indexed = new Set(rows.map(row => row.search_chunk_id));
+        const missing = batch.find(document => !indexed.has(document.id));
+        throw new Error(`Cannot index chunk ${missing?.id}: it must be stored in rag_chunks first`);
+      }
+    }
+  }
+
+  async updateDocuments(_updates: VectorStoreDocumentUpdate[]): Promise<void> {
+    // Search reads chunk index and metadata from the rag_chunks rows, which ingestion updates
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.ensureSchema();
+    await db.delete(ragChunkEmbeddings).where(inArray(
+      ragChunkEmbeddings.chunkId,
+      db.select({ id: ragChunks.id }).from(ragChunks).where(inArray(ragChunks.searchChunkId, ids))
+    ));
+  }
+
+  async hybridSearch(
+    query: string,
+    embedding: number[],
+    options?: { top?: number; filter?: VectorSearchFilter }
+  ): Promise<VectorSearchResult[]> {
+    await this.ensureSchema();
+    const top = options?.top || 10;
+    const candidates = Math.max(top * CANDIDATES_PER_RESULT, MIN_CANDIDATES);
+    const conditions = this.buildConditions(options?.filter);
+
+    // Both legs only rank chunks this store has indexed
+    const vectorHits = await db.select({ id: ragChunks.id })
+      .from(ragChunks)
+      .innerJoin(ragChunkEmbeddings, eq(ragChunkEmbeddings.chunkId, ragChunks.id))
+      .innerJoin(ragDocuments, eq(ragDocuments.id, ragChunks.documentId))
+      .where(and(...conditions))
+      .orderBy(cosineDistance(ragChunkEmbeddings.embedding, embedding))
+      .limit(candidates);
+
+    // OR the query terms together (BM25 semantics) instead of requiring every term to match
+    const terms = Array.from(new Set(tokenize(query)));
+    let keywordHits: Array<{ id: string }> = [];
+    if (terms.length > 0) {
+      const tsVector = sql`to_tsvector('english', ${ragChunks.content})`;
+      const tsQuery = sql`to_tsquery('english', ${terms.join(" | ")})`;
+      keywordHits = await db.select({ id: ragChunks.id })
+        .from(ragChunks)
+        .innerJoin(ragChunkEmbeddings, eq(ragChunkEmbeddings.chunkId, ragChunks.id))
+        .innerJoin(ragDocuments, eq(ragDocuments.id, ragChunks.documentId))
+        .where(and(...conditions, sql`${tsVector} @@ ${tsQuery}`))
+        .orderBy(desc(sql`ts_rank_cd(${tsVector}, ${tsQuery}, 1)`))
+        .limit(candidates);
+    }
+
+    const fused = reciprocalRankFusion([
+      vectorHits.map(hit => hit.id),
+      keywordHits.map(hit => hit.id),
+    ]).slice(0, top);
+
+    if (fused.length === 0) {
+      return [];
+    }
+
+    const rows = await db.select({ chunk: ragChunks, document: ragDocuments })
+      .from(ragChunks)
+      .innerJoin(ragDocuments, eq(ragDocuments.id, ragChunks.documentId))
+      .where(inArray(ragChunks.id, fused.map(hit => hit.id)));
+    const rowsById = new Map(rows.map(row => [row.chunk.id, row]));
+
+    return fused.flatMap(({ id, score }) => {
+      const row = rowsById.get(id);
+      if (!row) return [];
+
+      const { chunk, document } = row;
+      const documentMetadata = (document.metadata as Record<string, any> | null) || {};
+      return [{
+        id: chunk.searchChunkId || chunk.id,
+        content: chunk.content,
+        sourceType: document.sourceType,
+        sourceId: document.sourceId || undefined,
+        category: document.category,
+        fileName: document.fileName,
+        chunkIndex: chunk.chunkIndex,
+        metadata: {
+          ...((chunk.metadata as Record<string, any> | null) || {}),
+          tags: documentMetadata.tags,
+          vendor: documentMetadata.vendor,
+          project: documentMetadata.project,
+        },
+        createdAt: chunk.createdAt.toISOString(),
+        score,
+      }];
+    });
+  }
+
+  async deleteAllDocuments(): Promise<number> {
+    await this.ensureSchema();
+    const cleared = await db.delete(ragChunkEmbeddings).returning({ chunkId: ragChunkEmbeddings.chunkId });
+    return cleared.length;
+  }
+}
+
+/**
+ * In-process store for offline development and tests (BM25 + cosine, fused with RRF)
+ */
+export class InMemoryVectorStore implements VectorStore {
+  readonly name = "memory" as const;
+  private documents = new Map<string, { document: VectorStoreDocument; terms: Map<string, number>; length: number }>();
+
+  private matchesFilter(document: VectorStoreDocument, filter?: VectorSearchFilter): boolean {
+    if (filter?.sourceType && document.sourceType !== filter.sourceType) {
+      return false;
+    }
+    if (filter?.category && document.category !== filter.category && document.category !== "shared") {
+      return false;
+    }
+    if (filter?.tags && filter.tags.length > 0) {
+      const tags: string[] = document.metadata?.tags || [];
+      if (!filter.tags.some(tag => tags.includes(tag))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+
+  async indexDocuments(documents: VectorStoreDocument[]): Promise<void> {
+    for (const document of documents) {
+      const tokens = tokenize(document.content);
+      const terms = new Map<string, number>();
+      tokens.forEach(token => terms.set(token, (terms.get(token) || 0) + 1));
+      this.documents.set(document.id, { document, terms, length: tokens.length });
+    }
+  }
+
+  async updateDocuments(updates: VectorStoreDocumentUpdate[]): Promise<void> {
+    for (const update of updates) {
+      const entry = this.documents.get(update.id);
+      if (entry) {
+        entry.document = { ...entry.document, chunkIndex: update.chunkIndex, metadata: update.metadata };
+      }
+    }
+  }
+
+  async deleteDocuments(ids: string[]): Promise<void> {
+    ids.forEach(id => this.documents.delete(id));
+  }
+
+  async hybridSearch(
+    query: string,
+    embedding: number[],
+    options?: { top?: number; filter?: VectorSearchFilter }
+  ): Promise<VectorSearchResult[]> {
+    const top = options?.top || 10;
+    const candidates = Math.max(top * CANDIDATES_PER_RESULT, MIN_CANDIDATES);
+    const entries = Array.from(this.documents.values()).filter(entry => this.matchesFilter(entry.document, options?.filter));
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const vectorRanking = entries
+      .map(entry => ({ id: entry.document.id, score: this.cosineSimilarity(embedding, entry.document.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, candidates)
+      .map(hit => hit.id);
+
+    // BM25 over the filtered documents
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const averageLength = entries.reduce((sum, entry) => sum + entry.length, 0) / entries.length || 1;
+    const inverseDocumentFrequency = new Map(queryTerms.map(term => {
+      const documentFrequency = entries.filter(entry => entry.terms.has(term)).length;
+      return [term, Math.log(1 + (entries.length - documentFrequency + 0.5) / (documentFrequency + 0.5))];
+    }));
+
+    const keywordRanking = entries
+      .map(entry => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = entry.terms.get(term) || 0;
+          if (frequency === 0) continue;
+          const lengthNormalisation = BM25_K1 * (1 - BM25_B + BM25_B * (entry.length / averageLength));
+          score += inverseDocumentFrequency.get(term)! * (frequency * (BM25_K1 + 1)) / (frequency + lengthNormalisation);
+        }
+        return { id: entry.document.id, score };
+      })
+      .filter(hit => hit.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, candidates)
+      .map(hit => hit.id);
+
+    return reciprocalRankFusion([vectorRanking, keywordRanking])
+      .slice(0, top)
+      .map(({ id, score }) => {
+        const { embedding: _embedding, ...document } = this.documents.get(id)!.document;
+        return { ...document, score };
+      });
+  }
+
+  async deleteAllDocuments(): Promise<number> {
+    const count = this.documents.size;
+    this.documents.clear();
+    return count;
+  }
+}
+
+const stores: Partial<Record<VectorStore["name"], VectorStore>> = {};
+
+/**
+ * Vector store selected by RAG_VECTOR_STORE
+ */
+export function getVectorStore(): VectorStore {
+  const { vectorStore } = ConfigHelper.getRagBackendConfig();
+  if (!stores[vectorStore]) {
+    stores[vectorStore] = vectorStore === "pgvector"
+      ? new PgVectorStore()
+      : vectorStore === "memory"
+        ? new InMemoryVectorStore()
+        : new AzureSearchVectorStore();
+  }
+  return stores[vectorStore]!;
+}
@@ -0,0 +1,224 @@
+/**
+ * RFT Clarifications & Addenda
+ *
+ * After an RFT is published, vendors raise clarification questions. Answers are drafted
+ * (by hand or AI-assisted from the RFT sections and organization standards) and issued to
+ * every vendor in numbered addenda, which are bundled into the RFT pack and given to the
+ * evaluation agents so proposals are scored against the RFT as amended.
+ */
+
+import type { GeneratedRft, RftAddendum, RftClarification } from "@shared/schema";
+import { storage } from "../../storage";
+import { getLlmClient } from "../ai/llmProvider";
+import { ragRetrievalService } from "../knowledgebase/ragRetrieval";
+import { getRftSections } from "./rftRevisionService";
+
+export interface AnswerReference {
+  type: "rft_section" | "standard";
+  label: string;
+  sectionId?: string;
+}
+
+// RFT sections sent to the model alongside the question (the referenced section is always included)
+const MAX_CONTEXT_SECTIONS = 4;
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 3));
+}
+
+/**
+ * Pick the RFT sections most relevant to a question by keyword overlap
+ */
+function selectRelevantSections(rft: GeneratedRft, clarification: RftClarification) {
+  const sections = getRftSections(rft.sections);
+  const questionTerms = tokenize(clarification.question);
+
+  const scored = sections.map(section => {
+    const sectionTerms = tokenize(`${section.title} ${section.content}`);
+    let overlap = 0;
+    questionTerms.forEach(term => {
+      if (sectionTerms.has(term)) overlap++;
+    });
+    const referenced = section.sectionId === clarification.sectionId;
+    return { section, score: referenced ? Number.MAX_SAFE_INTEGER : overlap };
+  });
+
+  return scored
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CONTEXT_SECTIONS)
+    .map(entry => entry.section);
+}
+
+/**
+ * Draft an answer to a vendor clarification from the published RFT and, when the knowledge
+ * base is configured, the organization's compliance standards
+ *
+ * @returns Proposed answer text and the sources it was grounded in
+ */
+export async function draftClarificationAnswer(
+  rft: GeneratedRft,
+  clarification: RftClarification
+): Promise<{ answer: string; references: AnswerReference[] }> {
+  const sections = selectRelevantSections(rft, clarification);
+  const references: AnswerReference[] = sections.map(section => ({
+    type: "rft_section",
+    label: section.title,
+    sectionId: section.sectionId,
+  }));
+
+  let standardsContext = "";
+  try {
+    if (await ragRetrievalService.isConfigured()) {
+      const ragContext = await ragRetrievalService.retrieveRelevantContext(clarification.question, {
+        topK: 3,
+        sourceType: "compliance-standard",
+      });
+      if (ragContext.chunks.length > 0) {
+        standardsContext = `\n\n${ragRetrievalService.formatForAIContext(ragContext)}`;
+        for (const chunk of ragContext.chunks) {
+          references.push({
+            type: "standard",
+            label: chunk.metadata.sectionTitle ? `${chunk.fileName} – ${chunk.metadata.sectionTitle}` : chunk.fileName,
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error("   ❌ RAG retrieval for clarification answer failed, continuing without standards:", error);
+  }
+
+  const sectionContext = sections.length > 0
+    ? sections.map(section => `### ${section.title}\n${section.content}`).join("\n\n")
+    : "(No RFT section appears directly relevant.)";
+
+  const prompt = `A vendor responding to the Request for Tender "${rft.name}" has asked the following clarification question:
+
+${clarification.question}
+
+Relevant sections of the published RFT:
+${sectionContext}${standardsContext}
+
+Draft the buyer's official answer. It will be issued to ALL vendors in an addendum, so:
+- Answer only from the RFT and standards above; if they do not settle the question, say what the buyer requires or state that the vendor should make and document a reasonable assumption.
+- Do not name or refer to the vendor who asked.
+- Be precise and concise (one or two short paragraphs, or a short list).
+
+Return ONLY the answer text.`;
+
+  const { client: openai, model } = await getLlmClient("generation");
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: "You are a procurement lead issuing formal clarifications during an open tender. Your answers are binding on the buyer, so you never invent requirements that contradict the RFT.",
+      },
+      { role: "user", content: prompt },
+    ],
+    temperature: 0.2,
+  });
+
+  const answer = response.choices[0]?.message?.content?.trim();
+  if (!answer) {
+    throw new Error("Empty answer returned for clarification");
+  }
+
+  return { answer, references };
+}
+
+/**
+ * Compile the addendum document body (questions are published without the asking vendor)
+ */
+export function compileAddendumContent(
+  rft: GeneratedRft,
+  number: number,
+  notes: string | undefined,
+  clarifications: RftClarification[]
+): string {
+  const sectionTitles = new Map(getRftSections(rft.sections).map(section => [section.sectionId, section.title]));
+  const parts: string[] = [];
+
+  parts.push(`This Addendum ${number} forms part of the RFT "${rft.name}". Respondents must take it into account in their proposals.`);
+
+  if (notes) {
+    parts.push(`## Changes and Instructions\n\n${notes}`);
+  }
+
+  if (clarifications.length > 0) {
+    const qa = clarifications.map((clarification, index) => {
+      const sectionTitle = clarification.sectionId ? sectionTitles.get(clarification.sectionId) : undefined;
+      const reference = sectionTitle ? ` (re: ${sectionTitle})` : "";
+      return `**Q${index + 1}${reference}:** ${clarification.question}\n\n**A${index + 1}:** ${clarification.answer}`;
+    });
+    parts.push(`## Clarifications\n\n${qa.join("\n\n")}`);
+  }
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Issue the next numbered addendum for an RFT from answered clarifications
+ *
+ * @param rft - Published RFT
+ * @param clarifications - Answered clarifications belonging to the RFT (validated by the caller)
+ * @param details - Title and optional notes
+ * @param publishedBy - Display name of the user issuing the addendum
+ * @returns The addendum, or null when a clarification was issued meanwhile (nothing is written)
+ */
+export async function publishAddendum(
+  rft: GeneratedRft,
+  clarifications: RftClarification[],
+  details: { title: string; notes?: string },
+  publishedBy: string
+): Promise<RftAddendum | null> {
+  const existing = await storage.getRftAddendaByRft(rft.id);
+  const number = existing.reduce((max, addendum) => Math.max(max, addendum.number), 0) + 1;
+
+  // The (rftId, number) unique constraint rejects a concurrent publish of the same number, and
+  // clarifications are only issued while still "answered", so no Q&A appears in two addenda
+  const addendum = await storage.publishRftAddendum({
+    rftId: rft.id,
+    projectId: rft.projectId,
+    number,
+    title: details.title,
+    notes: details.notes || null,
+    content: compileAddendumContent(rft, number, details.notes, clarifications),
+    clarificationIds: clarifications.map(clarification => clarification.id),
+    publishedBy,
+  });
+  if (!addendum) {
+    return null;
+  }
+
+  console.log(`📢 Addendum ${number} issued for RFT ${rft.id} (${clarifications.length} clarification(s)) by ${publishedBy}`);
+  return addendum;
+}
+
+/**
+ * Document sections for rendering an addendum with the RFT document generators
+ */
+export function addendumToDocumentSections(addendum: RftAddendum): { title: string; content: string }[] {
+  return [{ title: `Addendum ${addendum.number}: ${addendum.title}`, content: addendum.content }];
+}
+
+/**
+ * Published addenda for a project, formatted for the evaluation agents' prompts
+ *
+ * @returns Prompt block, or undefined when no addenda have been issued
+ */
+export async function getAddendaContextForProject(projectId: string): Promise<string | undefined> {
+  const addenda = await storage.getRftAddendaByProject(projectId);
+  if (addenda.length === 0) return undefined;
+
+  const body = addenda
+    .map(addendum => `### Addendum ${addendum.number}: ${addendum.title}\n\n${addendum.content}`)
+    .join("\n\n---\n\n");
+
+  return `
+
+**RFT ADDENDA (issued to all vendors after publication):**
+The RFT was amended and clarified by the addenda below. Where an addendum changes or clarifies a requirement, evaluate the proposal against the amended requirement, and note when a vendor's response ignores a clarification.
+
+${body}`;
+}
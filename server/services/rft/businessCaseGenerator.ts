@@ -1,4 +1,4 @@
-import { getOpenAIClient } from "../ai/aiAnalysis";
+import { getLlmClient } from "../ai/llmProvider";
 
 export interface BusinessCaseInput {
   projectName: string;
@@ -89,9 +89,9 @@ Create a structured Lean Business Case document with the following sections:
 Format the document in clear, professional language suitable for executive review. Use proper headings, bullet points, and structured content. Make it comprehensive and aviation industry-focused.`;
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("generation");
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
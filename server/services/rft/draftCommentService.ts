@@ -0,0 +1,181 @@
+/**
+ * RFT Draft Comment Threads
+ *
+ * Inline review conversations on draft sections: threads anchored to a text range of
+ * the section markdown, replies, resolution, and "suggest change" edits that the
+ * section owner accepts (applied to the section) or rejects.
+ */
+
+import type { DraftSectionComment, RftGenerationDraft } from "@shared/schema";
+import { storage } from "../../storage";
+import { computeApprovalProgress, DraftFinalizedError, type DraftSection } from "./draftReviewService";
+
+export interface CommentAnchor {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface DraftCommentThread extends DraftSectionComment {
+  replies: DraftSectionComment[];
+  // Anchor re-located in the current section content; null when the quoted text no longer exists
+  // (or, after an edit moved it, occurs more than once)
+  currentAnchor: { start: number; end: number } | null;
+}
+
+/**
+ * Locate a thread's anchor in the current section content. Offsets are tried first; if the
+ * section was edited since, fall back to the quoted text, as long as it occurs exactly once.
+ */
+export function locateAnchor(
+  content: string,
+  comment: Pick<DraftSectionComment, "anchorStart" | "anchorEnd" | "anchorText">
+): { start: number; end: number } | null {
+  if (!comment.anchorText || comment.anchorStart === null || comment.anchorEnd === null) {
+    return null;
+  }
+  if (content.slice(comment.anchorStart, comment.anchorEnd) === comment.anchorText) {
+    return { start: comment.anchorStart, end: comment.anchorEnd };
+  }
+  const index = content.indexOf(comment.anchorText);
+  if (index === -1 || content.indexOf(comment.anchorText, index + 1) !== -1) {
+    return null;
+  }
+  return { start: index, end: index + comment.anchorText.length };
+}
+
+/**
+ * Check that a new anchor matches the section content it claims to quote
+ */
+export function isValidAnchor(content: string, anchor: CommentAnchor): boolean {
+  return anchor.end <= content.length && content.slice(anchor.start, anchor.end) === anchor.text;
+}
+
+/**
+ * Load every thread on a draft with replies nested under their root and anchors re-located
+ *
+ * @param draft - Draft whose section content the anchors refer to
+ * @returns Threads in creation order (callers filter by sectionId)
+ */
+export async function getDraftCommentThreads(draft: RftGenerationDraft): Promise<DraftCommentThread[]> {
+  const comments = await storage.getDraftCommentsByDraft(draft.id);
+  const sections = (draft.generatedSections as DraftSection[]) || [];
+  const contentBySection = new Map(sections.map(section => [section.sectionId, section.content || ""]));
+
+  const threads = new Map<string, DraftCommentThread>();
+  for (const comment of comments) {
+    if (!comment.parentId) {
+      threads.set(comment.id, {
+        ...comment,
+        replies: [],
+        currentAnchor: locateAnchor(contentBySection.get(comment.sectionId) || "", comment),
+      });
+    }
+  }
+  for (const comment of comments) {
+    if (comment.parentId) {
+      threads.get(comment.parentId)?.replies.push(comment);
+    }
+  }
+
+  return Array.from(threads.values());
+}
+
+/**
+ * Accept or reject a suggested edit. Accepting replaces the anchored text in the section,
+ * withdraws the section's approval (like any edit) and records the change in the edit history.
+ * The section is changed on the latest draft with its row locked, and only while the suggestion
+ * is still open, so concurrent decisions neither lose edits nor apply a suggestion twice.
+ *
+ * @param draftId - Draft containing the section
+ * @param suggestion - Root comment of kind "suggestion"
+ * @param decision - "accept" or "reject"
+ * @param decidedBy - Display name of the section owner making the decision
+ * @returns The updated suggestion, or a conflict when it was already decided or the anchored
+ *          text no longer exists or occurs more than once
+ * @throws DraftFinalizedError if the draft was finalized
+ */
+export async function decideSuggestion(
+  draftId: string,
+  suggestion: DraftSectionComment,
+  decision: "accept" | "reject",
+  decidedBy: string
+): Promise<{
+  suggestion?: DraftSectionComment;
+  section?: DraftSection;
+  conflict?: "already_decided" | "anchor_not_found" | "anchor_ambiguous";
+}> {
+  const now = new Date();
+  const resolution = {
+    suggestionStatus: decision === "accept" ? "accepted" : "rejected",
+    resolved: true,
+    resolvedBy: decidedBy,
+    resolvedAt: now,
+  };
+
+  let section: DraftSection | undefined;
+  let anchorConflict: "anchor_not_found" | "anchor_ambiguous" | undefined;
+  const decided = await storage.decideDraftSuggestion(suggestion.id, resolution, decision === "reject" ? undefined : (draft) => {
+    if (draft.status === "finalized") {
+      throw new DraftFinalizedError(draftId);
+    }
+
+    const sections = (draft.generatedSections as DraftSection[]) || [];
+    const current = sections.find(s => s.sectionId === suggestion.sectionId);
+    if (!current) {
+      anchorConflict = "anchor_not_found";
+      return null;
+    }
+
+    const previousContent = current.content || "";
+    const anchor = locateAnchor(previousContent, suggestion);
+    if (!anchor) {
+      anchorConflict = suggestion.anchorText && previousContent.includes(suggestion.anchorText)
+        ? "anchor_ambiguous"
+        : "anchor_not_found";
+      return null;
+    }
+
+    section = {
+      ...current,
+      content: previousContent.slice(0, anchor.start) + (suggestion.suggestedText || "") + previousContent.slice(anchor.end),
+      reviewStatus: "pending",
+      approvedBy: null,
+      approvedByRole: null,
+      approvedAt: null,
+    };
+    const updatedSections = sections.map(s => (s.sectionId === suggestion.sectionId ? section! : s));
+
+    // Same ring-buffered edit history as direct section edits
+    const metadata = { ...((draft.metadata as any) || {}) };
+    metadata.editHistory = { ...(metadata.editHistory || {}) };
+    const history = [...(metadata.editHistory[suggestion.sectionId] || []), {
+      editedBy: decidedBy,
+      editedAt: now.toISOString(),
+      previousContent,
+      suggestionId: suggestion.id,
+      suggestedBy: suggestion.authorName,
+    }];
+    metadata.editHistory[suggestion.sectionId] = history.slice(-10);
+
+    const { approvalProgress, status } = computeApprovalProgress(updatedSections, draft.status);
+    return {
+      generatedSections: updatedSections as any,
+      approvalProgress: approvalProgress as any,
+      status,
+      metadata,
+    };
+  });
+
+  if (anchorConflict) {
+    return { conflict: anchorConflict };
+  }
+  if (!decided) {
+    return { suggestion: await storage.getDraftComment(suggestion.id), conflict: "already_decided" };
+  }
+
+  if (decision === "accept") {
+    console.log(`✍️  Suggestion ${suggestion.id} by ${suggestion.authorName} accepted by ${decidedBy}`);
+  }
+  return { suggestion: decided.suggestion, section };
+}
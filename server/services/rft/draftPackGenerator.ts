@@ -1,5 +1,5 @@
 import { storage } from "../../storage";
-import { AzureBlobStorageService } from "../azure/azureBlobStorage";
+import { getFileStorage } from "../core/fileStorage";
 import { TemplateMergeService } from "./templateMergeService";
 import { generateQuestionnaireQuestions, QUESTIONNAIRE_COUNTS } from "./smartRftService";
 import { generateAllQuestionnaires } from "./excelGenerator";
@@ -9,7 +9,6 @@ import { generateProductTechnicalQuestionnaire } from "../architecture/productQu
 import * as fs from "fs";
 import * as path from "path";
 
-const azureBlobStorageService = new AzureBlobStorageService();
 const templateMergeService = new TemplateMergeService();
 
 interface PackGenerationResult {
@@ -170,27 +169,27 @@ export async function generateRftPackFromDraft(draftId: string): Promise<PackGen
 
     // Build upload promises array
     const uploadPromises = [
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/RFT_Document.docx`,
         docxBuffer
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/RFT_Document.pdf`,
         pdfBuffer
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/Product_Questionnaire.xlsx`,
         fs.readFileSync(questionnairePaths.productPath)
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/NFR_Questionnaire.xlsx`,
         fs.readFileSync(questionnairePaths.nfrPath)
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/Cybersecurity_Questionnaire.xlsx`,
         fs.readFileSync(questionnairePaths.cybersecurityPath)
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/Agile_Questionnaire.xlsx`,
         fs.readFileSync(questionnairePaths.agilePath)
       ),
@@ -199,7 +198,7 @@ export async function generateRftPackFromDraft(draftId: string): Promise<PackGen
     // Add procurement questionnaire if it exists
     if (questionnairePaths.procurementPath) {
       uploadPromises.push(
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `project-${project.id}/RFT_Generated/Procurement_Questionnaire.xlsx`,
           fs.readFileSync(questionnairePaths.procurementPath)
         )
@@ -213,7 +212,7 @@ export async function generateRftPackFromDraft(draftId: string): Promise<PackGen
     // Upload Product Technical Questionnaire if generated
     let productTechnicalUpload = null;
     if (productTechnicalBuffer) {
-      productTechnicalUpload = await azureBlobStorageService.uploadDocument(
+      productTechnicalUpload = await getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/Product_Technical_Questionnaire.docx`,
         productTechnicalBuffer
       );
@@ -0,0 +1,413 @@
+/**
+ * RFT Draft Review Workflow
+ *
+ * Section-level approval bookkeeping for rftGenerationDrafts: reviewer inboxes,
+ * rejection (with optional AI redraft) and the finalize gate that requires every
+ * section to be approved by its mapped stakeholder role.
+ */
+
+import type { RftGenerationDraft } from "@shared/schema";
+import { storage } from "../../storage";
+import { getSectionApproverRole, getStakeholderRole } from "./stakeholderConfig";
+import { reviseRftSection } from "./smartRftService";
+
+// Shape of the entries stored in rftGenerationDrafts.generatedSections
+export interface DraftSection {
+  sectionId: string;
+  sectionTitle?: string;
+  title?: string;
+  content: string;
+  assignedTo?: string | null;
+  category?: string;
+  reviewStatus: "pending" | "in_review" | "approved" | "rejected";
+  approvedBy: string | null;
+  approvedByRole?: string | null;
+  approvedAt: string | null;
+  comments?: string | null;
+  rejectedBy?: string | null;
+  rejectedAt?: string | null;
+  [key: string]: any;
+}
+
+export interface ApprovalProgress {
+  totalSections: number;
+  approvedSections: number;
+  pendingSections: number;
+  rejectedSections: number;
+}
+
+export interface ReviewHistoryEntry {
+  action: "approved" | "rejected" | "regenerated";
+  by: string;
+  role: string;
+  at: string;
+  comments?: string;
+}
+
+export interface ReviewInboxItem {
+  draftId: string;
+  projectId: string;
+  projectName: string | null;
+  draftStatus: string;
+  sectionId: string;
+  sectionTitle: string;
+  reviewStatus: DraftSection["reviewStatus"];
+  approverRole: string;
+  comments: string | null;
+  updatedAt: Date;
+}
+
+export interface FinalizeBlocker {
+  sectionId: string;
+  sectionTitle: string;
+  requiredRole: string;
+  reason: "not_approved" | "approved_by_wrong_role";
+}
+
+export class DraftFinalizedError extends Error {
+  constructor(draftId: string) {
+    super(`Draft ${draftId} is already finalized`);
+    this.name = "DraftFinalizedError";
+  }
+}
+
+// Sections waiting on a reviewer (rejected sections stay in the inbox until redrafted and approved)
+const OPEN_REVIEW_STATUSES = new Set(["pending", "in_review", "rejected"]);
+
+function sectionTitleOf(section: DraftSection): string {
+  return section.sectionTitle || section.title || section.sectionId;
+}
+
+/**
+ * Recount approvals and derive the draft status (finalized drafts keep their status)
+ */
+export function computeApprovalProgress(
+  sections: DraftSection[],
+  currentStatus: string
+): { approvalProgress: ApprovalProgress; status: string } {
+  const approvedSections = sections.filter(s => s.reviewStatus === "approved").length;
+  const rejectedSections = sections.filter(s => s.reviewStatus === "rejected").length;
+
+  const approvalProgress: ApprovalProgress = {
+    totalSections: sections.length,
+    approvedSections,
+    pendingSections: sections.length - approvedSections,
+    rejectedSections,
+  };
+
+  let status = currentStatus;
+  if (currentStatus !== "finalized") {
+    if (sections.length > 0 && approvedSections === sections.length) {
+      status = "approved";
+    } else if (approvedSections > 0 || rejectedSections > 0) {
+      status = "in_review";
+    } else {
+      status = "draft";
+    }
+  }
+
+  return { approvalProgress, status };
+}
+
+/**
+ * Append an entry to the draft's per-section review history (stored in draft.metadata)
+ */
+export function appendReviewHistory(metadata: any, sectionId: string, entry: ReviewHistoryEntry): any {
+  const updated = { ...(metadata || {}) };
+  updated.reviewHistory = { ...(updated.reviewHistory || {}) };
+  updated.reviewHistory[sectionId] = [...(updated.reviewHistory[sectionId] || []), entry];
+  return updated;
+}
+
+/**
+ * Sections that prevent a draft from being finalized: anything not approved, or approved
+ * by someone other than the section's mapped stakeholder role
+ */
+export function getFinalizeBlockers(draft: RftGenerationDraft): FinalizeBlocker[] {
+  const sections = (draft.generatedSections as DraftSection[]) || [];
+  const blockers: FinalizeBlocker[] = [];
+
+  for (const section of sections) {
+    const requiredRole = getSectionApproverRole(section);
+    if (section.reviewStatus !== "approved") {
+      blockers.push({ sectionId: section.sectionId, sectionTitle: sectionTitleOf(section), requiredRole, reason: "not_approved" });
+    } else if (section.approvedByRole !== requiredRole) {
+      blockers.push({ sectionId: section.sectionId, sectionTitle: sectionTitleOf(section), requiredRole, reason: "approved_by_wrong_role" });
+    }
+  }
+
+  return blockers;
+}
+
+/**
+ * List sections awaiting review across all non-finalized drafts
+ *
+ * @param roleId - Stakeholder role whose inbox to build; omit for every role (admin view)
+ * @returns Open sections, most recently updated drafts first
+ */
+export async function getReviewInbox(roleId?: string): Promise<ReviewInboxItem[]> {
+  const drafts = await storage.getAllRftGenerationDrafts();
+  const projectNames = new Map<string, string | null>();
+  const items: ReviewInboxItem[] = [];
+
+  for (const draft of drafts) {
+    if (draft.status === "finalized") continue;
+
+    const sections = (draft.generatedSections as DraftSection[]) || [];
+    const openSections = sections.filter(section =>
+      OPEN_REVIEW_STATUSES.has(section.reviewStatus) &&
+      (!roleId || getSectionApproverRole(section) === roleId)
+    );
+    if (openSections.length === 0) continue;
+
+    if (!projectNames.has(draft.projectId)) {
+      const project = await storage.getProject(draft.projectId);
+      projectNames.set(draft.projectId, project?.name || null);
+    }
+
+    for (const section of openSections) {
+      items.push({
+        draftId: draft.id,
+        projectId: draft.projectId,
+        projectName: projectNames.get(draft.projectId) ?? null,
+        draftStatus: draft.status,
+        sectionId: section.sectionId,
+        sectionTitle: sectionTitleOf(section),
+        reviewStatus: section.reviewStatus,
+        approverRole: getSectionApproverRole(section),
+        comments: section.comments || null,
+        updatedAt: draft.updatedAt,
+      });
+    }
+  }
+
+  return items.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+}
+
+/**
+ * Reject a draft section with comments and, optionally, redraft it with AI so it returns
+ * to the reviewer's inbox as pending. If the redraft fails the section stays rejected with
+ * its original content so the author can edit it by hand.
+ *
+ * The rejection and the redraft are written separately, each re-reading the draft with the row
+ * locked and replacing only this section, so approvals, comments and edits made elsewhere in the
+ * draft while the LLM runs are kept. A redraft is discarded if the section itself changed meanwhile.
+ *
+ * @param draft - Draft containing the section
+ * @param sectionIndex - Index of the section in draft.generatedSections
+ * @param reviewer - Signed-in reviewer (must already be authorized for the section)
+ * @param comments - What needs to change
+ * @param regenerate - Whether to redraft the section from the comments
+ */
+export async function rejectDraftSection(
+  draft: RftGenerationDraft,
+  sectionIndex: number,
+  reviewer: { name: string; role: string },
+  comments: string,
+  regenerate: boolean
+): Promise<{ section: DraftSection; approvalProgress: ApprovalProgress; draftStatus: string; regenerated: boolean; regenerationError?: string }> {
+  const sectionId = (draft.generatedSections as DraftSection[])[sectionIndex].sectionId;
+  const rejectedAt = new Date().toISOString();
+  let rejected: DraftSection | undefined;
+
+  let current = await modifyDraftSection(draft.id, sectionId, (section, latest) => {
+    rejected = {
+      ...section,
+      reviewStatus: "rejected",
+      comments,
+      rejectedBy: reviewer.name,
+      rejectedAt,
+      approvedBy: null,
+      approvedByRole: null,
+      approvedAt: null,
+    };
+    return {
+      section: rejected,
+      metadata: appendReviewHistory(latest.metadata, sectionId, {
+        action: "rejected",
+        by: reviewer.name,
+        role: reviewer.role,
+        at: rejectedAt,
+        comments,
+      }),
+    };
+  });
+  if (!current || !rejected) {
+    throw new Error(`Section ${sectionId} no longer exists in draft ${draft.id}`);
+  }
+
+  let regenerated = false;
+  let regenerationError: string | undefined;
+  if (regenerate) {
+    const original = rejected;
+    try {
+      const businessCase = await storage.getBusinessCase(draft.businessCaseId);
+      const content = await reviseRftSection(
+        sectionTitleOf(original),
+        original.content,
+        comments,
+        businessCase?.documentContent || businessCase?.description || undefined
+      );
+
+      let applied = false;
+      const redrafted = await modifyDraftSection(draft.id, sectionId, (section, latest) => {
+        // Rejected again, approved or edited by hand while the LLM ran: keep that instead
+        if (section.rejectedAt !== rejectedAt || section.content !== original.content || section.reviewStatus !== "rejected") {
+          return null;
+        }
+        applied = true;
+        return {
+          section: { ...section, content, reviewStatus: "pending" },
+          metadata: appendReviewHistory(latest.metadata, sectionId, {
+            action: "regenerated",
+            by: "AI",
+            role: "system",
+            at: new Date().toISOString(),
+          }),
+        };
+      });
+      current = redrafted || current;
+      if (applied) {
+        regenerated = true;
+        console.log(`🔁 Section "${sectionTitleOf(original)}" redrafted after rejection by ${reviewer.name}`);
+      } else {
+        regenerationError = "Section changed while it was being redrafted; the redraft was discarded";
+        console.warn(`⚠️  Discarded redraft of section "${sectionTitleOf(original)}": it changed during regeneration`);
+      }
+    } catch (error) {
+      regenerationError = error instanceof Error ? error.message : "Regeneration failed";
+      console.error(`❌ Failed to redraft rejected section "${sectionTitleOf(original)}":`, error);
+    }
+  }
+
+  return {
+    section: findSection(current, sectionId) || rejected,
+    approvalProgress: current.approvalProgress as ApprovalProgress,
+    draftStatus: current.status,
+    regenerated,
+    regenerationError,
+  };
+}
+
+/**
+ * Replace a section's content and withdraw its approval. The previous content is kept in the
+ * draft's edit history (last 10 edits per section).
+ *
+ * @returns The edited section and recounted progress, or null if the section no longer exists
+ * @throws DraftFinalizedError if the draft was finalized
+ */
+export async function editDraftSection(
+  draftId: string,
+  sectionId: string,
+  content: string,
+  editedBy: string
+): Promise<{ section: DraftSection; approvalProgress: ApprovalProgress; draftStatus: string } | null> {
+  const updated = await modifyDraftSection(draftId, sectionId, (section, latest) => {
+    const metadata = { ...((latest.metadata as any) || {}) };
+    const history = [
+      ...(metadata.editHistory?.[sectionId] || []),
+      { editedBy, editedAt: new Date().toISOString(), previousContent: section.content },
+    ].slice(-10);
+    metadata.editHistory = { ...(metadata.editHistory || {}), [sectionId]: history };
+
+    return {
+      section: { ...section, content, reviewStatus: "pending", approvedBy: null, approvedByRole: null, approvedAt: null },
+      metadata,
+    };
+  });
+  const section = updated && findSection(updated, sectionId);
+  if (!updated || !section) {
+    return null;
+  }
+
+  return { section, approvalProgress: updated.approvalProgress as ApprovalProgress, draftStatus: updated.status };
+}
+
+/**
+ * Approve a section on behalf of a reviewer (who must already be authorized for it)
+ *
+ * @returns The approved section and recounted progress, or null if the section no longer exists
+ * @throws DraftFinalizedError if the draft was finalized
+ */
+export async function approveDraftSection(
+  draftId: string,
+  sectionId: string,
+  approver: { name: string; role: string }
+): Promise<{ section: DraftSection; approvalProgress: ApprovalProgress; draftStatus: string } | null> {
+  const approvedAt = new Date().toISOString();
+  const updated = await modifyDraftSection(draftId, sectionId, (section, latest) => ({
+    section: {
+      ...section,
+      reviewStatus: "approved",
+      approvedBy: approver.name,
+      approvedByRole: approver.role,
+      approvedAt,
+      comments: null,
+    },
+    metadata: appendReviewHistory(latest.metadata, sectionId, {
+      action: "approved",
+      by: approver.name,
+      role: approver.role,
+      at: approvedAt,
+    }),
+  }));
+  const section = updated && findSection(updated, sectionId);
+  if (!updated || !section) {
+    return null;
+  }
+
+  return { section, approvalProgress: updated.approvalProgress as ApprovalProgress, draftStatus: updated.status };
+}
+
+function findSection(draft: RftGenerationDraft, sectionId: string): DraftSection | undefined {
+  return ((draft.generatedSections as DraftSection[]) || []).find(section => section.sectionId === sectionId);
+}
+
+/**
+ * Replace one section of the latest version of a draft (row locked) and recompute approval
+ * progress. update returns the new section and metadata, or null to leave the draft unchanged.
+ * Throws DraftFinalizedError, writing nothing, once the draft is finalized.
+ */
+async function modifyDraftSection(
+  draftId: string,
+  sectionId: string,
+  update: (section: DraftSection, latest: RftGenerationDraft) => { section: DraftSection; metadata: any } | null
+): Promise<RftGenerationDraft | undefined> {
+  return storage.modifyRftGenerationDraft(draftId, (latest) => {
+    if (latest.status === "finalized") {
+      throw new DraftFinalizedError(draftId);
+    }
+    const sections = (latest.generatedSections as DraftSection[]) || [];
+    const index = sections.findIndex(section => section.sectionId === sectionId);
+    if (index === -1) {
+      return null;
+    }
+    const change = update(sections[index], latest);
+    if (!change) {
+      return null;
+    }
+
+    const updatedSections = sections.map((section, i) => (i === index ? change.section : section));
+    const { approvalProgress, status } = computeApprovalProgress(updatedSections, latest.status);
+    return {
+      generatedSections: updatedSections as any,
+      approvalProgress: approvalProgress as any,
+      status,
+      metadata: change.metadata,
+    };
+  });
+}
+
+/**
+ * Human-readable list of finalize blockers for error responses
+ */
+export function describeFinalizeBlockers(blockers: FinalizeBlocker[]): string {
+  return blockers
+    .map(blocker => {
+      const roleName = getStakeholderRole(blocker.requiredRole)?.name || blocker.requiredRole;
+      return blocker.reason === "not_approved"
+        ? `"${blocker.sectionTitle}" awaits approval by ${roleName}`
+        : `"${blocker.sectionTitle}" must be re-approved by ${roleName}`;
+    })
+    .join("; ");
+}
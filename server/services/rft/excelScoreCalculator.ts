@@ -302,8 +302,8 @@ export async function parseProcurementCostFromExcel(buffer: Buffer): Promise<Pro
 export async function calculateExcelScoresForVendor(
   vendorDocuments: Array<{ fileName: string; blobUrl: string; documentType: string; blobName?: string }>
 ): Promise<VendorExcelScores> {
-  const { AzureBlobStorageService } = await import('../azure/azureBlobStorage');
-  const azureService = new AzureBlobStorageService();
+  const { getFileStorage, blobNameFromUrl } = await import('../core/fileStorage');
+  const fileStorage = getFileStorage();
   
   const scores: VendorExcelScores = {
     vendorName: "",
@@ -322,10 +322,10 @@ export async function calculateExcelScoresForVendor(
     try {
       let buffer: Buffer;
       if (doc.blobName) {
-        buffer = await azureService.downloadDocument(doc.blobName);
+        buffer = await fileStorage.downloadDocument(doc.blobName);
       } else {
-        const blobName = extractBlobNameFromUrl(doc.blobUrl);
-        buffer = await azureService.downloadDocument(blobName);
+        const blobName = blobNameFromUrl(doc.blobUrl);
+        buffer = await fileStorage.downloadDocument(blobName);
       }
       
       const fileName = doc.fileName.toLowerCase();
@@ -394,12 +394,6 @@ export async function calculateExcelScoresForVendor(
   return scores;
 }
 
-function extractBlobNameFromUrl(blobUrl: string): string {
-  const url = new URL(blobUrl);
-  const pathParts = url.pathname.split('/');
-  return pathParts.slice(2).join('/');
-}
-
 export interface HybridScore {
   aiScore: number;
   excelScore: number;
@@ -1,11 +1,11 @@
 import { storage } from "../../storage";
-import { azureBlobStorageService } from "../azure/azureBlobStorage";
+import { getFileStorage } from "../core/fileStorage";
 import { generateQuestionnaireQuestions, QUESTIONNAIRE_COUNTS } from "./smartRftService";
 import { generateAllQuestionnaires } from "./excelGenerator";
 import { generateDocxDocument, generatePdfDocument } from "./documentGenerator";
 import { generateVendorProposal, formatProposalAsDocument } from "./vendorProposalGenerator";
 import { normalizeVendorName, deduplicateVendors } from "./vendorUtils";
-import { getOpenAIClient } from "../ai/aiAnalysis";
+import { getLlmClient } from "../ai/llmProvider";
 import ExcelJS from "exceljs";
 import fs from "fs";
 import path from "path";
@@ -92,10 +92,10 @@ async function fetchTopVendorsForObjective(businessObjective: string): Promise<s
   }
   
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("mock_data");
     
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
@@ -437,32 +437,32 @@ export async function generateRftPack(rftId: string) {
   // Upload all files individually to Azure Blob Storage
   const uploadPromises = [
     // Upload RFT document (DOCX)
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/${rft.name.replace(/[^a-zA-Z0-9]/g, '_')}_RFT.docx`,
       docxBuffer
     ),
     // Upload RFT document (PDF)
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/${rft.name.replace(/[^a-zA-Z0-9]/g, '_')}_RFT.pdf`,
       pdfBuffer
     ),
     // Upload Product Questionnaire
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/Product_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.productPath)
     ),
     // Upload NFR Questionnaire
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/NFR_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.nfrPath)
     ),
     // Upload Cybersecurity Questionnaire
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/Cybersecurity_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.cybersecurityPath)
     ),
     // Upload Agile Questionnaire
-    azureBlobStorageService.uploadDocument(
+    getFileStorage().uploadDocument(
       `project-${project.id}/RFT_Generated/Agile_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.agilePath)
     ),
@@ -471,7 +471,7 @@ export async function generateRftPack(rftId: string) {
   // Upload Procurement Questionnaire if it exists
   if (questionnairePaths.procurementPath) {
     uploadPromises.push(
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Generated/Procurement_Questionnaire.xlsx`,
         fs.readFileSync(questionnairePaths.procurementPath)
       )
@@ -589,11 +589,11 @@ export async function generateVendorResponses(rftId: string) {
   try {
     console.log("Attempting to download questionnaires from Azure Blob Storage...");
     const downloadResults = await Promise.all([
-      azureBlobStorageService.downloadDocument(questionnairePaths.product),
-      azureBlobStorageService.downloadDocument(questionnairePaths.nfr),
-      azureBlobStorageService.downloadDocument(questionnairePaths.cybersecurity),
-      azureBlobStorageService.downloadDocument(questionnairePaths.agile),
-      azureBlobStorageService.downloadDocument(questionnairePaths.procurement).catch(() => null), // Procurement optional
+      getFileStorage().downloadDocument(questionnairePaths.product),
+      getFileStorage().downloadDocument(questionnairePaths.nfr),
+      getFileStorage().downloadDocument(questionnairePaths.cybersecurity),
+      getFileStorage().downloadDocument(questionnairePaths.agile),
+      getFileStorage().downloadDocument(questionnairePaths.procurement).catch(() => null), // Procurement optional
     ]);
     [productBuffer, nfrBuffer, cybersecurityBuffer, agileBuffer, procurementBuffer] = downloadResults;
     console.log("Successfully downloaded questionnaires from Azure Blob Storage");
@@ -700,19 +700,19 @@ export async function generateVendorResponses(rftId: string) {
     // Scope responses to specific RFT to avoid mixing responses from different RFTs
     const vendorPathSafe = vendorName.replace(/[^a-zA-Z0-9]/g, '_');
     const uploadPromises = [
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Responses/${rftId}/${vendorPathSafe}/Product_Response.xlsx`,
         productResponse
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Responses/${rftId}/${vendorPathSafe}/NFR_Response.xlsx`,
         nfrResponse
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Responses/${rftId}/${vendorPathSafe}/Cybersecurity_Response.xlsx`,
         securityResponse
       ),
-      azureBlobStorageService.uploadDocument(
+      getFileStorage().uploadDocument(
         `project-${project.id}/RFT_Responses/${rftId}/${vendorPathSafe}/Agile_Response.xlsx`,
         agileResponse
       ),
@@ -721,7 +721,7 @@ export async function generateVendorResponses(rftId: string) {
     // Upload procurement response if available
     if (procurementResponse) {
       uploadPromises.push(
-        azureBlobStorageService.uploadDocument(
+        getFileStorage().uploadDocument(
           `project-${project.id}/RFT_Responses/${rftId}/${vendorPathSafe}/Procurement_Response.xlsx`,
           procurementResponse
         )
@@ -742,24 +742,28 @@ export async function generateVendorResponses(rftId: string) {
         documentType: "product",
         fileName: "Product_Response.xlsx",
         blobUrl: productUpload.blobUrl,
+        blobName: productUpload.blobName,
         extractedData: { type: "product-questionnaire-response" },
       },
       {
         documentType: "nfr",
         fileName: "NFR_Response.xlsx",
         blobUrl: nfrUpload.blobUrl,
+        blobName: nfrUpload.blobName,
         extractedData: { type: "nfr-questionnaire-response" },
       },
       {
         documentType: "cybersecurity",
         fileName: "Cybersecurity_Response.xlsx",
         blobUrl: securityUpload.blobUrl,
+        blobName: securityUpload.blobName,
         extractedData: { type: "cybersecurity-questionnaire-response" },
       },
       {
         documentType: "agile",
         fileName: "Agile_Response.xlsx",
         blobUrl: agileUpload.blobUrl,
+        blobName: agileUpload.blobName,
         extractedData: { type: "agile-questionnaire-response" },
       },
     ];
@@ -770,6 +774,7 @@ export async function generateVendorResponses(rftId: string) {
         documentType: "procurement",
         fileName: "Procurement_Response.xlsx",
         blobUrl: procurementUpload.blobUrl,
+        blobName: procurementUpload.blobName,
         extractedData: { 
           type: "procurement-questionnaire-response",
           costSummary: procurementCostSummary ? {
@@ -796,6 +801,7 @@ export async function generateVendorResponses(rftId: string) {
           // Update existing proposal with fresh blob URL
           await storage.updateProposal(existing.id, {
             blobUrl: config.blobUrl,
+            blobName: config.blobName,
             extractedData: config.extractedData,
             fileName: config.fileName,
           });
@@ -963,7 +969,7 @@ All vendors have been assessed across technical fit, delivery risk, cost, compli
   const reportBuffer = Buffer.from(reportContent, "utf-8");
 
   // Upload to Azure Blob Storage under project-specific folder
-  await azureBlobStorageService.uploadDocument(
+  await getFileStorage().uploadDocument(
     `project-${project.id}/RFT Evaluation/Evaluation_Report.txt`,
     reportBuffer,
     { rftId: rft.id, projectId: project.id, type: "evaluation-report" }
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { diffLines, diffRftRevisions, getChangedSectionIds } from "./rftRevisionService";
+
+function revision(version: number, sections: Array<{ sectionId: string; title: string; content: string }>, name = "Identity Platform RFT") {
+  return { rftId: "rft-1", version, name, sections };
+}
+
+describe("diffLines", () => {
+  it("marks lines added, removed and kept", () => {
+    assert.deepEqual(diffLines("scope\nSAML\nhosting", "scope\nOIDC\nhosting\nsupport"), [
+      { type: "unchanged", text: "scope" },
+      { type: "removed", text: "SAML" },
+      { type: "added", text: "OIDC" },
+      { type: "unchanged", text: "hosting" },
+      { type: "added", text: "support" },
+    ]);
+  });
+
+  it("treats empty text as no lines", () => {
+    assert.deepEqual(diffLines("", "new"), [{ type: "added", text: "new" }]);
+    assert.deepEqual(diffLines("old", ""), [{ type: "removed", text: "old" }]);
+  });
+});
+
+describe("diffRftRevisions", () => {
+  it("compares sections by ID and lists removed sections last", () => {
+    const from = revision(1, [
+      { sectionId: "scope", title: "Scope", content: "Identity platform" },
+      { sectionId: "pricing", title: "Pricing", content: "Fixed price" },
+      { sectionId: "terms", title: "Terms", content: "Standard terms" },
+    ]);
+    const to = revision(2, [
+      { sectionId: "scope", title: "Scope and Objectives", content: "Identity platform\nFor 2 million citizens" },
+      { sectionId: "security", title: "Security", content: "ISO 27001" },
+      { sectionId: "terms", title: "Terms", content: "Standard terms" },
+    ], "Citizen Identity RFT");
+
+    const diff = diffRftRevisions(from, to);
+
+    assert.deepEqual(diff.sections.map(section => [section.sectionId, section.status]), [
+      ["scope", "modified"],
+      ["security", "added"],
+      ["terms", "unchanged"],
+      ["pricing", "removed"],
+    ]);
+    assert.equal(diff.sections[0].previousTitle, "Scope");
+    assert.deepEqual(diff.summary, { added: 1, removed: 1, modified: 1, unchanged: 1 });
+    assert.deepEqual(diff.nameChanged, { from: "Identity Platform RFT", to: "Citizen Identity RFT" });
+  });
+});
+
+describe("getChangedSectionIds", () => {
+  it("lists changed and removed sections", () => {
+    const before = [
+      { sectionId: "a", title: "A", content: "one" },
+      { sectionId: "b", title: "B", content: "two" },
+    ];
+    const after = [
+      { sectionId: "a", title: "A", content: "one" },
+      { sectionId: "c", title: "C", content: "three" },
+    ];
+
+    assert.deepEqual(getChangedSectionIds(before, after), ["c", "b"]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Generated RFT Version History
+ *
+ * Every content change to a generated RFT (manual edit, section regeneration, restore)
+ * bumps generatedRfts.version and stores an immutable snapshot in generatedRftRevisions,
+ * so any two versions can be compared section by section for audit.
+ */
+
+import type { GeneratedRft, GeneratedRftRevision } from "@shared/schema";
+import { storage } from "../../storage";
+
+export type RevisionChangeType = "initial" | "edited" | "section_regenerated" | "restored";
+
+interface RevisionSection {
+  sectionId: string;
+  title: string;
+  content: string;
+  [key: string]: any;
+}
+
+export interface LineChange {
+  type: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+export interface SectionDiff {
+  sectionId: string;
+  title: string;
+  status: "added" | "removed" | "modified" | "unchanged";
+  previousTitle?: string; // Set when the title changed
+  lines: LineChange[];
+}
+
+export interface RevisionDiff {
+  rftId: string;
+  fromVersion: number;
+  toVersion: number;
+  nameChanged: { from: string; to: string } | null;
+  summary: { added: number; removed: number; modified: number; unchanged: number };
+  sections: SectionDiff[];
+}
+
+// Above this many line pairs a section is shown as fully replaced instead of running LCS
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Sections are stored as { sections: [...] }; older rows may hold the bare array
+ */
+export function getRftSections(sections: unknown): RevisionSection[] {
+  if (Array.isArray(sections)) return sections;
+  return ((sections as any)?.sections as RevisionSection[]) || [];
+}
+
+function sectionSignature(section: RevisionSection): string {
+  return JSON.stringify({ title: section.title, content: section.content });
+}
+
+/**
+ * IDs of sections that were added, removed or changed between two section lists
+ */
+export function getChangedSectionIds(before: RevisionSection[], after: RevisionSection[]): string[] {
+  const beforeById = new Map(before.map(section => [section.sectionId, sectionSignature(section)]));
+  const afterIds = new Set(after.map(section => section.sectionId));
+
+  const changed = after
+    .filter(section => beforeById.get(section.sectionId) !== sectionSignature(section))
+    .map(section => section.sectionId);
+  const removed = before
+    .filter(section => !afterIds.has(section.sectionId))
+    .map(section => section.sectionId);
+
+  return [...changed, ...removed];
+}
+
+/**
+ * Snapshot the RFT as it currently stands if its current version has no revision yet
+ * (RFTs created before version history, or never edited since generation)
+ */
+export async function ensureCurrentRevision(rft: GeneratedRft): Promise<GeneratedRftRevision> {
+  const existing = await storage.getGeneratedRftRevision(rft.id, rft.version);
+  if (existing) return existing;
+
+  return await storage.createGeneratedRftRevision({
+    rftId: rft.id,
+    version: rft.version,
+    name: rft.name,
+    sections: rft.sections as any,
+    changeType: "initial",
+    changedSectionIds: [],
+    createdBy: "system",
+  });
+}
+
+/**
+ * Apply a content change to a generated RFT as a new version
+ *
+ * The revision row and the RFT are written in one transaction, revision first: the (rftId, version)
+ * unique constraint makes a concurrent save fail instead of silently overwriting the other
+ * editor's version, and a failed RFT update never leaves a revision ahead of the RFT.
+ *
+ * @param rft - RFT as loaded before the change
+ * @param changes - New name and/or sections
+ * @param change - What kind of change this is and who made it
+ * @returns The new revision, or null when nothing in the content actually changed
+ */
+export async function saveRftRevision(
+  rft: GeneratedRft,
+  changes: { name?: string; sections?: unknown },
+  change: { type: Exclude<RevisionChangeType, "initial">; createdBy: string; restoredFromVersion?: number }
+): Promise<GeneratedRftRevision | null> {
+  const name = changes.name ?? rft.name;
+  const sections = changes.sections ?? rft.sections;
+
+  const changedSectionIds = getChangedSectionIds(getRftSections(rft.sections), getRftSections(sections));
+  if (changedSectionIds.length === 0 && name === rft.name) {
+    return null;
+  }
+
+  await ensureCurrentRevision(rft);
+
+  const version = rft.version + 1;
+  const revision = await storage.saveGeneratedRftRevision({
+    rftId: rft.id,
+    version,
+    name,
+    sections: sections as any,
+    changeType: change.type,
+    changedSectionIds,
+    restoredFromVersion: change.restoredFromVersion ?? null,
+    createdBy: change.createdBy,
+  }, { name, sections: sections as any, version });
+
+  console.log(`🗂️  RFT ${rft.id} saved as v${version} (${change.type}, ${changedSectionIds.length} section(s) changed) by ${change.createdBy}`);
+  return revision;
+}
+
+/**
+ * Restore an earlier version's content. History is never rewritten: the restored content
+ * becomes a new version that records which version it came from.
+ */
+export async function restoreRftRevision(
+  rft: GeneratedRft,
+  version: number,
+  createdBy: string
+): Promise<GeneratedRftRevision | null | undefined> {
+  const revision = await storage.getGeneratedRftRevision(rft.id, version);
+  if (!revision) return undefined;
+
+  return await saveRftRevision(
+    rft,
+    { name: revision.name, sections: revision.sections },
+    { type: "restored", createdBy, restoredFromVersion: version }
+  );
+}
+
+/**
+ * Line-level diff using the longest common subsequence of lines
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map(text => ({ type: "removed" as const, text })),
+      ...b.map(text => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const changes: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      changes.push({ type: "unchanged", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      changes.push({ type: "removed", text: a[i++] });
+    } else {
+      changes.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) changes.push({ type: "removed", text: a[i++] });
+  while (j < b.length) changes.push({ type: "added", text: b[j++] });
+
+  return changes;
+}
+
+/**
+ * Compare two revisions section by section (sections matched by sectionId, in the order
+ * of the newer revision, with removed sections appended)
+ */
+export function diffRftRevisions(
+  from: Pick<GeneratedRftRevision, "rftId" | "version" | "name" | "sections">,
+  to: Pick<GeneratedRftRevision, "rftId" | "version" | "name" | "sections">
+): RevisionDiff {
+  const fromSections = getRftSections(from.sections);
+  const toSections = getRftSections(to.sections);
+  const fromById = new Map(fromSections.map(section => [section.sectionId, section]));
+  const toIds = new Set(toSections.map(section => section.sectionId));
+
+  const sections: SectionDiff[] = [];
+
+  for (const section of toSections) {
+    const previous = fromById.get(section.sectionId);
+    if (!previous) {
+      sections.push({ sectionId: section.sectionId, title: section.title, status: "added", lines: diffLines("", section.content || "") });
+      continue;
+    }
+
+    const unchanged = sectionSignature(previous) === sectionSignature(section);
+    sections.push({
+      sectionId: section.sectionId,
+      title: section.title,
+      status: unchanged ? "unchanged" : "modified",
+      previousTitle: previous.title !== section.title ? previous.title : undefined,
+      lines: unchanged ? [] : diffLines(previous.content || "", section.content || ""),
+    });
+  }
+
+  for (const section of fromSections) {
+    if (!toIds.has(section.sectionId)) {
+      sections.push({ sectionId: section.sectionId, title: section.title, status: "removed", lines: diffLines(section.content || "", "") });
+    }
+  }
+
+  const countStatus = (status: SectionDiff["status"]) => sections.filter(section => section.status === status).length;
+
+  return {
+    rftId: to.rftId,
+    fromVersion: from.version,
+    toVersion: to.version,
+    nameChanged: from.name !== to.name ? { from: from.name, to: to.name } : null,
+    summary: {
+      added: countStatus("added"),
+      removed: countStatus("removed"),
+      modified: countStatus("modified"),
+      unchanged: countStatus("unchanged"),
+    },
+    sections,
+  };
+}
+
+/**
+ * Load a revision for diffing; the current version falls back to the live RFT so RFTs that
+ * have never been edited can still be compared
+ */
+export async function getRevisionForDiff(
+  rft: GeneratedRft,
+  version: number
+): Promise<Pick<GeneratedRftRevision, "rftId" | "version" | "name" | "sections"> | undefined> {
+  const revision = await storage.getGeneratedRftRevision(rft.id, version);
+  if (revision) return revision;
+  if (version === rft.version) {
+    return { rftId: rft.id, version: rft.version, name: rft.name, sections: rft.sections };
+  }
+  return undefined;
+}
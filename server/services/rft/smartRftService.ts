@@ -1,7 +1,7 @@
 import { type InsertGeneratedRft, type RftTemplate, type BusinessCase } from "@shared/schema";
 import { storage } from "../../storage";
 import { generateAllQuestionnaires, type QuestionnaireQuestion } from "./excelGenerator";
-import { getOpenAIClient } from "../ai/aiAnalysis";
+import { getLlmClient, resolveLlmRoute } from "../ai/llmProvider";
 import { getSectionMapping, STAKEHOLDER_ROLES, type SectionMapping } from "./stakeholderConfig";
 import { ragRetrievalService } from "../knowledgebase/ragRetrieval";
 import type { AgentRole } from "../ai/multiAgentEvaluator";
@@ -317,9 +317,9 @@ ${businessCaseContent.substring(0, 8000)}
 Return ONLY valid JSON, no additional text.`;
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("analysis");
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
@@ -546,9 +546,9 @@ Generate exactly ${count} questions. Number them sequentially from 1 to ${count}
   console.log(`📝 First requirement: ${businessCaseExtract.keyRequirements?.[0] || "None"}`);
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("generation");
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
@@ -659,9 +659,9 @@ Ensure your section explicitly references these standards and includes requireme
   prompt += '\n\nGenerate ONLY the content for this section, well-formatted in markdown.';
 
   try {
-    const openai = await getOpenAIClient();
+    const { client: openai, model } = await getLlmClient("generation");
     const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         {
           role: "system",
@@ -794,7 +794,7 @@ export async function generateRftFromBusinessCase(
     version: 1,
     metadata: {
       generatedAt: new Date().toISOString(),
-      model: "gpt-4o",
+      model: (await resolveLlmRoute("generation")).model,
       templateName: template.name,
       businessCaseName: businessCase.name,
       questionnaireStats: {
@@ -855,6 +855,51 @@ export async function regenerateRftSection(
   return newSection;
 }
 
+/**
+ * Redraft an RFT section so it addresses a reviewer's rejection comments.
+ * Content the reviewer did not object to is kept; throws if the AI call fails.
+ */
+export async function reviseRftSection(
+  sectionTitle: string,
+  currentContent: string,
+  reviewerComments: string,
+  businessCaseContent?: string
+): Promise<string> {
+  const businessContext = businessCaseContent
+    ? `\n\nBusiness case (for reference):\n${businessCaseContent.substring(0, 6000)}`
+    : "";
+
+  const prompt = `A stakeholder reviewing the "${sectionTitle}" section of a Request for Tender (RFT) rejected it with these comments:
+
+${reviewerComments}
+
+Current section content:
+${currentContent}${businessContext}
+
+Rewrite the section so it fully addresses the reviewer's comments. Keep the parts the reviewer did not object to, keep the same markdown formatting conventions (headings, bullet lists, tables), and do not mention the review or the comments in the output.
+
+Generate ONLY the revised content for this section, well-formatted in markdown.`;
+
+  const { client: openai, model } = await getLlmClient("generation");
+  const response = await openai.chat.completions.create({
+    model,
+    messages: [
+      {
+        role: "system",
+        content: "You are an expert RFT author with deep knowledge of industry standards and procurement best practices across various domains.",
+      },
+      { role: "user", content: prompt },
+    ],
+    temperature: 0.4,
+  });
+
+  const content = response.choices[0]?.message?.content?.trim();
+  if (!content) {
+    throw new Error(`Empty revision returned for section "${sectionTitle}"`);
+  }
+  return content;
+}
+
 /**
  * Generate all RFT files and upload to Azure Blob Storage
  * Follows the same pattern as mock data generation
@@ -888,7 +933,8 @@ export async function publishRftFilesToAzure(rftId: string): Promise<{
   const fs = await import("fs");
   const path = await import("path");
   const { generateDocxDocument, generatePdfDocument } = await import("./documentGenerator");
-  const { azureBlobStorageService } = await import("../azure/azureBlobStorage");
+  const { getFileStorage } = await import("../core/fileStorage");
+  const fileStorage = getFileStorage();
 
   // Extract sections from RFT
   const sections = (rft.sections as any)?.sections || [];
@@ -962,32 +1008,32 @@ export async function publishRftFilesToAzure(rftId: string): Promise<{
   // Use consistent naming WITHOUT timestamps so vendor response generation can find them
   const uploadResults = await Promise.all([
     // Upload RFT document (DOCX)
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/${sanitizedName}_RFT.docx`,
       docxBuffer
     ),
     // Upload RFT document (PDF)
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/${sanitizedName}_RFT.pdf`,
       pdfBuffer
     ),
     // Upload Product Questionnaire
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/Product_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.productPath)
     ),
     // Upload NFR Questionnaire
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/NFR_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.nfrPath)
     ),
     // Upload Cybersecurity Questionnaire
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/Cybersecurity_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.cybersecurityPath)
     ),
     // Upload Agile Questionnaire
-    azureBlobStorageService.uploadDocument(
+    fileStorage.uploadDocument(
       `project-${project.id}/RFT_Generated/Agile_Questionnaire.xlsx`,
       fs.readFileSync(questionnairePaths.agilePath)
     ),
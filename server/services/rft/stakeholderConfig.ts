@@ -5,8 +5,10 @@
  * for the collaborative RFT review workflow.
  */
 
+import type { StakeholderRoleId } from "@shared/schema";
+
 export interface StakeholderRole {
-  id: string;
+  id: StakeholderRoleId; // Also the user account role for reviewers (see userRoles)
   name: string;
   description: string;
   color: string; // For UI color coding
@@ -376,6 +378,28 @@ export function isValidStakeholderRole(roleId: string): boolean {
   return STAKEHOLDER_ROLES.some(role => role.id === roleId);
 }
 
+/**
+ * Resolve a section assignment to a stakeholder role ID.
+ * Sections store the role ID ("technical_pm") or, on older drafts, the role name ("Technical PM").
+ */
+export function resolveStakeholderRoleId(assignedTo: string | null | undefined): StakeholderRoleId | undefined {
+  if (!assignedTo) {
+    return undefined;
+  }
+  const normalized = assignedTo.trim().toLowerCase();
+  return STAKEHOLDER_ROLES.find(role => role.id === normalized || role.name.toLowerCase() === normalized)?.id;
+}
+
+/**
+ * Stakeholder role that must approve a draft section: the section's assignment,
+ * or its DEFAULT_SECTION_MAPPINGS assignee when unassigned
+ */
+export function getSectionApproverRole(section: { sectionId: string; assignedTo?: string | null }): StakeholderRoleId {
+  return resolveStakeholderRoleId(section.assignedTo)
+    || resolveStakeholderRoleId(getDefaultAssignee(section.sectionId))
+    || "technical_pm";
+}
+
 /**
  * Get color for a stakeholder role (for UI)
  */
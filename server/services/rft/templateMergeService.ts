@@ -1,12 +1,10 @@
 import { type RftGenerationDraft, type OrganizationTemplate } from "@shared/schema";
 import { storage } from "../../storage";
-import { AzureBlobStorageService } from "../azure/azureBlobStorage";
+import { getFileStorage, blobNameFromUrl, SIGNED_FILE_ROUTE_PREFIX } from "../core/fileStorage";
 import { normalizeBlobIdentifiers } from "./templateService";
 import Docxtemplater from "docxtemplater";
 import PizZip from "pizzip";
 
-const blobStorageService = new AzureBlobStorageService();
-
 interface MergeData {
   [key: string]: string | number | boolean | MergeData | MergeData[];
 }
@@ -90,7 +88,7 @@ export class TemplateMergeService {
     const fileName = `RFT_${projectId}_${timestamp}.${template.templateType}`;
     const blobPath = `projects/${projectId}/rfts/${fileName}`;
 
-    const { blobUrl, blobName } = await blobStorageService.uploadDocument(
+    const { blobUrl, blobName } = await getFileStorage().uploadDocument(
       blobPath,
       mergedBuffer,
       {
@@ -118,33 +116,9 @@ export class TemplateMergeService {
     // Caller has already validated identifier is not null/empty via normalizeBlobIdentifiers helper
     const normalizedIdentifier = blobNameOrUrl.trim();
 
-    // If it looks like a blob URL (starts with http), extract the blob name
-    if (normalizedIdentifier.startsWith('http://') || normalizedIdentifier.startsWith('https://')) {
-      // Decode URL first (handles %3F, %26, etc.), then remove query parameters (SAS tokens)
-      const decodedUrl = decodeURIComponent(normalizedIdentifier);
-      const urlWithoutQuery = decodedUrl.split('?')[0];
-      
-      const urlParts = urlWithoutQuery.split("/");
-      const containerIndex = urlParts.findIndex((part) => part === "intellibid-documents");
-      
-      if (containerIndex === -1 || containerIndex >= urlParts.length - 1) {
-        throw new Error(
-          `Invalid blob URL format: ${normalizedIdentifier}. ` +
-          `Expected URL to contain '/intellibid-documents/' container path.`
-        );
-      }
-
-      const blobName = urlParts.slice(containerIndex + 1).join("/");
-      
-      // Validate extracted blob name is not empty
-      if (!blobName || blobName.trim() === '') {
-        throw new Error(
-          `Extracted blob name is empty from URL: ${normalizedIdentifier}. ` +
-          `URL may be malformed or missing file path after container name.`
-        );
-      }
-
-      return blobStorageService.downloadDocument(blobName);
+    // If it looks like a download URL (Azure SAS or local signed URL), extract the blob name
+    if (/^https?:\/\//.test(normalizedIdentifier) || normalizedIdentifier.startsWith(SIGNED_FILE_ROUTE_PREFIX)) {
+      return getFileStorage().downloadDocument(blobNameFromUrl(normalizedIdentifier));
     }
     
     // Otherwise, assume it's already a blob name (e.g., "templates/abc123/file.docx")
@@ -156,7 +130,7 @@ export class TemplateMergeService {
       );
     }
 
-    return blobStorageService.downloadDocument(normalizedIdentifier);
+    return getFileStorage().downloadDocument(normalizedIdentifier);
   }
 
   private prepareMergeData(
@@ -1,12 +1,10 @@
 import { type InsertOrganizationTemplate, type OrganizationTemplate } from "@shared/schema";
 import { storage } from "../../storage";
-import { AzureBlobStorageService } from "../azure/azureBlobStorage";
+import { getFileStorage, blobNameFromUrl } from "../core/fileStorage";
 import { type SectionMapping, getSectionMapping } from "./stakeholderConfig";
 import Docxtemplater from "docxtemplater";
 import PizZip from "pizzip";
 
-const blobStorageService = new AzureBlobStorageService();
-
 interface PlaceholderInfo {
   name: string;
   type: "simple" | "loop" | "condition";
@@ -86,7 +84,7 @@ class TemplateService {
     const blobPath = `templates/${templateId}/${fileName}`;
 
     // Upload to Azure Blob Storage - returns both SAS URL and blob name
-    const { blobUrl, blobName } = await blobStorageService.uploadDocument(
+    const { blobUrl, blobName } = await getFileStorage().uploadDocument(
       blobPath,
       file,
       {
@@ -604,7 +602,7 @@ class TemplateService {
         const blobNameToDelete = blobName 
           ? blobName  // Use blob name directly if available
           : this.extractBlobName(blobUrl);  // Extract from URL for legacy records
-        await blobStorageService.deleteDocument(blobNameToDelete);
+        await getFileStorage().deleteDocument(blobNameToDelete);
       } catch (error) {
         console.warn(
           `Failed to delete blob for template ${templateId}:`,
@@ -633,31 +631,8 @@ class TemplateService {
       );
     }
 
-    // Decode URL first (handles %3F, %26, etc.), then remove query parameters (SAS tokens)
-    const decodedUrl = decodeURIComponent(normalizedUrl);
-    const urlWithoutQuery = decodedUrl.split('?')[0];
-
-    const urlParts = urlWithoutQuery.split("/");
-    const containerIndex = urlParts.findIndex((part) => part === "intellibid-documents");
-    
-    if (containerIndex === -1 || containerIndex >= urlParts.length - 1) {
-      throw new Error(
-        `Invalid blob URL format: ${normalizedUrl}. ` +
-        `Expected URL to contain '/intellibid-documents/' container path.`
-      );
-    }
-
-    const blobName = urlParts.slice(containerIndex + 1).join("/");
-    
-    // Validate extracted blob name is not empty
-    if (!blobName || blobName.trim() === '') {
-      throw new Error(
-        `Extracted blob name is empty from URL: ${normalizedUrl}. ` +
-        `URL may be malformed or missing file path after container name.`
-      );
-    }
-
-    return blobName;
+    // Azure SAS URL or local signed download URL (query parameters are ignored)
+    return blobNameFromUrl(normalizedUrl);
   }
 
   async downloadTemplate(templateId: string): Promise<{ buffer: Buffer; fileName: string }> {
@@ -696,7 +671,7 @@ class TemplateService {
       );
     }
 
-    const buffer = await blobStorageService.downloadDocument(blobNameToDownload);
+    const buffer = await getFileStorage().downloadDocument(blobNameToDownload);
 
     const fileName =
       template.metadata && typeof template.metadata === "object" && "originalFileName" in template.metadata
@@ -5,7 +5,7 @@
  * Creates unique technical approaches, documentation, and responses for each vendor
  */
 
-import { getOpenAIClient } from "../ai/aiAnalysis";
+import { getLlmClient } from "../ai/llmProvider";
 import { getVendorPersona, type VendorPersona } from "./vendorPersonas";
 
 export interface ProposalGenerationContext {
@@ -39,14 +39,14 @@ export async function generateVendorProposal(
   
   try {
     // Get OpenAI client (may fail due to misconfiguration, rate limits, network)
-    const client = await getOpenAIClient();
+    const { client, model } = await getLlmClient("mock_data");
     
     // Build persona-specific generation prompt
     const systemPrompt = buildSystemPrompt(persona);
     const userPrompt = buildUserPrompt(context, persona);
     
     const response = await client.chat.completions.create({
-      model: "gpt-4o",
+      model,
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt }
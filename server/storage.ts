@@ -25,6 +25,8 @@ import {
   type InsertChatSession,
   type ChatMessage,
   type InsertChatMessage,
+  type ChatMessageFeedback,
+  type InsertChatMessageFeedback,
   type ComplianceGap,
   type InsertComplianceGap,
   type ComparisonSnapshot,
@@ -39,27 +41,56 @@ import {
   type InsertRftTemplate,
   type GeneratedRft,
   type InsertGeneratedRft,
+  type GeneratedRftRevision,
+  type InsertGeneratedRftRevision,
+  type RftClarification,
+  type InsertRftClarification,
+  type RftAddendum,
+  type InsertRftAddendum,
   type VendorShortlistingStage,
   type InsertVendorShortlistingStage,
   type OrganizationTemplate,
   type InsertOrganizationTemplate,
   type RftGenerationDraft,
   type InsertRftGenerationDraft,
+  type ScoringConfig,
+  type ScoreOverride,
+  type InsertScoreOverride,
+  type User,
+  type InsertUser,
+  type DraftSectionComment,
+  type InsertDraftSectionComment,
+  type EvaluationRun,
+  type InsertEvaluationRun,
+  type EvaluationAgentRun,
+  type InsertEvaluationAgentRun,
   systemConfig,
   standards,
   ragDocuments,
   ragChunks,
+  chatSessions,
+  chatMessages,
+  chatMessageFeedback,
   mcpConnectors,
   portfolios,
   projects,
   businessCases,
   generatedRfts,
+  generatedRftRevisions,
+  rftClarifications,
+  rftAddenda,
   requirements,
   proposals,
   evaluations,
   vendorShortlistingStages,
   organizationTemplates,
   rftGenerationDrafts,
+  scoreOverrides,
+  evaluationCriteria,
+  users,
+  draftSectionComments,
+  evaluationRuns,
+  evaluationAgentRuns,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
 import { encryptApiKey, decryptApiKey } from "./utils/encryption";
@@ -76,6 +107,16 @@ function normalizeNullables<T extends Record<string, any>>(
 }
 
 export interface IStorage {
+  // Users (authentication)
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User>;
+  // Creates the user only while no accounts exist (null otherwise); safe against concurrent calls
+  createFirstUser(user: InsertUser): Promise<User | null>;
+  updateUser(id: string, updates: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined>;
+
   // Portfolios
   createPortfolio(portfolio: InsertPortfolio): Promise<Portfolio>;
   getPortfolio(id: string): Promise<Portfolio | undefined>;
@@ -112,6 +153,7 @@ export interface IStorage {
   getAllProjects(): Promise<Project[]>;
   getProjectsByPortfolio(portfolioId: string): Promise<Project[]>;
   updateProjectStatus(id: string, status: string): Promise<void>;
+  updateProjectScoringConfig(id: string, scoringConfig: ScoringConfig | null): Promise<void>;
   deleteProject(id: string): Promise<void>;
 
   // Requirements
@@ -136,6 +178,15 @@ export interface IStorage {
   updateEvaluation(id: string, updates: Partial<InsertEvaluation>): Promise<void>;
   deleteEvaluation(id: string): Promise<void>;
 
+  // Evaluation Runs (resumable runs with per-vendor/per-agent checkpoints)
+  createEvaluationRun(run: InsertEvaluationRun): Promise<EvaluationRun>;
+  getEvaluationRun(id: string): Promise<EvaluationRun | undefined>;
+  getEvaluationRunByJob(jobId: string): Promise<EvaluationRun | undefined>;
+  getEvaluationRunsByProject(projectId: string): Promise<EvaluationRun[]>;
+  updateEvaluationRun(id: string, updates: Partial<InsertEvaluationRun>): Promise<void>;
+  saveEvaluationAgentRun(agentRun: InsertEvaluationAgentRun): Promise<EvaluationAgentRun>;
+  getEvaluationAgentRuns(runId: string, proposalId?: string): Promise<EvaluationAgentRun[]>;
+
   // Evaluation Criteria
   createEvaluationCriteria(criteria: InsertEvaluationCriteria): Promise<EvaluationCriteria>;
   getEvaluationCriteriaByEvaluation(evaluationId: string, role?: string): Promise<EvaluationCriteria[]>;
@@ -143,6 +194,18 @@ export interface IStorage {
   updateEvaluationCriteria(id: string, updates: Partial<InsertEvaluationCriteria>): Promise<void>;
   deleteEvaluationCriteria(id: string): Promise<void>;
 
+  // Score Overrides (audit trail)
+  createScoreOverride(override: InsertScoreOverride): Promise<ScoreOverride>;
+  // Criterion score, recalculated evaluation scores and audit record in one transaction
+  applyScoreOverride(
+    criterionId: string,
+    criterionUpdates: Pick<InsertEvaluationCriteria, "score" | "scoreLabel">,
+    evaluationUpdates: Partial<InsertEvaluation> | null,
+    override: InsertScoreOverride
+  ): Promise<ScoreOverride>;
+  getScoreOverridesByEvaluation(evaluationId: string): Promise<ScoreOverride[]>;
+  getScoreOverridesByProject(projectId: string): Promise<ScoreOverride[]>;
+
   // RAG Documents
   createRagDocument(document: InsertRagDocument): Promise<RagDocument>;
   getRagDocument(id: string): Promise<RagDocument | undefined>;
@@ -157,21 +220,30 @@ export interface IStorage {
   createRagChunks(chunks: InsertRagChunk[]): Promise<RagChunk[]>;
   getRagChunk(id: string): Promise<RagChunk | undefined>;
   getRagChunksByDocumentId(documentId: string): Promise<RagChunk[]>;
+  updateRagChunk(id: string, updates: Partial<InsertRagChunk>): Promise<void>;
   deleteRagChunk(id: string): Promise<void>;
+  deleteRagChunks(ids: string[]): Promise<void>;
   deleteRagChunksByDocumentId(documentId: string): Promise<void>;
 
   // Chat Sessions
   createChatSession(session: InsertChatSession): Promise<ChatSession>;
   getChatSession(id: string): Promise<ChatSession | undefined>;
   getChatSessionsByProject(projectId: string): Promise<ChatSession[]>;
+  getKnowledgeBaseChatSessionsByUser(userId: string): Promise<ChatSession[]>;
   updateChatSession(id: string, updates: Partial<InsertChatSession>): Promise<void>;
   deleteChatSession(id: string): Promise<void>;
 
   // Chat Messages
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  getChatMessage(id: string): Promise<ChatMessage | undefined>;
   getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
   deleteChatMessage(id: string): Promise<void>;
 
+  // Chat Message Feedback
+  upsertChatMessageFeedback(feedback: InsertChatMessageFeedback): Promise<ChatMessageFeedback>;
+  getChatMessageFeedbackBySession(sessionId: string): Promise<ChatMessageFeedback[]>;
+  getAllChatMessageFeedback(): Promise<ChatMessageFeedback[]>;
+
   // Compliance Gaps
   createComplianceGap(gap: InsertComplianceGap): Promise<ComplianceGap>;
   getComplianceGap(id: string): Promise<ComplianceGap | undefined>;
@@ -227,6 +299,27 @@ export interface IStorage {
   updateGeneratedRft(id: string, updates: Partial<InsertGeneratedRft>): Promise<void>;
   deleteGeneratedRft(id: string): Promise<void>;
 
+  // Generated RFT Revisions (immutable version history)
+  createGeneratedRftRevision(revision: InsertGeneratedRftRevision): Promise<GeneratedRftRevision>;
+  // New revision and the RFT's matching content and version in one transaction
+  saveGeneratedRftRevision(
+    revision: InsertGeneratedRftRevision,
+    rftUpdates: Partial<InsertGeneratedRft>
+  ): Promise<GeneratedRftRevision>;
+  getGeneratedRftRevisions(rftId: string): Promise<GeneratedRftRevision[]>;
+  getGeneratedRftRevision(rftId: string, version: number): Promise<GeneratedRftRevision | undefined>;
+
+  // RFT Clarifications & Addenda (post-publication vendor Q&A)
+  createRftClarification(clarification: InsertRftClarification): Promise<RftClarification>;
+  getRftClarification(id: string): Promise<RftClarification | undefined>;
+  getRftClarificationsByRft(rftId: string): Promise<RftClarification[]>;
+  updateRftClarification(id: string, updates: Partial<InsertRftClarification>): Promise<RftClarification | undefined>;
+  // Addendum and its clarifications marked published in one transaction; undefined (nothing written)
+  // when any of the clarifications is no longer "answered", e.g. issued by a concurrent publish
+  publishRftAddendum(addendum: InsertRftAddendum): Promise<RftAddendum | undefined>;
+  getRftAddendaByRft(rftId: string): Promise<RftAddendum[]>;
+  getRftAddendaByProject(projectId: string): Promise<RftAddendum[]>;
+
   // Organization Templates
   createOrganizationTemplate(template: InsertOrganizationTemplate): Promise<OrganizationTemplate>;
   getOrganizationTemplate(id: string): Promise<OrganizationTemplate | undefined>;
@@ -241,8 +334,26 @@ export interface IStorage {
   getRftGenerationDraft(id: string): Promise<RftGenerationDraft | undefined>;
   getAllRftGenerationDrafts(): Promise<RftGenerationDraft[]>;
   updateRftGenerationDraft(id: string, updates: Partial<InsertRftGenerationDraft>): Promise<void>;
+  // Read-modify-write with the row locked; modify returns the updates, or null to leave the draft as is
+  modifyRftGenerationDraft(
+    id: string,
+    modify: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+  ): Promise<RftGenerationDraft | undefined>;
   deleteRftGenerationDraft(id: string): Promise<void>;
 
+  // Draft Section Comments (review threads and suggested edits)
+  createDraftComment(comment: InsertDraftSectionComment): Promise<DraftSectionComment>;
+  getDraftComment(id: string): Promise<DraftSectionComment | undefined>;
+  getDraftCommentsByDraft(draftId: string): Promise<DraftSectionComment[]>;
+  updateDraftComment(id: string, updates: Partial<InsertDraftSectionComment>): Promise<DraftSectionComment | undefined>;
+  // Decide a suggestion that is still open, writing the draft (row locked) in the same transaction;
+  // modifyDraft returns the draft updates, or null to write nothing. Undefined when nothing was written
+  decideDraftSuggestion(
+    id: string,
+    updates: Partial<InsertDraftSectionComment>,
+    modifyDraft?: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+  ): Promise<{ suggestion: DraftSectionComment; draft?: RftGenerationDraft } | undefined>;
+
   // Vendor Shortlisting Stages
   createVendorStage(stage: InsertVendorShortlistingStage): Promise<VendorShortlistingStage>;
   getVendorStagesByProject(projectId: string): Promise<VendorShortlistingStage[]>;
@@ -262,10 +373,12 @@ export class MemStorage implements IStorage {
   private proposals: Map<string, Proposal>;
   private evaluations: Map<string, Evaluation>;
   private evaluationCriteria: Map<string, EvaluationCriteria>;
+  private scoreOverrides: Map<string, ScoreOverride>;
   private ragDocuments: Map<string, RagDocument>;
   private ragChunks: Map<string, RagChunk>;
   private chatSessions: Map<string, ChatSession>;
   private chatMessages: Map<string, ChatMessage>;
+  private chatMessageFeedback: Map<string, ChatMessageFeedback>;
   private complianceGaps: Map<string, ComplianceGap>;
   private comparisonSnapshots: Map<string, ComparisonSnapshot>;
   private executiveBriefings: Map<string, ExecutiveBriefing>;
@@ -287,10 +400,12 @@ export class MemStorage implements IStorage {
     this.proposals = new Map();
     this.evaluations = new Map();
     this.evaluationCriteria = new Map();
+    this.scoreOverrides = new Map();
     this.ragDocuments = new Map();
     this.ragChunks = new Map();
     this.chatSessions = new Map();
     this.chatMessages = new Map();
+    this.chatMessageFeedback = new Map();
     this.complianceGaps = new Map();
     this.comparisonSnapshots = new Map();
     this.executiveBriefings = new Map();
@@ -388,6 +503,8 @@ export class MemStorage implements IStorage {
       apiKey: insertConnector.apiKey || null,
       connectorType: insertConnector.connectorType || "rest",
       authType: insertConnector.authType || "bearer",
+      oauthClientSecret: insertConnector.oauthClientSecret || null,
+      oauthRefreshToken: insertConnector.oauthRefreshToken || null,
       roleMapping: insertConnector.roleMapping || null,
       config: insertConnector.config || null,
       isActive: insertConnector.isActive || "true",
@@ -464,6 +581,7 @@ export class MemStorage implements IStorage {
       status: insertProject.status || "analyzing",
       businessCaseId: insertProject.businessCaseId || null,
       generatedRftId: null,
+      scoringConfig: insertProject.scoringConfig || null,
       createdAt: new Date(),
     };
     this.projects.set(id, project);
@@ -492,6 +610,14 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async updateProjectScoringConfig(id: string, scoringConfig: ScoringConfig | null): Promise<void> {
+    const project = this.projects.get(id);
+    if (project) {
+      project.scoringConfig = scoringConfig;
+      this.projects.set(id, project);
+    }
+  }
+
   async deleteProject(id: string): Promise<void> {
     this.projects.delete(id);
   }
@@ -593,6 +719,8 @@ export class MemStorage implements IStorage {
       detailedScores: insertEvaluation.detailedScores || null,
       sectionCompliance: insertEvaluation.sectionCompliance || null,
       agentDiagnostics: insertEvaluation.agentDiagnostics || null,
+      agentResults: insertEvaluation.agentResults || null,
+      citations: insertEvaluation.citations || null,
       createdAt: new Date(),
     };
     this.evaluations.set(id, evaluation);
@@ -636,6 +764,35 @@ export class MemStorage implements IStorage {
     this.evaluations.delete(id);
   }
 
+  // Evaluation Runs
+  async createEvaluationRun(run: InsertEvaluationRun): Promise<EvaluationRun> {
+    throw new Error("createEvaluationRun not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getEvaluationRun(id: string): Promise<EvaluationRun | undefined> {
+    throw new Error("getEvaluationRun not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getEvaluationRunByJob(jobId: string): Promise<EvaluationRun | undefined> {
+    throw new Error("getEvaluationRunByJob not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getEvaluationRunsByProject(projectId: string): Promise<EvaluationRun[]> {
+    throw new Error("getEvaluationRunsByProject not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async updateEvaluationRun(id: string, updates: Partial<InsertEvaluationRun>): Promise<void> {
+    throw new Error("updateEvaluationRun not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async saveEvaluationAgentRun(agentRun: InsertEvaluationAgentRun): Promise<EvaluationAgentRun> {
+    throw new Error("saveEvaluationAgentRun not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getEvaluationAgentRuns(runId: string, proposalId?: string): Promise<EvaluationAgentRun[]> {
+    throw new Error("getEvaluationAgentRuns not implemented in MemStorage - PostgreSQL override required");
+  }
+
   async createEvaluationCriteria(insertCriteria: InsertEvaluationCriteria): Promise<EvaluationCriteria> {
     const id = randomUUID();
     const criteria: EvaluationCriteria = {
@@ -698,6 +855,11 @@ export class MemStorage implements IStorage {
       indexName: insertDocument.indexName || "intellibid-rag",
       totalChunks: insertDocument.totalChunks || 0,
       status: insertDocument.status || "pending",
+      contentHash: insertDocument.contentHash || null,
+      chunkerVersion: insertDocument.chunkerVersion ?? null,
+      embeddingVersion: insertDocument.embeddingVersion || null,
+      progress: insertDocument.progress || null,
+      lastIndexedAt: insertDocument.lastIndexedAt || null,
       metadata: insertDocument.metadata || null,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -752,6 +914,7 @@ export class MemStorage implements IStorage {
       chunkIndex: insertChunk.chunkIndex,
       content: insertChunk.content,
       tokenCount: insertChunk.tokenCount,
+      contentHash: insertChunk.contentHash || null,
       searchChunkId: insertChunk.searchChunkId || null,
       metadata: insertChunk.metadata || null,
       createdAt: new Date(),
@@ -779,10 +942,23 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async updateRagChunk(id: string, updates: Partial<InsertRagChunk>): Promise<void> {
+    const chunk = this.ragChunks.get(id);
+    if (chunk) {
+      this.ragChunks.set(id, { ...chunk, ...updates, id });
+    }
+  }
+
   async deleteRagChunk(id: string): Promise<void> {
     this.ragChunks.delete(id);
   }
 
+  async deleteRagChunks(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.ragChunks.delete(id);
+    }
+  }
+
   async deleteRagChunksByDocumentId(documentId: string): Promise<void> {
     const chunks = Array.from(this.ragChunks.values()).filter(
       (chunk) => chunk.documentId === documentId
@@ -797,7 +973,8 @@ export class MemStorage implements IStorage {
     const id = randomUUID();
     const session: ChatSession = {
       id,
-      projectId: insertSession.projectId,
+      projectId: insertSession.projectId || null,
+      userId: insertSession.userId || null,
       title: insertSession.title || null,
       metadata: insertSession.metadata || null,
       createdAt: new Date(),
@@ -817,6 +994,12 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getKnowledgeBaseChatSessionsByUser(userId: string): Promise<ChatSession[]> {
+    return Array.from(this.chatSessions.values())
+      .filter((session) => session.projectId === null && session.userId === userId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
   async updateChatSession(id: string, updates: Partial<InsertChatSession>): Promise<void> {
     const session = this.chatSessions.get(id);
     if (session) {
@@ -830,6 +1013,9 @@ export class MemStorage implements IStorage {
   }
 
   async deleteChatSession(id: string): Promise<void> {
+    Array.from(this.chatMessageFeedback.values())
+      .filter((feedback) => feedback.sessionId === id)
+      .forEach((feedback) => this.chatMessageFeedback.delete(feedback.id));
     this.chatSessions.delete(id);
   }
 
@@ -849,6 +1035,10 @@ export class MemStorage implements IStorage {
     return message;
   }
 
+  async getChatMessage(id: string): Promise<ChatMessage | undefined> {
+    return this.chatMessages.get(id);
+  }
+
   async getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
     return Array.from(this.chatMessages.values())
       .filter((message) => message.sessionId === sessionId)
@@ -856,9 +1046,44 @@ export class MemStorage implements IStorage {
   }
 
   async deleteChatMessage(id: string): Promise<void> {
+    Array.from(this.chatMessageFeedback.values())
+      .filter((feedback) => feedback.messageId === id)
+      .forEach((feedback) => this.chatMessageFeedback.delete(feedback.id));
     this.chatMessages.delete(id);
   }
 
+  // Chat Message Feedback
+  async upsertChatMessageFeedback(feedback: InsertChatMessageFeedback): Promise<ChatMessageFeedback> {
+    // One rating per user and message, like the unique constraint in PostgreSQL
+    const existing = Array.from(this.chatMessageFeedback.values())
+      .find((item) => item.messageId === feedback.messageId && item.userId === feedback.userId);
+    const now = new Date();
+    const saved: ChatMessageFeedback = {
+      id: existing?.id || randomUUID(),
+      messageId: feedback.messageId,
+      sessionId: existing?.sessionId || feedback.sessionId,
+      userId: feedback.userId,
+      rating: feedback.rating,
+      reason: feedback.reason ?? null,
+      comment: feedback.comment ?? null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    this.chatMessageFeedback.set(saved.id, saved);
+    return saved;
+  }
+
+  async getChatMessageFeedbackBySession(sessionId: string): Promise<ChatMessageFeedback[]> {
+    return Array.from(this.chatMessageFeedback.values())
+      .filter((feedback) => feedback.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getAllChatMessageFeedback(): Promise<ChatMessageFeedback[]> {
+    return Array.from(this.chatMessageFeedback.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
   // Compliance Gaps
   async createComplianceGap(insertGap: InsertComplianceGap): Promise<ComplianceGap> {
     const id = randomUUID();
@@ -1320,6 +1545,27 @@ export class MemStorage implements IStorage {
     }
   }
 
+  async modifyRftGenerationDraft(
+    id: string,
+    modify: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+  ): Promise<RftGenerationDraft | undefined> {
+    const draft = this.rftGenerationDrafts.get(id);
+    if (!draft) {
+      return undefined;
+    }
+    const updates = modify(draft);
+    if (!updates) {
+      return draft;
+    }
+    const updated: RftGenerationDraft = {
+      ...draft,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.rftGenerationDrafts.set(id, updated);
+    return updated;
+  }
+
   async deleteRftGenerationDraft(id: string): Promise<void> {
     this.rftGenerationDrafts.delete(id);
   }
@@ -1347,10 +1593,147 @@ export class MemStorage implements IStorage {
   async getAllVendorStages(): Promise<VendorShortlistingStage[]> {
     throw new Error("getAllVendorStages not implemented in MemStorage - PostgreSQL override required");
   }
+
+  async createScoreOverride(insertOverride: InsertScoreOverride): Promise<ScoreOverride> {
+    const override: ScoreOverride = {
+      ...insertOverride,
+      id: randomUUID(),
+      previousOverallScore: insertOverride.previousOverallScore ?? null,
+      newOverallScore: insertOverride.newOverallScore ?? null,
+      reviewerId: insertOverride.reviewerId ?? null,
+      createdAt: new Date(),
+    };
+    this.scoreOverrides.set(override.id, override);
+    return override;
+  }
+
+  async applyScoreOverride(
+    criterionId: string,
+    criterionUpdates: Pick<InsertEvaluationCriteria, "score" | "scoreLabel">,
+    evaluationUpdates: Partial<InsertEvaluation> | null,
+    override: InsertScoreOverride
+  ): Promise<ScoreOverride> {
+    await this.updateEvaluationCriteria(criterionId, criterionUpdates);
+    if (evaluationUpdates) {
+      await this.updateEvaluation(override.evaluationId, evaluationUpdates);
+    }
+    return this.createScoreOverride(override);
+  }
+
+  async getScoreOverridesByEvaluation(evaluationId: string): Promise<ScoreOverride[]> {
+    return Array.from(this.scoreOverrides.values())
+      .filter((override) => override.evaluationId === evaluationId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getScoreOverridesByProject(projectId: string): Promise<ScoreOverride[]> {
+    return Array.from(this.scoreOverrides.values())
+      .filter((override) => override.projectId === projectId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    throw new Error("getUser not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    throw new Error("getUserByUsername not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    throw new Error("getAllUsers not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async countUsers(): Promise<number> {
+    throw new Error("countUsers not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    throw new Error("createUser not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async createFirstUser(user: InsertUser): Promise<User | null> {
+    throw new Error("createFirstUser not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined> {
+    throw new Error("updateUser not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async createGeneratedRftRevision(revision: InsertGeneratedRftRevision): Promise<GeneratedRftRevision> {
+    throw new Error("createGeneratedRftRevision not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async saveGeneratedRftRevision(
+    revision: InsertGeneratedRftRevision,
+    rftUpdates: Partial<InsertGeneratedRft>
+  ): Promise<GeneratedRftRevision> {
+    throw new Error("saveGeneratedRftRevision not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getGeneratedRftRevisions(rftId: string): Promise<GeneratedRftRevision[]> {
+    throw new Error("getGeneratedRftRevisions not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getGeneratedRftRevision(rftId: string, version: number): Promise<GeneratedRftRevision | undefined> {
+    throw new Error("getGeneratedRftRevision not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async createRftClarification(clarification: InsertRftClarification): Promise<RftClarification> {
+    throw new Error("createRftClarification not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getRftClarification(id: string): Promise<RftClarification | undefined> {
+    throw new Error("getRftClarification not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getRftClarificationsByRft(rftId: string): Promise<RftClarification[]> {
+    throw new Error("getRftClarificationsByRft not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async updateRftClarification(id: string, updates: Partial<InsertRftClarification>): Promise<RftClarification | undefined> {
+    throw new Error("updateRftClarification not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async publishRftAddendum(addendum: InsertRftAddendum): Promise<RftAddendum | undefined> {
+    throw new Error("publishRftAddendum not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getRftAddendaByRft(rftId: string): Promise<RftAddendum[]> {
+    throw new Error("getRftAddendaByRft not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getRftAddendaByProject(projectId: string): Promise<RftAddendum[]> {
+    throw new Error("getRftAddendaByProject not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async createDraftComment(comment: InsertDraftSectionComment): Promise<DraftSectionComment> {
+    throw new Error("createDraftComment not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getDraftComment(id: string): Promise<DraftSectionComment | undefined> {
+    throw new Error("getDraftComment not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async getDraftCommentsByDraft(draftId: string): Promise<DraftSectionComment[]> {
+    throw new Error("getDraftCommentsByDraft not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async updateDraftComment(id: string, updates: Partial<InsertDraftSectionComment>): Promise<DraftSectionComment | undefined> {
+    throw new Error("updateDraftComment not implemented in MemStorage - PostgreSQL override required");
+  }
+
+  async decideDraftSuggestion(
+    id: string,
+    updates: Partial<InsertDraftSectionComment>,
+    modifyDraft?: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+  ): Promise<{ suggestion: DraftSectionComment; draft?: RftGenerationDraft } | undefined> {
+    throw new Error("decideDraftSuggestion not implemented in MemStorage - PostgreSQL override required");
+  }
 }
 
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, count, isNull, inArray, sql, TransactionRollbackError } from "drizzle-orm";
 
 export const storage = new MemStorage();
 
@@ -1459,6 +1842,11 @@ storage.createRagDocument = async function(insertDocument: InsertRagDocument & {
       indexName: insertDocument.indexName || "intellibid-rag",
       totalChunks: insertDocument.totalChunks || 0,
       status: insertDocument.status || "pending",
+      contentHash: insertDocument.contentHash || null,
+      chunkerVersion: insertDocument.chunkerVersion ?? null,
+      embeddingVersion: insertDocument.embeddingVersion || null,
+      progress: insertDocument.progress || null,
+      lastIndexedAt: insertDocument.lastIndexedAt || null,
       metadata: insertDocument.metadata || null,
     })
     .returning();
@@ -1497,10 +1885,62 @@ storage.updateRagDocumentStatus = async function(id: string, status: string): Pr
 };
 
 storage.deleteRagDocument = async function(id: string): Promise<void> {
+  await db.delete(ragChunks).where(eq(ragChunks.documentId, id));
   await db.delete(ragDocuments).where(eq(ragDocuments.id, id));
 };
 
+// Override RAG chunk methods to use PostgreSQL (the pgvector store searches these rows)
+storage.createRagChunk = async function(insertChunk: InsertRagChunk): Promise<RagChunk> {
+  const created = await db.insert(ragChunks).values(insertChunk).returning();
+  return created[0]!;
+};
+
+storage.createRagChunks = async function(chunks: InsertRagChunk[]): Promise<RagChunk[]> {
+  if (chunks.length === 0) return [];
+  return await db.insert(ragChunks).values(chunks).returning();
+};
+
+storage.getRagChunk = async function(id: string): Promise<RagChunk | undefined> {
+  const results = await db.select().from(ragChunks).where(eq(ragChunks.id, id)).limit(1);
+  return results[0];
+};
+
+storage.getRagChunksByDocumentId = async function(documentId: string): Promise<RagChunk[]> {
+  return await db.select().from(ragChunks)
+    .where(eq(ragChunks.documentId, documentId))
+    .orderBy(ragChunks.chunkIndex);
+};
+
+storage.updateRagChunk = async function(id: string, updates: Partial<InsertRagChunk>): Promise<void> {
+  await db.update(ragChunks)
+    .set(updates)
+    .where(eq(ragChunks.id, id));
+};
+
+storage.deleteRagChunk = async function(id: string): Promise<void> {
+  await db.delete(ragChunks).where(eq(ragChunks.id, id));
+};
+
+storage.deleteRagChunks = async function(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await db.delete(ragChunks).where(inArray(ragChunks.id, ids));
+};
+
+storage.deleteRagChunksByDocumentId = async function(documentId: string): Promise<void> {
+  await db.delete(ragChunks).where(eq(ragChunks.documentId, documentId));
+};
+
 // Override MCP connector methods to use PostgreSQL
+// Secrets are stored encrypted and handed to the adapters in plain text
+function decryptMcpConnector(connector: McpConnector): McpConnector {
+  return {
+    ...connector,
+    apiKey: decryptApiKey(connector.apiKey),
+    oauthClientSecret: decryptApiKey(connector.oauthClientSecret),
+    oauthRefreshToken: decryptApiKey(connector.oauthRefreshToken),
+  };
+}
+
 storage.createMcpConnector = async function(insertConnector: InsertMcpConnector): Promise<McpConnector> {
   const created = await db.insert(mcpConnectors)
     .values({
@@ -1510,6 +1950,8 @@ storage.createMcpConnector = async function(insertConnector: InsertMcpConnector)
       apiKey: encryptApiKey(insertConnector.apiKey),
       connectorType: insertConnector.connectorType || "rest",
       authType: insertConnector.authType || "bearer",
+      oauthClientSecret: encryptApiKey(insertConnector.oauthClientSecret),
+      oauthRefreshToken: encryptApiKey(insertConnector.oauthRefreshToken),
       roleMapping: insertConnector.roleMapping || null,
       config: insertConnector.config || null,
       isActive: insertConnector.isActive || "true",
@@ -1517,36 +1959,24 @@ storage.createMcpConnector = async function(insertConnector: InsertMcpConnector)
     .returning();
   
   const result = created[0]!;
-  return {
-    ...result,
-    apiKey: decryptApiKey(result.apiKey),
-  };
+  return decryptMcpConnector(result);
 };
 
 storage.getMcpConnector = async function(id: string): Promise<McpConnector | undefined> {
   const results = await db.select().from(mcpConnectors).where(eq(mcpConnectors.id, id)).limit(1);
   const connector = results[0];
   if (!connector) return undefined;
-  return {
-    ...connector,
-    apiKey: decryptApiKey(connector.apiKey),
-  };
+  return decryptMcpConnector(connector);
 };
 
 storage.getAllMcpConnectors = async function(): Promise<McpConnector[]> {
   const connectors = await db.select().from(mcpConnectors);
-  return connectors.map(c => ({
-    ...c,
-    apiKey: decryptApiKey(c.apiKey),
-  }));
+  return connectors.map(decryptMcpConnector);
 };
 
 storage.getActiveMcpConnectors = async function(): Promise<McpConnector[]> {
   const connectors = await db.select().from(mcpConnectors).where(eq(mcpConnectors.isActive, "true"));
-  return connectors.map(c => ({
-    ...c,
-    apiKey: decryptApiKey(c.apiKey),
-  }));
+  return connectors.map(decryptMcpConnector);
 };
 
 storage.updateMcpConnector = async function(id: string, updates: Partial<InsertMcpConnector>): Promise<void> {
@@ -1554,6 +1984,12 @@ storage.updateMcpConnector = async function(id: string, updates: Partial<InsertM
   if (updateData.apiKey !== undefined) {
     updateData.apiKey = encryptApiKey(updateData.apiKey);
   }
+  if (updateData.oauthClientSecret !== undefined) {
+    updateData.oauthClientSecret = encryptApiKey(updateData.oauthClientSecret);
+  }
+  if (updateData.oauthRefreshToken !== undefined) {
+    updateData.oauthRefreshToken = encryptApiKey(updateData.oauthRefreshToken);
+  }
   
   await db.update(mcpConnectors)
     .set(updateData)
@@ -1604,6 +2040,7 @@ storage.createProject = async function(insertProject: InsertProject): Promise<Pr
       businessCaseId: insertProject.businessCaseId || null,
       generatedRftId: insertProject.generatedRftId || null,
       status: insertProject.status || "analyzing",
+      scoringConfig: insertProject.scoringConfig || null,
     })
     .returning();
   return created[0]!;
@@ -1628,6 +2065,12 @@ storage.updateProjectStatus = async function(id: string, status: string): Promis
     .where(eq(projects.id, id));
 };
 
+storage.updateProjectScoringConfig = async function(id: string, scoringConfig: ScoringConfig | null): Promise<void> {
+  await db.update(projects)
+    .set({ scoringConfig })
+    .where(eq(projects.id, id));
+};
+
 storage.deleteProject = async function(id: string): Promise<void> {
   await db.delete(projects).where(eq(projects.id, id));
 };
@@ -1700,6 +2143,9 @@ storage.updateGeneratedRft = async function(id: string, updates: Partial<InsertG
 };
 
 storage.deleteGeneratedRft = async function(id: string): Promise<void> {
+  await db.delete(generatedRftRevisions).where(eq(generatedRftRevisions.rftId, id));
+  await db.delete(rftClarifications).where(eq(rftClarifications.rftId, id));
+  await db.delete(rftAddenda).where(eq(rftAddenda.rftId, id));
   await db.delete(generatedRfts).where(eq(generatedRfts.id, id));
 };
 
@@ -1764,10 +2210,32 @@ storage.getAllRftGenerationDrafts = async function(): Promise<RftGenerationDraft
 
 storage.updateRftGenerationDraft = async function(id: string, updates: Partial<InsertRftGenerationDraft>): Promise<void> {
   await db.update(rftGenerationDrafts)
-    .set(updates)
+    .set({ ...updates, updatedAt: new Date() })
     .where(eq(rftGenerationDrafts.id, id));
 };
 
+storage.modifyRftGenerationDraft = async function(
+  id: string,
+  modify: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+): Promise<RftGenerationDraft | undefined> {
+  return await db.transaction(async (tx) => {
+    const results = await tx.select().from(rftGenerationDrafts).where(eq(rftGenerationDrafts.id, id)).for("update");
+    const draft = results[0];
+    if (!draft) {
+      return undefined;
+    }
+    const updates = modify(draft);
+    if (!updates) {
+      return draft;
+    }
+    const updated = await tx.update(rftGenerationDrafts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(rftGenerationDrafts.id, id))
+      .returning();
+    return updated[0];
+  });
+};
+
 storage.deleteRftGenerationDraft = async function(id: string): Promise<void> {
   await db.delete(rftGenerationDrafts).where(eq(rftGenerationDrafts.id, id));
 };
@@ -1894,6 +2362,8 @@ storage.createEvaluation = async function(insertEvaluation: InsertEvaluation): P
       detailedScores: insertEvaluation.detailedScores || null,
       sectionCompliance: insertEvaluation.sectionCompliance || null,
       agentDiagnostics: insertEvaluation.agentDiagnostics || null,
+      agentResults: insertEvaluation.agentResults || null,
+      citations: insertEvaluation.citations || null,
     })
     .onConflictDoNothing({ target: evaluations.proposalId })
     .returning();
@@ -1942,6 +2412,64 @@ storage.deleteEvaluation = async function(id: string): Promise<void> {
   await db.delete(evaluations).where(eq(evaluations.id, id));
 };
 
+storage.createEvaluationRun = async function(run: InsertEvaluationRun): Promise<EvaluationRun> {
+  const created = await db.insert(evaluationRuns).values(run).returning();
+  return created[0]!;
+};
+
+storage.getEvaluationRun = async function(id: string): Promise<EvaluationRun | undefined> {
+  const results = await db.select().from(evaluationRuns).where(eq(evaluationRuns.id, id)).limit(1);
+  return results[0];
+};
+
+storage.getEvaluationRunByJob = async function(jobId: string): Promise<EvaluationRun | undefined> {
+  const results = await db.select().from(evaluationRuns).where(eq(evaluationRuns.jobId, jobId)).limit(1);
+  return results[0];
+};
+
+storage.getEvaluationRunsByProject = async function(projectId: string): Promise<EvaluationRun[]> {
+  return await db.select()
+    .from(evaluationRuns)
+    .where(eq(evaluationRuns.projectId, projectId))
+    .orderBy(desc(evaluationRuns.createdAt));
+};
+
+storage.updateEvaluationRun = async function(id: string, updates: Partial<InsertEvaluationRun>): Promise<void> {
+  await db.update(evaluationRuns)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(evaluationRuns.id, id));
+};
+
+// One checkpoint per run/vendor/agent: a re-run agent replaces its earlier outcome and counts an attempt
+storage.saveEvaluationAgentRun = async function(agentRun: InsertEvaluationAgentRun): Promise<EvaluationAgentRun> {
+  const saved = await db.insert(evaluationAgentRuns)
+    .values(agentRun)
+    .onConflictDoUpdate({
+      target: [evaluationAgentRuns.runId, evaluationAgentRuns.proposalId, evaluationAgentRuns.agentRole],
+      set: {
+        status: agentRun.status,
+        result: agentRun.result,
+        diagnostics: agentRun.diagnostics ?? null,
+        error: agentRun.error ?? null,
+        attempts: sql`${evaluationAgentRuns.attempts} + 1`,
+        completedAt: new Date(),
+      },
+    })
+    .returning();
+  return saved[0]!;
+};
+
+storage.getEvaluationAgentRuns = async function(runId: string, proposalId?: string): Promise<EvaluationAgentRun[]> {
+  const conditions = [eq(evaluationAgentRuns.runId, runId)];
+  if (proposalId) {
+    conditions.push(eq(evaluationAgentRuns.proposalId, proposalId));
+  }
+  return await db.select()
+    .from(evaluationAgentRuns)
+    .where(and(...conditions))
+    .orderBy(evaluationAgentRuns.createdAt);
+};
+
 // Override getPortfolioRftStats to use PostgreSQL
 storage.getPortfolioRftStats = async function(portfolioId: string): Promise<{
   totalRfts: number;
@@ -2024,3 +2552,409 @@ storage.deleteVendorStage = async function(id: string): Promise<void> {
 storage.getAllVendorStages = async function(): Promise<VendorShortlistingStage[]> {
   return await db.select().from(vendorShortlistingStages);
 };
+
+// Override evaluation criteria methods to use PostgreSQL (score overrides update them transactionally)
+storage.createEvaluationCriteria = async function(insertCriteria: InsertEvaluationCriteria): Promise<EvaluationCriteria> {
+  const created = await db.insert(evaluationCriteria)
+    .values(insertCriteria)
+    .returning();
+  return created[0]!;
+};
+
+storage.getEvaluationCriteriaByEvaluation = async function(evaluationId: string, role?: string): Promise<EvaluationCriteria[]> {
+  return await db.select()
+    .from(evaluationCriteria)
+    .where(role
+      ? and(eq(evaluationCriteria.evaluationId, evaluationId), eq(evaluationCriteria.role, role))
+      : eq(evaluationCriteria.evaluationId, evaluationId));
+};
+
+storage.getEvaluationCriterion = async function(id: string): Promise<EvaluationCriteria | undefined> {
+  const results = await db.select().from(evaluationCriteria).where(eq(evaluationCriteria.id, id));
+  return results[0];
+};
+
+storage.updateEvaluationCriteria = async function(id: string, updates: Partial<InsertEvaluationCriteria>): Promise<void> {
+  await db.update(evaluationCriteria)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(eq(evaluationCriteria.id, id));
+};
+
+storage.deleteEvaluationCriteria = async function(id: string): Promise<void> {
+  await db.delete(evaluationCriteria).where(eq(evaluationCriteria.id, id));
+};
+
+// Override score override (audit trail) methods to use PostgreSQL
+storage.applyScoreOverride = async function(
+  criterionId: string,
+  criterionUpdates: Pick<InsertEvaluationCriteria, "score" | "scoreLabel">,
+  evaluationUpdates: Partial<InsertEvaluation> | null,
+  override: InsertScoreOverride
+): Promise<ScoreOverride> {
+  return await db.transaction(async (tx) => {
+    await tx.update(evaluationCriteria)
+      .set({ ...criterionUpdates, updatedAt: new Date() })
+      .where(eq(evaluationCriteria.id, criterionId));
+    if (evaluationUpdates) {
+      await tx.update(evaluations)
+        .set(evaluationUpdates)
+        .where(eq(evaluations.id, override.evaluationId));
+    }
+    const created = await tx.insert(scoreOverrides)
+      .values(override)
+      .returning();
+    return created[0]!;
+  });
+};
+
+storage.createScoreOverride = async function(insertOverride: InsertScoreOverride): Promise<ScoreOverride> {
+  const created = await db.insert(scoreOverrides)
+    .values(insertOverride)
+    .returning();
+  return created[0]!;
+};
+
+storage.getScoreOverridesByEvaluation = async function(evaluationId: string): Promise<ScoreOverride[]> {
+  return await db.select()
+    .from(scoreOverrides)
+    .where(eq(scoreOverrides.evaluationId, evaluationId))
+    .orderBy(desc(scoreOverrides.createdAt));
+};
+
+storage.getScoreOverridesByProject = async function(projectId: string): Promise<ScoreOverride[]> {
+  return await db.select()
+    .from(scoreOverrides)
+    .where(eq(scoreOverrides.projectId, projectId))
+    .orderBy(desc(scoreOverrides.createdAt));
+};
+
+// Override user (authentication) methods to use PostgreSQL
+storage.getUser = async function(id: string): Promise<User | undefined> {
+  const results = await db.select().from(users).where(eq(users.id, id));
+  return results[0];
+};
+
+storage.getUserByUsername = async function(username: string): Promise<User | undefined> {
+  const results = await db.select().from(users).where(eq(users.username, username.toLowerCase()));
+  return results[0];
+};
+
+storage.getAllUsers = async function(): Promise<User[]> {
+  return await db.select().from(users).orderBy(users.username);
+};
+
+storage.countUsers = async function(): Promise<number> {
+  const result = await db.select({ value: count() }).from(users);
+  return Number(result[0]?.value ?? 0);
+};
+
+storage.createUser = async function(insertUser: InsertUser): Promise<User> {
+  const created = await db.insert(users)
+    .values({ ...insertUser, username: insertUser.username.toLowerCase() })
+    .returning();
+  return created[0]!;
+};
+
+storage.createFirstUser = async function(insertUser: InsertUser): Promise<User | null> {
+  return await db.transaction(async (tx) => {
+    // Serializes first-run registrations: the second one sees the first account and is refused
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('users:first-account'))`);
+    const existing = await tx.select({ value: count() }).from(users);
+    if (Number(existing[0]?.value ?? 0) > 0) {
+      return null;
+    }
+    const created = await tx.insert(users)
+      .values({ ...insertUser, username: insertUser.username.toLowerCase() })
+      .returning();
+    return created[0]!;
+  });
+};
+
+storage.updateUser = async function(id: string, updates: Partial<InsertUser> & { lastLoginAt?: Date }): Promise<User | undefined> {
+  const updated = await db.update(users)
+    .set(updates)
+    .where(eq(users.id, id))
+    .returning();
+  return updated[0];
+};
+
+// Override draft section comment methods to use PostgreSQL
+storage.createDraftComment = async function(insertComment: InsertDraftSectionComment): Promise<DraftSectionComment> {
+  const created = await db.insert(draftSectionComments)
+    .values(insertComment)
+    .returning();
+  return created[0]!;
+};
+
+storage.getDraftComment = async function(id: string): Promise<DraftSectionComment | undefined> {
+  const results = await db.select().from(draftSectionComments).where(eq(draftSectionComments.id, id));
+  return results[0];
+};
+
+storage.getDraftCommentsByDraft = async function(draftId: string): Promise<DraftSectionComment[]> {
+  return await db.select()
+    .from(draftSectionComments)
+    .where(eq(draftSectionComments.draftId, draftId))
+    .orderBy(draftSectionComments.createdAt);
+};
+
+storage.updateDraftComment = async function(id: string, updates: Partial<InsertDraftSectionComment>): Promise<DraftSectionComment | undefined> {
+  const updated = await db.update(draftSectionComments)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(eq(draftSectionComments.id, id))
+    .returning();
+  return updated[0];
+};
+
+storage.decideDraftSuggestion = async function(
+  id: string,
+  updates: Partial<InsertDraftSectionComment>,
+  modifyDraft?: (draft: RftGenerationDraft) => Partial<InsertRftGenerationDraft> | null
+): Promise<{ suggestion: DraftSectionComment; draft?: RftGenerationDraft } | undefined> {
+  return await db.transaction(async (tx) => {
+    const comments = await tx.select().from(draftSectionComments).where(eq(draftSectionComments.id, id));
+    const comment = comments[0];
+    if (!comment) {
+      return undefined;
+    }
+
+    // Lock the draft before deciding, so a concurrent decision waits and then sees this one
+    let draftUpdates: Partial<InsertRftGenerationDraft> | null = null;
+    if (modifyDraft) {
+      const drafts = await tx.select().from(rftGenerationDrafts).where(eq(rftGenerationDrafts.id, comment.draftId)).for("update");
+      if (!drafts[0]) {
+        return undefined;
+      }
+      draftUpdates = modifyDraft(drafts[0]);
+      if (!draftUpdates) {
+        return undefined;
+      }
+    }
+
+    const decided = await tx.update(draftSectionComments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(draftSectionComments.id, id), eq(draftSectionComments.suggestionStatus, "open")))
+      .returning();
+    if (decided.length === 0) {
+      return undefined;
+    }
+    if (!draftUpdates) {
+      return { suggestion: decided[0] };
+    }
+
+    const updatedDrafts = await tx.update(rftGenerationDrafts)
+      .set({ ...draftUpdates, updatedAt: new Date() })
+      .where(eq(rftGenerationDrafts.id, comment.draftId))
+      .returning();
+    return { suggestion: decided[0], draft: updatedDrafts[0] };
+  });
+};
+
+// Override generated RFT revision methods to use PostgreSQL
+storage.createGeneratedRftRevision = async function(insertRevision: InsertGeneratedRftRevision): Promise<GeneratedRftRevision> {
+  const created = await db.insert(generatedRftRevisions)
+    .values(insertRevision)
+    .returning();
+  return created[0]!;
+};
+
+storage.saveGeneratedRftRevision = async function(
+  insertRevision: InsertGeneratedRftRevision,
+  rftUpdates: Partial<InsertGeneratedRft>
+): Promise<GeneratedRftRevision> {
+  return await db.transaction(async (tx) => {
+    const created = await tx.insert(generatedRftRevisions)
+      .values(insertRevision)
+      .returning();
+    await tx.update(generatedRfts)
+      .set(rftUpdates)
+      .where(eq(generatedRfts.id, insertRevision.rftId));
+    return created[0]!;
+  });
+};
+
+storage.getGeneratedRftRevisions = async function(rftId: string): Promise<GeneratedRftRevision[]> {
+  return await db.select()
+    .from(generatedRftRevisions)
+    .where(eq(generatedRftRevisions.rftId, rftId))
+    .orderBy(desc(generatedRftRevisions.version));
+};
+
+storage.getGeneratedRftRevision = async function(rftId: string, version: number): Promise<GeneratedRftRevision | undefined> {
+  const results = await db.select()
+    .from(generatedRftRevisions)
+    .where(and(eq(generatedRftRevisions.rftId, rftId), eq(generatedRftRevisions.version, version)));
+  return results[0];
+};
+
+// Override RFT clarification and addendum methods to use PostgreSQL
+storage.createRftClarification = async function(insertClarification: InsertRftClarification): Promise<RftClarification> {
+  const created = await db.insert(rftClarifications)
+    .values(insertClarification)
+    .returning();
+  return created[0]!;
+};
+
+storage.getRftClarification = async function(id: string): Promise<RftClarification | undefined> {
+  const results = await db.select().from(rftClarifications).where(eq(rftClarifications.id, id));
+  return results[0];
+};
+
+storage.getRftClarificationsByRft = async function(rftId: string): Promise<RftClarification[]> {
+  return await db.select()
+    .from(rftClarifications)
+    .where(eq(rftClarifications.rftId, rftId))
+    .orderBy(rftClarifications.createdAt);
+};
+
+storage.updateRftClarification = async function(id: string, updates: Partial<InsertRftClarification>): Promise<RftClarification | undefined> {
+  const updated = await db.update(rftClarifications)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(eq(rftClarifications.id, id))
+    .returning();
+  return updated[0];
+};
+
+storage.publishRftAddendum = async function(insertAddendum: InsertRftAddendum): Promise<RftAddendum | undefined> {
+  const clarificationIds = insertAddendum.clarificationIds as string[];
+  try {
+    return await db.transaction(async (tx) => {
+      const created = await tx.insert(rftAddenda)
+        .values(insertAddendum)
+        .returning();
+      if (clarificationIds.length > 0) {
+        const issued = await tx.update(rftClarifications)
+          .set({ status: "published", addendumId: created[0]!.id, updatedAt: new Date() })
+          .where(and(inArray(rftClarifications.id, clarificationIds), eq(rftClarifications.status, "answered")))
+          .returning({ id: rftClarifications.id });
+        if (issued.length < clarificationIds.length) {
+          tx.rollback();
+        }
+      }
+      return created[0]!;
+    });
+  } catch (error) {
+    if (error instanceof TransactionRollbackError) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+storage.getRftAddendaByRft = async function(rftId: string): Promise<RftAddendum[]> {
+  return await db.select()
+    .from(rftAddenda)
+    .where(eq(rftAddenda.rftId, rftId))
+    .orderBy(rftAddenda.number);
+};
+
+storage.getRftAddendaByProject = async function(projectId: string): Promise<RftAddendum[]> {
+  return await db.select()
+    .from(rftAddenda)
+    .where(eq(rftAddenda.projectId, projectId))
+    .orderBy(rftAddenda.publishedAt);
+};
+
+// Override chat session, message and feedback methods to use PostgreSQL
+storage.createChatSession = async function(insertSession: InsertChatSession): Promise<ChatSession> {
+  const created = await db.insert(chatSessions)
+    .values(insertSession)
+    .returning();
+  return created[0]!;
+};
+
+storage.getChatSession = async function(id: string): Promise<ChatSession | undefined> {
+  const results = await db.select().from(chatSessions).where(eq(chatSessions.id, id));
+  return results[0];
+};
+
+storage.getChatSessionsByProject = async function(projectId: string): Promise<ChatSession[]> {
+  return await db.select()
+    .from(chatSessions)
+    .where(eq(chatSessions.projectId, projectId))
+    .orderBy(desc(chatSessions.updatedAt));
+};
+
+storage.getKnowledgeBaseChatSessionsByUser = async function(userId: string): Promise<ChatSession[]> {
+  return await db.select()
+    .from(chatSessions)
+    .where(and(isNull(chatSessions.projectId), eq(chatSessions.userId, userId)))
+    .orderBy(desc(chatSessions.updatedAt));
+};
+
+storage.updateChatSession = async function(id: string, updates: Partial<InsertChatSession>): Promise<void> {
+  await db.update(chatSessions)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(eq(chatSessions.id, id));
+};
+
+storage.deleteChatSession = async function(id: string): Promise<void> {
+  await db.delete(chatMessageFeedback).where(eq(chatMessageFeedback.sessionId, id));
+  await db.delete(chatMessages).where(eq(chatMessages.sessionId, id));
+  await db.delete(chatSessions).where(eq(chatSessions.id, id));
+};
+
+storage.createChatMessage = async function(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+  const created = await db.insert(chatMessages)
+    .values(insertMessage)
+    .returning();
+  return created[0]!;
+};
+
+storage.getChatMessage = async function(id: string): Promise<ChatMessage | undefined> {
+  const results = await db.select().from(chatMessages).where(eq(chatMessages.id, id));
+  return results[0];
+};
+
+storage.getChatMessagesBySession = async function(sessionId: string): Promise<ChatMessage[]> {
+  return await db.select()
+    .from(chatMessages)
+    .where(eq(chatMessages.sessionId, sessionId))
+    .orderBy(chatMessages.createdAt);
+};
+
+storage.deleteChatMessage = async function(id: string): Promise<void> {
+  await db.delete(chatMessageFeedback).where(eq(chatMessageFeedback.messageId, id));
+  await db.delete(chatMessages).where(eq(chatMessages.id, id));
+};
+
+storage.upsertChatMessageFeedback = async function(feedback: InsertChatMessageFeedback): Promise<ChatMessageFeedback> {
+  const saved = await db.insert(chatMessageFeedback)
+    .values(feedback)
+    .onConflictDoUpdate({
+      target: [chatMessageFeedback.messageId, chatMessageFeedback.userId],
+      set: {
+        rating: feedback.rating,
+        reason: feedback.reason ?? null,
+        comment: feedback.comment ?? null,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+  return saved[0]!;
+};
+
+storage.getChatMessageFeedbackBySession = async function(sessionId: string): Promise<ChatMessageFeedback[]> {
+  return await db.select()
+    .from(chatMessageFeedback)
+    .where(eq(chatMessageFeedback.sessionId, sessionId))
+    .orderBy(chatMessageFeedback.createdAt);
+};
+
+storage.getAllChatMessageFeedback = async function(): Promise<ChatMessageFeedback[]> {
+  return await db.select()
+    .from(chatMessageFeedback)
+    .orderBy(desc(chatMessageFeedback.createdAt));
+};
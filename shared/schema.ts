@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, numeric, index, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, jsonb, timestamp, boolean, numeric, index, unique, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,6 +10,17 @@ export const portfolios = pgTable("portfolios", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(), // scrypt "hash.salt"
+  displayName: text("display_name").notNull(),
+  role: text("role").notNull(), // 'admin' or a stakeholder role id (see userRoles)
+  isActive: boolean("is_active").notNull().default(true),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const standards = pgTable("standards", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -32,6 +43,9 @@ export const mcpConnectors = pgTable("mcp_connectors", {
   apiKey: text("api_key"),
   connectorType: text("connector_type").notNull().default("rest"), // 'rest', 'graphql', 'websocket'
   authType: text("auth_type").notNull().default("bearer"), // 'bearer', 'basic', 'apikey', 'oauth2'
+  // OAuth2 secrets, encrypted like api_key; token URL, client ID and scope live in config.oauth
+  oauthClientSecret: text("oauth_client_secret"),
+  oauthRefreshToken: text("oauth_refresh_token"),
   roleMapping: text("role_mapping").array(), // Which agent roles can use this connector: 'delivery', 'product', 'architecture', 'engineering', 'procurement', 'security'
   config: jsonb("config"),
   isActive: text("is_active").notNull().default("true"),
@@ -58,6 +72,7 @@ export const projects = pgTable("projects", {
   businessCaseId: varchar("business_case_id"), // Link to business case document
   generatedRftId: varchar("generated_rft_id"), // Link to generated RFT
   status: text("status").notNull().default("analyzing"),
+  scoringConfig: jsonb("scoring_config"), // ScoringConfig: role weights, dimension weights, consensus rules (null = defaults)
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -106,6 +121,8 @@ export const evaluations = pgTable("evaluations", {
   detailedScores: jsonb("detailed_scores"),
   sectionCompliance: jsonb("section_compliance"),
   agentDiagnostics: jsonb("agent_diagnostics"), // Multiagent execution diagnostics
+  agentResults: jsonb("agent_results"), // Raw per-agent outputs (scores, insights, rationale, status) for re-aggregation
+  citations: jsonb("citations"), // EvaluationCitation[]: proposal evidence backing agent insights and scores
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -163,6 +180,27 @@ export const evaluationCriteria = pgTable("evaluation_criteria", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Audit trail of human score overrides on evaluation criteria
+export const scoreOverrides = pgTable("score_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull(),
+  evaluationId: varchar("evaluation_id").notNull(),
+  criterionId: varchar("criterion_id").notNull(),
+  role: text("role").notNull(),
+  section: text("section").notNull(),
+  question: text("question").notNull(),
+  previousScore: integer("previous_score").notNull(),
+  newScore: integer("new_score").notNull(),
+  previousScoreLabel: text("previous_score_label").notNull(),
+  newScoreLabel: text("new_score_label").notNull(),
+  previousOverallScore: integer("previous_overall_score"), // Parent evaluation score before recalculation
+  newOverallScore: integer("new_overall_score"), // Parent evaluation score after recalculation
+  reviewerName: text("reviewer_name").notNull(),
+  reviewerId: varchar("reviewer_id"), // Optional link to an authenticated user
+  justification: text("justification").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const ragDocuments = pgTable("rag_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sourceType: text("source_type").notNull(), // 'standard', 'proposal', 'requirement', 'confluence', 'sharepoint'
@@ -174,7 +212,12 @@ export const ragDocuments = pgTable("rag_documents", {
   searchDocId: text("search_doc_id"), // Azure AI Search document ID
   indexName: text("index_name").notNull().default("intellibid-rag"),
   totalChunks: integer("total_chunks").notNull().default(0),
-  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'indexed', 'failed'
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'indexed', 'stale', 'reindexing', 'failed'
+  contentHash: text("content_hash"), // SHA-256 of the source file when it was last indexed
+  chunkerVersion: integer("chunker_version"), // CHUNKER_VERSION the chunks were produced with
+  embeddingVersion: text("embedding_version"), // "<vector store>/<embedding provider>[/<dimensions>]" holding the chunk vectors
+  progress: jsonb("progress"), // Last (re-)index run: { totalChunks, processedChunks, reusedChunks, embeddedChunks, removedChunks }
+  lastIndexedAt: timestamp("last_indexed_at"),
   metadata: jsonb("metadata"), // Custom metadata (tags, vendor, project, etc.)
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
@@ -186,14 +229,16 @@ export const ragChunks = pgTable("rag_chunks", {
   chunkIndex: integer("chunk_index").notNull(), // 0-based index in the document
   content: text("content").notNull(),
   tokenCount: integer("token_count").notNull(),
-  searchChunkId: text("search_chunk_id"), // Azure AI Search chunk ID
+  contentHash: text("content_hash"), // SHA-256 of content; unchanged chunks keep their embedding on re-index
+  searchChunkId: text("search_chunk_id"), // Vector store chunk ID
   metadata: jsonb("metadata"), // Section title, page number, etc.
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const chatSessions = pgTable("chat_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  projectId: varchar("project_id").notNull(), // Scoped to a project
+  projectId: varchar("project_id"), // Scoped to a project; null for knowledge base chatbot sessions
+  userId: varchar("user_id"), // Owner; knowledge base sessions are private to their user
   title: text("title"), // Auto-generated summary of conversation
   metadata: jsonb("metadata"), // User preferences, context filters
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -210,6 +255,21 @@ export const chatMessages = pgTable("chat_messages", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Thumbs up/down on assistant messages, kept for retrieval-quality analysis (one rating per user per message)
+export const chatMessageFeedback = pgTable("chat_message_feedback", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull(), // References chatMessages.id (assistant message)
+  sessionId: varchar("session_id").notNull(), // References chatSessions.id
+  userId: varchar("user_id").notNull(),
+  rating: text("rating").notNull(), // 'up' or 'down'
+  reason: text("reason"), // 'wrong_source', 'incomplete', 'incorrect', 'not_in_kb', 'other'
+  comment: text("comment"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueMessageUser: unique().on(table.messageId, table.userId),
+}));
+
 export const complianceGaps = pgTable("compliance_gaps", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull(),
@@ -327,6 +387,58 @@ export const generatedRfts = pgTable("generated_rfts", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Immutable snapshots of a generated RFT; revision N holds the RFT exactly as it was at version N
+export const generatedRftRevisions = pgTable("generated_rft_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rftId: varchar("rft_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  sections: jsonb("sections").notNull(), // Same shape as generatedRfts.sections
+  changeType: text("change_type").notNull(), // 'initial', 'edited', 'section_regenerated', 'restored'
+  changedSectionIds: jsonb("changed_section_ids"), // string[] of sections that differ from the previous revision
+  restoredFromVersion: integer("restored_from_version"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueRftVersion: unique().on(table.rftId, table.version),
+}));
+
+// Vendor clarification questions raised after an RFT is published; answers go out in addenda
+export const rftClarifications = pgTable("rft_clarifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rftId: varchar("rft_id").notNull(),
+  projectId: varchar("project_id").notNull(),
+  vendorName: text("vendor_name").notNull(), // Kept internal; addenda do not disclose who asked
+  question: text("question").notNull(),
+  sectionId: text("section_id"), // RFT section the question refers to, if any
+  answer: text("answer"),
+  answerSource: text("answer_source"), // 'manual' or 'ai_assisted'
+  answerReferences: jsonb("answer_references"), // [{type: "rft_section" | "standard", label: "...", sectionId?: "..."}] used by the AI draft
+  status: text("status").notNull().default("open"), // 'open', 'answered', 'published', 'withdrawn'
+  addendumId: varchar("addendum_id"), // Set once the answer is published in an addendum
+  answeredBy: text("answered_by"),
+  answeredAt: timestamp("answered_at"),
+  createdBy: text("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Numbered addenda issued to all vendors; content is frozen at publication
+export const rftAddenda = pgTable("rft_addenda", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rftId: varchar("rft_id").notNull(),
+  projectId: varchar("project_id").notNull(),
+  number: integer("number").notNull(), // 1, 2, 3... per RFT
+  title: text("title").notNull(),
+  notes: text("notes"), // Free-text changes or instructions issued alongside the Q&A
+  content: text("content").notNull(), // Compiled markdown (notes + clarification Q&A)
+  clarificationIds: jsonb("clarification_ids").notNull(), // string[]
+  publishedBy: text("published_by").notNull(),
+  publishedAt: timestamp("published_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueRftNumber: unique().on(table.rftId, table.number),
+}));
+
 export const organizationTemplates = pgTable("organization_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -359,6 +471,103 @@ export const rftGenerationDrafts = pgTable("rft_generation_drafts", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Review threads on RFT draft sections. Root rows (parentId null) open a thread anchored to a
+// character range of the section's markdown; replies carry parentId and no anchor.
+export const draftSectionComments = pgTable("draft_section_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  draftId: varchar("draft_id").notNull(),
+  sectionId: text("section_id").notNull(),
+  parentId: varchar("parent_id"), // Thread root ID for replies
+  kind: text("kind").notNull().default("comment"), // 'comment' or 'suggestion' (roots only)
+  body: text("body").notNull(),
+  anchorStart: integer("anchor_start"), // Offsets into section content at the time of commenting
+  anchorEnd: integer("anchor_end"),
+  anchorText: text("anchor_text"), // Quoted text, used to re-locate the anchor after edits
+  suggestedText: text("suggested_text"), // Replacement for the anchored text (suggestions only)
+  suggestionStatus: text("suggestion_status"), // 'open', 'accepted', 'rejected' (suggestions only)
+  resolved: boolean("resolved").notNull().default(false),
+  resolvedBy: text("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  authorId: varchar("author_id").notNull(),
+  authorName: text("author_name").notNull(),
+  authorRole: text("author_role").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  draftSectionIdx: index("draft_section_comments_draft_section_idx").on(table.draftId, table.sectionId),
+}));
+
+// Background job queue for long-running AI work (evaluations, RFT packs, mock data, RAG ingestion).
+// Workers claim queued rows with FOR UPDATE SKIP LOCKED, so jobs survive restarts and are run once.
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // Handler name: 'project_evaluation', 'rft_pack', 'mock_data', 'document_ingestion', ...
+  status: text("status").notNull().default("queued"), // 'queued', 'running', 'completed', 'failed', 'cancelled'
+  payload: jsonb("payload").notNull(), // Handler input
+  result: jsonb("result"), // Handler output once completed
+  progress: jsonb("progress"), // Latest progress reported by the handler
+  error: text("error"), // Last attempt's error message
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not claimed before this time (retry backoff)
+  resourceId: varchar("resource_id"), // Record the job works on (project, draft, standard), for de-duplication and lookups
+  uniqueKey: varchar("unique_key"), // Resource of a job queued with unique: true; one queued or running job per type and key
+  createdBy: varchar("created_by"), // User who queued the job; null for system jobs
+  lockedBy: text("locked_by"), // Worker ID holding the job while running
+  lockedAt: timestamp("locked_at"), // Heartbeat; running jobs with an old heartbeat are recovered
+  cancelRequestedAt: timestamp("cancel_requested_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  claimIdx: index("jobs_status_run_at_idx").on(table.status, table.runAt),
+  typeResourceIdx: index("jobs_type_resource_idx").on(table.type, table.resourceId),
+  activeUniqueKeyIdx: uniqueIndex("jobs_active_unique_key_idx")
+    .on(table.type, table.uniqueKey)
+    .where(sql`status IN ('queued', 'running')`),
+  createdAtIdx: index("jobs_created_at_idx").on(table.createdAt.desc()),
+}));
+
+// One record per project evaluation run. Agent outcomes are checkpointed per vendor in
+// evaluation_agent_runs, so an interrupted or partially failed run resumes without re-running
+// agents that already succeeded.
+export const evaluationRuns = pgTable("evaluation_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull(),
+  jobId: varchar("job_id"), // Job that started the run (retries of that job resume the same run)
+  trigger: text("trigger").notNull(), // 'analysis' or 'evaluation'
+  status: text("status").notNull().default("running"), // 'running', 'completed', 'partial', 'failed', 'cancelled'
+  totalVendors: integer("total_vendors").notNull().default(0),
+  error: text("error"),
+  createdBy: varchar("created_by"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  projectIdx: index("evaluation_runs_project_idx").on(table.projectId, table.createdAt.desc()),
+  jobIdx: index("evaluation_runs_job_idx").on(table.jobId),
+}));
+
+// Per-vendor, per-agent checkpoint of an evaluation run; saved as soon as each agent finishes
+export const evaluationAgentRuns = pgTable("evaluation_agent_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  runId: varchar("run_id").notNull(), // References evaluationRuns.id
+  proposalId: varchar("proposal_id").notNull(),
+  vendorName: text("vendor_name").notNull(),
+  agentRole: text("agent_role").notNull(), // 'delivery', 'product', 'architecture', 'engineering', 'procurement', 'security'
+  status: text("status").notNull(), // 'succeeded' or 'failed' (failed rows hold the fallback insights)
+  attempts: integer("attempts").notNull().default(1),
+  result: jsonb("result").notNull(), // AgentResult, reused as-is when the run resumes
+  diagnostics: jsonb("diagnostics"), // AgentDiagnostics of the latest attempt
+  error: text("error"),
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueRunProposalAgent: unique().on(table.runId, table.proposalId, table.agentRole),
+}));
+
 // Document categories for Knowledge Base (aligned with AI agent roles)
 export const documentCategories = [
   "delivery",
@@ -373,6 +582,120 @@ export const documentCategories = [
 export const documentCategorySchema = z.enum(documentCategories);
 export type DocumentCategory = z.infer<typeof documentCategorySchema>;
 
+// RFT review stakeholder roles (ids match STAKEHOLDER_ROLES in server/services/rft/stakeholderConfig.ts)
+export const stakeholderRoleIds = [
+  "technical_pm",
+  "solution_architect",
+  "cybersecurity_analyst",
+  "engineering_lead",
+  "procurement_specialist",
+  "product_owner",
+  "compliance_officer",
+] as const;
+
+export type StakeholderRoleId = typeof stakeholderRoleIds[number];
+
+// User account roles: every stakeholder role plus the platform administrator
+export const userRoles = ["admin", ...stakeholderRoleIds] as const;
+
+export const userRoleSchema = z.enum(userRoles);
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+export const userRoleLabels: Record<UserRole, string> = {
+  admin: "Administrator",
+  technical_pm: "Technical PM",
+  solution_architect: "Solution Architect",
+  cybersecurity_analyst: "Cybersecurity Analyst",
+  engineering_lead: "Engineering Lead",
+  procurement_specialist: "Procurement Specialist",
+  product_owner: "Product Owner",
+  compliance_officer: "Compliance Officer",
+};
+
+// Multi-agent evaluator roles (one agent per role)
+export const agentRoles = [
+  "delivery",
+  "product",
+  "architecture",
+  "engineering",
+  "procurement",
+  "security",
+] as const;
+
+export const agentRoleSchema = z.enum(agentRoles);
+export type AgentRoleName = z.infer<typeof agentRoleSchema>;
+
+// Per-project scoring model used when aggregating agent results into an evaluation
+const scoringWeight = z.number().min(0).max(10);
+
+export const scoringConfigSchema = z.object({
+  // Relative weight of each agent when averaging scores (0 excludes the agent)
+  roleWeights: z.object({
+    delivery: scoringWeight,
+    product: scoringWeight,
+    architecture: scoringWeight,
+    engineering: scoringWeight,
+    procurement: scoringWeight,
+    security: scoringWeight,
+  }),
+  // Blend used for overallScore: agents' own overall score plus the dimension scores
+  // (deliveryRisk is inverted, i.e. 100 - risk, before blending)
+  dimensionWeights: z.object({
+    agentOverall: scoringWeight,
+    functionalFit: scoringWeight,
+    technicalFit: scoringWeight,
+    deliveryRisk: scoringWeight,
+    compliance: scoringWeight,
+  }),
+  // Status consensus on a 6-vote scale (role weights are normalised so all agents sum to 6)
+  consensus: z.object({
+    riskFlaggedMinVotes: z.number().min(1).max(6),
+    recommendedMinVotes: z.number().min(1).max(6),
+    vetoRoles: z.array(agentRoleSchema), // A risk-flag from any of these roles flags the vendor
+  }),
+});
+
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>;
+
+// Defaults reproduce the original equal-weight aggregation (risk-flagged > 2 votes, recommended > 3 votes)
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  roleWeights: {
+    delivery: 1,
+    product: 1,
+    architecture: 1,
+    engineering: 1,
+    procurement: 1,
+    security: 1,
+  },
+  dimensionWeights: {
+    agentOverall: 1,
+    functionalFit: 0,
+    technicalFit: 0,
+    deliveryRisk: 0,
+    compliance: 0,
+  },
+  consensus: {
+    riskFlaggedMinVotes: 3,
+    recommendedMinVotes: 4,
+    vetoRoles: [],
+  },
+};
+
+// Evidence citation from an agent back to the vendor proposal text
+export const evaluationCitationSchema = z.object({
+  role: agentRoleSchema,
+  proposalId: z.string(),
+  sectionId: z.string(), // Evidence section id shown to the agent (e.g. "S3")
+  sectionTitle: z.string().optional(),
+  anchor: z.string().optional(), // Parser anchor: page, heading or sheet range
+  quote: z.string(),
+  supports: z.string(), // The insight or score the quote backs
+  verified: z.boolean(), // Quote was found in the cited section text
+});
+
+export type EvaluationCitation = z.infer<typeof evaluationCitationSchema>;
+export type AgentCitation = Omit<EvaluationCitation, "proposalId">;
+
 export const insertStandardSchema = createInsertSchema(standards).omit({
   id: true,
   createdAt: true,
@@ -422,6 +745,55 @@ export const insertEvaluationCriteriaSchema = createInsertSchema(evaluationCrite
   updatedAt: true,
 });
 
+export const insertScoreOverrideSchema = createInsertSchema(scoreOverrides).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Request body for overriding a criterion score (justification is mandatory for the audit trail;
+// the reviewer is the signed-in user)
+export const criterionOverrideSchema = z.object({
+  score: z.number().int().min(0).max(100),
+  scoreLabel: z.string().min(1),
+  justification: z.string().trim().min(10, "Justification must be at least 10 characters"),
+});
+
+export type CriterionOverride = z.infer<typeof criterionOverrideSchema>;
+
+// Request body for rejecting an RFT draft section back to its author
+export const sectionRejectionSchema = z.object({
+  comments: z.string().trim().min(5, "Comments must explain what needs to change"),
+  regenerate: z.boolean().default(true), // Redraft the section with AI, using the comments as feedback
+});
+
+export type SectionRejection = z.infer<typeof sectionRejectionSchema>;
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+  lastLoginAt: true,
+}).extend({
+  role: userRoleSchema,
+});
+
+// Request bodies for account management (passwords are hashed server-side, never stored as given)
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  displayName: z.string().trim().min(1, "Display name is required"),
+  role: userRoleSchema,
+});
+
+export const updateUserSchema = z.object({
+  displayName: z.string().trim().min(1).optional(),
+  role: userRoleSchema.optional(),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
 export const insertRagDocumentSchema = createInsertSchema(ragDocuments).omit({
   id: true,
   createdAt: true,
@@ -444,6 +816,30 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   createdAt: true,
 });
 
+export const insertChatMessageFeedbackSchema = createInsertSchema(chatMessageFeedback).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const chatFeedbackReasons = ["wrong_source", "incomplete", "incorrect", "not_in_kb", "other"] as const;
+
+// Request bodies for knowledge base chatbot sessions
+export const createKbChatSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+export const renameKbChatSessionSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+// Request body for rating an assistant message
+export const chatMessageFeedbackSchema = z.object({
+  rating: z.enum(["up", "down"]),
+  reason: z.enum(chatFeedbackReasons).optional(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
 export const insertComplianceGapSchema = createInsertSchema(complianceGaps).omit({
   id: true,
   createdAt: true,
@@ -483,6 +879,53 @@ export const insertGeneratedRftSchema = createInsertSchema(generatedRfts).omit({
   updatedAt: true,
 });
 
+export const insertGeneratedRftRevisionSchema = createInsertSchema(generatedRftRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRftClarificationSchema = createInsertSchema(rftClarifications).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRftAddendumSchema = createInsertSchema(rftAddenda).omit({
+  id: true,
+  publishedAt: true,
+});
+
+// Request body for recording a vendor clarification question
+export const createClarificationSchema = z.object({
+  vendorName: z.string().trim().min(1, "Vendor name is required"),
+  question: z.string().trim().min(5, "Question is too short"),
+  sectionId: z.string().optional(),
+});
+
+export const updateClarificationSchema = z.object({
+  answer: z.string().trim().min(1).optional(),
+  status: z.enum(["open", "withdrawn"]).optional(),
+});
+
+// Request body for issuing an addendum from answered clarifications
+export const publishAddendumSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  notes: z.string().trim().optional(),
+  clarificationIds: z.array(z.string()).default([]),
+}).refine(data => data.clarificationIds.length > 0 || !!data.notes, {
+  message: "An addendum needs at least one answered clarification or notes",
+  path: ["clarificationIds"],
+});
+
+// LLM model routing (stored in system_config, category "llm_routing")
+export const llmProviderIds = ["azure-openai", "openai", "local"] as const;
+export const llmTasks = ["evaluation", "analysis", "generation", "chat", "summarization", "research", "mock_data", "retrieval"] as const;
+
+export const updateLlmRouteSchema = z.object({
+  provider: z.enum(llmProviderIds),
+  model: z.string().trim().min(1, "Model is required"),
+});
+
 export const insertVendorShortlistingStageSchema = createInsertSchema(vendorShortlistingStages).omit({
   id: true,
   createdAt: true,
@@ -506,6 +949,67 @@ export const insertRftGenerationDraftSchema = createInsertSchema(rftGenerationDr
   updatedAt: true,
 });
 
+export const insertDraftSectionCommentSchema = createInsertSchema(draftSectionComments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const jobStatuses = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const insertEvaluationRunSchema = createInsertSchema(evaluationRuns).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertEvaluationAgentRunSchema = createInsertSchema(evaluationAgentRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const evaluationRunStatuses = ["running", "completed", "partial", "failed", "cancelled"] as const;
+export type EvaluationRunStatus = typeof evaluationRunStatuses[number];
+
+// Request body for opening a comment thread; a suggestedText turns it into a suggested edit of the anchor
+export const createDraftCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty"),
+  anchor: z.object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    text: z.string().min(1),
+  }).refine(anchor => anchor.end > anchor.start, "Anchor end must be after start").optional(),
+  suggestedText: z.string().optional(),
+}).refine(data => data.suggestedText === undefined || !!data.anchor, {
+  message: "Suggested edits must be anchored to a text range",
+  path: ["anchor"],
+});
+
+export const draftCommentReplySchema = z.object({
+  body: z.string().trim().min(1, "Reply cannot be empty"),
+});
+
+export const resolveDraftCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export const suggestionDecisionSchema = z.object({
+  decision: z.enum(["accept", "reject"]),
+});
+
+export type CreateDraftComment = z.infer<typeof createDraftCommentSchema>;
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash">;
+
 export type InsertStandard = z.infer<typeof insertStandardSchema>;
 export type Standard = typeof standards.$inferSelect;
 
@@ -533,6 +1037,9 @@ export type Evaluation = typeof evaluations.$inferSelect;
 export type InsertEvaluationCriteria = z.infer<typeof insertEvaluationCriteriaSchema>;
 export type EvaluationCriteria = typeof evaluationCriteria.$inferSelect;
 
+export type InsertScoreOverride = z.infer<typeof insertScoreOverrideSchema>;
+export type ScoreOverride = typeof scoreOverrides.$inferSelect;
+
 export type InsertRagDocument = z.infer<typeof insertRagDocumentSchema>;
 export type RagDocument = typeof ragDocuments.$inferSelect;
 
@@ -545,6 +1052,9 @@ export type ChatSession = typeof chatSessions.$inferSelect;
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+export type InsertChatMessageFeedback = z.infer<typeof insertChatMessageFeedbackSchema>;
+export type ChatMessageFeedback = typeof chatMessageFeedback.$inferSelect;
+
 export type InsertComplianceGap = z.infer<typeof insertComplianceGapSchema>;
 export type ComplianceGap = typeof complianceGaps.$inferSelect;
 
@@ -565,6 +1075,12 @@ export type RftTemplate = typeof rftTemplates.$inferSelect;
 
 export type InsertGeneratedRft = z.infer<typeof insertGeneratedRftSchema>;
 export type GeneratedRft = typeof generatedRfts.$inferSelect;
+export type InsertGeneratedRftRevision = z.infer<typeof insertGeneratedRftRevisionSchema>;
+export type GeneratedRftRevision = typeof generatedRftRevisions.$inferSelect;
+export type InsertRftClarification = z.infer<typeof insertRftClarificationSchema>;
+export type RftClarification = typeof rftClarifications.$inferSelect;
+export type InsertRftAddendum = z.infer<typeof insertRftAddendumSchema>;
+export type RftAddendum = typeof rftAddenda.$inferSelect;
 
 export type InsertVendorShortlistingStage = z.infer<typeof insertVendorShortlistingStageSchema>;
 export type VendorShortlistingStage = typeof vendorShortlistingStages.$inferSelect;
@@ -577,3 +1093,15 @@ export type OrganizationTemplate = typeof organizationTemplates.$inferSelect;
 
 export type InsertRftGenerationDraft = z.infer<typeof insertRftGenerationDraftSchema>;
 export type RftGenerationDraft = typeof rftGenerationDrafts.$inferSelect;
+
+export type InsertDraftSectionComment = z.infer<typeof insertDraftSectionCommentSchema>;
+export type DraftSectionComment = typeof draftSectionComments.$inferSelect;
+
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
+
+export type InsertEvaluationRun = z.infer<typeof insertEvaluationRunSchema>;
+export type EvaluationRun = typeof evaluationRuns.$inferSelect;
+
+export type InsertEvaluationAgentRun = z.infer<typeof insertEvaluationAgentRunSchema>;
+export type EvaluationAgentRun = typeof evaluationAgentRuns.$inferSelect;